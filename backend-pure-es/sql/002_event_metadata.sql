@@ -0,0 +1,23 @@
+-- =============================================================================
+-- Event Triggers PoC — Event Envelope Metadata
+-- =============================================================================
+--
+-- Adds the envelope fields that aren't already covered by the events table:
+--   id          → global position (already there, BIGSERIAL)
+--   version     → stream version (already there)
+--   created_at  → recordedAt (already there)
+--   event_id    → stable, globally unique event identifier (new)
+--   correlation_id / causation_id / actor → tracing & audit (new, nullable)
+--
+-- gen_random_uuid() is built in since Postgres 13.
+--
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS event_id       UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE events ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS causation_id   TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS actor          TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_event_id ON events (event_id);
+
+-- Find everything one request set in motion
+CREATE INDEX IF NOT EXISTS idx_events_correlation_id ON events (correlation_id);
@@ -0,0 +1,24 @@
+-- =============================================================================
+-- Event Triggers PoC — Live Notifications
+-- =============================================================================
+--
+-- Announces every new event on the 'events_appended' channel, with its global
+-- position (events.id) as payload. Subscribers LISTEN on the channel and use
+-- it as a wake-up to read the log from their checkpoint.
+--
+-- NOTIFY is transactional: listeners are only told once the INSERT commits,
+-- so they never wake up for an event they can't see yet.
+--
+
+CREATE OR REPLACE FUNCTION notify_event_appended() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_notify('events_appended', NEW.id::text);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_appended ON events;
+
+CREATE TRIGGER events_appended
+    AFTER INSERT ON events
+    FOR EACH ROW EXECUTE FUNCTION notify_event_appended();
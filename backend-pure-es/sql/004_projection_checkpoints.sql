@@ -0,0 +1,14 @@
+-- =============================================================================
+-- Event Triggers PoC — Projection Checkpoints
+-- =============================================================================
+--
+-- One row per projection: the global position (events.id) of the last event
+-- it has applied. Updated in the same transaction as the projection's own
+-- tables, so a restart resumes exactly where the projection left off.
+--
+
+CREATE TABLE IF NOT EXISTS projection_checkpoints (
+    projection      TEXT PRIMARY KEY,
+    position        BIGINT NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
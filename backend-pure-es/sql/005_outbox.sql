@@ -0,0 +1,26 @@
+-- =============================================================================
+-- Event Triggers PoC — Email Outbox
+-- =============================================================================
+--
+-- Safety emails waiting to be delivered. Rows are inserted in the same
+-- transaction as the events that caused them, then picked up by the
+-- outbox dispatcher, which sends them through the real email adapter.
+--
+-- status: 'pending' until the email adapter accepts it, then 'sent'.
+-- attempts / last_error record failed deliveries (the row stays pending).
+--
+
+CREATE TABLE IF NOT EXISTS outbox (
+    id              BIGSERIAL PRIMARY KEY,
+    recipient       TEXT NOT NULL,
+    subject         TEXT NOT NULL,
+    body            TEXT NOT NULL,
+    status          TEXT NOT NULL DEFAULT 'pending',
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    last_error      TEXT,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at         TIMESTAMPTZ
+);
+
+-- The dispatcher's poll: oldest pending rows first
+CREATE INDEX IF NOT EXISTS idx_outbox_pending ON outbox (id) WHERE status = 'pending';
@@ -0,0 +1,15 @@
+-- =============================================================================
+-- Event Triggers PoC — Outbox Dead Letters
+-- =============================================================================
+--
+-- Emails the dispatcher gave up on get status = 'dead' (see 005_outbox.sql).
+-- They stay in the outbox table, with their last error, until an operator
+-- replays them (status back to 'pending', attempts reset).
+--
+-- dead_at: when the message was dead-lettered (NULL otherwise)
+--
+
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS dead_at TIMESTAMPTZ;
+
+-- The admin listing: dead letters, oldest first
+CREATE INDEX IF NOT EXISTS idx_outbox_dead ON outbox (id) WHERE status = 'dead';
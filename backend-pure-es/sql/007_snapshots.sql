@@ -0,0 +1,24 @@
+-- =============================================================================
+-- Event Triggers PoC — Aggregate Snapshots
+-- =============================================================================
+--
+-- Folded aggregate state at a given stream version, written every N events
+-- by the command handler. A cache over the events table: rows can be
+-- deleted at any time, loads just fold further back.
+--
+-- schema_version: version of the state encoding. Aggregates bump it when
+-- evolve (or the state shape) changes, and only read snapshots of their
+-- current version — older rows are simply ignored.
+--
+
+CREATE TABLE IF NOT EXISTS snapshots (
+    stream_id       TEXT NOT NULL,
+    version         INTEGER NOT NULL,
+    schema_version  INTEGER NOT NULL,
+    state           JSONB NOT NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (stream_id, version)
+);
+
+-- Latest snapshot of a stream for a schema version
+CREATE INDEX IF NOT EXISTS idx_snapshots_latest ON snapshots (stream_id, schema_version, version DESC);
@@ -0,0 +1,12 @@
+-- =============================================================================
+-- Event Triggers PoC — Event Schema Versions
+-- =============================================================================
+--
+-- schema_version: version of the payload's shape for its event_type.
+-- Written by the event store at append time; on load, payloads older than
+-- the current version are upcast before being decoded (see EventUpcasting.ts).
+--
+-- Existing rows predate versioning: they are all v1 (the DEFAULT).
+--
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
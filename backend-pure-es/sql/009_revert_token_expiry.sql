@@ -0,0 +1,17 @@
+-- =============================================================================
+-- Event Triggers PoC — Revert Token Expiry
+-- =============================================================================
+--
+-- issued_at: when the revert link was sent (the event's revertTokenIssuedAt).
+-- The expiry sweep deletes rows older than the configured TTL
+-- (see RevertTokenSweep.ts); decide rejects them regardless.
+--
+-- Existing rows predate expiry: they get the epoch, matching what the
+-- event upcasters assume for v1 events — so the first sweep clears them.
+-- The DEFAULT is dropped afterwards: new rows must say when they were issued.
+--
+
+ALTER TABLE revert_tokens ADD COLUMN IF NOT EXISTS issued_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+ALTER TABLE revert_tokens ALTER COLUMN issued_at DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_revert_tokens_issued_at ON revert_tokens (issued_at);
@@ -0,0 +1,28 @@
+-- =============================================================================
+-- Event Triggers PoC — Nickname History
+-- =============================================================================
+--
+-- A rename derives a new nickname; the old one must keep resolving to the
+-- same user (see NICKNAME HISTORY in Registry.ts). So a user now has many
+-- rows in `nicknames`, exactly one of them current.
+--
+-- user_names: the user's current name. FirstNameChanged / LastNameChanged
+-- carry only the half that changed; the projection needs both to derive
+-- the new nickname.
+--
+-- Existing rows are each their user's only nickname, hence current. Their
+-- user_names rows can only come from the events: run `pnpm rebuild-registry`
+-- after applying this migration.
+--
+
+ALTER TABLE nicknames DROP CONSTRAINT IF EXISTS nicknames_user_id_key;
+ALTER TABLE nicknames ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE nicknames ALTER COLUMN is_current DROP DEFAULT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nicknames_current ON nicknames (user_id) WHERE is_current;
+
+CREATE TABLE IF NOT EXISTS user_names (
+    user_id         TEXT PRIMARY KEY,
+    first_name      TEXT NOT NULL,
+    last_name       TEXT NOT NULL
+);
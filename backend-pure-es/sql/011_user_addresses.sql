@@ -0,0 +1,22 @@
+-- =============================================================================
+-- Event Triggers PoC — Every Address a User Ever Had
+-- =============================================================================
+--
+-- address_labels forgets an address once its creation is reverted; a past
+-- profile (GET /users/:nickname?asOf=...) may still need to show it. This
+-- table only grows (and is emptied by a Registry reset, like the others).
+--
+-- Backfilled from address_labels; addresses already gone from there only
+-- come back with `pnpm rebuild-registry`.
+--
+
+CREATE TABLE IF NOT EXISTS user_addresses (
+    user_id         TEXT NOT NULL,
+    address_id      TEXT PRIMARY KEY
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user_id ON user_addresses (user_id);
+
+INSERT INTO user_addresses (user_id, address_id)
+SELECT user_id, address_id FROM address_labels
+ON CONFLICT (address_id) DO NOTHING;
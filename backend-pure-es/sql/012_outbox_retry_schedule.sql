@@ -0,0 +1,18 @@
+-- =============================================================================
+-- Event Triggers PoC — Outbox Retry Schedule
+-- =============================================================================
+--
+-- Moves the dispatcher's retry state into the row, so a failed email waits
+-- for a later poll instead of a sleeping fiber (see 005_outbox.sql).
+--
+-- max_attempts:    failed attempts after which the row goes 'dead'
+-- next_attempt_at: the row isn't claimed before then — pushed back by the
+--                  retry backoff, and by each claim's lease so that two
+--                  dispatchers never send the same row at once
+--
+
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- The dispatcher's claim: due pending rows, oldest first
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox (next_attempt_at, id) WHERE status = 'pending';
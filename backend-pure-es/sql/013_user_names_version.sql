@@ -0,0 +1,28 @@
+-- =============================================================================
+-- Event Triggers PoC — Registry: last applied user event
+-- =============================================================================
+--
+-- User events are projected inline and again by the projection runner, which
+-- replays the log from the start on a fresh checkpoint. Without a version, an
+-- old UserCreated replayed after a rename would make the old nickname current
+-- again.
+--
+-- last_applied_version: stream version of the user event that set the name.
+-- The registry only updates the name from a newer event (see
+-- PostgresRegistry.ts). Backfilled from the latest name event of each user
+-- stream, so a replay right after this migration can't flip a name back.
+--
+
+ALTER TABLE user_names ADD COLUMN IF NOT EXISTS last_applied_version INTEGER NOT NULL DEFAULT 0;
+
+UPDATE user_names
+SET last_applied_version = latest.version
+FROM (
+    SELECT stream_id, MAX(version) AS version
+    FROM events
+    WHERE stream_type = 'user'
+      AND event_type IN ('UserCreated', 'FirstNameChanged', 'LastNameChanged')
+    GROUP BY stream_id
+) AS latest
+WHERE user_names.user_id = latest.stream_id
+  AND user_names.last_applied_version < latest.version;
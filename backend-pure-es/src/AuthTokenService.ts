@@ -0,0 +1,71 @@
+// =============================================================================
+// AuthTokenService — Port for minting and verifying login and session tokens
+// =============================================================================
+//
+// Two bearer credentials, one signing scheme:
+//   - a LOGIN token travels in the emailed link and is exchanged, once, for…
+//   - a SESSION token, which the client sends on every authenticated request
+//
+// Both are signed and self-describing, like revert tokens (see
+// RevertTokenService.ts): they name the user and a unique id, and verifying
+// one never touches storage. What the signature can't say — "this link was
+// already used", "this session was logged out" — the User aggregate does:
+// its events record every link issued and every session opened or closed.
+//
+// WHY A `kind` CLAIM?
+// The two tokens have the same shape. Without the kind inside the signed
+// payload, a login link's token could be replayed as a session token (and
+// would skip the one-time-use check). `verify` takes the kind it expects.
+//
+// SCALA ANALOGY: the same tagless-final signer algebra, with the token kind
+// as a phantom-ish parameter checked at runtime.
+//
+import { Context, type Effect } from "effect"
+import type { UserId } from "./domain/user/State.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuthTokenKind = "Login" | "Session"
+
+// What a token says about itself — readable only after its signature checks out.
+export interface AuthTokenClaims {
+  readonly kind: AuthTokenKind
+  readonly userId: UserId
+  readonly tokenId: string // Unique per token (from IdGenerator) — the SessionId for sessions
+  readonly issuedAt: Date
+}
+
+// The token isn't one we signed, or not for this purpose.
+// The reason is for logs — callers shouldn't tell the user which check failed.
+export type AuthTokenUnverified = {
+  readonly _tag: "AuthTokenUnverified"
+  readonly reason: "Malformed" | "UnknownKey" | "WrongKind" | "BadSignature"
+}
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface AuthTokenServiceInterface {
+  /**
+   * Sign the claims. Deterministic: the same claims and key give the same token.
+   */
+  readonly mint: (claims: AuthTokenClaims) => Effect.Effect<string>
+
+  /**
+   * Check the signature (constant-time) and that the token is of `kind`,
+   * then return its claims. Expiry is the caller's business — it knows the TTL.
+   */
+  readonly verify: (kind: AuthTokenKind, token: string) => Effect.Effect<AuthTokenClaims, AuthTokenUnverified>
+}
+
+// =============================================================================
+// AuthTokenService Tag
+// =============================================================================
+
+export class AuthTokenService extends Context.Tag("AuthTokenService")<
+  AuthTokenService,
+  AuthTokenServiceInterface
+>() {}
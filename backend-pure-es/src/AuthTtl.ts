@@ -0,0 +1,24 @@
+// =============================================================================
+// AuthTtl — How long login links and sessions stay valid
+// =============================================================================
+//
+// A login link is a short-lived credential sitting in an inbox: 15 minutes is
+// plenty to click it, and little for anyone who finds the email later. A
+// session lives longer — 7 days — and ends earlier if the user logs out.
+//
+// Context.References for the same reason as RevertTokenTtl: tests and scripts
+// get the defaults for free, Program.ts overrides them from LOGIN_LINK_TTL /
+// SESSION_TTL.
+//
+import { Context, Duration } from "effect"
+
+export const DEFAULT_LOGIN_LINK_TTL = Duration.minutes(15)
+export const DEFAULT_SESSION_TTL = Duration.days(7)
+
+export class LoginLinkTtl extends Context.Reference<LoginLinkTtl>()("LoginLinkTtl", {
+  defaultValue: (): Duration.Duration => DEFAULT_LOGIN_LINK_TTL
+}) {}
+
+export class SessionTtl extends Context.Reference<SessionTtl>()("SessionTtl", {
+  defaultValue: (): Duration.Duration => DEFAULT_SESSION_TTL
+}) {}
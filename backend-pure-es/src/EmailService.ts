@@ -18,12 +18,13 @@
 //   2. Create a Tag for dependency injection
 //   3. Consumers use `yield* EmailService` in Effect generators
 //
-import { Context, Effect } from "effect"
+import type { Effect } from "effect"
+import { Context } from "effect"
+import type { Email } from "./shared/Email.js"
 
 // Re-export Email from shared for convenience
 // Consumers can import { Email } from "./EmailService.js" or from "./shared/Email.js"
 export { Email } from "./shared/Email.js"
-import type { Email } from "./shared/Email.js"
 
 // Email content — what we need to send an email
 export interface EmailContent {
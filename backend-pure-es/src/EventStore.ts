@@ -31,8 +31,8 @@
 //   - Layer ≈ ZLayer — describes how to build a service from dependencies
 //   - Effect<A, E, R> ≈ ZIO[R, E, A] — R is the "environment" (required services)
 //
-import type { Effect } from "effect"
-import { Context } from "effect"
+import type { Queue, Scope } from "effect"
+import { Context, Effect, Ref, Schema, Stream } from "effect"
 
 // =============================================================================
 // Concrete Tags for Each Aggregate
@@ -58,8 +58,9 @@ import { Context } from "effect"
 //
 
 // Import event types (we'll need these for the concrete tags)
-import type { AddressEvent } from "./domain/address/Events.js"
-import type { UserEvent } from "./domain/user/Events.js"
+// and their Schemas (for DomainEvent below)
+import { AddressEvent } from "./domain/address/Events.js"
+import { UserEvent } from "./domain/user/Events.js"
 
 // =============================================================================
 // Stream ID (Value Object)
@@ -82,6 +83,54 @@ export type StreamId = string & { readonly _brand: unique symbol }
 // Helper to create StreamId (no validation for PoC — in production, validate non-empty)
 export const StreamId = (id: string): StreamId => id as StreamId
 
+// =============================================================================
+// Event Envelope (Metadata)
+// =============================================================================
+//
+// Domain events carry only domain facts ("city changed from X to Y").
+// Everything ABOUT the fact — when it was recorded, where it sits in the log,
+// which request caused it, who did it — lives in an envelope around it.
+//
+// WHY NOT PUT THIS IN THE EVENT ITSELF?
+// - decide/evolve stay pure: they never see timestamps or request ids
+// - The same event type works in tests (no clock) and production (real clock)
+// - The store assigns ids/versions/positions; callers can't forge them
+//
+// WHO SETS WHAT:
+//   Store-assigned:  eventId, streamId, version, position, recordedAt
+//   Caller-supplied: correlationId, causationId, actor (via EventMetadata)
+//
+// TRACING VOCABULARY:
+//   correlationId — shared by everything one request set in motion
+//   causationId   — the id of the thing (request or event) that directly caused this one
+//   actor         — who performed the action (user id, "system", ...)
+//
+
+export type EventId = string & { readonly _brand: unique symbol }
+
+export const EventId = (id: string): EventId => id as EventId
+
+// What a caller may attach on append (all optional)
+export type EventMetadata = {
+  readonly correlationId?: string
+  readonly causationId?: string
+  readonly actor?: string
+}
+
+export type EventEnvelope<E> = {
+  readonly eventId: EventId
+  readonly streamId: StreamId
+  // Position within the stream (1-based, gapless) — see ConcurrencyConflict
+  readonly version: number
+  // Position across ALL streams (commit order, increasing but not necessarily gapless)
+  readonly position: number
+  readonly recordedAt: Date
+  readonly correlationId: string | null
+  readonly causationId: string | null
+  readonly actor: string | null
+  readonly event: E
+}
+
 // =============================================================================
 // EventStore Errors
 // =============================================================================
@@ -103,7 +152,12 @@ export type StreamNotFound = {
 
 // ConcurrencyConflict: Optimistic concurrency check failed
 // (Another process appended events since we loaded — our decision was based on stale state)
-// For PoC, we might not implement optimistic concurrency, but the error type is ready.
+//
+// VERSIONING:
+// A stream's version is the number of events it holds (versions are 1-based and
+// gapless, so the last event's version == stream length). A caller that folded
+// N events passes expectedVersion = N; if the stream has moved on, the append is
+// rejected and nothing is written.
 export type ConcurrencyConflict = {
   readonly _tag: "ConcurrencyConflict"
   readonly streamId: StreamId
@@ -111,8 +165,19 @@ export type ConcurrencyConflict = {
   readonly actualVersion: number
 }
 
+// EventDecodeError: A stored event no longer matches its event Schema
+// (malformed row, legacy payload shape...). Names the exact event so it can
+// be found and repaired — instead of an anonymous crash later, in `evolve`.
+export type EventDecodeError = {
+  readonly _tag: "EventDecodeError"
+  readonly streamId: StreamId
+  readonly version: number
+  readonly eventType: string
+  readonly message: string
+}
+
 // EventStoreError: Union of all possible errors
-export type EventStoreError = StreamNotFound | ConcurrencyConflict
+export type EventStoreError = StreamNotFound | ConcurrencyConflict | EventDecodeError
 
 // =============================================================================
 // EventStore Service Definition
@@ -143,21 +208,45 @@ export interface EventStoreService<E> {
    *
    * For a new/non-existent stream, returns empty array (not an error).
    * This simplifies aggregate loading — fold over empty array = initial state.
+   *
+   * Fails with EventDecodeError if a stored event doesn't decode
+   * (only adapters that serialize events can fail this way).
+   *
+   * `afterVersion` (optional, default 0) skips the events up to and including
+   * that version — the tail to fold on top of a snapshot.
+   */
+  readonly load: (streamId: StreamId, afterVersion?: number) => Effect.Effect<ReadonlyArray<E>, EventDecodeError>
+
+  /**
+   * Load all events for a stream, wrapped in their envelopes.
+   *
+   * Same ordering, empty-stream and decoding behaviour as `load`, plus the
+   * metadata recorded at append time (ids, version, position, timestamp, tracing).
    */
-  readonly load: (streamId: StreamId) => Effect.Effect<ReadonlyArray<E>, never>
+  readonly loadEnvelopes: (streamId: StreamId) => Effect.Effect<ReadonlyArray<EventEnvelope<E>>, EventDecodeError>
 
   /**
    * Append events to a stream.
    *
    * Events are appended atomically — all or nothing.
-   * For PoC, no optimistic concurrency (expectedVersion). Can add later.
    *
-   * Returns: void on success (events are persisted)
+   * OPTIMISTIC CONCURRENCY:
+   * `expectedVersion` is the version the caller's decision was based on
+   * (i.e., how many events it loaded). Use 0 for a brand-new stream.
+   * If the stream's current version differs, fails with ConcurrencyConflict
+   * and nothing is persisted — the caller must reload and decide again.
+   *
+   * METADATA:
+   * `metadata` (optional) is recorded on every envelope of this append.
+   *
+   * Returns: the envelopes of the persisted events (empty for an empty append)
    */
   readonly append: (
     streamId: StreamId,
-    events: ReadonlyArray<E>
-  ) => Effect.Effect<void, never>
+    events: ReadonlyArray<E>,
+    expectedVersion: number,
+    metadata?: EventMetadata
+  ) => Effect.Effect<ReadonlyArray<EventEnvelope<E>>, ConcurrencyConflict>
 }
 
 // Tag for User aggregate's event store
@@ -172,16 +261,121 @@ export class AddressEventStore extends Context.Tag("AddressEventStore")<
   EventStoreService<AddressEvent>
 >() {}
 
+// =============================================================================
+// EventLog — The Global Feed (all streams, commit order)
+// =============================================================================
+//
+// WHY A SEPARATE SERVICE?
+// EventStoreService<E> is per aggregate: it only knows its own event type.
+// A global feed crosses aggregates — a projection like the Registry needs
+// UserCreated AND AddressCreated, in the order they happened. So the feed is
+// typed over the union of all domain events and gets its own Tag.
+//
+// Both sides are views of the same log: in Postgres, the same `events` table;
+// in memory, a shared log behind both stores (see InMemoryEventStores).
+//
+// POSITIONS:
+// Every envelope has a global `position`. The feed is ordered by it and is
+// resumable from it: a consumer remembers the last position it processed
+// (its checkpoint) and asks for everything after that.
+//
+
+// Every event the system knows about
+export const DomainEvent = Schema.Union(UserEvent, AddressEvent)
+export type DomainEvent = typeof DomainEvent.Type
+
+export interface EventLogService {
+  /**
+   * Read all events across all streams, in global (position) order.
+   *
+   * `fromPosition` is EXCLUSIVE — returns events with position > fromPosition.
+   * Pass 0 to read from the beginning, or a checkpoint to resume after it.
+   *
+   * `batchSize` is how many events are fetched per round-trip. The stream
+   * pulls batches lazily and ends once it reaches the current end of the log
+   * (it does not wait for new events).
+   */
+  readonly readAll: (
+    fromPosition: number,
+    batchSize: number
+  ) => Stream.Stream<EventEnvelope<DomainEvent>>
+
+  /**
+   * Subscribe to all events after `fromPosition` (exclusive), forever.
+   *
+   * First catches up on what's already in the log, then keeps delivering
+   * new events as they are appended. Never ends on its own — interrupt the
+   * consuming fiber (or close its Scope) to stop.
+   *
+   * Each event is delivered once, in position order (no gaps, no duplicates
+   * between the catch-up and live phases).
+   */
+  readonly subscribe: (fromPosition: number) => Stream.Stream<EventEnvelope<DomainEvent>>
+
+  /**
+   * Position of the most recent event in the log (0 if the log is empty).
+   * Useful as a progress target ("replayed 1200 of 5000").
+   */
+  readonly headPosition: Effect.Effect<number>
+}
+
+export class EventLog extends Context.Tag("EventLog")<EventLog, EventLogService>() {}
+
+// -----------------------------------------------------------------------------
+// catchUpThenLive — shared subscribe implementation for adapters
+// -----------------------------------------------------------------------------
+//
+// THE RACE TO AVOID:
+// Naively "read the backlog, then start listening" loses anything appended
+// between the two steps. So we START LISTENING FIRST, then read.
+//
+// WAKE-UPS, NOT PAYLOADS:
+// Adapters only supply a queue of wake-up signals ("something was appended").
+// On each signal we re-read the log from our own checkpoint via readAll.
+// Delivery therefore always comes from the log itself, in position order —
+// a missed or duplicated signal can delay an event, never lose or repeat it.
+//
+// EFFECT SYNTAX: Stream.unwrapScoped
+// Runs a scoped Effect that builds a Stream; the scope (our listener) lives
+// exactly as long as the stream is being consumed.
+//
+const SUBSCRIBE_BATCH_SIZE = 100
+
+export const catchUpThenLive = (
+  readAll: EventLogService["readAll"],
+  wakeups: Effect.Effect<Queue.Dequeue<unknown>, never, Scope.Scope>,
+  fromPosition: number
+): Stream.Stream<EventEnvelope<DomainEvent>> =>
+  Stream.unwrapScoped(
+    Effect.gen(function*() {
+      const signals = yield* wakeups
+      const checkpoint = yield* Ref.make(fromPosition)
+
+      const readFromCheckpoint = Stream.unwrap(
+        Ref.get(checkpoint).pipe(Effect.map((after) => readAll(after, SUBSCRIBE_BATCH_SIZE)))
+      ).pipe(Stream.tap((envelope) => Ref.set(checkpoint, envelope.position)))
+
+      // One initial read (catch-up), then one read per wake-up (live)
+      return Stream.succeed(undefined).pipe(
+        Stream.concat(Stream.fromQueue(signals)),
+        Stream.flatMap(() => readFromCheckpoint)
+      )
+    })
+  )
+
 // =============================================================================
 // Summary
 // =============================================================================
 //
 // We now have:
 //   - StreamId: branded type for stream identifiers
+//   - EventEnvelope<E>: event + store/caller metadata (ids, position, tracing)
 //   - EventStoreError: discriminated union of possible errors
-//   - EventStoreService<E>: generic interface with load/append
+//   - EventStoreService<E>: generic interface with load/loadEnvelopes/append (optimistic concurrency)
 //   - UserEventStore: Tag for User aggregate's store
 //   - AddressEventStore: Tag for Address aggregate's store
+//   - EventLog: Tag for the global, position-ordered feed across all streams
+//     (readAll for a finite read, subscribe for catch-up + live)
 //
 // Next: TDD an InMemoryEventStore implementation
 //   - Create test file first
@@ -0,0 +1,107 @@
+// =============================================================================
+// Event Upcasting — Read old event shapes as the current one
+// =============================================================================
+//
+// THE PROBLEM:
+// Stored events are immutable. When an event's shape changes (a field is
+// added, renamed, split...), rows written before the change keep the old
+// shape forever. Either `evolve` learns every shape that ever existed, or
+// something translates old shapes on the way in.
+//
+// UPCASTING:
+// Every stored event records the `schema_version` of its payload. On load,
+// the payload is passed through the upcasters for its type, one version at
+// a time, until it reaches the current version — THEN it's decoded with the
+// event Schema and handed to `evolve`:
+//
+//   row (UserCreated, v1) ──v1→v2──▶ (v2) ──v2→v3──▶ (v3 = current) ──decode──▶ evolve
+//
+// So `evolve` (and the event Schema) only ever know the LATEST shape, and
+// old rows never have to be rewritten.
+//
+// WHERE IT RUNS:
+// Only adapters that serialize events need it (PostgresEventStore). The
+// in-memory store keeps live objects, always of the current shape.
+//
+// ADDING A VERSION (e.g. UserCreated gains phoneNumber):
+//   1. Change the event Schema to the new shape (phoneNumber: NullOr(...))
+//   2. Register an upcaster in domain/user/Upcasters.ts:
+//        { eventType: "UserCreated", fromVersion: 1,
+//          upcast: (payload) => ({ ...payload, phoneNumber: null }) }
+//   3. If `evolve` changes too, bump the aggregate's snapshot schemaVersion
+// New appends are written as v2; v1 rows are upcast on every read.
+//
+// Upcasters work on ENCODED payloads (plain JSON), not on typed events:
+// by definition the old shape no longer has a type in the codebase.
+//
+// SCALA ANALOGY: Akka Persistence's EventAdapter (fromJournal), without the
+// manifest strings — the (event type, version) pair plays that role.
+//
+import { Either } from "effect"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type EncodedPayload = Readonly<Record<string, unknown>>
+
+// Turns a payload of `eventType` at `fromVersion` into `fromVersion + 1`
+export type Upcaster = {
+  readonly eventType: string
+  readonly fromVersion: number
+  readonly upcast: (payload: EncodedPayload) => EncodedPayload
+}
+
+export interface UpcasterRegistry {
+  // Version new events of this type are written with (1 if never upcast)
+  readonly currentVersion: (eventType: string) => number
+
+  // Bring a stored payload up to the current version.
+  // Fails (Left, with a reason) if the payload claims a version this code
+  // doesn't know — e.g. written by a newer deployment.
+  readonly upcast: (eventType: string, version: number, payload: unknown) => Either.Either<unknown, string>
+}
+
+// =============================================================================
+// makeUpcasterRegistry
+// =============================================================================
+//
+// Each event type's upcasters must form an unbroken chain starting at v1
+// (1→2, 2→3, ...). A broken chain is a programming error, caught here at
+// startup rather than on the first old row.
+//
+export const makeUpcasterRegistry = (upcasters: ReadonlyArray<Upcaster>): UpcasterRegistry => {
+  const chains = new Map<string, Array<Upcaster>>()
+  for (const upcaster of upcasters) {
+    const chain = chains.get(upcaster.eventType) ?? []
+    chains.set(upcaster.eventType, [...chain, upcaster])
+  }
+  for (const [eventType, chain] of chains) {
+    chain.sort((a, b) => a.fromVersion - b.fromVersion)
+    chain.forEach((upcaster, i) => {
+      if (upcaster.fromVersion !== i + 1) {
+        throw new Error(`Upcasters for ${eventType} must chain from v1 without gaps (found v${upcaster.fromVersion})`)
+      }
+    })
+  }
+
+  const currentVersion = (eventType: string) => (chains.get(eventType)?.length ?? 0) + 1
+
+  return {
+    currentVersion,
+    upcast: (eventType, version, payload) => {
+      const current = currentVersion(eventType)
+      if (!Number.isInteger(version) || version < 1 || version > current) {
+        return Either.left(`unknown schema version ${version} for ${eventType} (current: ${current})`)
+      }
+      if (version === current) return Either.right(payload)
+      if (typeof payload !== "object" || payload === null) {
+        return Either.left(`cannot upcast a non-object ${eventType} payload`)
+      }
+      const chain = chains.get(eventType) ?? []
+      return Either.right(
+        chain.slice(version - 1).reduce((upcasted, upcaster) => upcaster.upcast(upcasted), payload as EncodedPayload)
+      )
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// =============================================================================
+// OperatorToken — The secret that opens the admin endpoints
+// =============================================================================
+//
+// The admin endpoints (dead letters) aren't any user's business: a session
+// token doesn't open them. The operator sends this secret as a bearer token
+// instead (see AdminAuthorization in Api.ts).
+//
+// CLOSED BY DEFAULT:
+// A Context.Reference, like RevertTokenTtl — but its default is None, which
+// refuses every request. Dead letters hold emails, and emails hold revert and
+// login links: leaving ADMIN_TOKEN unset must not publish them.
+//
+import { Context, Option, type Redacted } from "effect"
+
+export class OperatorToken extends Context.Reference<OperatorToken>()("OperatorToken", {
+  defaultValue: (): Option.Option<Redacted.Redacted> => Option.none()
+}) {}
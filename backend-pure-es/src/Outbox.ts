@@ -0,0 +1,109 @@
+// =============================================================================
+// Outbox — The Port (Interface)
+// =============================================================================
+//
+// HEXAGONAL ARCHITECTURE:
+// This is a PORT — durable storage for emails that still have to be sent.
+// Implementations (InMemory, Postgres) live in infrastructure/.
+//
+// THE TRANSACTIONAL OUTBOX PATTERN:
+// Sending an email from inside a request couples two things that can't share
+// a transaction: our database and an SMTP server.
+//   - send, then commit fails → the user got an email about nothing
+//   - commit, then send fails → the change happened, the safety email is lost
+//     (and the caller got a 500 for a change that DID happen)
+// Instead, the use case WRITES the email to the outbox in the same
+// transaction as its events (see UnitOfWork). A dispatcher delivers pending
+// messages afterwards through the real EmailService, retrying with backoff
+// (see OutboxDispatcher). The request never waits on SMTP.
+//
+// DELIVERY GUARANTEE: at-least-once.
+// A crash between "SMTP accepted" and `markSent` resends on restart.
+// For a "was this you?" safety email, a duplicate beats a silent loss.
+//
+// RETRIES LIVE IN STORAGE:
+// Each message records its failed attempts, the most it gets (maxAttempts,
+// fixed when it's enqueued) and when it may next be tried (nextAttemptAt).
+// A failed delivery pushes nextAttemptAt back and the message waits for a
+// later poll — nothing sleeps in memory, so a restart or a second
+// dispatcher picks up the schedule where it was.
+//
+// CLAIMS:
+// `claim` hands out due messages and pushes their nextAttemptAt past a
+// lease in the same step, so no other dispatcher takes them while they're
+// being sent. A dispatcher that dies mid-send loses its claim when the lease
+// runs out, and the message is tried again.
+//
+// DEAD LETTERS:
+// A message whose last allowed attempt failed is moved aside — out of
+// `pending`, but kept with its last error so an operator can look at it and
+// `replay` it once the cause is fixed (wrong address, SMTP config...).
+//
+// LIFECYCLE:
+//   pending ──send ok──▶ sent
+//      │ ▲
+//      │ └──── replay ────┐
+//      └─maxAttempts failed─▶ dead
+//
+import { Context, type Duration, type Effect } from "effect"
+import type { EmailContent } from "./EmailService.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OutboxMessage {
+  readonly id: number // Monotonic — delivery follows enqueue order
+  readonly email: EmailContent
+  readonly attempts: number // Failed delivery attempts so far
+  readonly maxAttempts: number // Dead-lettered once this many have failed
+  readonly nextAttemptAt: Date // Not handed out before then (backoff or claim)
+  readonly lastError: string | null
+  readonly enqueuedAt: Date
+}
+
+// Every message gets this many attempts: the first plus 4 retries
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+// What a failed attempt did to the message
+export type FailureOutcome = "retrying" | "deadLettered"
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface OutboxService {
+  // Store an email for later delivery (joins the caller's UnitOfWork)
+  readonly enqueue: (email: EmailContent) => Effect.Effect<void>
+
+  // Oldest undelivered messages first, at most `limit` — due or not
+  readonly pending: (limit: number) => Effect.Effect<ReadonlyArray<OutboxMessage>>
+
+  // Oldest DUE messages first, at most `limit`, each held back for `lease`
+  // so no other dispatcher claims it meanwhile (see CLAIMS)
+  readonly claim: (limit: number, lease: Duration.Duration) => Effect.Effect<ReadonlyArray<OutboxMessage>>
+
+  // Delivery succeeded — never hand this message out again
+  readonly markSent: (id: number) => Effect.Effect<void>
+
+  // Delivery failed — count it and remember why. Due again after
+  // `retryAfter`, or dead-lettered if that was its last allowed attempt.
+  readonly recordFailure: (
+    id: number,
+    error: string,
+    retryAfter: Duration.Duration
+  ) => Effect.Effect<FailureOutcome>
+
+  // Dead letters, oldest first, at most `limit`
+  readonly deadLetters: (limit: number) => Effect.Effect<ReadonlyArray<OutboxMessage>>
+
+  // Move a dead letter back to pending with a fresh attempt count, due now.
+  // Returns false if there is no dead letter with that id.
+  readonly replay: (id: number) => Effect.Effect<boolean>
+}
+
+// =============================================================================
+// Tag
+// =============================================================================
+
+export class Outbox extends Context.Tag("Outbox")<Outbox, OutboxService>() {}
@@ -12,30 +12,58 @@
 // SCALA ANALOGY:
 // Like a ZIO app with ZLayer.make — declare the recipe, ZIO bakes the cake.
 //
-import { Layer, Redacted } from "effect"
 import { HttpApiBuilder } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
+import { Duration, Effect, Layer, Option, Redacted } from "effect"
 import { createServer } from "node:http"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 
 // API definition and handlers
-import { ApiLive } from "./http/Api.js"
+import { ApiDocsLive, ApiLive } from "./http/ApiLive.js"
 
 // Infrastructure adapters — In-memory
 import { InMemoryEventStores } from "./infrastructure/InMemoryEventStore.js"
+import { InMemoryOutbox } from "./infrastructure/InMemoryOutbox.js"
+import { InMemoryProjectionCheckpoints } from "./infrastructure/InMemoryProjectionCheckpoints.js"
 import { makeInMemoryRegistryLayer } from "./infrastructure/InMemoryRegistry.js"
+import { InMemorySnapshotStore } from "./infrastructure/InMemorySnapshotStore.js"
+import { InMemoryUnitOfWork } from "./infrastructure/InMemoryUnitOfWork.js"
 
 // Infrastructure adapters — Postgres
+import { PgClient } from "@effect/sql-pg"
 import { PostgresEventStores } from "./infrastructure/PostgresEventStore.js"
+import { PostgresOutbox } from "./infrastructure/PostgresOutbox.js"
+import { PostgresProjectionCheckpoints } from "./infrastructure/PostgresProjectionCheckpoints.js"
 import { PostgresRegistry } from "./infrastructure/PostgresRegistry.js"
-import { PgClient } from "@effect/sql-pg"
+import { PostgresSnapshotStore } from "./infrastructure/PostgresSnapshotStore.js"
+import { PostgresUnitOfWork } from "./infrastructure/PostgresUnitOfWork.js"
 
 // Infrastructure adapters — Email
-import { ConsoleEmailService } from "./infrastructure/ConsoleEmailService.js"
+import { EmailService } from "./EmailService.js"
+import { makeConsoleEmailServiceLayer } from "./infrastructure/ConsoleEmailService.js"
 import { EtherealEmailService } from "./infrastructure/EtherealEmailService.js"
+import { makeMaildropEmailServiceLayer } from "./infrastructure/MaildropEmailService.js"
+import { OutboxEmailService } from "./infrastructure/OutboxEmailService.js"
 
 // Application services
 import { UuidIdGeneratorLive } from "./IdGenerator.js"
 
+// Background projections
+import { runOutboxDispatcher } from "./application/OutboxDispatcher.js"
+import { runProjection } from "./application/ProjectionRunner.js"
+import { runRevertTokenSweep } from "./application/RevertTokenSweep.js"
+import { LoginLinkTtl, SessionTtl } from "./AuthTtl.js"
+import { makeHmacAuthTokenServiceLayer } from "./infrastructure/HmacAuthTokenService.js"
+import {
+  makeHmacRevertTokenServiceLayer,
+  parseRetiredRevertTokenKeys,
+  parseRevertTokenKey
+} from "./infrastructure/HmacRevertTokenService.js"
+import { OperatorToken } from "./OperatorToken.js"
+import { RegistryProjection } from "./projections/RegistryProjection.js"
+import { RevertTokenTtl } from "./RevertTokenTtl.js"
+
 // =============================================================================
 // Server Configuration
 // =============================================================================
@@ -46,40 +74,139 @@ const PORT = 3000
 // Usage: EMAIL_ADAPTER=ethereal pnpm start
 const EMAIL_ADAPTER = process.env.EMAIL_ADAPTER || "console"
 
+// Where the maildrop adapter writes emails — the Cypress tests read their
+// login links from there (see frontend/cypress.config.ts)
+// Usage: EMAIL_ADAPTER=maildrop MAILDROP_DIR=/tmp/maildrop pnpm start
+const MAILDROP_DIR = process.env.MAILDROP_DIR || join(tmpdir(), "event-triggers-maildrop")
+
+// Fault injection for the console adapter: share of sends that fail (0..1)
+// Usage: EMAIL_FAILURE_RATE=0.5 pnpm start — watch the outbox retry / dead-letter
+const EMAIL_FAILURE_RATE = Number(process.env.EMAIL_FAILURE_RATE ?? 0)
+
 // Database adapter selection via environment variable
 // Usage: DATABASE_URL="postgres://..." pnpm start
 const DATABASE_URL = process.env.DATABASE_URL
 
+// How long revert links stay valid (any Duration string: "7 days", "15 minutes"...)
+// Usage: REVERT_TOKEN_TTL="1 hour" pnpm start
+const REVERT_TOKEN_TTL = Duration.decode((process.env.REVERT_TOKEN_TTL ?? "7 days") as Duration.DurationInput)
+
+// HMAC key that signs revert tokens, as "id:secret". Without one, a fixed
+// dev key is used — fine locally, never in production (anyone can read it here).
+// Usage: REVERT_TOKEN_KEY="2026-10:$(openssl rand -hex 32)" pnpm start
+const REVERT_TOKEN_KEY = process.env.REVERT_TOKEN_KEY
+  ? parseRevertTokenKey(process.env.REVERT_TOKEN_KEY)
+  : parseRevertTokenKey("dev:insecure-dev-revert-token-key")
+
+// Rotation: the previous key(s), "id:secret@<when retired>", comma-separated.
+// Their tokens stay valid for REVERT_TOKEN_KEY_GRACE (default: the token TTL,
+// so no link issued before the rotation dies early).
+// Usage: REVERT_TOKEN_RETIRED_KEYS="2026-09:oldsecret@2026-10-01T00:00:00Z" pnpm start
+const REVERT_TOKEN_RETIRED_KEYS = parseRetiredRevertTokenKeys(process.env.REVERT_TOKEN_RETIRED_KEYS ?? "")
+const REVERT_TOKEN_KEY_GRACE = process.env.REVERT_TOKEN_KEY_GRACE
+  ? Duration.decode(process.env.REVERT_TOKEN_KEY_GRACE as Duration.DurationInput)
+  : REVERT_TOKEN_TTL
+
+// Login links and sessions (see AuthTtl.ts)
+// Usage: LOGIN_LINK_TTL="5 minutes" SESSION_TTL="1 day" pnpm start
+const LOGIN_LINK_TTL = Duration.decode((process.env.LOGIN_LINK_TTL ?? "15 minutes") as Duration.DurationInput)
+const SESSION_TTL = Duration.decode((process.env.SESSION_TTL ?? "7 days") as Duration.DurationInput)
+
+// HMAC key that signs login and session tokens — "id:secret", like
+// REVERT_TOKEN_KEY but a different secret: one leaking mustn't give the other.
+// Changing it logs everyone out (no rotation for these).
+// Usage: AUTH_TOKEN_KEY="2026-10:$(openssl rand -hex 32)" pnpm start
+const AUTH_TOKEN_KEY = process.env.AUTH_TOKEN_KEY
+  ? parseRevertTokenKey(process.env.AUTH_TOKEN_KEY)
+  : parseRevertTokenKey("dev:insecure-dev-auth-token-key")
+
+// Bearer token for the admin endpoints (see OperatorToken.ts). Unset → they
+// refuse every request.
+// Usage: ADMIN_TOKEN="$(openssl rand -hex 32)" pnpm start
+const ADMIN_TOKEN = Option.map(Option.fromNullable(process.env.ADMIN_TOKEN || null), Redacted.make)
+
 // =============================================================================
 // Layer Composition
 // =============================================================================
 
 // Select email adapter based on config
+// (the real transport — only the outbox dispatcher talks to it)
 const EmailServiceLayer = EMAIL_ADAPTER === "ethereal"
   ? EtherealEmailService
-  : ConsoleEmailService
+  : EMAIL_ADAPTER === "maildrop"
+  ? makeMaildropEmailServiceLayer(MAILDROP_DIR)
+  : makeConsoleEmailServiceLayer({ failureRate: EMAIL_FAILURE_RATE })
 
 // Select database adapter based on config
 const StorageLayer = DATABASE_URL
   ? Layer.provideMerge(
-      Layer.merge(PostgresEventStores, PostgresRegistry),
-      PgClient.layer({ url: Redacted.make(DATABASE_URL) })
-    )
-  : Layer.merge(InMemoryEventStores, makeInMemoryRegistryLayer())
+    Layer.mergeAll(
+      PostgresEventStores,
+      PostgresRegistry,
+      PostgresProjectionCheckpoints,
+      PostgresOutbox,
+      PostgresUnitOfWork,
+      PostgresSnapshotStore
+    ),
+    PgClient.layer({ url: Redacted.make(DATABASE_URL) })
+  )
+  : Layer.mergeAll(
+    InMemoryEventStores,
+    makeInMemoryRegistryLayer(),
+    InMemoryProjectionCheckpoints,
+    InMemoryOutbox,
+    InMemoryUnitOfWork,
+    InMemorySnapshotStore
+  )
 
 // Application dependencies (services needed by use cases)
+// Use cases "send" through the outbox: the email is stored in the same
+// transaction as their events, so requests never wait on (or fail with) SMTP.
 const AppDependencies = Layer.mergeAll(
-  StorageLayer,
-  EmailServiceLayer,
-  UuidIdGeneratorLive
+  Layer.provideMerge(OutboxEmailService, StorageLayer),
+  UuidIdGeneratorLive,
+  Layer.succeed(RevertTokenTtl, REVERT_TOKEN_TTL),
+  makeHmacRevertTokenServiceLayer({
+    current: REVERT_TOKEN_KEY,
+    retired: REVERT_TOKEN_RETIRED_KEYS,
+    gracePeriod: REVERT_TOKEN_KEY_GRACE
+  }),
+  Layer.succeed(LoginLinkTtl, LOGIN_LINK_TTL),
+  Layer.succeed(SessionTtl, SESSION_TTL),
+  makeHmacAuthTokenServiceLayer(AUTH_TOKEN_KEY),
+  Layer.succeed(OperatorToken, ADMIN_TOKEN)
 )
 
 // HTTP server layer
 const HttpServerLive = NodeHttpServer.layer(createServer, { port: PORT })
 
-// Full server stack: API handlers + dependencies + HTTP server
+// Background consumers of the event log, forked for the server's lifetime.
+// The Registry projection heals any drift left by a crash between a use
+// case's append and its inline projection (see RegistryProjection.ts).
+const RegistryProjectionLive = Layer.scopedDiscard(
+  Effect.forkScoped(runProjection(RegistryProjection))
+)
+
+// The outbox dispatcher delivers queued emails through the real adapter,
+// retrying failed sends on every poll.
+const OutboxDispatcherLive = Layer.scopedDiscard(
+  Effect.flatMap(EmailService, (transport) => Effect.forkScoped(runOutboxDispatcher(transport)))
+).pipe(Layer.provide(EmailServiceLayer))
+
+// The sweep drops revert tokens past their TTL from the Registry
+// (decide already refuses them — this only keeps the index small).
+const RevertTokenSweepLive = Layer.scopedDiscard(
+  Effect.forkScoped(runRevertTokenSweep())
+)
+
+const BackgroundLive = Layer.mergeAll(RegistryProjectionLive, OutboxDispatcherLive, RevertTokenSweepLive)
+
+// Full server stack: API handlers + docs + background consumers + dependencies + HTTP server
+// (AppDependencies is provided once, so both share the same stores/registry)
 const ServerLive = HttpApiBuilder.serve().pipe(
+  Layer.provide(ApiDocsLive),
   Layer.provide(ApiLive),
+  Layer.merge(BackgroundLive),
   Layer.provide(AppDependencies),
   Layer.provide(HttpServerLive)
 )
@@ -90,6 +217,8 @@ const ServerLive = HttpApiBuilder.serve().pipe(
 
 const emailAdapterInfo = EMAIL_ADAPTER === "ethereal"
   ? "📬 Ethereal (check console for preview URLs)"
+  : EMAIL_ADAPTER === "maildrop"
+  ? `📂 Maildrop (one JSON file per email in ${MAILDROP_DIR})`
   : "📝 Console (emails logged to terminal)"
 
 const dbAdapterInfo = DATABASE_URL
@@ -103,16 +232,42 @@ console.log(`
   Server starting on http://localhost:${PORT}
   Email adapter: ${emailAdapterInfo}
   Database: ${dbAdapterInfo}
+  Revert links valid for: ${Duration.format(REVERT_TOKEN_TTL)}
+  Revert links signed with key: ${REVERT_TOKEN_KEY.id}${
+  process.env.REVERT_TOKEN_KEY ? "" : " (⚠️  dev key — set REVERT_TOKEN_KEY)"
+}
+  Login links valid for: ${Duration.format(LOGIN_LINK_TTL)}, sessions for: ${Duration.format(SESSION_TTL)}
+  Logins signed with key: ${AUTH_TOKEN_KEY.id}${process.env.AUTH_TOKEN_KEY ? "" : " (⚠️  dev key — set AUTH_TOKEN_KEY)"}
+  Admin endpoints: ${Option.isSome(ADMIN_TOKEN) ? "open with ADMIN_TOKEN" : "closed (set ADMIN_TOKEN)"}
 
   Switch adapters:
     EMAIL_ADAPTER=ethereal pnpm start
+    EMAIL_ADAPTER=maildrop pnpm start   (emails as files — for the Cypress tests)
+    EMAIL_FAILURE_RATE=0.5 pnpm start   (console adapter: flaky delivery)
     DATABASE_URL="postgres://..." pnpm start
+    REVERT_TOKEN_TTL="1 hour" pnpm start
+    REVERT_TOKEN_KEY="id:secret" pnpm start   (+ REVERT_TOKEN_RETIRED_KEYS to rotate)
+    AUTH_TOKEN_KEY="id:secret" pnpm start     (+ LOGIN_LINK_TTL, SESSION_TTL)
+    ADMIN_TOKEN="secret" pnpm start           (opens /admin/*)
+
+  API docs: http://localhost:${PORT}/docs   (spec: /openapi.json)
 
-  Endpoints:
+  Endpoints (🔒 = Authorization: Bearer <session token>, own nickname only;
+             🔑 = Authorization: Bearer <ADMIN_TOKEN>):
     POST  /users                              → Create user
-    POST  /users/:nickname/addresses          → Create address (triggers email!)
-    PATCH /users/:nickname/addresses/:label   → Update field (field-specific email!)
+    POST  /auth/login                         → Email a login link (by nickname)
+    POST  /auth/login/:token                  → Exchange the link's token for a session token
+    POST  /auth/logout                        → 🔒 Close the session
+    PATCH /users/:nickname                    → 🔒 Change first or last name (no email)
+    POST  /users/:nickname/addresses          → 🔒 Create address (triggers email!)
+    PATCH /users/:nickname/addresses/:label   → 🔒 Update field (field-specific email!)
+    PUT   /users/:nickname/addresses/:label   → 🔒 Change several fields (one email, one revert link)
+    DELETE /users/:nickname/addresses/:label  → 🔒 Delete address (email with a restore link)
+    GET   /users/:nickname/addresses/:label/history → Timeline of the address's changes
+    GET   /revert/:token                      → Preview what the revert would undo
     POST  /revert/:token                      → Revert change (NO email - silent!)
+    GET   /admin/dead-letters                 → 🔑 Emails that exhausted their retries (links redacted)
+    POST  /admin/dead-letters/:id/replay      → 🔑 Queue a dead letter for delivery again
 
   Full Demo Flow:
   ───────────────
@@ -121,17 +276,26 @@ console.log(`
        -H "Content-Type: application/json" \\
        -d '{"email":"jean@example.com","firstName":"Jean","lastName":"Dupont"}'
 
-  2. Create address (watch console for email):
+  2. Log in (watch console for the login email, copy the token from its link):
+     curl -X POST http://localhost:${PORT}/auth/login \\
+       -H "Content-Type: application/json" \\
+       -d '{"nickname":"jean-dupont"}'
+     curl -X POST http://localhost:${PORT}/auth/login/LOGIN_TOKEN_HERE
+     export SESSION=...   # the sessionToken from the response
+
+  3. Create address (watch console for email):
      curl -X POST http://localhost:${PORT}/users/jean-dupont/addresses \\
+       -H "Authorization: Bearer $SESSION" \\
        -H "Content-Type: application/json" \\
        -d '{"label":"home","streetNumber":"42","streetName":"Rue de Rivoli","zipCode":"75001","city":"Paris","country":"France"}'
 
-  3. Update city (watch console for CITY-SPECIFIC email):
+  4. Update city (watch console for CITY-SPECIFIC email):
      curl -X PATCH http://localhost:${PORT}/users/jean-dupont/addresses/home \\
+       -H "Authorization: Bearer $SESSION" \\
        -H "Content-Type: application/json" \\
        -d '{"field":"city","value":"Lyon"}'
 
-  4. Revert the change (copy token from email, NO new email sent!):
+  5. Revert the change (copy token from email, NO new email sent!):
      curl -X POST http://localhost:${PORT}/revert/YOUR_TOKEN_HERE
 
 ═══════════════════════════════════════════════════════════════
@@ -0,0 +1,53 @@
+// =============================================================================
+// ProjectionCheckpoints — The Port (Interface)
+// =============================================================================
+//
+// HEXAGONAL ARCHITECTURE:
+// This is a PORT — where projections remember how far into the event log
+// they've got. Implementations (InMemory, Postgres) live in infrastructure/.
+//
+// WHAT IS A CHECKPOINT?
+// The global position of the last event a projection has applied.
+// On restart, the projection resumes from the event right after it —
+// no replaying from scratch, no skipping.
+//
+// WHY `advance` INSTEAD OF A PLAIN `save`?
+// "Apply the event" and "record that we applied it" must happen together.
+//   - apply, crash, save never happens → event applied twice on restart
+//   - save, crash, apply never happens → event lost forever
+// `advance` runs both as one unit. In Postgres that's a single transaction,
+// so the projection tables and the checkpoint can never disagree.
+//
+// `atomically` widens that unit to a whole sequence of steps — a rebuild
+// resets the tables and replays the log inside one, so readers see either
+// the old projection or the fully rebuilt one, never a half-built state.
+//
+import { Context, type Effect } from "effect"
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface ProjectionCheckpointsService {
+  // Last applied position for a projection (0 = nothing applied yet)
+  readonly load: (projection: string) => Effect.Effect<number>
+
+  // Run `apply`, then move the checkpoint to `position` — atomically
+  readonly advance: <R>(
+    projection: string,
+    position: number,
+    apply: Effect.Effect<void, never, R>
+  ) => Effect.Effect<void, never, R>
+
+  // Run `effect` as one unit of work (nested `advance` calls included)
+  readonly atomically: <A, E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>
+}
+
+// =============================================================================
+// Tag
+// =============================================================================
+
+export class ProjectionCheckpoints extends Context.Tag("ProjectionCheckpoints")<
+  ProjectionCheckpoints,
+  ProjectionCheckpointsService
+>() {}
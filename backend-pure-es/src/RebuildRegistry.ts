@@ -0,0 +1,38 @@
+// =============================================================================
+// RebuildRegistry.ts — CLI: rebuild the Registry tables from the event log
+// =============================================================================
+//
+// Usage: DATABASE_URL="postgres://..." pnpm rebuild-registry
+//
+// Safe to run while the server is up: the rebuild is one transaction, so
+// lookups keep using the old tables until the new ones are committed.
+//
+import { NodeRuntime } from "@effect/platform-node"
+import { PgClient } from "@effect/sql-pg"
+import { Console, Effect, Layer, Redacted } from "effect"
+
+import { PostgresEventStores } from "./infrastructure/PostgresEventStore.js"
+import { PostgresProjectionCheckpoints } from "./infrastructure/PostgresProjectionCheckpoints.js"
+import { PostgresRegistry } from "./infrastructure/PostgresRegistry.js"
+import { rebuildRegistry } from "./projections/RegistryProjection.js"
+
+const DATABASE_URL = process.env.DATABASE_URL
+
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL is required (the Registry rebuild replays the Postgres event log)")
+  process.exit(1)
+}
+
+const StorageLayer = Layer.mergeAll(PostgresEventStores, PostgresRegistry, PostgresProjectionCheckpoints).pipe(
+  Layer.provide(PgClient.layer({ url: Redacted.make(DATABASE_URL) }))
+)
+
+const program = Effect.gen(function*() {
+  yield* Console.log("Rebuilding Registry (nicknames, user_names, address_labels, user_addresses, revert_tokens)...")
+  const done = yield* rebuildRegistry((progress) =>
+    Console.log(`  ${progress.processed} events replayed (position ${progress.position}/${progress.headPosition})`)
+  )
+  yield* Console.log(`Done: ${done.processed} events replayed.`)
+})
+
+program.pipe(Effect.provide(StorageLayer), NodeRuntime.runMain)
@@ -12,21 +12,40 @@
 // Subscribes to domain events and builds lookup indexes.
 //
 // LOOKUPS:
-//   - nickname → userId       (from UserCreated events)
+//   - nickname → userId       (from UserCreated / *NameChanged events)
+//   - userId → nickname       (the current one — see NICKNAME HISTORY below)
 //   - (userId, label) → addressId  (from AddressCreated events)
 //   - revertToken → addressId      (from events with revertToken)
 //   - userId → [addressIds]        (from AddressCreated events)
+//   - userId → [addressIds], ever  (same, but never removed — for history reads)
+//
+// NICKNAME HISTORY:
+// The nickname is derived from the name, so a rename gives the user a new
+// one — which becomes canonical. The old ones are kept: links and bookmarks
+// using them still resolve to the same user (clients can redirect to the
+// canonical one). A slug taken by someone else — now or in the past — is
+// never reassigned; the newcomer gets the first free numeric suffix instead
+// (jean-dupont → jean-dupont-2 → jean-dupont-3...).
+//
+// REPLAYS:
+// User events reach the Registry twice — inline from the use case, then
+// from the projection runner, which also replays the whole log on first
+// start. Replaying an old UserCreated after a rename must not make the old
+// nickname canonical again, so user events come with their stream version,
+// and the name is only updated by an event newer than the last one applied
+// for that user.
 //
 // EFFECT SERVICE PATTERN:
 //   1. Define an interface describing operations
 //   2. Create a Tag for dependency injection
 //   3. Consumers use `yield* Registry` in Effect generators
 //
-import { Context, Effect, Option } from "effect"
-import type { UserId, FirstName, LastName } from "./domain/user/State.js"
-import type { UserEvent } from "./domain/user/Events.js"
+import type { Effect, Option } from "effect"
+import { Context } from "effect"
 import type { AddressEvent } from "./domain/address/Events.js"
 import type { AddressId, RevertToken } from "./domain/address/State.js"
+import type { UserEvent } from "./domain/user/Events.js"
+import type { FirstName, LastName, UserId } from "./domain/user/State.js"
 
 // =============================================================================
 // Registry Service Interface
@@ -34,15 +53,29 @@ import type { AddressId, RevertToken } from "./domain/address/State.js"
 
 export interface RegistryService {
   // Lookups — return Option (absence is not an error)
+  // Any nickname the user has had, current or past
   readonly getUserIdByNickname: (nickname: string) => Effect.Effect<Option.Option<UserId>>
+  // The current (canonical) one
+  readonly getNicknameByUserId: (userId: UserId) => Effect.Effect<Option.Option<string>>
   readonly getAddressIdByLabel: (userId: UserId, label: string) => Effect.Effect<Option.Option<AddressId>>
   readonly getAddressIdByToken: (token: RevertToken) => Effect.Effect<Option.Option<AddressId>>
   // List all address IDs for a user — needed for GetUser use case
   readonly getAddressIdsByUserId: (userId: UserId) => Effect.Effect<ReadonlyArray<AddressId>>
+  // Every address the user ever created, including deleted and reverted ones
+  // — a past profile (GetUser asOf) may show any of them
+  readonly getAllAddressIdsByUserId: (userId: UserId) => Effect.Effect<ReadonlyArray<AddressId>>
 
   // Projections — update state from events
-  readonly projectUserEvent: (event: UserEvent) => Effect.Effect<void>
+  // `version`: the event's version in its user stream (see REPLAYS)
+  readonly projectUserEvent: (event: UserEvent, version: number) => Effect.Effect<void>
   readonly projectAddressEvent: (event: AddressEvent) => Effect.Effect<void>
+
+  // Housekeeping — drop revert tokens issued before `cutoff` (they can no
+  // longer be honoured, see RevertTokenSweep). Returns how many were dropped.
+  readonly purgeRevertTokensIssuedBefore: (cutoff: Date) => Effect.Effect<number>
+
+  // Forget everything — the first step of a rebuild (replaying the log follows)
+  readonly reset: Effect.Effect<void>
 }
 
 // =============================================================================
@@ -62,3 +95,9 @@ export class Registry extends Context.Tag("Registry")<Registry, RegistryService>
 
 export const deriveNickname = (firstName: FirstName, lastName: LastName): string =>
   `${firstName}-${lastName}`.toLowerCase().replace(/\s+/g, "-")
+
+// The slugs tried, in order, when `nickname` may be taken: attempt 1 is the
+// nickname itself, then "-2", "-3"... Adapters take the first one that is
+// free or already belongs to the user.
+export const nicknameCandidate = (nickname: string, attempt: number): string =>
+  attempt === 1 ? nickname : `${nickname}-${attempt}`
@@ -0,0 +1,81 @@
+// =============================================================================
+// RevertTokenService — Port for minting and verifying revert tokens
+// =============================================================================
+//
+// A revert link is a bearer credential: whoever holds it can undo a change.
+// Plain random IDs gave no way to tell a genuine token from a guessed or
+// tampered one without a Registry lookup, and said nothing about what they
+// target. Tokens are now SELF-DESCRIBING and SIGNED: they carry the address,
+// a unique token id and the issue time, and only a holder of the signing key
+// can produce one.
+//
+// WHO CALLS WHAT:
+//   - Use cases that issue a token (create / change / delete) call `mint`
+//   - RevertChange / PreviewRevert call `verify` BEFORE touching the Registry —
+//     a forged token never reaches storage
+//
+// The minted string IS the RevertToken: it's what events, the Registry and
+// pendingReverts store, and what the email links to. Verification is an extra
+// gate in front of the existing lookups, not a replacement for them (one-time
+// use and expiry still come from the aggregate).
+//
+// LEGACY TOKENS:
+// Links sent before signing carry a bare UUID. `verify` reports those as
+// "Legacy" rather than "Malformed", and the revert use cases let them
+// through to the usual lookups: they work until their TTL runs out, like
+// any other link, and need no data migration. Once the last one has expired
+// (one TTL after signing shipped) they fail the expiry check anyway.
+//
+// SCALA ANALOGY: a tagless-final `TokenSigner[F]` algebra with an HMAC interpreter.
+//
+import { Context, type Effect } from "effect"
+import type { AddressId, RevertToken } from "./domain/address/State.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// What a token says about itself — readable only after its signature checks out.
+export interface RevertTokenClaims {
+  readonly addressId: AddressId
+  readonly tokenId: string // Unique per token (from IdGenerator)
+  readonly issuedAt: Date
+}
+
+// The token isn't one we signed (or signed with a key we no longer accept).
+// The reason is for logs — callers shouldn't tell the user which check failed.
+// "Legacy": an unsigned token from before signing (see LEGACY TOKENS).
+export type RevertTokenUnverified = {
+  readonly _tag: "RevertTokenUnverified"
+  readonly token: string
+  readonly reason: "Malformed" | "Legacy" | "UnknownKey" | "KeyRetired" | "BadSignature"
+}
+
+export const isLegacyRevertToken = (e: RevertTokenUnverified): boolean => e.reason === "Legacy"
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface RevertTokenServiceInterface {
+  /**
+   * Sign the claims with the current key.
+   * Deterministic: the same claims and key always give the same token.
+   */
+  readonly mint: (claims: RevertTokenClaims) => Effect.Effect<RevertToken>
+
+  /**
+   * Check the signature (constant-time) and return the claims it protects.
+   * Tokens signed with a rotated-out key pass only within its grace period.
+   */
+  readonly verify: (token: string) => Effect.Effect<RevertTokenClaims, RevertTokenUnverified>
+}
+
+// =============================================================================
+// RevertTokenService Tag
+// =============================================================================
+
+export class RevertTokenService extends Context.Tag("RevertTokenService")<
+  RevertTokenService,
+  RevertTokenServiceInterface
+>() {}
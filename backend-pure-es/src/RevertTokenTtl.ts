@@ -0,0 +1,26 @@
+// =============================================================================
+// RevertTokenTtl — How long a revert link stays valid
+// =============================================================================
+//
+// Every safety email carries a revert link. A link that works forever is a
+// liability: an old email found in an inbox months later can still rewrite
+// the address. Each token records when it was issued; once this TTL has
+// passed, `decide` rejects it (RevertTokenExpired) and the background sweep
+// drops it from the Registry (see RevertTokenSweep.ts).
+//
+// WHY A Context.Reference (not a Tag)?
+// A Reference has a default value, so it never shows up in a use case's
+// requirements: tests and scripts get 7 days for free, and Program.ts
+// overrides it from REVERT_TOKEN_TTL. Any Layer.succeed(RevertTokenTtl, ...)
+// — or Effect.provideService — swaps it.
+//
+// SCALA ANALOGY: a FiberRef with an initial value, rather than a ZLayer
+// every caller must provide.
+//
+import { Context, Duration } from "effect"
+
+export const DEFAULT_REVERT_TOKEN_TTL = Duration.days(7)
+
+export class RevertTokenTtl extends Context.Reference<RevertTokenTtl>()("RevertTokenTtl", {
+  defaultValue: (): Duration.Duration => DEFAULT_REVERT_TOKEN_TTL
+}) {}
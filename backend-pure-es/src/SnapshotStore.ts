@@ -0,0 +1,59 @@
+// =============================================================================
+// SnapshotStore — The Port (Interface)
+// =============================================================================
+//
+// HEXAGONAL ARCHITECTURE:
+// This is a PORT — where aggregate snapshots are kept. Implementations
+// (InMemory, Postgres) live in infrastructure/.
+//
+// WHAT IS A SNAPSHOT?
+// The folded state of a stream at a given version:
+//   state@v = events[1..v].reduce(evolve, initialState)
+// Loading then becomes "latest snapshot + fold the events after it" instead
+// of folding the whole stream on every request.
+//
+// Snapshots are a CACHE, never the source of truth. Losing them (or
+// ignoring them) only costs a longer fold — the events are still there.
+//
+// SCHEMA VERSION:
+// Each snapshot records the `schemaVersion` of the encoding that produced
+// it. Aggregates bump their version whenever `evolve` or the state shape
+// changes; `latest` only returns snapshots of the requested version, so
+// stale ones are ignored without a migration.
+//
+// WHY `unknown` STATE?
+// The store doesn't know aggregate types — it keeps the ENCODED state
+// (plain JSON). Encoding/decoding belongs to the aggregate's snapshot
+// schema (see domain/*/Snapshot.ts and application/AggregateLoader.ts).
+//
+import { Context, type Effect, type Option } from "effect"
+import type { StreamId } from "./EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Snapshot {
+  readonly streamId: StreamId
+  readonly version: number // Stream version the state was folded up to
+  readonly schemaVersion: number
+  readonly state: unknown // Encoded (JSON-safe) aggregate state
+}
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface SnapshotStoreService {
+  // Highest-version snapshot of the stream with this schema version, if any
+  readonly latest: (streamId: StreamId, schemaVersion: number) => Effect.Effect<Option.Option<Snapshot>>
+
+  // Store a snapshot. Saving the same (stream, version) twice is a no-op.
+  readonly save: (snapshot: Snapshot) => Effect.Effect<void>
+}
+
+// =============================================================================
+// Tag
+// =============================================================================
+
+export class SnapshotStore extends Context.Tag("SnapshotStore")<SnapshotStore, SnapshotStoreService>() {}
@@ -0,0 +1,37 @@
+// =============================================================================
+// UnitOfWork — The Port (Interface)
+// =============================================================================
+//
+// HEXAGONAL ARCHITECTURE:
+// This is a PORT — the transaction boundary of a use case. Implementations
+// (InMemory, Postgres) live in infrastructure/.
+//
+// WHY?
+// A command's side effects are spread over several ports: the events go to
+// the EventStore, the lookups to the Registry, the safety emails to the
+// Outbox. `atomically` lets a use case say "these writes belong together"
+// without knowing how the storage achieves it:
+//   - Postgres: one transaction — every adapter sharing the PgClient joins it
+//   - In-memory: runs the effect as-is (nothing to roll back)
+//
+// The use case decides WHAT is atomic; the adapter decides HOW.
+//
+// SCALA ANALOGY: like Doobie's `transact` — but the Transactor is injected,
+// so the same use case runs against memory in tests.
+//
+import { Context, type Effect } from "effect"
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+export interface UnitOfWorkService {
+  // Run `effect` so that all of its writes commit together, or none do
+  readonly atomically: <A, E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>
+}
+
+// =============================================================================
+// Tag
+// =============================================================================
+
+export class UnitOfWork extends Context.Tag("UnitOfWork")<UnitOfWork, UnitOfWorkService>() {}
@@ -0,0 +1,182 @@
+// =============================================================================
+// AggregateLoader — Fold a stream, starting from its latest snapshot
+// =============================================================================
+//
+// WITHOUT SNAPSHOTS:
+//   state = load(stream).reduce(evolve, initialState)      — every event, every time
+//
+// WITH SNAPSHOTS:
+//   snapshot = latest(stream)                              — state@v
+//   state    = load(stream, after v).reduce(evolve, snapshot.state)
+//
+// Both give the same state: a snapshot is just a memoized prefix of the fold.
+//
+// SNAPSHOTS ARE OPTIONAL — TWICE:
+//   1. Per aggregate: only callers passing `snapshots` use them
+//   2. Per program: the SnapshotStore is looked up with Effect.serviceOption,
+//      so it is NOT a requirement. Without one in context (most tests), loads
+//      fold the full stream and nothing is saved.
+//
+// WHEN ARE SNAPSHOTS WRITTEN?
+// By the command handler after an append, whenever the stream's version
+// crosses a multiple of `every` (see snapshotIfDue). Reads never write.
+//
+// SELF-HEALING:
+// A snapshot that doesn't decode (corrupt row, schema drift without a
+// version bump) is logged and skipped — we fold from the start instead.
+//
+// SCALA ANALOGY: Akka Persistence's snapshot + replay-from-sequence-nr recovery.
+//
+import { Effect, Option, Schema } from "effect"
+import type { EventDecodeError, EventEnvelope, EventStoreService, StreamId } from "../EventStore.js"
+import { SnapshotStore } from "../SnapshotStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// How an aggregate's state is encoded (see domain/*/Snapshot.ts). I is the
+// encoded (JSON) shape — Schema is invariant in it, hence a parameter of its own.
+export type SnapshotCodec<S, I> = {
+  readonly schemaVersion: number
+  readonly schema: Schema.Schema<S, I>
+}
+
+export type SnapshotPolicy<S, I> = {
+  readonly codec: SnapshotCodec<S, I>
+  readonly every?: number // Snapshot every N events (default below)
+}
+
+export type LoadedAggregate<S> = {
+  readonly state: S
+  readonly version: number // Events folded into `state` = expectedVersion for append
+}
+
+// Big enough that most streams never need one, small enough to cap the
+// fold of hot streams
+export const DEFAULT_SNAPSHOT_EVERY = 50
+
+// =============================================================================
+// loadAggregate
+// =============================================================================
+
+export const loadAggregate = <S, E, I>(
+  store: EventStoreService<E>,
+  streamId: StreamId,
+  config: {
+    readonly initialState: S
+    readonly evolve: (state: S, event: E) => S
+    readonly snapshots?: SnapshotPolicy<S, I> | undefined
+  }
+): Effect.Effect<LoadedAggregate<S>, EventDecodeError> =>
+  Effect.gen(function*() {
+    const start = yield* latestSnapshot(streamId, config.snapshots)
+    const base = Option.getOrElse(start, () => ({ state: config.initialState, version: 0 }))
+
+    const events = yield* store.load(streamId, base.version)
+    return {
+      state: events.reduce(config.evolve, base.state),
+      version: base.version + events.length
+    }
+  })
+
+// Latest decodable snapshot, or None (no policy, no store, none saved, undecodable)
+const latestSnapshot = <S, I>(
+  streamId: StreamId,
+  policy: SnapshotPolicy<S, I> | undefined
+): Effect.Effect<Option.Option<LoadedAggregate<S>>> =>
+  Effect.gen(function*() {
+    const snapshotStore = yield* Effect.serviceOption(SnapshotStore)
+    if (policy === undefined || Option.isNone(snapshotStore)) return Option.none()
+
+    const { codec } = policy
+    const snapshot = yield* snapshotStore.value.latest(streamId, codec.schemaVersion)
+    if (Option.isNone(snapshot)) return Option.none()
+
+    return yield* Schema.decodeUnknown(codec.schema)(snapshot.value.state).pipe(
+      Effect.map((state) => Option.some({ state, version: snapshot.value.version })),
+      Effect.catchTag("ParseError", (error) =>
+        Effect.logWarning(
+          `Ignoring undecodable snapshot of ${streamId}@${snapshot.value.version}: ${error.message}`
+        ).pipe(Effect.as(Option.none())))
+    )
+  })
+
+// =============================================================================
+// snapshotIfDue
+// =============================================================================
+//
+// Saves `state` (the state at `newVersion`) if going from `previousVersion`
+// to `newVersion` crossed a multiple of `every` — an append of several
+// events can jump over the exact multiple, so "== 0" wouldn't do.
+//
+export const snapshotIfDue = <S, I>(
+  streamId: StreamId,
+  previousVersion: number,
+  newVersion: number,
+  state: S,
+  policy: SnapshotPolicy<S, I> | undefined
+): Effect.Effect<void> =>
+  Effect.gen(function*() {
+    const snapshotStore = yield* Effect.serviceOption(SnapshotStore)
+    if (policy === undefined || Option.isNone(snapshotStore)) return
+
+    const every = policy.every ?? DEFAULT_SNAPSHOT_EVERY
+    if (Math.floor(newVersion / every) === Math.floor(previousVersion / every)) return
+
+    const { codec } = policy
+    yield* Schema.encode(codec.schema)(state).pipe(
+      Effect.flatMap((encoded) =>
+        snapshotStore.value.save({
+          streamId,
+          version: newVersion,
+          schemaVersion: codec.schemaVersion,
+          state: encoded
+        })
+      ),
+      // A missing snapshot only costs a longer fold — never fail the command
+      Effect.catchTag("ParseError", (error) =>
+        Effect.logWarning(`Could not encode snapshot of ${streamId}@${newVersion}: ${error.message}`))
+    )
+  })
+
+// =============================================================================
+// loadAggregateAt — time travel
+// =============================================================================
+//
+// The state as it was at a past point: the fold simply stops there. Nothing
+// else changes — it's the same evolve over a shorter list, which is the whole
+// appeal of deriving state from events.
+//
+// A point is either a time (`recordedAt` on the envelope) or a position in
+// the global log — the one projections checkpoint on, shared by all streams,
+// so "position 42" means the same moment for the user and every address.
+//
+// Snapshots are not used: the latest one may well be past the point.
+//
+
+export type PointInTime =
+  | { readonly _tag: "AsOf"; readonly timestamp: Date }
+  | { readonly _tag: "AtPosition"; readonly position: number }
+
+const recordedBy = (point: PointInTime) => (envelope: EventEnvelope<unknown>): boolean =>
+  point._tag === "AsOf"
+    ? envelope.recordedAt.getTime() <= point.timestamp.getTime()
+    : envelope.position <= point.position
+
+export const loadAggregateAt = <S, E>(
+  store: EventStoreService<E>,
+  streamId: StreamId,
+  config: {
+    readonly initialState: S
+    readonly evolve: (state: S, event: E) => S
+  },
+  point: PointInTime
+): Effect.Effect<LoadedAggregate<S>, EventDecodeError> =>
+  Effect.map(store.loadEnvelopes(streamId), (envelopes) => {
+    const events = envelopes.filter(recordedBy(point)).map((envelope) => envelope.event)
+    return {
+      state: events.reduce(config.evolve, config.initialState),
+      version: events.length
+    }
+  })
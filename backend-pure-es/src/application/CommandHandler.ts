@@ -22,9 +22,63 @@
 // The returned handler requires EventStoreService<E> from context.
 // The caller provides this via Layer (InMemory for tests, Postgres for prod).
 //
-import type { Context } from "effect"
-import { Effect, Either } from "effect"
-import type { EventStoreService, StreamId } from "../EventStore.js"
+import type { Context, Duration } from "effect"
+import { Effect, Either, Schedule } from "effect"
+import type {
+  ConcurrencyConflict,
+  EventDecodeError,
+  EventEnvelope,
+  EventMetadata,
+  EventStoreService,
+  StreamId
+} from "../EventStore.js"
+import { loadAggregate, snapshotIfDue, type SnapshotPolicy } from "./AggregateLoader.js"
+
+// =============================================================================
+// Retry Policy (for ConcurrencyConflict)
+// =============================================================================
+//
+// WHY RETRY?
+// A ConcurrencyConflict means "someone else got there first", not "your command
+// is wrong". The right reaction is usually to reload, re-fold, re-decide, and
+// try again — the new decision is made on fresh state, so it's still correct.
+// (If the fresh state makes the command invalid, decide will say so.)
+//
+// EFFECT SCHEDULE:
+// A Schedule describes WHEN to retry (delays) and WHEN TO STOP (attempt limit).
+// Schedules compose: `exponential` gives growing delays, `jittered` randomizes
+// them (so two contending requests don't retry in lockstep), `intersect` with
+// `recurs(n)` caps the number of retries.
+//
+// SCALA ANALOGY: ZIO's Schedule — same combinators, same semantics.
+//
+
+// Any schedule works — it only decides delays/stop, it doesn't inspect the error.
+export type RetryPolicy = Schedule.Schedule<unknown, unknown>
+
+export const jitteredRetryPolicy = (options: {
+  readonly maxRetries: number
+  readonly baseDelay: Duration.DurationInput
+}): RetryPolicy =>
+  Schedule.exponential(options.baseDelay).pipe(
+    Schedule.jittered,
+    Schedule.intersect(Schedule.recurs(options.maxRetries))
+  )
+
+// Sensible default for interactive requests: up to 5 retries, ~10ms → ~160ms
+export const defaultRetryPolicy: RetryPolicy = jitteredRetryPolicy({
+  maxRetries: 5,
+  baseDelay: "10 millis"
+})
+
+// Only a ConcurrencyConflict on a stream that already existed is retried.
+// Domain errors (Err) are final. So is a conflict at expectedVersion 0: two
+// requests raced to CREATE the same stream, and re-deciding on the winner's
+// events can only turn it into an AlreadyExists error — the conflict says
+// more about what happened.
+const isRetryableConflict = (error: unknown): error is ConcurrencyConflict =>
+  typeof error === "object" && error !== null && "_tag" in error && error._tag === "ConcurrencyConflict" &&
+  (error as ConcurrencyConflict).expectedVersion > 0
 
 // =============================================================================
 // makeCommandHandler Factory
@@ -42,9 +96,34 @@ import type { EventStoreService, StreamId } from "../EventStore.js"
 //   initialState - Starting state for fold (e.g., Option.none())
 //   evolve      - (State, Event) → State
 //   decide      - (State, Command) → Either<Event[], Error>
+//   retry       - (optional) RetryPolicy for ConcurrencyConflict, or `false`
+//                 to surface conflicts as-is (default: defaultRetryPolicy)
+//   snapshots   - (optional) SnapshotPolicy — load from / save snapshots
 //
 // RETURNS:
-//   (streamId, command) → Effect<Event[], Error, EventStoreService<E>>
+//   (streamId, command, metadata?) → Effect<Event[], Error | ConcurrencyConflict | EventDecodeError, EventStoreService<E>>
+//   `metadata` (correlation/causation/actor) is passed through to append.
+//   `.withEnvelopes` — same handler, returning the appended envelopes (with
+//   their stream versions) instead of the bare events.
+//
+// OPTIMISTIC CONCURRENCY:
+// The handler remembers how many events it folded (the stream version its
+// decision is based on) and hands that to append as expectedVersion.
+// If another request appended in between, the append fails with
+// ConcurrencyConflict instead of committing a decision made on stale state.
+//
+// RETRY BY DEFAULT:
+// On a conflict with an existing stream, the WHOLE cycle (load → fold →
+// decide → append) is re-run until it succeeds or the policy gives up —
+// defaultRetryPolicy unless `retry` names another one. Every handler gets
+// this without asking: a busy stream (an address edited from two tabs, a
+// revert racing an edit) shouldn't fail a request that fresh state would
+// accept. `retry: false` opts out, surfacing the conflict to the caller.
+//
+// SNAPSHOTS:
+// With a `snapshots` policy (and a SnapshotStore in context), the fold starts
+// from the latest snapshot instead of the first event, and a new snapshot is
+// saved whenever an append crosses the policy's interval. See AggregateLoader.
 //
 // SCALA ANALOGY:
 // This is like a ZIO service that depends on an EventStore[E].
@@ -69,19 +148,27 @@ export const makeCommandHandler = <
   S,
   E,
   C,
-  Err
+  Err,
+  // Encoded snapshot state (inferred from `snapshots`, if any)
+  I
 >(config: {
   readonly tag: Tag
   readonly initialState: S
   readonly evolve: (state: S, event: E) => S
   readonly decide: (state: S, command: C) => Either.Either<ReadonlyArray<E>, Err>
+  readonly retry?: RetryPolicy | false
+  readonly snapshots?: SnapshotPolicy<S, I>
 }) => {
-  // Return the handler function
-  // The return type declares dependency on the Tag's service
-  return (
+  // One load → fold → decide → append cycle
+  const attempt = (
     streamId: StreamId,
-    command: C
-  ): Effect.Effect<ReadonlyArray<E>, Err, Context.Tag.Identifier<Tag>> =>
+    command: C,
+    metadata?: EventMetadata
+  ): Effect.Effect<
+    ReadonlyArray<EventEnvelope<E>>,
+    Err | ConcurrencyConflict | EventDecodeError,
+    Context.Tag.Identifier<Tag>
+  > =>
     // =========================================================================
     // EFFECT GENERATOR SYNTAX: Effect.gen(function* () { ... })
     // =========================================================================
@@ -133,20 +220,15 @@ export const makeCommandHandler = <
       const store = yield* config.tag
 
       // -----------------------------------------------------------------------
-      // STEP 2: Load events for this stream
+      // STEPS 2–3: Load events for this stream and fold them into state
       // -----------------------------------------------------------------------
-      // store.load returns Effect<E[], never> — can't fail, always succeeds
-      // yield* extracts the E[] value
+      // This is the "fold-on-read" pattern from Event Sourcing:
+      //   events.reduce(evolve, initialState)
+      // loadAggregate does exactly that — starting from the latest snapshot
+      // when there is one — and also reports the stream version it folded to.
+      // Can't fail, always succeeds.
       //
-      const events = yield* store.load(streamId)
-
-      // -----------------------------------------------------------------------
-      // STEP 3: Fold events to get current state
-      // -----------------------------------------------------------------------
-      // Pure JS array reduce — no Effect needed here
-      // This is the "fold-on-read" pattern from Event Sourcing
-      //
-      const currentState = events.reduce(config.evolve, config.initialState)
+      const { state: currentState, version } = yield* loadAggregate(store, streamId, config)
 
       // -----------------------------------------------------------------------
       // STEP 4: Decide — apply command to current state
@@ -176,19 +258,65 @@ export const makeCommandHandler = <
       // -----------------------------------------------------------------------
       // STEP 6: Append new events to store (if any)
       // -----------------------------------------------------------------------
-      // store.append returns Effect<void, never> — fire and forget
       // Only append if there are events (decide may return [] for no-op)
       //
-      if (newEvents.length > 0) {
-        yield* store.append(streamId, newEvents)
+      // expectedVersion = number of events we folded. If the stream grew since
+      // STEP 2, store.append fails with ConcurrencyConflict and nothing is written.
+      //
+      // Then, if this append crossed the snapshot interval, save the new state.
+      //
+      if (newEvents.length === 0) {
+        return []
       }
+      const envelopes = yield* store.append(streamId, newEvents, version, metadata)
+      yield* snapshotIfDue(
+        streamId,
+        version,
+        version + newEvents.length,
+        newEvents.reduce(config.evolve, currentState),
+        config.snapshots
+      )
 
       // -----------------------------------------------------------------------
-      // STEP 7: Return the emitted events
+      // STEP 7: Return the emitted events, as the store recorded them
       // -----------------------------------------------------------------------
       // The return value becomes the success value of the Effect
-      // Caller gets ReadonlyArray<E> on success
+      // Caller gets ReadonlyArray<EventEnvelope<E>> on success
       //
-      return newEvents
+      return envelopes
     })
+
+  // Return the handler function
+  // The return type declares dependency on the Tag's service
+  //
+  // EFFECT SYNTAX: Effect.retry({ schedule, while })
+  // Re-runs the effect on failure according to the schedule, but only while
+  // the predicate holds — so domain errors fail immediately, conflicts retry.
+  // Because `attempt` starts from `store.load`, every retry sees fresh state.
+  //
+  // Most callers want the events; the ones projecting with stream versions
+  // (user events into the Registry) take `.withEnvelopes`.
+  //
+  const retry = config.retry ?? defaultRetryPolicy
+  const withEnvelopes = (
+    streamId: StreamId,
+    command: C,
+    metadata?: EventMetadata
+  ): Effect.Effect<
+    ReadonlyArray<EventEnvelope<E>>,
+    Err | ConcurrencyConflict | EventDecodeError,
+    Context.Tag.Identifier<Tag>
+  > =>
+    retry === false
+      ? attempt(streamId, command, metadata)
+      : attempt(streamId, command, metadata).pipe(Effect.retry({ schedule: retry, while: isRetryableConflict }))
+
+  const handle = (
+    streamId: StreamId,
+    command: C,
+    metadata?: EventMetadata
+  ): Effect.Effect<ReadonlyArray<E>, Err | ConcurrencyConflict | EventDecodeError, Context.Tag.Identifier<Tag>> =>
+    Effect.map(withEnvelopes(streamId, command, metadata), (envelopes) => envelopes.map((envelope) => envelope.event))
+
+  return Object.assign(handle, { withEnvelopes })
 }
@@ -0,0 +1,148 @@
+// =============================================================================
+// OutboxDispatcher — Deliver pending outbox emails
+// =============================================================================
+//
+// The other half of the transactional outbox (see Outbox.ts): use cases
+// enqueue, the dispatcher sends. It claims the due messages, hands each one
+// to the real EmailService, and records the outcome.
+//
+// DELIVERY PIPELINE (per message, per pass):
+//   claim ─▶ send ──ok──▶ markSent
+//              │
+//              └─fail─▶ recordFailure ──▶ due again after `backoff`
+//                            │
+//                            └─maxAttempts reached─▶ dead
+//
+// Dead letters leave the pending set; they are listed and replayed through
+// the admin endpoints (usecases/DeadLetters.ts).
+//
+// RETRIES ACROSS PASSES:
+// A pass sends each claimed message ONCE. A failure is written to the
+// outbox with the time of the next attempt, and a later pass picks it up —
+// the dispatcher never sleeps on a message, so one struggling recipient
+// doesn't hold up the rest, and a restart loses no retry state. The stored
+// maxAttempts (not the dispatcher) decides when to give up.
+//
+// CONCURRENCY:
+// Up to `concurrency` sends are in flight at once. Claims are leased (see
+// Outbox.ts), so several dispatchers can share one outbox.
+//
+// TWO MODES (same shape as ProjectionRunner):
+//   dispatchPending     — one pass over the pending messages, then return
+//                         (tests, scripts)
+//   runOutboxDispatcher — poll forever (long-lived background consumer)
+//
+// WHY AN EXPLICIT `transport` PARAMETER?
+// In the running app, the EmailService in context IS the outbox (use cases
+// enqueue through it — see OutboxEmailService). The dispatcher needs the
+// adapter that actually talks to SMTP, so it's passed in rather than
+// pulled from context.
+//
+import { type Cause, Duration, Effect, Schedule } from "effect"
+import type { EmailServiceInterface } from "../EmailService.js"
+import { Outbox, type OutboxMessage } from "../Outbox.js"
+
+// =============================================================================
+// Options
+// =============================================================================
+
+// Delay before the next attempt, given how many have failed so far
+export type DeliveryBackoff = (failedAttempts: number) => Duration.DurationInput
+
+// 1s, 2s, 4s, 8s... between attempts
+export const defaultDeliveryBackoff: DeliveryBackoff = (failedAttempts) => Duration.seconds(2 ** (failedAttempts - 1))
+
+export type DispatchOptions = {
+  readonly batchSize?: number
+  readonly concurrency?: number
+  readonly backoff?: DeliveryBackoff
+  // How long a claimed message stays hidden from other dispatchers —
+  // comfortably longer than one send
+  readonly lease?: Duration.DurationInput
+}
+
+// What a pass did with the messages it claimed
+export type DispatchResult = {
+  readonly delivered: number
+  readonly retrying: number
+  readonly deadLettered: number
+}
+
+const DISPATCH_BATCH_SIZE = 100
+const DISPATCH_CONCURRENCY = 4
+const DEFAULT_LEASE = "5 minutes"
+
+// =============================================================================
+// dispatchPending — one pass
+// =============================================================================
+//
+// Claims up to `batchSize` due messages, oldest first, and tries each once.
+//
+export const dispatchPending = (
+  transport: EmailServiceInterface,
+  options: DispatchOptions = {}
+): Effect.Effect<DispatchResult, never, Outbox> =>
+  Effect.gen(function*() {
+    const outbox = yield* Outbox
+    const backoff = options.backoff ?? defaultDeliveryBackoff
+    const messages = yield* outbox.claim(
+      options.batchSize ?? DISPATCH_BATCH_SIZE,
+      Duration.decode(options.lease ?? DEFAULT_LEASE)
+    )
+
+    const deliver = (message: OutboxMessage) =>
+      transport.send(message.email).pipe(
+        Effect.zipRight(outbox.markSent(message.id)),
+        Effect.as("delivered" as const),
+        // Every failed attempt is recorded — visible on the dead letter later
+        Effect.catchTag("EmailSendError", (error) =>
+          outbox.recordFailure(
+            message.id,
+            error.message,
+            Duration.decode(backoff(message.attempts + 1))
+          ).pipe(
+            Effect.tap((outcome) =>
+              outcome === "deadLettered"
+                ? Effect.logError(
+                  `Outbox message ${message.id} dead-lettered after ${message.maxAttempts} attempts: ${error.message}`
+                )
+                : Effect.void
+            )
+          ))
+      )
+
+    const outcomes = yield* Effect.forEach(messages, deliver, {
+      concurrency: options.concurrency ?? DISPATCH_CONCURRENCY
+    })
+    return {
+      delivered: outcomes.filter((outcome) => outcome === "delivered").length,
+      retrying: outcomes.filter((outcome) => outcome === "retrying").length,
+      deadLettered: outcomes.filter((outcome) => outcome === "deadLettered").length
+    }
+  })
+
+// =============================================================================
+// runOutboxDispatcher — forever
+// =============================================================================
+//
+// Runs dispatchPending every `pollInterval`. If a pass dies (outbox storage
+// down...), we log, wait, and carry on — pending rows are still there.
+// Fork this in the background; interrupting the fiber is the only way to
+// stop it.
+//
+const DEFAULT_POLL_INTERVAL = "1 second"
+const RESTART_DELAY = "5 seconds"
+
+export const runOutboxDispatcher = (
+  transport: EmailServiceInterface,
+  options: DispatchOptions & { readonly pollInterval?: Duration.DurationInput } = {}
+): Effect.Effect<never, never, Outbox> =>
+  dispatchPending(transport, options).pipe(
+    Effect.repeat(Schedule.spaced(options.pollInterval ?? DEFAULT_POLL_INTERVAL)),
+    Effect.catchAllCause((cause: Cause.Cause<never>) =>
+      Effect.logError(`Outbox dispatcher failed — restarting in ${RESTART_DELAY}`, cause).pipe(
+        Effect.zipRight(Effect.sleep(RESTART_DELAY))
+      )
+    ),
+    Effect.forever
+  )
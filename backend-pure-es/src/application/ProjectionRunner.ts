@@ -0,0 +1,172 @@
+// =============================================================================
+// ProjectionRunner — Drive a projection from the global event log
+// =============================================================================
+//
+// WHAT IS A PROJECTION HERE?
+// A named function applied to every event in the log, in global order:
+//   name  — checkpoint key (must be stable across restarts)
+//   apply — (EventEnvelope) → Effect<void>
+//
+// WHY A GENERIC RUNNER?
+// Every projection needs the same plumbing: load checkpoint → read the log
+// from there → apply each event → advance the checkpoint. Writing that once
+// means a new projection is just { name, apply }.
+//
+// THREE MODES:
+//   catchUpProjection — apply everything up to the current end of the log,
+//                       then return (startup, tests)
+//   runProjection     — catch up, then keep applying new events forever
+//                       (long-lived background consumer)
+//   rebuildProjection — wipe the projection and replay the whole log
+//                       (corruption, changed projection logic, rehydration)
+//
+// IDEMPOTENCY:
+// apply and checkpoint are committed together (ProjectionCheckpoints.advance),
+// but a projection may still see an event it has already reflected — e.g. when
+// a use case also projects inline for read-your-writes. `apply` must therefore
+// be safe to run twice for the same event.
+//
+// SCALA ANALOGY:
+// Like an Akka Projection / a ZStream consumer with offset storage.
+//
+import { type Cause, Effect, Option, Stream } from "effect"
+import { type DomainEvent, type EventEnvelope, EventLog } from "../EventStore.js"
+import { ProjectionCheckpoints } from "../ProjectionCheckpoints.js"
+
+// =============================================================================
+// Projection Definition
+// =============================================================================
+
+export type Projection<R> = {
+  readonly name: string
+  readonly apply: (envelope: EventEnvelope<DomainEvent>) => Effect.Effect<void, never, R>
+}
+
+// -----------------------------------------------------------------------------
+// Shared step: apply one event and advance the checkpoint past it
+// -----------------------------------------------------------------------------
+const applyAndAdvance = <R>(projection: Projection<R>) => (envelope: EventEnvelope<DomainEvent>) =>
+  Effect.flatMap(
+    ProjectionCheckpoints,
+    (checkpoints) => checkpoints.advance(projection.name, envelope.position, projection.apply(envelope))
+  )
+
+// =============================================================================
+// catchUpProjection — finite
+// =============================================================================
+//
+// Applies every event after the projection's checkpoint, up to the end of the
+// log as it is when reading starts, and returns the new checkpoint.
+//
+const CATCH_UP_BATCH_SIZE = 500
+
+export const catchUpProjection = <R>(
+  projection: Projection<R>
+): Effect.Effect<number, never, EventLog | ProjectionCheckpoints | R> =>
+  Effect.gen(function*() {
+    const log = yield* EventLog
+    const checkpoints = yield* ProjectionCheckpoints
+    const from = yield* checkpoints.load(projection.name)
+
+    const last = yield* log.readAll(from, CATCH_UP_BATCH_SIZE).pipe(
+      Stream.tap(applyAndAdvance(projection)),
+      Stream.runLast
+    )
+    return Option.match(last, { onNone: () => from, onSome: (envelope) => envelope.position })
+  })
+
+// =============================================================================
+// runProjection — forever
+// =============================================================================
+//
+// Subscribes from the checkpoint and applies events as they arrive.
+//
+// SELF-HEALING:
+// If apply dies (DB down, bug in one event...), we log, wait, and start over
+// from the LAST COMMITTED checkpoint — nothing is skipped. Fork this in the
+// background; interrupting the fiber is the only way to stop it.
+//
+const RESTART_DELAY = "5 seconds"
+
+export const runProjection = <R>(
+  projection: Projection<R>
+): Effect.Effect<never, never, EventLog | ProjectionCheckpoints | R> =>
+  Effect.gen(function*() {
+    const log = yield* EventLog
+    const checkpoints = yield* ProjectionCheckpoints
+    const from = yield* checkpoints.load(projection.name)
+
+    yield* log.subscribe(from).pipe(Stream.runForEach(applyAndAdvance(projection)))
+  }).pipe(
+    Effect.catchAllCause((cause: Cause.Cause<never>) =>
+      Effect.logError(`Projection "${projection.name}" failed — restarting in ${RESTART_DELAY}`, cause).pipe(
+        Effect.zipRight(Effect.sleep(RESTART_DELAY))
+      )
+    ),
+    Effect.forever
+  )
+
+// =============================================================================
+// rebuildProjection — from scratch
+// =============================================================================
+//
+// STEPS (one unit of work — see ProjectionCheckpoints.atomically):
+//   1. reset   — the caller wipes the projection's state (e.g. Registry.reset)
+//   2. rewind  — checkpoint back to 0
+//   3. replay  — every event up to the head (as of the start) through apply
+//
+// In Postgres the whole rebuild is one transaction: lookups keep answering
+// from the old tables until the rebuilt ones commit, then switch over at once.
+//
+// A background runProjection may re-apply some events afterwards (its own
+// position is older than the rebuilt checkpoint) — harmless, see IDEMPOTENCY.
+//
+// PROGRESS:
+// `onProgress` is called every `progressEvery` events and once at the end.
+//
+export type RebuildProgress = {
+  readonly processed: number
+  readonly position: number
+  readonly headPosition: number
+}
+
+const DEFAULT_PROGRESS_EVERY = 1000
+
+export const rebuildProjection = <R, R2, R3>(
+  projection: Projection<R>,
+  options: {
+    readonly reset: Effect.Effect<void, never, R2>
+    readonly onProgress: (progress: RebuildProgress) => Effect.Effect<void, never, R3>
+    readonly progressEvery?: number
+  }
+): Effect.Effect<RebuildProgress, never, EventLog | ProjectionCheckpoints | R | R2 | R3> =>
+  Effect.gen(function*() {
+    const log = yield* EventLog
+    const checkpoints = yield* ProjectionCheckpoints
+    const every = options.progressEvery ?? DEFAULT_PROGRESS_EVERY
+    // Fixed target: events appended during the rebuild are left to the runner
+    const headPosition = yield* log.headPosition
+
+    return yield* checkpoints.atomically(
+      Effect.gen(function*() {
+        yield* options.reset
+        yield* checkpoints.advance(projection.name, 0, Effect.void)
+
+        const processed = yield* log.readAll(0, CATCH_UP_BATCH_SIZE).pipe(
+          Stream.takeWhile((envelope) => envelope.position <= headPosition),
+          Stream.tap(applyAndAdvance(projection)),
+          Stream.zipWithIndex,
+          Stream.tap(([envelope, index]) =>
+            (index + 1) % every === 0
+              ? options.onProgress({ processed: index + 1, position: envelope.position, headPosition })
+              : Effect.void
+          ),
+          Stream.runCount
+        )
+
+        const done: RebuildProgress = { processed, position: headPosition, headPosition }
+        yield* options.onProgress(done)
+        return done
+      })
+    )
+  })
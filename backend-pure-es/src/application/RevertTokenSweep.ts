@@ -0,0 +1,66 @@
+// =============================================================================
+// RevertTokenSweep — Drop expired revert tokens from the Registry
+// =============================================================================
+//
+// Expiry itself is enforced by `decide` (RevertTokenExpired), from the
+// issuedAt kept in the aggregate's pendingReverts. The Registry's
+// token → addressId index would otherwise keep every token ever issued;
+// this sweep deletes the ones past their TTL, so lookups only find tokens
+// that could still be honoured.
+//
+// A purged token then looks like one that never existed (RevertTokenInvalid
+// from the use case). That's fine: between expiry and the next sweep the
+// user gets the precise "expired" answer, after it the generic one.
+//
+// TWO MODES (same shape as OutboxDispatcher):
+//   sweepExpiredRevertTokens — one pass (tests, scripts)
+//   runRevertTokenSweep      — every `interval`, forever (background)
+//
+import { type Cause, Clock, Duration, Effect, Schedule } from "effect"
+import { Registry } from "../Registry.js"
+import { RevertTokenTtl } from "../RevertTokenTtl.js"
+
+// =============================================================================
+// sweepExpiredRevertTokens — one pass
+// =============================================================================
+//
+// Cutoff = now - TTL: a token issued at or before it has expired (same
+// boundary as decide). Returns how many tokens were purged.
+//
+export const sweepExpiredRevertTokens: Effect.Effect<number, never, Registry> = Effect.gen(function*() {
+  const registry = yield* Registry
+  const ttl = yield* RevertTokenTtl
+  const now = yield* Clock.currentTimeMillis
+
+  const cutoff = new Date(now - Duration.toMillis(ttl))
+  const purged = yield* registry.purgeRevertTokensIssuedBefore(cutoff)
+  if (purged > 0) {
+    yield* Effect.logInfo(`Purged ${purged} expired revert token(s) issued before ${cutoff.toISOString()}`)
+  }
+  return purged
+})
+
+// =============================================================================
+// runRevertTokenSweep — forever
+// =============================================================================
+//
+// Expired tokens are already refused, so there's no hurry: a pass every few
+// minutes keeps the index tidy. If a pass dies (Registry storage down...),
+// we log, wait one interval, and carry on.
+//
+const DEFAULT_SWEEP_INTERVAL = "5 minutes"
+
+export const runRevertTokenSweep = (
+  options: { readonly interval?: Duration.DurationInput } = {}
+): Effect.Effect<never, never, Registry> => {
+  const interval = options.interval ?? DEFAULT_SWEEP_INTERVAL
+  return sweepExpiredRevertTokens.pipe(
+    Effect.repeat(Schedule.spaced(interval)),
+    Effect.catchAllCause((cause: Cause.Cause<never>) =>
+      Effect.logError("Revert token sweep failed — retrying after the interval", cause).pipe(
+        Effect.zipRight(Effect.sleep(interval))
+      )
+    ),
+    Effect.forever
+  )
+}
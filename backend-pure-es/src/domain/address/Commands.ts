@@ -30,11 +30,13 @@ import { AddressId, City, Country, Label, RevertToken, StreetName, StreetNumber,
 // The caller (service layer) generates the token before invoking decide.
 // This keeps decide pure — it doesn't need to generate random values.
 // The token flows: Command → Event → Email → RevertChange command.
+// Same for revertTokenIssuedAt: the caller reads the Clock, decide doesn't.
 //
 export const CreateAddress = Schema.Struct({
   _tag: Schema.Literal("CreateAddress"),
   id: AddressId,
   revertToken: RevertToken, // Generated by caller, used in safety email
+  revertTokenIssuedAt: Schema.Date, // Start of the token's validity window
   userId: UserId,
   label: Label,
   streetNumber: StreetNumber,
@@ -91,12 +93,14 @@ const makeChangeCommand = <Tag extends string, Field extends string, S extends S
     _tag: Schema.Literal(tag),
     id: AddressId,
     revertToken: RevertToken, // Generated by caller, used in safety email
+    revertTokenIssuedAt: Schema.Date,
     [field]: schema
   }) as Schema.Struct<
     {
       _tag: Schema.Literal<[Tag]>
       id: typeof AddressId
       revertToken: typeof RevertToken
+      revertTokenIssuedAt: typeof Schema.Date
     } & { [K in Field]: S }
   >
 
@@ -118,6 +122,29 @@ export type ChangeCity = typeof ChangeCity.Type
 export const ChangeCountry = makeChangeCommand("ChangeCountry", "country", Country)
 export type ChangeCountry = typeof ChangeCountry.Type
 
+// -----------------------------------------------------------------------------
+// ChangeAddress
+// -----------------------------------------------------------------------------
+// Intent: change any subset of the fields in one go (e.g., moving house).
+// Omitted fields are left alone. Emits a single AddressChanged with one
+// revertToken — see Events.ts.
+//
+export const ChangeAddress = Schema.Struct({
+  _tag: Schema.Literal("ChangeAddress"),
+  id: AddressId,
+  revertToken: RevertToken,
+  revertTokenIssuedAt: Schema.Date,
+  fields: Schema.Struct({
+    label: Schema.optional(Label),
+    streetNumber: Schema.optional(StreetNumber),
+    streetName: Schema.optional(StreetName),
+    zipCode: Schema.optional(ZipCode),
+    city: Schema.optional(City),
+    country: Schema.optional(Country)
+  })
+})
+export type ChangeAddress = typeof ChangeAddress.Type
+
 // -----------------------------------------------------------------------------
 // DeleteAddress
 // -----------------------------------------------------------------------------
@@ -126,7 +153,8 @@ export type ChangeCountry = typeof ChangeCountry.Type
 export const DeleteAddress = Schema.Struct({
   _tag: Schema.Literal("DeleteAddress"),
   id: AddressId,
-  revertToken: RevertToken // Generated by caller, used in safety email
+  revertToken: RevertToken, // Generated by caller, used in safety email
+  revertTokenIssuedAt: Schema.Date
 })
 export type DeleteAddress = typeof DeleteAddress.Type
 
@@ -148,11 +176,26 @@ export type DeleteAddress = typeof DeleteAddress.Type
 // The caller (e.g., HTTP handler parsing a revert link) just extracts the
 // token from the URL — it doesn't need to know which field was changed.
 //
+// STALE REVERTS:
+// If the field was changed again after the email (Paris→Lyon with token A,
+// then Lyon→Nice with B), token A no longer describes the current state.
+// decide refuses it with RevertConflict unless `force` is set — then it
+// reverts from whatever the value is now. (A deleted address is always a
+// conflict: there's no field left to revert.)
+//
+// EXPIRY:
+// A token is only honoured for `tokenTtl` after it was issued. The caller
+// supplies "now" (requestedAt) and the configured TTL, so decide stays pure
+// and tests can pin both.
+//
 
 export const RevertChange = Schema.Struct({
   _tag: Schema.Literal("RevertChange"),
   id: AddressId,
-  revertToken: RevertToken
+  revertToken: RevertToken,
+  requestedAt: Schema.DateFromSelf,
+  tokenTtl: Schema.DurationFromSelf,
+  force: Schema.Boolean // Revert even if the field changed since the token was issued
 })
 export type RevertChange = typeof RevertChange.Type
 
@@ -168,6 +211,7 @@ export const AddressCommand = Schema.Union(
   ChangeZipCode,
   ChangeCity,
   ChangeCountry,
+  ChangeAddress,
   DeleteAddress,
   RevertChange
 )
@@ -1,5 +1,6 @@
 import { Schema } from "effect"
 import { UserId } from "../user/State.js"
+import type { AddressFieldName, FieldDiff } from "./State.js"
 import { AddressId, City, Country, Label, RevertToken, StreetName, StreetNumber, ZipCode } from "./State.js"
 
 // =============================================================================
@@ -35,6 +36,7 @@ export const AddressCreated = Schema.Struct({
   _tag: Schema.Literal("AddressCreated"),
   id: AddressId,
   revertToken: RevertToken, // Token for the safety email revert link
+  revertTokenIssuedAt: Schema.Date, // The link expires a configured TTL after this
   userId: UserId,
   label: Label,
   streetNumber: StreetNumber,
@@ -108,6 +110,7 @@ const makeFieldChangedEvent = <
     _tag: Schema.Literal(tag), // Schema.Literal(tag) uses the literal type of Tag
     id: AddressId,
     revertToken: RevertToken, // Token for the safety email revert link
+    revertTokenIssuedAt: Schema.Date,
     oldValue: schema, // schema's type flows through — oldValue: S
     newValue: schema // same type for newValue
   })
@@ -153,6 +156,53 @@ export type ZipCodeChanged = typeof ZipCodeChanged.Type
 export type CityChanged = typeof CityChanged.Type
 export type CountryChanged = typeof CountryChanged.Type
 
+// -----------------------------------------------------------------------------
+// AddressChanged (several fields at once)
+// -----------------------------------------------------------------------------
+// Emitted by ChangeAddress: moving house touches most fields at once, and
+// six *Changed events would mean six tokens, six emails, six links to click
+// to undo it. One event, one token: its revert restores every field together.
+//
+// `changes` is a per-field diff — only the fields that actually changed are
+// present (at least one). Same branded oldValue/newValue as the *Changed events.
+//
+const fieldDiff = <S extends Schema.Schema.Any>(schema: S) => Schema.Struct({ oldValue: schema, newValue: schema })
+
+export const AddressChanges = Schema.Struct({
+  label: Schema.optional(fieldDiff(addressFields.label)),
+  streetNumber: Schema.optional(fieldDiff(addressFields.streetNumber)),
+  streetName: Schema.optional(fieldDiff(addressFields.streetName)),
+  zipCode: Schema.optional(fieldDiff(addressFields.zipCode)),
+  city: Schema.optional(fieldDiff(addressFields.city)),
+  country: Schema.optional(fieldDiff(addressFields.country))
+})
+export type AddressChanges = typeof AddressChanges.Type
+
+// The diff as a list, in field order — what evolve, emails and history iterate
+const fieldOrder: ReadonlyArray<AddressFieldName> = [
+  "label",
+  "streetNumber",
+  "streetName",
+  "zipCode",
+  "city",
+  "country"
+]
+
+export const fieldDiffs = (changes: AddressChanges): ReadonlyArray<FieldDiff> =>
+  fieldOrder.flatMap((field) => {
+    const diff = changes[field]
+    return diff === undefined ? [] : [{ field, oldValue: diff.oldValue, newValue: diff.newValue }]
+  })
+
+export const AddressChanged = Schema.Struct({
+  _tag: Schema.Literal("AddressChanged"),
+  id: AddressId,
+  revertToken: RevertToken, // ONE token for the whole change
+  revertTokenIssuedAt: Schema.Date,
+  changes: AddressChanges
+})
+export type AddressChanged = typeof AddressChanged.Type
+
 // -----------------------------------------------------------------------------
 // AddressDeleted
 // -----------------------------------------------------------------------------
@@ -164,6 +214,7 @@ export const AddressDeleted = Schema.Struct({
   _tag: Schema.Literal("AddressDeleted"),
   id: AddressId,
   revertToken: RevertToken,
+  revertTokenIssuedAt: Schema.Date,
   // Snapshot for restore capability
   userId: UserId,
   label: Label,
@@ -225,18 +276,33 @@ export type ZipCodeReverted = typeof ZipCodeReverted.Type
 export type CityReverted = typeof CityReverted.Type
 export type CountryReverted = typeof CountryReverted.Type
 
+// -----------------------------------------------------------------------------
+// AddressChangeReverted
+// -----------------------------------------------------------------------------
+// The correction for AddressChanged: every field of the diff goes back at
+// once. Same swap as *Reverted — oldValue is what we revert from, newValue
+// the pre-change value we restore.
+//
+export const AddressChangeReverted = Schema.Struct({
+  _tag: Schema.Literal("AddressChangeReverted"),
+  id: AddressId,
+  revertToken: RevertToken, // The consumed token
+  changes: AddressChanges
+})
+export type AddressChangeReverted = typeof AddressChangeReverted.Type
+
 // =============================================================================
 // Correction Events (Terminal — NOT revertable)
 // =============================================================================
 //
 // KEY INSIGHT (Wlaschin/De Goes): There are TWO kinds of events:
 //
-// 1. USER ACTIONS: AddressCreated, *Changed, AddressDeleted
+// 1. USER ACTIONS: AddressCreated, *Changed, AddressChanged, AddressDeleted
 //    - Represent intentional user changes
 //    - Carry a revertToken → revertable (user might have made a mistake)
 //    - When reverted, the token is consumed and removed from pendingReverts
 //
-// 2. CORRECTIONS: *Reverted, AddressRestored, CreationReverted
+// 2. CORRECTIONS: *Reverted, AddressChangeReverted, AddressRestored, CreationReverted
 //    - Represent "undoing a mistake"
 //    - Do NOT issue new tokens → terminal (you don't undo a correction)
 //    - If you could revert a revert, you'd have infinite undo chains
@@ -297,9 +363,11 @@ export const AddressEvent = Schema.Union(
   // User actions (revertable)
   AddressCreated,
   ...Object.values(fieldChangedEvents),
+  AddressChanged,
   AddressDeleted,
   // Corrections (terminal)
   ...Object.values(fieldRevertedEvents),
+  AddressChangeReverted,
   CreationReverted,
   AddressRestored
 )
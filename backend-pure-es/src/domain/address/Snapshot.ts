@@ -0,0 +1,83 @@
+// =============================================================================
+// Address Snapshot Encoding
+// =============================================================================
+//
+// How AddressState is written to / read from the SnapshotStore.
+//
+// AddressState is plain TS (see State.ts — "not serialized, rebuilt from
+// events"). Snapshots are the exception: they persist it, so it needs a
+// Schema for the JSON boundary. The interesting part is `pendingReverts`:
+// a ReadonlyMap, which JSON can't represent — Schema.ReadonlyMap encodes it
+// as an array of [token, change] pairs and rebuilds the Map on decode.
+//
+// SCHEMA VERSION — BUMP IT WHEN:
+//   - `evolve` changes (same events would now fold to a different state)
+//   - AddressState / RevertableChange change shape
+// Snapshots written under an older version are then ignored, and states
+// are re-folded from the events.
+//
+import { Schema } from "effect"
+import { Address, type AddressState, RevertToken } from "./State.js"
+
+// -----------------------------------------------------------------------------
+// RevertableChange schemas (mirror the types in State.ts)
+// -----------------------------------------------------------------------------
+
+const AddressFieldNameSchema = Schema.Literal("label", "streetNumber", "streetName", "zipCode", "city", "country")
+
+const RevertableFieldChange = Schema.Struct({
+  _tag: Schema.Literal("FieldChange"),
+  field: AddressFieldNameSchema,
+  oldValue: Schema.String,
+  newValue: Schema.String,
+  issuedAt: Schema.Date
+})
+
+const RevertableAddressChange = Schema.Struct({
+  _tag: Schema.Literal("AddressChange"),
+  changes: Schema.Array(Schema.Struct({
+    field: AddressFieldNameSchema,
+    oldValue: Schema.String,
+    newValue: Schema.String
+  })),
+  issuedAt: Schema.Date
+})
+
+const RevertableCreation = Schema.Struct({
+  _tag: Schema.Literal("Creation"),
+  snapshot: Address,
+  issuedAt: Schema.Date
+})
+
+const RevertableDeletion = Schema.Struct({
+  _tag: Schema.Literal("Deletion"),
+  snapshot: Address,
+  issuedAt: Schema.Date
+})
+
+const RevertableChange = Schema.Union(
+  RevertableFieldChange,
+  RevertableAddressChange,
+  RevertableCreation,
+  RevertableDeletion
+)
+
+// -----------------------------------------------------------------------------
+// AddressState schema
+// -----------------------------------------------------------------------------
+// Annotated with AddressState so the compiler checks it stays in sync with
+// the hand-written type.
+//
+const AddressStateStruct = Schema.Struct({
+  address: Schema.NullOr(Address),
+  pendingReverts: Schema.ReadonlyMap({ key: RevertToken, value: RevertableChange })
+})
+
+const AddressStateSchema: Schema.Schema<AddressState, typeof AddressStateStruct.Encoded> = AddressStateStruct
+
+// v2: every RevertableChange carries its token's issuedAt
+// v3: RevertableAddressChange (AddressChanged)
+export const AddressStateSnapshot = {
+  schemaVersion: 3,
+  schema: AddressStateSchema
+}
@@ -30,30 +30,50 @@ const NonEmptyString = Schema.String.pipe(
   )
 )
 
+// How a field reads in the OpenAPI docs (GET /docs). The brand annotates the
+// same refinement as NonEmptyString's filter, so a jsonSchema given here
+// replaces the filter's — the non-empty rule is restated as a pattern.
+const apiDoc = (description: string, examples: ReadonlyArray<string>) => ({
+  description,
+  jsonSchema: { pattern: "\\S", examples }
+})
+
 // Label: user-defined name for the address (e.g., "Home", "Work", "Parents")
-export const Label = NonEmptyString.pipe(Schema.brand("Label"))
+export const Label = NonEmptyString.pipe(
+  Schema.brand("Label", apiDoc("The address's name, unique per user — the :label in its URLs", ["home", "work"]))
+)
 export type Label = typeof Label.Type
 
 // StreetNumber: the building number (e.g., "123", "45B")
 // Kept as string to handle formats like "12A", "1/2", etc.
-export const StreetNumber = NonEmptyString.pipe(Schema.brand("StreetNumber"))
+export const StreetNumber = NonEmptyString.pipe(
+  Schema.brand("StreetNumber", apiDoc("Building number, kept as text for forms like 12A or 1/2", ["42", "12A"]))
+)
 export type StreetNumber = typeof StreetNumber.Type
 
 // StreetName: the street name (e.g., "Main Street", "Avenue des Champs-Élysées")
-export const StreetName = NonEmptyString.pipe(Schema.brand("StreetName"))
+export const StreetName = NonEmptyString.pipe(
+  Schema.brand("StreetName", apiDoc("Street name", ["Rue de Rivoli"]))
+)
 export type StreetName = typeof StreetName.Type
 
 // ZipCode: postal code (e.g., "75001", "SW1A 1AA")
 // String because formats vary by country.
-export const ZipCode = NonEmptyString.pipe(Schema.brand("ZipCode"))
+export const ZipCode = NonEmptyString.pipe(
+  Schema.brand("ZipCode", apiDoc("Postal code, kept as text: formats vary by country", ["75001", "SW1A 1AA"]))
+)
 export type ZipCode = typeof ZipCode.Type
 
 // City: city name (e.g., "Paris", "London", "New York")
-export const City = NonEmptyString.pipe(Schema.brand("City"))
+export const City = NonEmptyString.pipe(
+  Schema.brand("City", apiDoc("City name", ["Paris"]))
+)
 export type City = typeof City.Type
 
 // Country: country name (e.g., "France", "United Kingdom")
-export const Country = NonEmptyString.pipe(Schema.brand("Country"))
+export const Country = NonEmptyString.pipe(
+  Schema.brand("Country", apiDoc("Country name", ["France"]))
+)
 export type Country = typeof Country.Type
 
 // -----------------------------------------------------------------------------
@@ -118,8 +138,9 @@ export type Address = typeof Address.Type
 // FP DESIGN PRINCIPLE (Wlaschin): "Make illegal states unrepresentable"
 //
 // Problem: To decide if a revert is valid, we need to know:
-//   1. Was this token ever issued? (from a *Changed, AddressCreated, or AddressDeleted event)
+//   1. Was this token ever issued? (from a *Changed, AddressChanged, AddressCreated, or AddressDeleted event)
 //   2. Has it already been consumed? (by a *Reverted or AddressRestored event)
+//   3. Is it still fresh? (issued less than the revert-token TTL ago)
 //
 // Naive approach: Pass the full event history to `decide` and search it.
 // Pure FP approach: Encode this information IN THE STATE.
@@ -132,9 +153,13 @@ export type Address = typeof Address.Type
 //   - On *Reverted/AddressRestored → remove token from pendingReverts
 //
 // `decide` just looks up the token in pendingReverts:
-//   - Found → emit the appropriate *Reverted event
+//   - Found, still fresh → emit the appropriate *Reverted event
+//   - Found, too old → error (token expired)
 //   - Not found → error (token invalid or already used)
 //
+// Every variant carries the `issuedAt` of its token, copied from the
+// issuing event, so the freshness check needs nothing else either.
+//
 // This keeps `decide` pure: (State, Command) → Either<Error, Event[]>
 // No event history needed — the state already encapsulates what we need.
 //
@@ -173,6 +198,25 @@ export type RevertableFieldChange = {
   readonly field: AddressFieldName
   readonly oldValue: string // Pre-change value (will become newValue in *Reverted)
   readonly newValue: string // Post-change value (will become oldValue in *Reverted)
+  readonly issuedAt: Date
+}
+
+// -----------------------------------------------------------------------------
+// RevertableAddressChange
+// -----------------------------------------------------------------------------
+// Several fields changed under one token (AddressChanged). Each entry is a
+// RevertableFieldChange minus the tag; the revert undoes them all together.
+//
+export type FieldDiff = {
+  readonly field: AddressFieldName
+  readonly oldValue: string
+  readonly newValue: string
+}
+
+export type RevertableAddressChange = {
+  readonly _tag: "AddressChange"
+  readonly changes: ReadonlyArray<FieldDiff>
+  readonly issuedAt: Date
 }
 
 // -----------------------------------------------------------------------------
@@ -195,6 +239,7 @@ export type RevertableFieldChange = {
 export type RevertableCreation = {
   readonly _tag: "Creation"
   readonly snapshot: Address // Full address data for the deletion event
+  readonly issuedAt: Date
 }
 
 // -----------------------------------------------------------------------------
@@ -206,6 +251,7 @@ export type RevertableCreation = {
 export type RevertableDeletion = {
   readonly _tag: "Deletion"
   readonly snapshot: Address // Full address data for restoration
+  readonly issuedAt: Date
 }
 
 // -----------------------------------------------------------------------------
@@ -215,6 +261,7 @@ export type RevertableDeletion = {
 //
 export type RevertableChange =
   | RevertableFieldChange
+  | RevertableAddressChange
   | RevertableCreation
   | RevertableDeletion
 
@@ -235,7 +282,8 @@ export type RevertableChange =
 // WHY NOT USE effect/Schema FOR THIS?
 // Schema is for serialization boundaries (API, persistence).
 // AddressState is internal domain state — plain TS types are fine.
-// We're not serializing the pendingReverts map; it's rebuilt from events.
+// It's normally rebuilt from events; the one place it IS serialized
+// (aggregate snapshots) has its own schema in Snapshot.ts.
 //
 export type AddressState = {
   readonly address: Address | null // null = not created yet or deleted
@@ -0,0 +1,34 @@
+// =============================================================================
+// Address Event Upcasters
+// =============================================================================
+//
+// Translations from older stored shapes of Address events to the current
+// ones (see EventUpcasting.ts).
+//
+// v1 → v2 (token-issuing events): revertTokenIssuedAt added.
+// v1 rows predate revert-token expiry and never recorded when their link
+// was sent. Rather than guess (the row's created_at isn't visible here),
+// they're dated at the Unix epoch — i.e. treated as long expired. An old
+// link failing with "expired" is the honest outcome; one that works
+// forever is the behaviour expiry was introduced to remove.
+//
+import type { Upcaster } from "../../EventUpcasting.js"
+
+const LEGACY_REVERT_TOKEN_ISSUED_AT = new Date(0).toISOString()
+
+const addRevertTokenIssuedAt = (eventType: string): Upcaster => ({
+  eventType,
+  fromVersion: 1,
+  upcast: (payload) => ({ ...payload, revertTokenIssuedAt: LEGACY_REVERT_TOKEN_ISSUED_AT })
+})
+
+export const addressUpcasters: ReadonlyArray<Upcaster> = [
+  "AddressCreated",
+  "LabelChanged",
+  "StreetNumberChanged",
+  "StreetNameChanged",
+  "ZipCodeChanged",
+  "CityChanged",
+  "CountryChanged",
+  "AddressDeleted"
+].map(addRevertTokenIssuedAt)
@@ -11,10 +11,10 @@
 //   Scala:   Either[Error, Success]   →  Either[UserError, List[UserEvent]]
 // Effect puts success FIRST to match `Effect<A, E, R>` (success, error, requirements).
 //
-import { Either as E, Match } from "effect"
+import { Duration, Either as E, Match } from "effect"
 
 import type { AddressCommand } from "./Commands.js"
-import type { AddressEvent } from "./Events.js"
+import type { AddressChanges, AddressEvent } from "./Events.js"
 import type { AddressFieldName, AddressState, RevertToken } from "./State.js"
 
 type Either<A, Err> = E.Either<A, Err>
@@ -46,10 +46,33 @@ export type RevertTokenInvalid = {
   readonly token: RevertToken
 }
 
+// The token was issued, is still unused, but its TTL has run out.
+// Distinct from RevertTokenInvalid so the user can be told "too late"
+// rather than "never heard of it".
+export type RevertTokenExpired = {
+  readonly _tag: "RevertTokenExpired"
+  readonly token: RevertToken
+  readonly expiredAt: Date
+}
+
+// The field was changed again after this token's email: reverting would
+// overwrite a value the email never mentioned. Carries what the email said
+// (expectedValue) and what's there now (currentValue — null if the address
+// has since been deleted), so the user can decide whether to force it.
+export type RevertConflict = {
+  readonly _tag: "RevertConflict"
+  readonly token: RevertToken
+  readonly field: AddressFieldName
+  readonly expectedValue: string
+  readonly currentValue: string | null
+}
+
 export type AddressError =
   | AddressNotFound
   | AddressAlreadyExists
   | RevertTokenInvalid
+  | RevertTokenExpired
+  | RevertConflict
 
 // =============================================================================
 // decide: (State, Command) → Either<Event[], Error>
@@ -64,6 +87,8 @@ export type AddressError =
 // This means `decide` can validate revert commands without event history:
 //   - Token in map? → Valid, emit appropriate *Reverted event
 //   - Token not in map? → Invalid (never issued or already used)
+//   - Token in map but older than the command's tokenTtl? → Expired
+//   - Field changed again since the token was issued? → Conflict (unless forced)
 //
 // This is the payoff of "make illegal states unrepresentable":
 // the state itself encodes what reverts are valid.
@@ -94,6 +119,7 @@ export const decide = (
         _tag: "AddressCreated" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         userId: cmd.userId,
         label: cmd.label,
         streetNumber: cmd.streetNumber,
@@ -122,6 +148,7 @@ export const decide = (
         _tag: "LabelChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.label,
         newValue: cmd.label
       }])
@@ -137,6 +164,7 @@ export const decide = (
         _tag: "StreetNumberChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.streetNumber,
         newValue: cmd.streetNumber
       }])
@@ -152,6 +180,7 @@ export const decide = (
         _tag: "StreetNameChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.streetName,
         newValue: cmd.streetName
       }])
@@ -167,6 +196,7 @@ export const decide = (
         _tag: "ZipCodeChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.zipCode,
         newValue: cmd.zipCode
       }])
@@ -182,6 +212,7 @@ export const decide = (
         _tag: "CityChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.city,
         newValue: cmd.city
       }])
@@ -197,11 +228,42 @@ export const decide = (
         _tag: "CountryChanged" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         oldValue: state.address.country,
         newValue: cmd.country
       }])
     }),
     // -------------------------------------------------------------------------
+    // ChangeAddress (several fields, one event, one token)
+    // -------------------------------------------------------------------------
+    // The diff keeps only the fields whose value actually changes; if none
+    // does, it's a no-op like the single-field commands.
+    //
+    Match.tag("ChangeAddress", (cmd) => {
+      const address = state.address
+      if (address === null) {
+        return Either.left({ _tag: "AddressNotFound" as const })
+      }
+      const diff = toAddressChanges(
+        (Object.keys(cmd.fields) as Array<AddressFieldName>).flatMap((field) => {
+          const newValue = cmd.fields[field]
+          return newValue === undefined || newValue === address[field]
+            ? []
+            : [{ field, oldValue: address[field], newValue }]
+        })
+      )
+      if (Object.keys(diff).length === 0) {
+        return Either.right([]) // No-op: nothing changes
+      }
+      return Either.right([{
+        _tag: "AddressChanged" as const,
+        id: cmd.id,
+        revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
+        changes: diff
+      }])
+    }),
+    // -------------------------------------------------------------------------
     // DeleteAddress
     // -------------------------------------------------------------------------
     // Deletes the address. Fails if address doesn't exist.
@@ -216,6 +278,7 @@ export const decide = (
         _tag: "AddressDeleted" as const,
         id: cmd.id,
         revertToken: cmd.revertToken,
+        revertTokenIssuedAt: cmd.revertTokenIssuedAt,
         // Snapshot for restore capability
         userId: state.address.userId,
         label: state.address.label,
@@ -233,11 +296,12 @@ export const decide = (
     //
     // The command only carries the token — not which field, not old/new values.
     // We look up the token in pendingReverts to determine:
-    //   1. Is this a valid token? (exists in map)
+    //   1. Is this a valid token? (exists in map, issued less than tokenTtl ago)
     //   2. What kind of change does it revert? (FieldChange, Creation, Deletion)
     //   3. What event should we emit?
     //
     // If token not found → error (never issued or already consumed)
+    // If token found but stale → RevertTokenExpired
     //
     // FP ELEGANCE:
     // The token IS the identifier. No redundant information in the command.
@@ -254,23 +318,79 @@ export const decide = (
         })
       }
 
+      // Boundary: a token is expired AT issuedAt + ttl, not one tick later
+      const expiredAt = revertTokenExpiresAt(pendingRevert.issuedAt, cmd.tokenTtl)
+      if (cmd.requestedAt.getTime() >= expiredAt.getTime()) {
+        return Either.left({
+          _tag: "RevertTokenExpired" as const,
+          token: cmd.revertToken,
+          expiredAt
+        })
+      }
+
       // Dispatch based on what kind of change this token reverts
       // Using Match.value().pipe() for consistency and exhaustiveness checking
       return Match.value(pendingRevert).pipe(
         Match.tag("FieldChange", (pr) => {
+          // Stale? The field no longer holds the value this token set
+          // (changed again since, or the address was deleted). force only
+          // overrides the former — there's no field to write to on a deleted
+          // address; restoring it is the deletion token's job.
+          const currentValue = state.address === null ? null : state.address[pr.field]
+          if (currentValue === null || (currentValue !== pr.newValue && !cmd.force)) {
+            return Either.left({
+              _tag: "RevertConflict" as const,
+              token: cmd.revertToken,
+              field: pr.field,
+              expectedValue: pr.newValue,
+              currentValue
+            })
+          }
+
           // Emit the appropriate *Reverted event based on field
           // Note: oldValue/newValue are SWAPPED in the revert event
           //   Original: changed FROM oldValue TO newValue
           //   Revert:   changed FROM newValue TO oldValue (swap them)
+          // Forced over a conflict, the revert starts from the CURRENT value —
+          // the event records what actually changed, not what the email said.
           const revertedEvent = makeFieldRevertedEvent(
             pr.field,
             cmd.id,
             cmd.revertToken,
-            pr.newValue, // This was the "new" value, now it's "old"
+            currentValue, // This was the "new" value, now it's "old"
             pr.oldValue // This was the "old" value, now it's "new"
           )
           return Either.right([revertedEvent])
         }),
+        Match.tag("AddressChange", (pr) => {
+          // All or nothing: stale if ANY field no longer holds the value this
+          // change set (the first such field is reported). force reverts
+          // them all from their current values — on a live address only.
+          const address = state.address
+          const stale = pr.changes.find((c) => address === null || address[c.field] !== c.newValue)
+          if (stale !== undefined && (address === null || !cmd.force)) {
+            return Either.left({
+              _tag: "RevertConflict" as const,
+              token: cmd.revertToken,
+              field: stale.field,
+              expectedValue: stale.newValue,
+              currentValue: address === null ? null : address[stale.field]
+            })
+          }
+          if (address === null) {
+            return Either.left({ _tag: "AddressNotFound" as const }) // Unreachable: a diff is never empty
+          }
+
+          // Same swap as the single-field revert, field by field
+          return Either.right([{
+            _tag: "AddressChangeReverted" as const,
+            id: cmd.id,
+            revertToken: cmd.revertToken,
+            changes: toAddressChanges(
+              pr.changes.map((c) => ({ field: c.field, oldValue: address[c.field], newValue: c.oldValue }))
+            )
+          }])
+        }),
         Match.tag("Creation", () => {
           // -----------------------------------------------------------------
           // REVERTING A CREATION
@@ -345,6 +465,26 @@ export const decide = (
     Match.exhaustive
   )
 
+// -----------------------------------------------------------------------------
+// Helper: When a token issued at `issuedAt` stops being honoured
+// -----------------------------------------------------------------------------
+export const revertTokenExpiresAt = (issuedAt: Date, ttl: Duration.Duration): Date =>
+  new Date(issuedAt.getTime() + Duration.toMillis(ttl))
+
+// -----------------------------------------------------------------------------
+// Helper: Build an AddressChanges diff from a list of field diffs
+// -----------------------------------------------------------------------------
+// Same compromise as makeFieldRevertedEvent below: the keys are dynamic, so
+// the branded types can't be checked — the values come from an Address or a
+// validated command, whose fields carry the right brands.
+//
+const toAddressChanges = (
+  diffs: ReadonlyArray<{ field: AddressFieldName; oldValue: string; newValue: string }>
+): AddressChanges =>
+  Object.fromEntries(
+    diffs.map(({ field, newValue, oldValue }) => [field, { oldValue, newValue }])
+  ) as AddressChanges
+
 // -----------------------------------------------------------------------------
 // Helper: Create the appropriate *Reverted event based on field name
 // -----------------------------------------------------------------------------
@@ -1,5 +1,5 @@
 import { Match } from "effect"
-import type { AddressEvent } from "./Events.js"
+import { type AddressChanges, type AddressEvent, fieldDiffs } from "./Events.js"
 import type { Address, AddressState, RevertableChange, RevertToken } from "./State.js"
 
 // =============================================================================
@@ -21,8 +21,9 @@ import type { Address, AddressState, RevertableChange, RevertToken } from "./Sta
 // STATE TRANSITIONS:
 //   - AddressCreated: address=null → address=Address, add token to pendingReverts
 //   - *Changed: update field, add token to pendingReverts
+//   - AddressChanged: update every field in the diff, add ONE token
 //   - AddressDeleted: address=Address → address=null, add token to pendingReverts
-//   - *Reverted: update field, REMOVE token from pendingReverts
+//   - *Reverted / AddressChangeReverted: update field(s), REMOVE token from pendingReverts
 //   - AddressRestored: address=null → address=Address, REMOVE token from pendingReverts
 //
 // KEY INSIGHT:
@@ -56,6 +57,14 @@ const removePendingRevert = (
   return newMap
 }
 
+// -----------------------------------------------------------------------------
+// Helper: Apply a multi-field diff (AddressChanged / AddressChangeReverted)
+// -----------------------------------------------------------------------------
+const applyChanges = (address: Address | null, changes: AddressChanges): Address | null =>
+  address === null
+    ? null
+    : fieldDiffs(changes).reduce((acc, { field, newValue }) => ({ ...acc, [field]: newValue }), address)
+
 // -----------------------------------------------------------------------------
 // Helper: Map field event tag to field name (currently unused but kept for reference)
 // -----------------------------------------------------------------------------
@@ -110,7 +119,7 @@ export const evolve = (
         pendingReverts: addPendingRevert(
           state.pendingReverts,
           e.revertToken,
-          { _tag: "Creation", snapshot: address }
+          { _tag: "Creation", snapshot: address, issuedAt: e.revertTokenIssuedAt }
         )
       }
     }),
@@ -128,7 +137,13 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "label", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "label",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
       )
     })),
     Match.tag("StreetNumberChanged", (e) => ({
@@ -136,7 +151,13 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "streetNumber", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "streetNumber",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
       )
     })),
     Match.tag("StreetNameChanged", (e) => ({
@@ -144,7 +165,13 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "streetName", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "streetName",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
       )
     })),
     Match.tag("ZipCodeChanged", (e) => ({
@@ -152,7 +179,13 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "zipCode", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "zipCode",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
       )
     })),
     Match.tag("CityChanged", (e) => ({
@@ -160,7 +193,13 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "city", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "city",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
       )
     })),
     Match.tag("CountryChanged", (e) => ({
@@ -168,7 +207,26 @@ export const evolve = (
       pendingReverts: addPendingRevert(
         state.pendingReverts,
         e.revertToken,
-        { _tag: "FieldChange", field: "country", oldValue: e.oldValue, newValue: e.newValue }
+        {
+          _tag: "FieldChange",
+          field: "country",
+          oldValue: e.oldValue,
+          newValue: e.newValue,
+          issuedAt: e.revertTokenIssuedAt
+        }
+      )
+    })),
+    // -------------------------------------------------------------------------
+    // Multi-field change
+    // -------------------------------------------------------------------------
+    // Several fields, one pending revert that restores them all.
+    //
+    Match.tag("AddressChanged", (e) => ({
+      address: applyChanges(state.address, e.changes),
+      pendingReverts: addPendingRevert(
+        state.pendingReverts,
+        e.revertToken,
+        { _tag: "AddressChange", changes: fieldDiffs(e.changes), issuedAt: e.revertTokenIssuedAt }
       )
     })),
     // -------------------------------------------------------------------------
@@ -193,7 +251,8 @@ export const evolve = (
             zipCode: e.zipCode,
             city: e.city,
             country: e.country
-          }
+          },
+          issuedAt: e.revertTokenIssuedAt
         }
       )
     })),
@@ -227,6 +286,10 @@ export const evolve = (
       address: state.address ? { ...state.address, country: e.newValue } : null,
       pendingReverts: removePendingRevert(state.pendingReverts, e.revertToken)
     })),
+    Match.tag("AddressChangeReverted", (e) => ({
+      address: applyChanges(state.address, e.changes),
+      pendingReverts: removePendingRevert(state.pendingReverts, e.revertToken)
+    })),
     // -------------------------------------------------------------------------
     // CreationReverted (correction — terminal)
     // -------------------------------------------------------------------------
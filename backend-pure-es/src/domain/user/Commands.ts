@@ -1,6 +1,6 @@
 import { Schema } from "effect"
 import { Email } from "../../shared/Email.js"
-import { FirstName, LastName, UserId } from "./State.js"
+import { FirstName, LastName, LoginTokenId, SessionId, UserId } from "./State.js"
 
 // =============================================================================
 // User Commands
@@ -84,6 +84,51 @@ export const ChangeLastName = Schema.Struct({
 })
 export type ChangeLastName = typeof ChangeLastName.Type
 
+// -----------------------------------------------------------------------------
+// RequestLoginLink
+// -----------------------------------------------------------------------------
+// Intent: email this user a login link. The use case picks the token's id and
+// issue time; the aggregate just records that it was issued.
+//
+export const RequestLoginLink = Schema.Struct({
+  _tag: Schema.Literal("RequestLoginLink"),
+  id: UserId,
+  tokenId: LoginTokenId,
+  issuedAt: Schema.Date
+})
+export type RequestLoginLink = typeof RequestLoginLink.Type
+
+// -----------------------------------------------------------------------------
+// LogIn
+// -----------------------------------------------------------------------------
+// Intent: exchange a login link for a session. The use case has already
+// checked the token's signature; `tokenId` is read from its claims.
+//
+// requestedAt / linkTtl: like RevertChange, the clock reading and the TTL are
+// passed in so `decide` stays pure and can still reject an expired link.
+// sessionTtl: how long the new session lasts — recorded on LoggedIn.
+//
+export const LogIn = Schema.Struct({
+  _tag: Schema.Literal("LogIn"),
+  id: UserId,
+  tokenId: LoginTokenId,
+  sessionId: SessionId,
+  requestedAt: Schema.DateFromSelf,
+  linkTtl: Schema.DurationFromSelf,
+  sessionTtl: Schema.DurationFromSelf
+})
+export type LogIn = typeof LogIn.Type
+
+// -----------------------------------------------------------------------------
+// LogOut
+// -----------------------------------------------------------------------------
+export const LogOut = Schema.Struct({
+  _tag: Schema.Literal("LogOut"),
+  id: UserId,
+  sessionId: SessionId
+})
+export type LogOut = typeof LogOut.Type
+
 // =============================================================================
 // UserCommand (union of all commands)
 // =============================================================================
@@ -93,5 +138,12 @@ export type ChangeLastName = typeof ChangeLastName.Type
 //
 //   const decide = (state: User | null, command: UserCommand): UserEvent[]
 //
-export const UserCommand = Schema.Union(CreateUser, ChangeFirstName, ChangeLastName)
+export const UserCommand = Schema.Union(
+  CreateUser,
+  ChangeFirstName,
+  ChangeLastName,
+  RequestLoginLink,
+  LogIn,
+  LogOut
+)
 export type UserCommand = typeof UserCommand.Type
@@ -1,6 +1,6 @@
 import { Schema } from "effect"
 import { Email } from "../../shared/Email.js"
-import { FirstName, LastName, UserId } from "./State.js"
+import { FirstName, LastName, LoginTokenId, SessionId, UserId } from "./State.js"
 
 // =============================================================================
 // User Events
@@ -96,6 +96,60 @@ export const LastNameChanged = Schema.Struct({
 })
 export type LastNameChanged = typeof LastNameChanged.Type
 
+// -----------------------------------------------------------------------------
+// LoginLinkRequested
+// -----------------------------------------------------------------------------
+// Emitted when someone asks for a login link for this user. The link goes to
+// the email on file, so asking for it proves nothing yet — but recording it is
+// what lets LogIn accept the token later (and only once).
+//
+// Records the token's id and issue time, not the signed token: every
+// projection reads the log, and whoever holds the token can log in. The
+// reaction signs the same claims again to build the link (minting is
+// deterministic), so the token only ever exists in the email.
+//
+export const LoginLinkRequested = Schema.Struct({
+  _tag: Schema.Literal("LoginLinkRequested"),
+  id: UserId,
+  tokenId: LoginTokenId,
+  issuedAt: Schema.Date
+})
+export type LoginLinkRequested = typeof LoginLinkRequested.Type
+
+// -----------------------------------------------------------------------------
+// LoggedIn
+// -----------------------------------------------------------------------------
+// Emitted when a login link is exchanged for a session. Uses up every pending
+// link, not just this one: an older link still sitting in the inbox shouldn't
+// open a second session.
+//
+// Records when the session opened and when it expires, so the User's state
+// can drop sessions that ran out (see evolve) rather than keep every session
+// the user never logged out of. (v2 — v1 events are upcast, see Upcasters.ts)
+//
+export const LoggedIn = Schema.Struct({
+  _tag: Schema.Literal("LoggedIn"),
+  id: UserId,
+  tokenId: LoginTokenId,
+  sessionId: SessionId,
+  loggedInAt: Schema.Date,
+  expiresAt: Schema.Date
+})
+export type LoggedIn = typeof LoggedIn.Type
+
+// -----------------------------------------------------------------------------
+// LoggedOut
+// -----------------------------------------------------------------------------
+// Emitted when a session is closed. Its token still verifies (it's signed),
+// but the session is no longer in the User's state — so it's refused.
+//
+export const LoggedOut = Schema.Struct({
+  _tag: Schema.Literal("LoggedOut"),
+  id: UserId,
+  sessionId: SessionId
+})
+export type LoggedOut = typeof LoggedOut.Type
+
 // =============================================================================
 // UserEvent (union of all events)
 // =============================================================================
@@ -113,5 +167,12 @@ export type LastNameChanged = typeof LastNameChanged.Type
 //     case "LastNameChanged": ...  // TS knows event is LastNameChanged here
 //   }
 //
-export const UserEvent = Schema.Union(UserCreated, FirstNameChanged, LastNameChanged)
+export const UserEvent = Schema.Union(
+  UserCreated,
+  FirstNameChanged,
+  LastNameChanged,
+  LoginLinkRequested,
+  LoggedIn,
+  LoggedOut
+)
 export type UserEvent = typeof UserEvent.Type
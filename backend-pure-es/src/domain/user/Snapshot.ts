@@ -0,0 +1,20 @@
+// =============================================================================
+// User Snapshot Encoding
+// =============================================================================
+//
+// How the User aggregate's state — Option<User> — is written to / read from
+// the SnapshotStore. Schema.Option encodes None/Some as tagged JSON objects
+// ({ _tag: "None" } / { _tag: "Some", value }) and decodes back to Option.
+//
+// SCHEMA VERSION: bump when `evolve` or User change — see
+// address/Snapshot.ts for the rules.
+//   v2: pendingLogins and sessions (magic-link login)
+//   v3: sessions carry their expiry, and expired ones are dropped on login
+//
+import { Schema } from "effect"
+import { User } from "./State.js"
+
+export const UserStateSnapshot = {
+  schemaVersion: 3,
+  schema: Schema.Option(User)
+}
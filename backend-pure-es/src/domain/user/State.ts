@@ -76,12 +76,54 @@ export const NonEmptyString = Schema.String.pipe(
 //
 // Branding makes them distinct at compile time while both are just strings
 // at runtime. Zero runtime overhead, maximum type safety.
-export const FirstName = NonEmptyString.pipe(Schema.brand("FirstName"))
+//
+// The brand's annotations document the field in the OpenAPI spec (GET /docs).
+// They land on the same refinement as NonEmptyString's filter, so the jsonSchema
+// hook restates the non-empty rule (as a pattern) next to the examples.
+export const FirstName = NonEmptyString.pipe(
+  Schema.brand("FirstName", {
+    description: "First name — part of the nickname, which follows renames",
+    jsonSchema: { pattern: "\\S", examples: ["Jean"] }
+  })
+)
 export type FirstName = typeof FirstName.Type
 
-export const LastName = NonEmptyString.pipe(Schema.brand("LastName"))
+export const LastName = NonEmptyString.pipe(
+  Schema.brand("LastName", {
+    description: "Last name — part of the nickname, which follows renames",
+    jsonSchema: { pattern: "\\S", examples: ["Dupont"] }
+  })
+)
 export type LastName = typeof LastName.Type
 
+// LoginTokenId: names one login link. The link itself carries a token signed
+// by AuthTokenService, with this id among its claims — events record only the
+// id, so `decide` can tell a pending link from a used or unknown one without
+// the event log ever holding something that logs in.
+export const LoginTokenId = NonEmptyString.pipe(Schema.brand("LoginTokenId"))
+export type LoginTokenId = typeof LoginTokenId.Type
+
+// SessionId: one logged-in session. The session token the client holds is
+// signed and carries it; the User stream records only the id.
+export const SessionId = NonEmptyString.pipe(Schema.brand("SessionId"))
+export type SessionId = typeof SessionId.Type
+
+// A login link that was emailed and not yet used
+export const PendingLogin = Schema.Struct({
+  tokenId: LoginTokenId,
+  issuedAt: Schema.Date
+})
+export type PendingLogin = typeof PendingLogin.Type
+
+// A session that was opened and not yet closed. Expired ones are dropped when
+// the next one opens (see evolve) — until then Authenticate refuses them on
+// the token's own TTL.
+export const OpenSession = Schema.Struct({
+  sessionId: SessionId,
+  expiresAt: Schema.Date
+})
+export type OpenSession = typeof OpenSession.Type
+
 // =============================================================================
 // User State (Aggregate Root)
 // =============================================================================
@@ -115,7 +157,9 @@ export const User = Schema.Struct({ // Defines object schema — like a Scala ca
   id: UserId, // Each field is itself a schema
   email: Email.schema, // User's email — used for sending safety notifications
   firstName: FirstName, // Validation is recursive: any field fails = struct fails
-  lastName: LastName
+  lastName: LastName,
+  pendingLogins: Schema.Array(PendingLogin), // Emailed login links, not yet used
+  sessions: Schema.Array(OpenSession) // Open sessions — logging out closes one
 })
 // WHY ISN'T ADDRESS NESTED IN USER?
 // Aggregate boundaries are about consistency, not ownership.
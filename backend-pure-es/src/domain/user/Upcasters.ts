@@ -0,0 +1,24 @@
+// =============================================================================
+// User Event Upcasters
+// =============================================================================
+//
+// Translations from older stored shapes of User events to the current ones
+// (see EventUpcasting.ts).
+//
+// v1 → v2 (LoggedIn): loggedInAt and expiresAt added.
+// v1 sessions never recorded when they opened. Like the address events'
+// revert tokens, they're dated at the Unix epoch: the next login drops them
+// from the state. Their tokens were issued with their own TTL, so at worst
+// such a session ends a few days early — never one that lives forever.
+//
+import type { Upcaster } from "../../EventUpcasting.js"
+
+const LEGACY_SESSION_DATE = new Date(0).toISOString()
+
+export const userUpcasters: ReadonlyArray<Upcaster> = [
+  {
+    eventType: "LoggedIn",
+    fromVersion: 1,
+    upcast: (payload) => ({ ...payload, loggedInAt: LEGACY_SESSION_DATE, expiresAt: LEGACY_SESSION_DATE })
+  }
+]
@@ -1,8 +1,8 @@
 // TYPE ALIAS TRICK (see evolve.ts for full explanation)
-import { Either as E, Match, Option as O } from "effect"
+import { Duration, Either as E, Match, Option as O } from "effect"
 import type { UserCommand } from "./Commands.js"
 import type { UserEvent } from "./Events.js"
-import type { User } from "./State.js"
+import type { LoginTokenId, User } from "./State.js"
 
 type Option<A> = O.Option<A>
 const Option = O
@@ -51,8 +51,23 @@ export type UserAlreadyExists = {
   readonly _tag: "UserAlreadyExists"
 }
 
+// LoginLinkInvalid: the token isn't a pending login link — never issued, or
+// already used up by a login (its own or a later link's)
+export type LoginLinkInvalid = {
+  readonly _tag: "LoginLinkInvalid"
+  readonly tokenId: LoginTokenId
+}
+
+// LoginLinkExpired: still pending, but past its TTL. Kept apart from
+// LoginLinkInvalid so the user can be told to ask for a fresh link.
+export type LoginLinkExpired = {
+  readonly _tag: "LoginLinkExpired"
+  readonly tokenId: LoginTokenId
+  readonly expiredAt: Date
+}
+
 // Union of all possible errors from User aggregate
-export type UserError = UserNotFound | UserAlreadyExists
+export type UserError = UserNotFound | UserAlreadyExists | LoginLinkInvalid | LoginLinkExpired
 
 // =============================================================================
 // decide: (State, Command) → Either<Error, Event[]>
@@ -134,6 +149,63 @@ export const decide = (
           }])
         }
       })),
+    Match.tag("RequestLoginLink", (cmd) =>
+      Option.match(state, {
+        onNone: () => Either.left({ _tag: "UserNotFound" as const }),
+        onSome: () =>
+          Either.right([{
+            _tag: "LoginLinkRequested" as const,
+            id: cmd.id,
+            tokenId: cmd.tokenId,
+            issuedAt: cmd.issuedAt
+          }])
+      })),
+    Match.tag("LogIn", (cmd) =>
+      Option.match(state, {
+        onNone: () => Either.left({ _tag: "UserNotFound" as const }),
+        onSome: (user) => {
+          // ONE-TIME USE: only a pending link logs in. LoggedIn clears them
+          // all, so a used link — or one older than it — is no longer here.
+          const pending = user.pendingLogins.find((p) => p.tokenId === cmd.tokenId)
+          if (pending === undefined) {
+            return Either.left({ _tag: "LoginLinkInvalid" as const, tokenId: cmd.tokenId })
+          }
+          const expiredAt = loginLinkExpiresAt(pending.issuedAt, cmd.linkTtl)
+          if (cmd.requestedAt.getTime() >= expiredAt.getTime()) {
+            return Either.left({ _tag: "LoginLinkExpired" as const, tokenId: cmd.tokenId, expiredAt })
+          }
+          return Either.right([{
+            _tag: "LoggedIn" as const,
+            id: cmd.id,
+            tokenId: cmd.tokenId,
+            sessionId: cmd.sessionId,
+            loggedInAt: cmd.requestedAt,
+            expiresAt: sessionExpiresAt(cmd.requestedAt, cmd.sessionTtl)
+          }])
+        }
+      })),
+    Match.tag("LogOut", (cmd) =>
+      Option.match(state, {
+        onNone: () => Either.left({ _tag: "UserNotFound" as const }),
+        // NO-OP: logging out of a closed session is already done — a retried
+        // logout (or one from a second tab) shouldn't fail
+        onSome: (user) =>
+          user.sessions.some((session) => session.sessionId === cmd.sessionId)
+            ? Either.right([{ _tag: "LoggedOut" as const, id: cmd.id, sessionId: cmd.sessionId }])
+            : Either.right([])
+      })),
     // Compile-time exhaustiveness check
     Match.exhaustive
   )
+
+// -----------------------------------------------------------------------------
+// Helper: When a login link issued at `issuedAt` stops being honoured
+// -----------------------------------------------------------------------------
+export const loginLinkExpiresAt = (issuedAt: Date, ttl: Duration.Duration): Date =>
+  new Date(issuedAt.getTime() + Duration.toMillis(ttl))
+
+// -----------------------------------------------------------------------------
+// Helper: When a session opened at `loggedInAt` stops being honoured
+// -----------------------------------------------------------------------------
+export const sessionExpiresAt = (loggedInAt: Date, ttl: Duration.Duration): Date =>
+  new Date(loggedInAt.getTime() + Duration.toMillis(ttl))
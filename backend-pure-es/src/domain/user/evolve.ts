@@ -69,7 +69,9 @@ export const evolve = (state: Option<User>, event: UserEvent): Option<User> =>
         id: e.id,
         email: e.email,
         firstName: e.firstName,
-        lastName: e.lastName
+        lastName: e.lastName,
+        pendingLogins: [],
+        sessions: []
       })),
     // Update events: modify the relevant field.
     // We map over the Option — if state is None, this is a no-op (shouldn't happen
@@ -85,6 +87,29 @@ export const evolve = (state: Option<User>, event: UserEvent): Option<User> =>
     //
     Match.tag("FirstNameChanged", (e) => Option.map(state, (user) => ({ ...user, firstName: e.newValue }))),
     Match.tag("LastNameChanged", (e) => Option.map(state, (user) => ({ ...user, lastName: e.newValue }))),
+    // Login: a requested link waits in pendingLogins; logging in uses up all of
+    // them and opens the session; logging out closes it. A login also drops
+    // the sessions that expired by then — without it, every session the user
+    // never logged out of would stay in the state (and its snapshots) forever.
+    Match.tag("LoginLinkRequested", (e) =>
+      Option.map(state, (user) => ({
+        ...user,
+        pendingLogins: [...user.pendingLogins, { tokenId: e.tokenId, issuedAt: e.issuedAt }]
+      }))),
+    Match.tag("LoggedIn", (e) =>
+      Option.map(state, (user) => ({
+        ...user,
+        pendingLogins: [],
+        sessions: [
+          ...user.sessions.filter((s) => s.expiresAt.getTime() > e.loggedInAt.getTime()),
+          { sessionId: e.sessionId, expiresAt: e.expiresAt }
+        ]
+      }))),
+    Match.tag("LoggedOut", (e) =>
+      Option.map(state, (user) => ({
+        ...user,
+        sessions: user.sessions.filter((s) => s.sessionId !== e.sessionId)
+      }))),
     // Compile-time exhaustiveness check — if we add a new event and forget to
     // handle it here, TypeScript will error on this line.
     Match.exhaustive
@@ -3,9 +3,9 @@
 // =============================================================================
 //
 // EFFECT PLATFORM PATTERN:
-// 1. Define the API schema (HttpApi + HttpApiGroup + HttpApiEndpoint)
-// 2. Implement handlers (HttpApiBuilder.group)
-// 3. Serve (HttpApiBuilder.serve)
+// 1. Define the API schema (HttpApi + HttpApiGroup + HttpApiEndpoint) — here
+// 2. Implement handlers (HttpApiBuilder.group) — ApiLive.ts
+// 3. Serve (HttpApiBuilder.serve) — Program.ts
 //
 // The schema is the single source of truth — it defines:
 // - Request/response shapes (with validation via Schema)
@@ -13,36 +13,37 @@
 // - URL paths and methods
 //
 // SCALA ANALOGY:
-// Like tapir or http4s with typed endpoints. Define once, derive client + server.
+// Like tapir or http4s with typed endpoints. Define once, derive client + server
+// — and docs: Program.ts serves the OpenAPI spec generated from it
+// (GET /openapi.json) and a Swagger UI over it (GET /docs).
+//
+// WHY THE HANDLERS LIVE ELSEWHERE:
+// The frontend derives its client from this module (HttpApiClient, see
+// frontend/src/api.ts), so it must stay browser-safe: schemas and branded
+// domain types only — no use cases, no Postgres, no SMTP.
 //
 import {
   HttpApi,
-  HttpApiBuilder,
   HttpApiEndpoint,
-  HttpApiGroup
+  HttpApiGroup,
+  HttpApiMiddleware,
+  HttpApiSchema,
+  HttpApiSecurity,
+  OpenApi
 } from "@effect/platform"
-import { Effect, Layer, Schema } from "effect"
-
-// Import use cases
-import { createUser } from "../usecases/CreateUser.js"
-import { getUser } from "../usecases/GetUser.js"
-import { createAddress } from "../usecases/CreateAddress.js"
-import { updateAddressField } from "../usecases/UpdateAddressField.js"
-import { deleteAddress } from "../usecases/DeleteAddress.js"
-import { revertChange } from "../usecases/RevertChange.js"
+import { Context, Schema } from "effect"
 
 // Import types for request/response schemas
+import { City, Country, Label, StreetName, StreetNumber, ZipCode } from "../domain/address/State.js"
+import { FirstName, LastName, type SessionId, type UserId } from "../domain/user/State.js"
 import { Email } from "../shared/Email.js"
-import { FirstName, LastName } from "../domain/user/State.js"
-import { Label, StreetNumber, StreetName, ZipCode, City, Country, RevertToken } from "../domain/address/State.js"
-import type { AddressFieldName } from "../domain/address/State.js"
 
 // =============================================================================
 // Request/Response Schemas
 // =============================================================================
 
 // CreateUser
-const CreateUserRequest = Schema.Struct({
+export const CreateUserRequest = Schema.Struct({
   email: Email.schema,
   firstName: FirstName,
   lastName: LastName
@@ -55,8 +56,21 @@ const CreateUserResponse = Schema.Struct({
   lastName: LastName
 })
 
+// UpdateUserName — one name field per request, like UpdateAddressField
+export const UpdateUserNameRequest = Schema.Union(
+  Schema.Struct({ field: Schema.Literal("firstName"), value: FirstName }),
+  Schema.Struct({ field: Schema.Literal("lastName"), value: LastName })
+)
+
+const UpdateUserNameResponse = Schema.Struct({
+  field: Schema.Literal("firstName", "lastName"),
+  oldValue: Schema.String,
+  newValue: Schema.String,
+  nickname: Schema.String
+})
+
 // CreateAddress
-const CreateAddressRequest = Schema.Struct({
+export const CreateAddressRequest = Schema.Struct({
   label: Label,
   streetNumber: StreetNumber,
   streetName: StreetName,
@@ -76,10 +90,15 @@ const CreateAddressResponse = Schema.Struct({
 
 // UpdateAddressField
 const AddressFieldNameSchema = Schema.Literal(
-  "label", "streetNumber", "streetName", "zipCode", "city", "country"
+  "label",
+  "streetNumber",
+  "streetName",
+  "zipCode",
+  "city",
+  "country"
 )
 
-const UpdateAddressFieldRequest = Schema.Struct({
+export const UpdateAddressFieldRequest = Schema.Struct({
   field: AddressFieldNameSchema,
   value: Schema.String
 })
@@ -90,20 +109,34 @@ const UpdateAddressFieldResponse = Schema.Struct({
   newValue: Schema.String
 })
 
+// ChangeAddress — any subset of the fields, at least one
+export const ChangeAddressRequest = Schema.Struct({
+  label: Schema.optional(Label),
+  streetNumber: Schema.optional(StreetNumber),
+  streetName: Schema.optional(StreetName),
+  zipCode: Schema.optional(ZipCode),
+  city: Schema.optional(City),
+  country: Schema.optional(Country)
+}).pipe(Schema.filter((fields) => Object.keys(fields).length > 0 || "At least one field is required"))
+
+const FieldDiffResponse = Schema.Struct({
+  field: AddressFieldNameSchema,
+  oldValue: Schema.String,
+  newValue: Schema.String
+})
+
+const ChangeAddressResponse = Schema.Struct({
+  changes: Schema.Array(FieldDiffResponse),
+  label: Schema.String
+})
+
 // DeleteAddress
 const DeleteAddressResponse = Schema.Struct({
   deleted: Schema.Boolean,
   label: Schema.String
 })
 
-// RevertChange
-const RevertChangeResponse = Schema.Struct({
-  reverted: Schema.Boolean,
-  message: Schema.String,
-  nickname: Schema.String
-})
-
-// GetUser
+// GetUser / PreviewRevert
 const GetUserAddressResponse = Schema.Struct({
   label: Label,
   streetNumber: StreetNumber,
@@ -113,7 +146,101 @@ const GetUserAddressResponse = Schema.Struct({
   country: Country
 })
 
+// PreviewRevert — what POST /revert/:token would undo, tagged like RevertableChange
+const RevertPreviewResponse = Schema.Struct({
+  change: Schema.Union(
+    Schema.TaggedStruct("FieldChange", {
+      field: AddressFieldNameSchema,
+      oldValue: Schema.String,
+      newValue: Schema.String,
+      currentValue: Schema.NullOr(Schema.String)
+    }),
+    Schema.TaggedStruct("AddressChange", {
+      changes: Schema.Array(Schema.Struct({
+        field: AddressFieldNameSchema,
+        oldValue: Schema.String,
+        newValue: Schema.String,
+        currentValue: Schema.NullOr(Schema.String)
+      }))
+    }),
+    Schema.TaggedStruct("Creation", { address: GetUserAddressResponse }),
+    Schema.TaggedStruct("Deletion", { address: GetUserAddressResponse })
+  ),
+  expiresAt: Schema.Date
+})
+
+// GetAddressHistory — newest first, paged by version: pass nextBefore back as
+// `before` for the next (older) page
+const AddressHistoryUrlParams = Schema.Struct({
+  limit: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100))),
+  before: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.positive()))
+})
+
+const AddressHistoryResponse = Schema.Struct({
+  entries: Schema.Array(Schema.Struct({
+    version: Schema.Number,
+    recordedAt: Schema.Date,
+    description: Schema.String,
+    change: Schema.Union(
+      Schema.TaggedStruct("Created", { address: GetUserAddressResponse }),
+      Schema.TaggedStruct("FieldChanged", {
+        field: AddressFieldNameSchema,
+        oldValue: Schema.String,
+        newValue: Schema.String
+      }),
+      Schema.TaggedStruct("AddressChanged", { changes: Schema.Array(FieldDiffResponse) }),
+      Schema.TaggedStruct("Deleted", { address: GetUserAddressResponse }),
+      Schema.TaggedStruct("FieldReverted", {
+        field: AddressFieldNameSchema,
+        oldValue: Schema.String,
+        newValue: Schema.String
+      }),
+      Schema.TaggedStruct("AddressChangeReverted", { changes: Schema.Array(FieldDiffResponse) }),
+      Schema.TaggedStruct("CreationReverted", {}),
+      Schema.TaggedStruct("Restored", { address: GetUserAddressResponse })
+    ),
+    revertable: Schema.Boolean,
+    revertedBy: Schema.NullOr(Schema.Number),
+    reverts: Schema.NullOr(Schema.Number)
+  })),
+  total: Schema.Number,
+  nextBefore: Schema.NullOr(Schema.Number)
+})
+
+// RevertChange
+const RevertChangeResponse = Schema.Struct({
+  reverted: Schema.Boolean,
+  message: Schema.String,
+  nickname: Schema.String
+})
+
+// Time travel: the profile as of a timestamp, a position in the event log
+// (the global position projections checkpoint on), or a version of the
+// user's stream — one of them at most. A position means the same moment for
+// the user and all their addresses; a user version is turned into the
+// position of that user event.
+const GetUserUrlParams = Schema.Struct({
+  asOf: Schema.optional(Schema.Date).annotations({
+    description: "The profile as it was at this instant (ISO 8601)"
+  }),
+  atPosition: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.nonNegative())).annotations({
+    description: "The profile as it was once the event log reached this position — global across "
+      + "all streams, not the user's version; events appended later are ignored"
+  }),
+  atVersion: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.positive())).annotations({
+    description: "The profile as it was right after the user's own Nth event (the user stream's version, "
+      + "from 1); addresses as of that same moment. A version the user hasn't reached is a 404"
+  })
+}).pipe(
+  Schema.filter((params) =>
+    [params.asOf, params.atPosition, params.atVersion].filter((point) => point !== undefined).length <= 1
+    || "Pass at most one of asOf, atPosition and atVersion"
+  )
+)
+
 const GetUserResponse = Schema.Struct({
+  // The current nickname — if the request used a past one, clients should move to this
+  nickname: Schema.String,
   user: Schema.Struct({
     email: Email.schema,
     firstName: FirstName,
@@ -122,281 +249,435 @@ const GetUserResponse = Schema.Struct({
   addresses: Schema.Array(GetUserAddressResponse)
 })
 
+// Auth — login links are requested by nickname: emails aren't unique
+const RequestLoginLinkRequest = Schema.Struct({
+  nickname: Schema.String
+})
+
+const RequestLoginLinkResponse = Schema.Struct({
+  expiresAt: Schema.Date // The token itself only travels in the email
+})
+
+const LogInResponse = Schema.Struct({
+  sessionToken: Schema.String, // Send as `Authorization: Bearer <sessionToken>`
+  nickname: Schema.String,
+  expiresAt: Schema.Date
+})
+
+const LogOutResponse = Schema.Struct({
+  loggedOut: Schema.Boolean // false: the session was already closed
+})
+
+// Admin: dead letters (emails the outbox dispatcher gave up on)
+const DeadLetterResponse = Schema.Struct({
+  id: Schema.Number,
+  to: Email.schema,
+  subject: Schema.String,
+  body: Schema.String, // Links redacted — a replay still sends the original
+  attempts: Schema.Number,
+  lastError: Schema.NullOr(Schema.String),
+  enqueuedAt: Schema.Date
+})
+
+const ReplayDeadLetterResponse = Schema.Struct({
+  replayed: Schema.Number
+})
+
 // =============================================================================
 // Error Schemas
 // =============================================================================
 
-class UserAlreadyExistsError extends Schema.TaggedError<UserAlreadyExistsError>()(
+export class UserAlreadyExistsError extends Schema.TaggedError<UserAlreadyExistsError>()(
   "UserAlreadyExistsError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "A user with this email already exists" }
 ) {}
 
-class NicknameAlreadyExistsError extends Schema.TaggedError<NicknameAlreadyExistsError>()(
+export class NicknameAlreadyExistsError extends Schema.TaggedError<NicknameAlreadyExistsError>()(
   "NicknameAlreadyExistsError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "Another user already has the nickname derived from this name" }
 ) {}
 
-class UserNotFoundError extends Schema.TaggedError<UserNotFoundError>()(
+export class UserNotFoundError extends Schema.TaggedError<UserNotFoundError>()(
   "UserNotFoundError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "No user has (or had) this nickname" }
 ) {}
 
-class LabelAlreadyExistsError extends Schema.TaggedError<LabelAlreadyExistsError>()(
+export class LabelAlreadyExistsError extends Schema.TaggedError<LabelAlreadyExistsError>()(
   "LabelAlreadyExistsError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "The user already has an address with this label" }
 ) {}
 
-class AddressAlreadyExistsError extends Schema.TaggedError<AddressAlreadyExistsError>()(
+export class AddressAlreadyExistsError extends Schema.TaggedError<AddressAlreadyExistsError>()(
   "AddressAlreadyExistsError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "The address already exists (the label check normally reports this first)" }
 ) {}
 
-class AddressNotFoundError extends Schema.TaggedError<AddressNotFoundError>()(
+export class AddressNotFoundError extends Schema.TaggedError<AddressNotFoundError>()(
   "AddressNotFoundError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "The user has no address with this label" }
 ) {}
 
-class TokenNotFoundError extends Schema.TaggedError<TokenNotFoundError>()(
+export class TokenNotFoundError extends Schema.TaggedError<TokenNotFoundError>()(
   "TokenNotFoundError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "The revert link was already used, or never existed" }
 ) {}
 
-class RevertTokenInvalidError extends Schema.TaggedError<RevertTokenInvalidError>()(
+export class RevertTokenInvalidError extends Schema.TaggedError<RevertTokenInvalidError>()(
   "RevertTokenInvalidError",
-  { message: Schema.String }
+  { message: Schema.String },
+  { description: "The revert link was tampered with or is malformed" }
+) {}
+
+// The link was real but is past its TTL — "gone" (410), not "not found".
+// Carries expiredAt so the client can say when the window closed.
+export class RevertTokenExpiredError extends Schema.TaggedError<RevertTokenExpiredError>()(
+  "RevertTokenExpiredError",
+  { message: Schema.String, expiredAt: Schema.Date },
+  { description: "The revert link is past its validity period" }
+) {}
+
+// The field was changed again after the email — reverting would clobber a
+// value the user never saw in that email. Carries both values so the client
+// can show them and offer to retry with ?force=true.
+export class RevertConflictError extends Schema.TaggedError<RevertConflictError>()(
+  "RevertConflictError",
+  {
+    message: Schema.String,
+    field: Schema.String,
+    expectedValue: Schema.String,
+    currentValue: Schema.NullOr(Schema.String)
+  },
+  { description: "The field changed again since the email — retry with ?force=true to revert anyway" }
 ) {}
 
+export class LoginLinkInvalidError extends Schema.TaggedError<LoginLinkInvalidError>()(
+  "LoginLinkInvalidError",
+  { message: Schema.String },
+  { description: "The login link was already used, superseded by a login, or tampered with" }
+) {}
+
+// Like RevertTokenExpiredError: real, unused, but too late — ask for a new one
+export class LoginLinkExpiredError extends Schema.TaggedError<LoginLinkExpiredError>()(
+  "LoginLinkExpiredError",
+  { message: Schema.String, expiredAt: Schema.Date },
+  { description: "The login link is past its validity period — request a new one" }
+) {}
+
+// The two errors the Authorization middleware (below) can fail with. Their
+// status lives on the class: middleware failures have no addError to set it.
+export class UnauthorizedError extends Schema.TaggedError<UnauthorizedError>()(
+  "UnauthorizedError",
+  { message: Schema.String },
+  HttpApiSchema.annotations({
+    status: 401,
+    description: "No session token, or one that is forged, expired or logged out — log in"
+  })
+) {}
+
+export class ForbiddenError extends Schema.TaggedError<ForbiddenError>()(
+  "ForbiddenError",
+  { message: Schema.String },
+  HttpApiSchema.annotations({
+    status: 403,
+    description: "The session belongs to another user than the one in the path"
+  })
+) {}
+
+// What AdminAuthorization (below) fails with — not UnauthorizedError: logging
+// in doesn't help here
+export class OperatorUnauthorizedError extends Schema.TaggedError<OperatorUnauthorizedError>()(
+  "OperatorUnauthorizedError",
+  { message: Schema.String },
+  HttpApiSchema.annotations({
+    status: 401,
+    description: "No operator token (ADMIN_TOKEN), or the wrong one"
+  })
+) {}
+
+export class DeadLetterNotFoundError extends Schema.TaggedError<DeadLetterNotFoundError>()(
+  "DeadLetterNotFoundError",
+  { message: Schema.String },
+  { description: "No dead letter has this id" }
+) {}
+
+// Optimistic concurrency: another request modified the same aggregate
+// between our load and our append. The client may simply retry.
+export class ConcurrencyConflictError extends Schema.TaggedError<ConcurrencyConflictError>()(
+  "ConcurrencyConflictError",
+  { message: Schema.String },
+  { description: "Another request changed the same user or address meanwhile — retry" }
+) {}
+
+// =============================================================================
+// Authorization
+// =============================================================================
+//
+// Every endpoint that changes a user's data runs behind this middleware. It
+// reads `Authorization: Bearer <session token>`, authenticates the session
+// (usecases/Authenticate.ts) and provides CurrentUser to the handler. If the
+// path names a user (`:nickname`), that user must be the session's own —
+// otherwise 403, so nobody edits someone else's addresses by knowing a
+// nickname. Reads and revert links stay public: a revert link is its own
+// credential, emailed to the owner.
+//
+// Only the tag lives here — the client needs it to know which endpoints take
+// a bearer token; the implementation is in ApiLive.ts.
+//
+// SCALA ANALOGY: a tapir `securityIn(auth.bearer)` + `serverSecurityLogic`
+// whose result the server logic receives.
+//
+
+export class CurrentUser extends Context.Tag("CurrentUser")<CurrentUser, {
+  readonly userId: UserId
+  readonly sessionId: SessionId
+}>() {}
+
+export class Authorization extends HttpApiMiddleware.Tag<Authorization>()("Authorization", {
+  failure: Schema.Union(UnauthorizedError, ForbiddenError),
+  provides: CurrentUser,
+  security: { session: HttpApiSecurity.bearer }
+}) {}
+
+// The admin group's gate: the operator's secret (see OperatorToken), not a
+// session — dead letters are other people's emails, links included
+export class AdminAuthorization extends HttpApiMiddleware.Tag<AdminAuthorization>()("AdminAuthorization", {
+  failure: OperatorUnauthorizedError,
+  security: { operator: HttpApiSecurity.bearer }
+}) {}
+
+// =============================================================================
+// OpenAPI
+// =============================================================================
+
+// Errors sharing a status share one response in the spec (e.g. createUser's
+// 409: UserAlreadyExists, NicknameAlreadyExists, ConcurrencyConflict). The
+// generator describes it with the first error only — so a tampered revert
+// link's 400 would read "The request did not match the expected schema".
+// Rewrite each such description to list every error it can carry.
+const describeSharedStatuses = (spec: OpenApi.OpenAPISpec): OpenApi.OpenAPISpec => {
+  const schemas = spec.components.schemas
+  for (const operations of Object.values(spec.paths)) {
+    for (const operation of Object.values(operations)) {
+      for (const response of Object.values(operation?.responses ?? {})) {
+        const schema = response.content?.["application/json"]?.schema
+        const members = schema !== undefined && "anyOf" in schema ? schema.anyOf : []
+        const names = members.flatMap((member) =>
+          "$ref" in member ? [member.$ref.replace("#/components/schemas/", "")] : []
+        )
+        if (names.length > 1) {
+          response.description = names
+            .map((name) => `- \`${name}\`: ${schemas[name]?.description ?? name}`)
+            .join("\n")
+        }
+      }
+    }
+  }
+  return spec
+}
+
 // =============================================================================
 // API Definition
 // =============================================================================
 
 // Users group
 const UsersGroup = HttpApiGroup.make("users")
+  .annotate(
+    OpenApi.Description,
+    "Users are addressed by nickname — derived from the name, and past ones keep resolving"
+  )
   .add(
     HttpApiEndpoint.post("createUser", "/users")
+      .annotate(OpenApi.Summary, "Create a user")
       .setPayload(CreateUserRequest)
       .addSuccess(CreateUserResponse)
       .addError(UserAlreadyExistsError, { status: 409 })
       .addError(NicknameAlreadyExistsError, { status: 409 })
+      .addError(ConcurrencyConflictError, { status: 409 })
   )
   .add(
     HttpApiEndpoint.get("getUser", "/users/:nickname")
+      .annotate(OpenApi.Summary, "Get a user and their addresses, now or at a point in the past")
       .setPath(Schema.Struct({ nickname: Schema.String }))
+      .setUrlParams(GetUserUrlParams)
       .addSuccess(GetUserResponse)
       .addError(UserNotFoundError, { status: 404 })
   )
+  .add(
+    // PATCH /users/:nickname — fix a first or last name (no email)
+    HttpApiEndpoint.patch("updateUserName", "/users/:nickname")
+      .annotate(OpenApi.Summary, "Change the first or last name")
+      .setPath(Schema.Struct({ nickname: Schema.String }))
+      .setPayload(UpdateUserNameRequest)
+      .addSuccess(UpdateUserNameResponse)
+      .addError(UserNotFoundError, { status: 404 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
+  )
 
 // Addresses group
 const AddressesGroup = HttpApiGroup.make("addresses")
+  .annotate(OpenApi.Description, "Every change emails the user a revert link; reverting sends no email")
   .add(
     HttpApiEndpoint.post("createAddress", "/users/:nickname/addresses")
+      .annotate(OpenApi.Summary, "Add an address (sends a notification email)")
       .setPath(Schema.Struct({ nickname: Schema.String }))
       .setPayload(CreateAddressRequest)
       .addSuccess(CreateAddressResponse)
       .addError(UserNotFoundError, { status: 404 })
       .addError(LabelAlreadyExistsError, { status: 409 })
       .addError(AddressAlreadyExistsError, { status: 409 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
   )
   .add(
     // PATCH /users/:nickname/addresses/:label — update a single field
     // This is where different emails are triggered based on which field changed!
     HttpApiEndpoint.patch("updateAddressField", "/users/:nickname/addresses/:label")
+      .annotate(OpenApi.Summary, "Change one address field (sends a notification email)")
       .setPath(Schema.Struct({ nickname: Schema.String, label: Schema.String }))
       .setPayload(UpdateAddressFieldRequest)
       .addSuccess(UpdateAddressFieldResponse)
       .addError(UserNotFoundError, { status: 404 })
       .addError(AddressNotFoundError, { status: 404 })
+      .addError(LabelAlreadyExistsError, { status: 409 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
+  )
+  .add(
+    // PUT /users/:nickname/addresses/:label — change several fields at once
+    // One event, one revert link, one email for the lot
+    HttpApiEndpoint.put("changeAddress", "/users/:nickname/addresses/:label")
+      .annotate(OpenApi.Summary, "Change several address fields at once (sends one notification email)")
+      .setPath(Schema.Struct({ nickname: Schema.String, label: Schema.String }))
+      .setPayload(ChangeAddressRequest)
+      .addSuccess(ChangeAddressResponse)
+      .addError(UserNotFoundError, { status: 404 })
+      .addError(AddressNotFoundError, { status: 404 })
+      .addError(LabelAlreadyExistsError, { status: 409 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
   )
   .add(
     // DELETE /users/:nickname/addresses/:label — delete an address
     HttpApiEndpoint.del("deleteAddress", "/users/:nickname/addresses/:label")
+      .annotate(OpenApi.Summary, "Delete an address (sends a notification email)")
       .setPath(Schema.Struct({ nickname: Schema.String, label: Schema.String }))
       .addSuccess(DeleteAddressResponse)
       .addError(UserNotFoundError, { status: 404 })
       .addError(AddressNotFoundError, { status: 404 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
+  )
+  .add(
+    // GET /users/:nickname/addresses/:label/history — the address's timeline
+    HttpApiEndpoint.get("getAddressHistory", "/users/:nickname/addresses/:label/history")
+      .annotate(OpenApi.Summary, "List an address's changes, newest first")
+      .setPath(Schema.Struct({ nickname: Schema.String, label: Schema.String }))
+      .setUrlParams(AddressHistoryUrlParams)
+      .addSuccess(AddressHistoryResponse)
+      .addError(UserNotFoundError, { status: 404 })
+      .addError(AddressNotFoundError, { status: 404 })
+  )
+  .add(
+    // GET /revert/:token — describe what the revert would undo, WITHOUT doing it
+    // Safe for link scanners: nothing is consumed until the POST below
+    HttpApiEndpoint.get("previewRevert", "/revert/:token")
+      .annotate(OpenApi.Summary, "Preview what a revert link would undo")
+      .setPath(Schema.Struct({ token: Schema.String }))
+      .addSuccess(RevertPreviewResponse)
+      .addError(TokenNotFoundError, { status: 404 })
+      .addError(RevertTokenInvalidError, { status: 400 })
+      .addError(RevertTokenExpiredError, { status: 410 })
   )
   .add(
     // POST /revert/:token — revert a change using the token from the email
     // This is the climax: revert happens, NO email is sent (corrections are silent)
+    // ?force=true reverts even if the field was changed again since the email
     HttpApiEndpoint.post("revertChange", "/revert/:token")
+      .annotate(OpenApi.Summary, "Undo the change a revert link was emailed for")
       .setPath(Schema.Struct({ token: Schema.String }))
+      .setUrlParams(Schema.Struct({ force: Schema.optional(Schema.BooleanFromString) }))
       .addSuccess(RevertChangeResponse)
       .addError(TokenNotFoundError, { status: 404 })
       .addError(RevertTokenInvalidError, { status: 400 })
+      .addError(RevertTokenExpiredError, { status: 410 })
+      .addError(RevertConflictError, { status: 409 })
+      .addError(LabelAlreadyExistsError, { status: 409 })
+      .addError(ConcurrencyConflictError, { status: 409 })
   )
 
+// Auth group
+const AuthGroup = HttpApiGroup.make("auth")
+  .annotate(OpenApi.Description, "Passwordless login: a one-time link is emailed, then exchanged for a session token")
+  .add(
+    // POST /auth/login — email a login link to the address on file
+    HttpApiEndpoint.post("requestLoginLink", "/auth/login")
+      .annotate(OpenApi.Summary, "Email a login link (sends an email)")
+      .setPayload(RequestLoginLinkRequest)
+      .addSuccess(RequestLoginLinkResponse)
+      .addError(UserNotFoundError, { status: 404 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+  )
+  .add(
+    // POST /auth/login/:token — a POST, like revertChange: a link scanner
+    // following the emailed URL (a frontend page) must not use it up
+    HttpApiEndpoint.post("logIn", "/auth/login/:token")
+      .annotate(OpenApi.Summary, "Exchange a login link for a session token")
+      .setPath(Schema.Struct({ token: Schema.String }))
+      .addSuccess(LogInResponse)
+      .addError(LoginLinkInvalidError, { status: 400 })
+      .addError(LoginLinkExpiredError, { status: 410 })
+      .addError(ConcurrencyConflictError, { status: 409 })
+  )
+  .add(
+    HttpApiEndpoint.post("logOut", "/auth/logout")
+      .annotate(OpenApi.Summary, "Close the current session")
+      .addSuccess(LogOutResponse)
+      .addError(ConcurrencyConflictError, { status: 409 })
+      .middleware(Authorization)
+  )
+
+// Admin group — operator tooling, behind the operator's token
+const AdminGroup = HttpApiGroup.make("admin")
+  .annotate(OpenApi.Description, "Operator tooling — Authorization: Bearer <ADMIN_TOKEN>")
+  .add(
+    // GET /admin/dead-letters — emails that exhausted their delivery retries
+    HttpApiEndpoint.get("listDeadLetters", "/admin/dead-letters")
+      .annotate(OpenApi.Summary, "List emails that exhausted their delivery retries")
+      .setUrlParams(
+        Schema.Struct({ limit: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 100))) })
+      )
+      .addSuccess(Schema.Array(DeadLetterResponse))
+  )
+  .add(
+    // POST /admin/dead-letters/:id/replay — queue a dead letter for delivery again
+    HttpApiEndpoint.post("replayDeadLetter", "/admin/dead-letters/:id/replay")
+      .annotate(OpenApi.Summary, "Queue a dead letter for delivery again")
+      .setPath(Schema.Struct({ id: Schema.NumberFromString }))
+      .addSuccess(ReplayDeadLetterResponse)
+      .addError(DeadLetterNotFoundError, { status: 404 })
+  )
+  .middleware(AdminAuthorization)
+
 // Full API
 export const Api = HttpApi.make("EventTriggersApi")
   .add(UsersGroup)
   .add(AddressesGroup)
+  .add(AuthGroup)
+  .add(AdminGroup)
+  .annotateContext(OpenApi.annotations({
+    title: "Event Triggers PoC",
+    version: "0.0.1",
+    description: "Address changes trigger safety emails with a revert link — backed by pure event sourcing",
+    // The generator hands over the spec it built, typed loosely
+    transform: (spec) => describeSharedStatuses(spec as OpenApi.OpenAPISpec)
+  }))
 
 export type Api = typeof Api
-
-// =============================================================================
-// API Implementation (Handlers)
-// =============================================================================
-
-// NOTE: Service imports not needed here — use cases pull them via Effect context.
-// Keeping these commented for reference when adding direct service access.
-// import { IdGenerator } from "../IdGenerator.js"
-// import { UserEventStore, AddressEventStore } from "../EventStore.js"
-// import { Registry } from "../Registry.js"
-// import { EmailService } from "../EmailService.js"
-
-// Users handlers
-const UsersHandlers = HttpApiBuilder.group(Api, "users", (handlers) =>
-  handlers
-    .handle("createUser", ({ payload }) =>
-      Effect.gen(function* () {
-        const result = yield* createUser(payload)
-        return {
-          nickname: result.nickname,
-          email: result.email,
-          firstName: result.firstName,
-          lastName: result.lastName
-        }
-      }).pipe(
-        Effect.catchTag("UserAlreadyExists", () =>
-          Effect.fail(new UserAlreadyExistsError({ message: "User already exists" }))
-        ),
-        Effect.catchTag("NicknameAlreadyExists", () =>
-          Effect.fail(new NicknameAlreadyExistsError({ message: "A user with this name already exists" }))
-        )
-      )
-    )
-    .handle("getUser", ({ path }) =>
-      Effect.gen(function* () {
-        const result = yield* getUser({ nickname: path.nickname })
-        return {
-          user: {
-            email: result.user.email,
-            firstName: result.user.firstName,
-            lastName: result.user.lastName
-          },
-          addresses: result.addresses.map(addr => ({
-            label: addr.label,
-            streetNumber: addr.streetNumber,
-            streetName: addr.streetName,
-            zipCode: addr.zipCode,
-            city: addr.city,
-            country: addr.country
-          }))
-        }
-      }).pipe(
-        Effect.catchTag("UserNotFound", () =>
-          Effect.fail(new UserNotFoundError({ message: "User not found" }))
-        )
-      )
-    )
-)
-
-// Addresses handlers
-const AddressesHandlers = HttpApiBuilder.group(Api, "addresses", (handlers) =>
-  handlers
-    .handle("createAddress", ({ path, payload }) =>
-      Effect.gen(function* () {
-        const result = yield* createAddress({
-          nickname: path.nickname,
-          ...payload
-        })
-        return {
-          label: result.label,
-          streetNumber: result.streetNumber,
-          streetName: result.streetName,
-          zipCode: result.zipCode,
-          city: result.city,
-          country: result.country
-        }
-      }).pipe(
-        Effect.catchTag("UserNotFound", () =>
-          Effect.fail(new UserNotFoundError({ message: "User not found" }))
-        ),
-        Effect.catchTag("LabelAlreadyExists", () =>
-          Effect.fail(new LabelAlreadyExistsError({ message: "Address with this label already exists" }))
-        ),
-        Effect.catchTag("AddressAlreadyExists", () =>
-          Effect.fail(new AddressAlreadyExistsError({ message: "Address already exists" }))
-        ),
-        // EmailSendError: for PoC, we treat email failures as internal errors (500)
-        // In production, you might want a different strategy (retry, queue, etc.)
-        Effect.catchTag("EmailSendError", (e) =>
-          Effect.die(new Error(`Email send failed: ${e.message}`))
-        )
-      )
-    )
-    .handle("updateAddressField", ({ path, payload }) =>
-      Effect.gen(function* () {
-        const result = yield* updateAddressField({
-          nickname: path.nickname,
-          label: path.label,
-          field: payload.field as AddressFieldName,
-          value: payload.value
-        })
-        return {
-          field: result.field,
-          oldValue: result.oldValue,
-          newValue: result.newValue
-        }
-      }).pipe(
-        Effect.catchTag("UserNotFound", () =>
-          Effect.fail(new UserNotFoundError({ message: "User not found" }))
-        ),
-        Effect.catchTag("AddressNotFound", () =>
-          Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
-        ),
-        Effect.catchTag("EmailSendError", (e) =>
-          Effect.die(new Error(`Email send failed: ${e.message}`))
-        )
-      )
-    )
-    .handle("deleteAddress", ({ path }) =>
-      Effect.gen(function* () {
-        const result = yield* deleteAddress({
-          nickname: path.nickname,
-          label: path.label
-        })
-        return {
-          deleted: result.deleted,
-          label: result.label
-        }
-      }).pipe(
-        Effect.catchTag("UserNotFound", () =>
-          Effect.fail(new UserNotFoundError({ message: "User not found" }))
-        ),
-        Effect.catchTag("AddressNotFound", () =>
-          Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
-        ),
-        Effect.catchTag("EmailSendError", (e) =>
-          Effect.die(new Error(`Email send failed: ${e.message}`))
-        )
-      )
-    )
-    .handle("revertChange", ({ path }) =>
-      Effect.gen(function* () {
-        const result = yield* revertChange({
-          token: path.token as RevertToken
-        })
-        return {
-          reverted: result.reverted,
-          message: result.message,
-          nickname: result.nickname
-        }
-      }).pipe(
-        Effect.catchTag("TokenNotFound", () =>
-          Effect.fail(new TokenNotFoundError({ message: "Revert token not found or already used" }))
-        ),
-        Effect.catchTag("RevertTokenInvalid", () =>
-          Effect.fail(new RevertTokenInvalidError({ message: "Revert token is invalid" }))
-        )
-      )
-    )
-)
-
-// =============================================================================
-// API Layer (combines all handlers)
-// =============================================================================
-
-export const ApiLive = HttpApiBuilder.api(Api).pipe(
-  Layer.provide(UsersHandlers),
-  Layer.provide(AddressesHandlers)
-)
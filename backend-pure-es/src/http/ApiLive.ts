@@ -0,0 +1,517 @@
+// =============================================================================
+// HTTP API Implementation (Handlers)
+// =============================================================================
+//
+// The server side of Api.ts: each endpoint calls its use case and maps the
+// use case's errors onto the endpoint's declared error schemas. Also
+// implements the Authorization and AdminAuthorization middlewares and serves
+// the API's docs (ApiDocsLive, at the bottom).
+//
+import { HttpApiBuilder, HttpApiSwagger, HttpRouter } from "@effect/platform"
+import { Effect, Layer, Option, Redacted } from "effect"
+import { createHash, timingSafeEqual } from "node:crypto"
+
+// Import use cases
+import { authenticate } from "../usecases/Authenticate.js"
+import { changeAddress } from "../usecases/ChangeAddress.js"
+import { createAddress } from "../usecases/CreateAddress.js"
+import { createUser } from "../usecases/CreateUser.js"
+import { listDeadLetters, replayDeadLetter } from "../usecases/DeadLetters.js"
+import { deleteAddress } from "../usecases/DeleteAddress.js"
+import { getAddressHistory } from "../usecases/GetAddressHistory.js"
+import { type AtVersion, getUser } from "../usecases/GetUser.js"
+import { logIn } from "../usecases/LogIn.js"
+import { logOut } from "../usecases/LogOut.js"
+import { previewRevert } from "../usecases/PreviewRevert.js"
+import { requestLoginLink } from "../usecases/RequestLoginLink.js"
+import { revertChange } from "../usecases/RevertChange.js"
+import { updateAddressField } from "../usecases/UpdateAddressField.js"
+import { updateUserName } from "../usecases/UpdateUserName.js"
+
+import type { PointInTime } from "../application/AggregateLoader.js"
+import type { AuthTokenService, AuthTokenUnverified } from "../AuthTokenService.js"
+import type { AddressFieldName, RevertToken } from "../domain/address/State.js"
+import type { EventDecodeError, UserEventStore } from "../EventStore.js"
+import { OperatorToken } from "../OperatorToken.js"
+import { Registry } from "../Registry.js"
+import type { RevertTokenUnverified } from "../RevertTokenService.js"
+import {
+  AddressAlreadyExistsError,
+  AddressNotFoundError,
+  AdminAuthorization,
+  Api,
+  Authorization,
+  ConcurrencyConflictError,
+  CurrentUser,
+  DeadLetterNotFoundError,
+  ForbiddenError,
+  LabelAlreadyExistsError,
+  LoginLinkExpiredError,
+  LoginLinkInvalidError,
+  NicknameAlreadyExistsError,
+  OperatorUnauthorizedError,
+  RevertConflictError,
+  RevertTokenExpiredError,
+  RevertTokenInvalidError,
+  TokenNotFoundError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  UserNotFoundError
+} from "./Api.js"
+
+// =============================================================================
+// Error Mapping Helpers
+// =============================================================================
+
+// A token that fails signature checks gets the same answer as any other bad
+// token — which check failed is for the logs only, not for whoever forged it.
+const rejectUnverifiedToken = (e: RevertTokenUnverified) =>
+  Effect.logWarning(`Rejected revert token: ${e.reason}`).pipe(
+    Effect.zipRight(Effect.fail(new RevertTokenInvalidError({ message: "Revert token is invalid" })))
+  )
+
+// Same rule for login links: one answer, whatever was wrong with it
+const rejectUnverifiedLoginLink = (e: AuthTokenUnverified) =>
+  Effect.logWarning(`Rejected login token: ${e.reason}`).pipe(
+    Effect.zipRight(Effect.fail(new LoginLinkInvalidError({ message: "This login link is invalid" })))
+  )
+
+// A stored event that no longer decodes is corrupt data on OUR side — nothing
+// the client can fix or retry. Surface it as a defect (→ 500), with the
+// coordinates an operator needs to find the row.
+const undecodableEvent = (e: EventDecodeError) =>
+  Effect.die(
+    new Error(`Stored event ${e.eventType} (${e.streamId}@${e.version}) failed to decode: ${e.message}`)
+  )
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+// NOTE: Service imports not needed here — use cases pull them via Effect context.
+// Keeping these commented for reference when adding direct service access.
+// import { IdGenerator } from "../IdGenerator.js"
+// import { UserEventStore, AddressEventStore } from "../EventStore.js"
+// import { Registry } from "../Registry.js"
+// import { EmailService } from "../EmailService.js"
+
+// Users handlers
+const UsersHandlers = HttpApiBuilder.group(Api, "users", (handlers) =>
+  handlers
+    .handle("createUser", ({ payload }) =>
+      Effect.gen(function*() {
+        const result = yield* createUser(payload)
+        return {
+          nickname: result.nickname,
+          email: result.email,
+          firstName: result.firstName,
+          lastName: result.lastName
+        }
+      }).pipe(
+        Effect.catchTag(
+          "UserAlreadyExists",
+          () => Effect.fail(new UserAlreadyExistsError({ message: "User already exists" }))
+        ),
+        Effect.catchTag(
+          "NicknameAlreadyExists",
+          () => Effect.fail(new NicknameAlreadyExistsError({ message: "A user with this name already exists" }))
+        ),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("getUser", ({ path, urlParams }) =>
+      Effect.gen(function*() {
+        const at: PointInTime | AtVersion | undefined = urlParams.asOf !== undefined
+          ? { _tag: "AsOf", timestamp: urlParams.asOf }
+          : urlParams.atPosition !== undefined
+          ? { _tag: "AtPosition", position: urlParams.atPosition }
+          : urlParams.atVersion !== undefined
+          ? { _tag: "AtVersion", version: urlParams.atVersion }
+          : undefined
+        const result = yield* getUser({ nickname: path.nickname, ...(at === undefined ? {} : { at }) })
+        return {
+          nickname: result.nickname,
+          user: {
+            email: result.user.email,
+            firstName: result.user.firstName,
+            lastName: result.user.lastName
+          },
+          addresses: result.addresses.map((addr) => ({
+            label: addr.label,
+            streetNumber: addr.streetNumber,
+            streetName: addr.streetName,
+            zipCode: addr.zipCode,
+            city: addr.city,
+            country: addr.country
+          }))
+        }
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("updateUserName", ({ path, payload }) =>
+      updateUserName({ nickname: path.nickname, ...payload }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      )))
+
+// Addresses handlers
+const DEFAULT_HISTORY_PAGE_SIZE = 20
+
+const AddressesHandlers = HttpApiBuilder.group(Api, "addresses", (handlers) =>
+  handlers
+    .handle("createAddress", ({ path, payload }) =>
+      Effect.gen(function*() {
+        const result = yield* createAddress({
+          nickname: path.nickname,
+          ...payload
+        })
+        return {
+          label: result.label,
+          streetNumber: result.streetNumber,
+          streetName: result.streetName,
+          zipCode: result.zipCode,
+          city: result.city,
+          country: result.country
+        }
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "LabelAlreadyExists",
+          () => Effect.fail(new LabelAlreadyExistsError({ message: "Address with this label already exists" }))
+        ),
+        Effect.catchTag(
+          "AddressAlreadyExists",
+          () => Effect.fail(new AddressAlreadyExistsError({ message: "Address already exists" }))
+        ),
+        // EmailSendError: only possible when an email adapter is wired in directly
+        // (tests). Program.ts wires the outbox, whose `send` just enqueues — SMTP
+        // failures are retried by the dispatcher and never reach the request.
+        Effect.catchTag("EmailSendError", (e) => Effect.die(new Error(`Email send failed: ${e.message}`))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("updateAddressField", ({ path, payload }) =>
+      Effect.gen(function*() {
+        const result = yield* updateAddressField({
+          nickname: path.nickname,
+          label: path.label,
+          field: payload.field as AddressFieldName,
+          value: payload.value
+        })
+        return {
+          field: result.field,
+          oldValue: result.oldValue,
+          newValue: result.newValue
+        }
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "AddressNotFound",
+          () => Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
+        ),
+        Effect.catchTag(
+          "LabelAlreadyExists",
+          () => Effect.fail(new LabelAlreadyExistsError({ message: "Address with this label already exists" }))
+        ),
+        Effect.catchTag("EmailSendError", (e) => Effect.die(new Error(`Email send failed: ${e.message}`))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("changeAddress", ({ path, payload }) =>
+      changeAddress({
+        nickname: path.nickname,
+        label: path.label,
+        fields: payload
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "AddressNotFound",
+          () => Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
+        ),
+        Effect.catchTag(
+          "LabelAlreadyExists",
+          () => Effect.fail(new LabelAlreadyExistsError({ message: "Address with this label already exists" }))
+        ),
+        Effect.catchTag("EmailSendError", (e) => Effect.die(new Error(`Email send failed: ${e.message}`))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("deleteAddress", ({ path }) =>
+      Effect.gen(function*() {
+        const result = yield* deleteAddress({
+          nickname: path.nickname,
+          label: path.label
+        })
+        return {
+          deleted: result.deleted,
+          label: result.label
+        }
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "AddressNotFound",
+          () => Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
+        ),
+        Effect.catchTag("EmailSendError", (e) => Effect.die(new Error(`Email send failed: ${e.message}`))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("getAddressHistory", ({ path, urlParams }) =>
+      getAddressHistory({
+        nickname: path.nickname,
+        label: path.label,
+        limit: urlParams.limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+        ...(urlParams.before === undefined ? {} : { before: urlParams.before })
+      }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag(
+          "AddressNotFound",
+          () => Effect.fail(new AddressNotFoundError({ message: "Address not found" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("previewRevert", ({ path }) =>
+      previewRevert({ token: path.token as RevertToken }).pipe(
+        Effect.catchTag(
+          "TokenNotFound",
+          () => Effect.fail(new TokenNotFoundError({ message: "Revert token not found or already used" }))
+        ),
+        Effect.catchTag("RevertTokenUnverified", rejectUnverifiedToken),
+        Effect.catchTag(
+          "RevertTokenInvalid",
+          () => Effect.fail(new RevertTokenInvalidError({ message: "Revert token is invalid" }))
+        ),
+        Effect.catchTag("RevertTokenExpired", (e) =>
+          Effect.fail(
+            new RevertTokenExpiredError({ message: "This revert link has expired", expiredAt: e.expiredAt })
+          )),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("revertChange", ({ path, urlParams }) =>
+      Effect.gen(function*() {
+        const result = yield* revertChange({
+          token: path.token as RevertToken,
+          force: urlParams.force ?? false
+        })
+        return {
+          reverted: result.reverted,
+          message: result.message,
+          nickname: result.nickname
+        }
+      }).pipe(
+        Effect.catchTag(
+          "TokenNotFound",
+          () => Effect.fail(new TokenNotFoundError({ message: "Revert token not found or already used" }))
+        ),
+        Effect.catchTag("RevertTokenUnverified", rejectUnverifiedToken),
+        Effect.catchTag(
+          "RevertTokenInvalid",
+          () => Effect.fail(new RevertTokenInvalidError({ message: "Revert token is invalid" }))
+        ),
+        Effect.catchTag(
+          "RevertTokenExpired",
+          (e) =>
+            Effect.fail(
+              new RevertTokenExpiredError({ message: "This revert link has expired", expiredAt: e.expiredAt })
+            )
+        ),
+        Effect.catchTag("RevertConflict", (e) =>
+          Effect.fail(
+            new RevertConflictError({
+              message: e.currentValue === null
+                ? `The address was deleted after this change to ${e.field}`
+                : `The ${e.field} was changed again after this email`,
+              field: e.field,
+              expectedValue: e.expectedValue,
+              currentValue: e.currentValue
+            })
+          )),
+        Effect.catchTag("LabelAlreadyExists", () =>
+          Effect.fail(
+            new LabelAlreadyExistsError({ message: "Another address has taken this label since — rename it first" })
+          )),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      )))
+
+// Auth handlers
+const AuthHandlers = HttpApiBuilder.group(Api, "auth", (handlers) =>
+  handlers
+    .handle("requestLoginLink", ({ payload }) =>
+      requestLoginLink({ nickname: payload.nickname }).pipe(
+        Effect.catchTag("UserNotFound", () => Effect.fail(new UserNotFoundError({ message: "User not found" }))),
+        Effect.catchTag("EmailSendError", (e) => Effect.die(new Error(`Email send failed: ${e.message}`))),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("logIn", ({ path }) =>
+      logIn({ token: path.token }).pipe(
+        Effect.catchTag("AuthTokenUnverified", rejectUnverifiedLoginLink),
+        Effect.catchTag(
+          "LoginLinkInvalid",
+          () => Effect.fail(new LoginLinkInvalidError({ message: "This login link was already used" }))
+        ),
+        Effect.catchTag(
+          "LoginLinkExpired",
+          (e) =>
+            Effect.fail(new LoginLinkExpiredError({ message: "This login link has expired", expiredAt: e.expiredAt }))
+        ),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      ))
+    .handle("logOut", () =>
+      Effect.flatMap(CurrentUser, (current) => logOut(current)).pipe(
+        // Authorization just loaded this user to check the session
+        Effect.catchTag(
+          "UserNotFound",
+          () => Effect.die(new Error("BUG: UserNotFound should never occur for an authenticated user"))
+        ),
+        Effect.catchTag(
+          "ConcurrencyConflict",
+          () => Effect.fail(new ConcurrencyConflictError({ message: "Concurrent modification, please retry" }))
+        ),
+        Effect.catchTag("EventDecodeError", undecodableEvent)
+      )))
+
+// =============================================================================
+// Authorization middleware (declared in Api.ts)
+// =============================================================================
+//
+// 1. Authenticate the bearer token → CurrentUser (any failure → 401)
+// 2. If the route has a :nickname, it must resolve to CurrentUser → else 403
+//
+// An unknown nickname passes: the handler answers 404, as it would for anyone.
+// The middleware only sees the request, so the services it needs are
+// captured from the layer's context when the server starts.
+//
+
+const unauthorized = (message: string) => Effect.fail(new UnauthorizedError({ message }))
+
+const AuthorizationLive = Layer.effect(
+  Authorization,
+  Effect.gen(function*() {
+    const services = yield* Effect.context<AuthTokenService | UserEventStore | Registry>()
+    return {
+      session: (token) =>
+        Effect.gen(function*() {
+          const current = yield* authenticate({ sessionToken: Redacted.value(token) }).pipe(
+            Effect.catchTag("AuthTokenUnverified", (e) =>
+              Effect.logWarning(`Rejected session token: ${e.reason}`).pipe(
+                Effect.zipRight(unauthorized("Log in to do this"))
+              )),
+            Effect.catchTag("SessionExpired", () => unauthorized("Your session has expired — log in again")),
+            Effect.catchTag("SessionClosed", () => unauthorized("This session was logged out — log in again")),
+            Effect.catchTag("EventDecodeError", undecodableEvent)
+          )
+
+          const { params } = yield* HttpRouter.RouteContext
+          if (params.nickname !== undefined) {
+            const registry = yield* Registry
+            const owner = yield* registry.getUserIdByNickname(params.nickname)
+            if (Option.isSome(owner) && owner.value !== current.userId) {
+              return yield* Effect.fail(new ForbiddenError({ message: "You can only change your own data" }))
+            }
+          }
+
+          return current
+        }).pipe(Effect.provide(services))
+    }
+  })
+)
+
+// =============================================================================
+// AdminAuthorization middleware (declared in Api.ts)
+// =============================================================================
+//
+// The bearer token must be the OperatorToken; with none configured, nothing
+// is. Both sides are hashed first so the constant-time comparison doesn't
+// leak the secret's length.
+//
+
+const sameSecret = (expected: Redacted.Redacted, given: Redacted.Redacted): boolean => {
+  const digest = (secret: Redacted.Redacted) => createHash("sha256").update(Redacted.value(secret)).digest()
+  return timingSafeEqual(digest(expected), digest(given))
+}
+
+const AdminAuthorizationLive = Layer.effect(
+  AdminAuthorization,
+  Effect.map(OperatorToken, (operatorToken) => ({
+    operator: (token) =>
+      Option.match(operatorToken, {
+        onNone: () =>
+          Effect.fail(new OperatorUnauthorizedError({ message: "Admin endpoints are disabled — set ADMIN_TOKEN" })),
+        onSome: (expected) =>
+          sameSecret(expected, token)
+            ? Effect.void
+            : Effect.fail(new OperatorUnauthorizedError({ message: "Wrong operator token" }))
+      })
+  }))
+)
+
+// =============================================================================
+// API Layer (combines all handlers)
+// =============================================================================
+
+// Admin handlers
+const DEFAULT_DEAD_LETTER_LIMIT = 100
+
+const AdminHandlers = HttpApiBuilder.group(Api, "admin", (handlers) =>
+  handlers
+    .handle("listDeadLetters", ({ urlParams }) =>
+      listDeadLetters({ limit: urlParams.limit ?? DEFAULT_DEAD_LETTER_LIMIT }))
+    .handle("replayDeadLetter", ({ path }) =>
+      replayDeadLetter({ id: path.id }).pipe(
+        Effect.catchTag("DeadLetterNotFound", () =>
+          Effect.fail(new DeadLetterNotFoundError({ message: "Dead letter not found" })))
+      )))
+
+// Signed revert tokens (see RevertTokenService) run ~200 characters — past the
+// router's default 100-character limit for a path parameter, which 404s them.
+const RouterConfigLive = HttpRouter.setRouterConfig({ maxParamLength: 500 })
+
+export const ApiLive = HttpApiBuilder.api(Api).pipe(
+  Layer.provide(UsersHandlers),
+  Layer.provide(AddressesHandlers),
+  Layer.provide(AuthHandlers),
+  Layer.provide(AdminHandlers),
+  Layer.provide(AuthorizationLive),
+  Layer.provide(AdminAuthorizationLive),
+  Layer.provideMerge(RouterConfigLive)
+)
+
+// The contract, readable without the source: the OpenAPI spec generated from
+// Api, and a Swagger UI over it to try the endpoints from a browser.
+// Needs the HttpApi.Api service — provide ApiLive to it.
+export const ApiDocsLive = Layer.mergeAll(
+  HttpApiBuilder.middlewareOpenApi({ path: "/openapi.json" }),
+  HttpApiSwagger.layer({ path: "/docs" })
+)
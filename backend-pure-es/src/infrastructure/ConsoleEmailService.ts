@@ -22,12 +22,62 @@
 //   2. `ConsoleEmailService` — Layer for DI
 //   3. `makeCaptureEmailService()` — test variant that captures emails for assertions
 //
-import { Effect, Layer } from "effect"
-import {
-  EmailService,
-  type EmailContent,
-  type EmailServiceInterface
-} from "../EmailService.js"
+// Both accept optional FAULT INJECTION, to see how the delivery pipeline
+// (OutboxDispatcher) behaves when sending fails.
+//
+import { Effect, Layer, Random } from "effect"
+import { type EmailContent, type EmailSendError, EmailService, type EmailServiceInterface } from "../EmailService.js"
+
+// =============================================================================
+// Fault Injection
+// =============================================================================
+//
+// Makes `send` fail on purpose, before the email is logged/captured:
+//   failFirst   — the next N sends fail, then delivery recovers (an outage)
+//   failureRate — each send fails with this probability, 0..1 (flaky SMTP)
+//
+// failFirst is deterministic — use it in tests. failureRate draws from
+// Effect's Random, and is meant for trying things out in dev.
+//
+
+export interface FaultInjection {
+  readonly failFirst?: number
+  readonly failureRate?: number
+}
+
+const injectedFailure: EmailSendError = {
+  _tag: "EmailSendError",
+  message: "Injected fault: email delivery failed"
+}
+
+// Wraps `send` so that it consults the current faults on every call
+const withFaults = (
+  service: EmailServiceInterface,
+  getFaults: () => FaultInjection
+): EmailServiceInterface => {
+  // failFirst counts from when the current faults were set
+  let counting: FaultInjection | undefined
+  let failed = 0
+  return {
+    send: (email: EmailContent) =>
+      Effect.gen(function*() {
+        const faults = getFaults()
+        if (faults !== counting) {
+          counting = faults
+          failed = 0
+        }
+        const { failFirst = 0, failureRate = 0 } = faults
+        if (failed < failFirst) {
+          failed++
+          return yield* Effect.fail(injectedFailure)
+        }
+        if (failureRate > 0 && (yield* Random.next) < failureRate) {
+          return yield* Effect.fail(injectedFailure)
+        }
+        return yield* service.send(email)
+      })
+  }
+}
 
 // =============================================================================
 // Console Adapter (logs to console)
@@ -36,7 +86,7 @@ import {
 // Simply logs the email details to console. Good for dev.
 //
 
-export const makeConsoleEmailService = (): EmailServiceInterface => ({
+const consoleEmailService: EmailServiceInterface = {
   send: (email: EmailContent) =>
     Effect.sync(() => {
       console.log("═══════════════════════════════════════════════════════════")
@@ -48,7 +98,10 @@ export const makeConsoleEmailService = (): EmailServiceInterface => ({
       console.log(email.body)
       console.log("═══════════════════════════════════════════════════════════")
     })
-})
+}
+
+export const makeConsoleEmailService = (faults: FaultInjection = {}): EmailServiceInterface =>
+  withFaults(consoleEmailService, () => faults)
 
 // Layer for DI
 export const ConsoleEmailService = Layer.succeed(
@@ -56,6 +109,10 @@ export const ConsoleEmailService = Layer.succeed(
   makeConsoleEmailService()
 )
 
+// Same, with faults (e.g. EMAIL_FAILURE_RATE=0.5 pnpm start)
+export const makeConsoleEmailServiceLayer = (faults: FaultInjection): Layer.Layer<EmailService> =>
+  Layer.sync(EmailService, () => makeConsoleEmailService(faults))
+
 // =============================================================================
 // Capture Adapter (for tests)
 // =============================================================================
@@ -70,10 +127,14 @@ export const ConsoleEmailService = Layer.succeed(
 //   expect(sent[0].subject).toBe("Address Created")
 //
 
+// Only successful sends are captured; injected failures are not.
+// `setFaults` changes the faults mid-test (e.g. SMTP goes down, comes back).
+//
 export interface CaptureEmailService {
   readonly service: EmailServiceInterface
   readonly getSentEmails: () => ReadonlyArray<EmailContent>
   readonly clear: () => void
+  readonly setFaults: (faults: FaultInjection) => void
 }
 
 // TS/FP PATTERN: Closure-based encapsulation
@@ -84,12 +145,13 @@ export interface CaptureEmailService {
 // SCALA ANALOGY: Like a function returning a trait implementation
 // where the trait's methods close over local vals from the outer function.
 //
-export const makeCaptureEmailService = (): CaptureEmailService => {
+export const makeCaptureEmailService = (faults: FaultInjection = {}): CaptureEmailService => {
   // Mutable array to capture emails (fine for tests)
   // Private to this instance via closure — not exposed directly
-  const sent: EmailContent[] = []
+  const sent: Array<EmailContent> = []
+  let currentFaults = faults
 
-  const service: EmailServiceInterface = {
+  const capturing: EmailServiceInterface = {
     send: (email: EmailContent) =>
       Effect.sync(() => {
         sent.push(email)
@@ -97,25 +159,30 @@ export const makeCaptureEmailService = (): CaptureEmailService => {
   }
 
   return {
-    service,
+    service: withFaults(capturing, () => currentFaults),
     getSentEmails: () => [...sent], // Return copy to prevent external mutation
     clear: () => {
       sent.length = 0 // TS trick: setting length to 0 clears array in-place
+    },
+    setFaults: (next) => {
+      currentFaults = next
     }
   }
 }
 
 // Helper to create a Layer from a capture service
 // Useful when you want to provide via Layer but also access the capture
-export const makeCaptureEmailServiceLayer = (): {
+export const makeCaptureEmailServiceLayer = (faults: FaultInjection = {}): {
   layer: Layer.Layer<EmailService>
   getSentEmails: () => ReadonlyArray<EmailContent>
   clear: () => void
+  setFaults: (faults: FaultInjection) => void
 } => {
-  const capture = makeCaptureEmailService()
+  const capture = makeCaptureEmailService(faults)
   return {
     layer: Layer.succeed(EmailService, capture.service),
     getSentEmails: capture.getSentEmails,
-    clear: capture.clear
+    clear: capture.clear,
+    setFaults: capture.setFaults
   }
 }
@@ -20,12 +20,7 @@
 import { Effect, Layer } from "effect"
 import * as nodemailer from "nodemailer"
 import type { Transporter } from "nodemailer"
-import {
-  EmailService,
-  type EmailContent,
-  type EmailError,
-  type EmailServiceInterface
-} from "../EmailService.js"
+import { type EmailContent, type EmailError, EmailService, type EmailServiceInterface } from "../EmailService.js"
 
 // =============================================================================
 // Ethereal Adapter
@@ -81,7 +76,7 @@ const textToHtml = (text: string): string => {
   // Convert URLs to <a> tags
   const withLinks = escaped.replace(
     /(https?:\/\/[^\s]+)/g,
-    '<a href="$1" style="color: #4a90d9;">$1</a>'
+    "<a href=\"$1\" style=\"color: #4a90d9;\">$1</a>"
   )
 
   // Wrap in styled container
@@ -133,11 +128,10 @@ const makeEtherealEmailService = (
 // The Ethereal account is created once at startup, then reused.
 //
 
-export const EtherealEmailService: Layer.Layer<EmailService, EmailError> =
-  Layer.effect(
-    EmailService,
-    Effect.gen(function* () {
-      const config = yield* createEtherealConfig()
-      return makeEtherealEmailService(config)
-    })
-  )
+export const EtherealEmailService: Layer.Layer<EmailService, EmailError> = Layer.effect(
+  EmailService,
+  Effect.gen(function*() {
+    const config = yield* createEtherealConfig()
+    return makeEtherealEmailService(config)
+  })
+)
@@ -0,0 +1,110 @@
+// =============================================================================
+// HmacAuthTokenService — HMAC-SHA256 signed login and session tokens
+// =============================================================================
+//
+// Same format as revert tokens (see HmacRevertTokenService.ts):
+//
+//   base64url(JSON payload) "." base64url(HMAC-SHA256(key, payload))
+//
+//   payload = { kid, kind, userId, tokenId, issuedAt }   (issuedAt in epoch ms)
+//
+// …but its own key (AUTH_TOKEN_KEY): a leaked revert key must not let anyone
+// log in. No rotation keyring yet — rotating the key logs everyone out, which
+// for sessions of a few days is an acceptable price.
+//
+import { Effect, Either, Layer, Redacted, Schema } from "effect"
+import { createHmac, timingSafeEqual } from "node:crypto"
+import {
+  type AuthTokenClaims,
+  AuthTokenService,
+  type AuthTokenServiceInterface,
+  type AuthTokenUnverified
+} from "../AuthTokenService.js"
+import { UserId } from "../domain/user/State.js"
+import type { RevertTokenKey } from "./HmacRevertTokenService.js"
+
+// Same "id:secret" shape as a revert token key — parse it with parseRevertTokenKey
+export type AuthTokenKey = RevertTokenKey
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const TokenPayload = Schema.parseJson(Schema.Struct({
+  kid: Schema.String,
+  kind: Schema.Literal("Login", "Session"),
+  userId: UserId,
+  tokenId: Schema.String,
+  issuedAt: Schema.Number
+}))
+const decodePayload = Schema.decodeUnknownEither(TokenPayload)
+
+const sign = (key: AuthTokenKey, payload: string): Buffer =>
+  createHmac("sha256", Redacted.value(key.secret)).update(payload).digest()
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export const makeHmacAuthTokenService = (key: AuthTokenKey): AuthTokenServiceInterface => {
+  const unverified = (reason: AuthTokenUnverified["reason"]) =>
+    Effect.fail<AuthTokenUnverified>({ _tag: "AuthTokenUnverified", reason })
+
+  return {
+    mint: (claims) =>
+      Effect.sync(() => {
+        const payload = Buffer.from(JSON.stringify({
+          kid: key.id,
+          kind: claims.kind,
+          userId: claims.userId,
+          tokenId: claims.tokenId,
+          issuedAt: claims.issuedAt.getTime()
+        })).toString("base64url")
+        return `${payload}.${sign(key, payload).toString("base64url")}`
+      }),
+
+    verify: (kind, token) =>
+      Effect.gen(function*() {
+        const [payload, signature, ...rest] = token.split(".")
+        if (payload === undefined || signature === undefined || rest.length > 0) {
+          return yield* unverified("Malformed")
+        }
+        const decoded = decodePayload(Buffer.from(payload, "base64url").toString("utf8"))
+        if (Either.isLeft(decoded)) {
+          return yield* unverified("Malformed")
+        }
+        const claims = decoded.right
+        if (claims.kid !== key.id) {
+          return yield* unverified("UnknownKey")
+        }
+
+        const expected = sign(key, payload)
+        const actual = Buffer.from(signature, "base64url")
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+          return yield* unverified("BadSignature")
+        }
+        // Only after the signature: an unsigned kind means nothing
+        if (claims.kind !== kind) {
+          return yield* unverified("WrongKind")
+        }
+
+        return {
+          kind: claims.kind,
+          userId: claims.userId,
+          tokenId: claims.tokenId,
+          issuedAt: new Date(claims.issuedAt)
+        } satisfies AuthTokenClaims
+      })
+  }
+}
+
+export const makeHmacAuthTokenServiceLayer = (key: AuthTokenKey) =>
+  Layer.succeed(AuthTokenService, makeHmacAuthTokenService(key))
+
+// =============================================================================
+// Test Implementation: fixed key
+// =============================================================================
+
+export const TEST_AUTH_TOKEN_KEY: AuthTokenKey = { id: "test", secret: Redacted.make("test-auth-secret") }
+
+export const TestAuthTokenServiceLive = makeHmacAuthTokenServiceLayer(TEST_AUTH_TOKEN_KEY)
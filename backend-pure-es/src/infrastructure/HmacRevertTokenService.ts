@@ -0,0 +1,182 @@
+// =============================================================================
+// HmacRevertTokenService — HMAC-SHA256 signed revert tokens
+// =============================================================================
+//
+// TOKEN FORMAT (JWT-like, but only what we need):
+//
+//   base64url(JSON payload) "." base64url(HMAC-SHA256(key, payload))
+//
+//   payload = { kid, addressId, tokenId, issuedAt }   (issuedAt in epoch ms)
+//
+// Both parts are URL-safe, so the token drops straight into /revert/:token.
+// `kid` names the key that signed it — the verifier reads it (unverified) only
+// to pick which key to check against; nothing else in the payload is trusted
+// until the signature matches.
+//
+// KEY ROTATION:
+// New tokens are always signed with the `current` key. Rotating in a new key
+// moves the old one to `retired`, stamped with when it was retired; tokens it
+// signed keep verifying until retiredAt + gracePeriod, then stop. Set the
+// grace period to at least the token TTL and no link dies early.
+//
+// LEGACY TOKENS:
+// A bare UUID is a link from before signing (IdGenerator's format back then)
+// and fails with "Legacy", not "Malformed": the revert use cases still honour
+// it until it expires (see RevertTokenService.ts).
+//
+// WHY timingSafeEqual?
+// A plain `===` returns as soon as a byte differs, so response times leak how
+// much of a guessed signature was right — enough to forge one byte at a time.
+//
+import { Clock, Duration, Effect, Either, Layer, Redacted, Schema } from "effect"
+import { createHmac, timingSafeEqual } from "node:crypto"
+import type { RevertToken } from "../domain/address/State.js"
+import { AddressId } from "../domain/address/State.js"
+import {
+  type RevertTokenClaims,
+  RevertTokenService,
+  type RevertTokenServiceInterface,
+  type RevertTokenUnverified
+} from "../RevertTokenService.js"
+
+// =============================================================================
+// Keyring
+// =============================================================================
+
+export interface RevertTokenKey {
+  readonly id: string
+  readonly secret: Redacted.Redacted<string>
+}
+
+export interface RetiredRevertTokenKey extends RevertTokenKey {
+  readonly retiredAt: Date
+}
+
+export interface RevertTokenKeyring {
+  readonly current: RevertTokenKey
+  readonly retired: ReadonlyArray<RetiredRevertTokenKey>
+  readonly gracePeriod: Duration.Duration
+}
+
+// "id:secret" → RevertTokenKey; "id:secret@2026-01-31T00:00:00Z" → retired key.
+// Used by Program.ts to read REVERT_TOKEN_KEY / REVERT_TOKEN_RETIRED_KEYS.
+export const parseRevertTokenKey = (spec: string): RevertTokenKey => {
+  const separator = spec.indexOf(":")
+  if (separator <= 0 || separator === spec.length - 1) {
+    throw new Error(`Invalid revert token key — expected "id:secret"`)
+  }
+  return { id: spec.slice(0, separator), secret: Redacted.make(spec.slice(separator + 1)) }
+}
+
+export const parseRetiredRevertTokenKeys = (specs: string): ReadonlyArray<RetiredRevertTokenKey> =>
+  specs.split(",").filter((spec) => spec.trim().length > 0).map((spec) => {
+    const at = spec.lastIndexOf("@")
+    const retiredAt = new Date(spec.slice(at + 1))
+    if (at <= 0 || Number.isNaN(retiredAt.getTime())) {
+      throw new Error(`Invalid retired revert token key — expected "id:secret@<ISO date>"`)
+    }
+    return { ...parseRevertTokenKey(spec.slice(0, at).trim()), retiredAt }
+  })
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const TokenPayload = Schema.parseJson(Schema.Struct({
+  kid: Schema.String,
+  addressId: AddressId,
+  tokenId: Schema.String,
+  issuedAt: Schema.Number
+}))
+const decodePayload = Schema.decodeUnknownEither(TokenPayload)
+
+const LEGACY_TOKEN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const sign = (key: RevertTokenKey, payload: string): Buffer =>
+  createHmac("sha256", Redacted.value(key.secret)).update(payload).digest()
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export const makeHmacRevertTokenService = (keyring: RevertTokenKeyring): RevertTokenServiceInterface => {
+  const unverified = (token: string, reason: RevertTokenUnverified["reason"]) =>
+    Effect.fail<RevertTokenUnverified>({ _tag: "RevertTokenUnverified", token, reason })
+
+  return {
+    mint: (claims) =>
+      Effect.sync(() => {
+        const payload = Buffer.from(JSON.stringify({
+          kid: keyring.current.id,
+          addressId: claims.addressId,
+          tokenId: claims.tokenId,
+          issuedAt: claims.issuedAt.getTime()
+        })).toString("base64url")
+        return `${payload}.${sign(keyring.current, payload).toString("base64url")}` as RevertToken
+      }),
+
+    verify: (token) =>
+      Effect.gen(function*() {
+        if (LEGACY_TOKEN.test(token)) {
+          return yield* unverified(token, "Legacy")
+        }
+        const [payload, signature, ...rest] = token.split(".")
+        if (payload === undefined || signature === undefined || rest.length > 0) {
+          return yield* unverified(token, "Malformed")
+        }
+        const decoded = decodePayload(Buffer.from(payload, "base64url").toString("utf8"))
+        if (Either.isLeft(decoded)) {
+          return yield* unverified(token, "Malformed")
+        }
+        const claims = decoded.right
+
+        // Pick the key named by the token: current, or retired-but-in-grace
+        let key: RevertTokenKey | undefined
+        if (claims.kid === keyring.current.id) {
+          key = keyring.current
+        } else {
+          const retired = keyring.retired.find((k) => k.id === claims.kid)
+          if (retired === undefined) {
+            return yield* unverified(token, "UnknownKey")
+          }
+          const graceEndsAt = retired.retiredAt.getTime() + Duration.toMillis(keyring.gracePeriod)
+          if ((yield* Clock.currentTimeMillis) >= graceEndsAt) {
+            return yield* unverified(token, "KeyRetired")
+          }
+          key = retired
+        }
+
+        const expected = sign(key, payload)
+        const actual = Buffer.from(signature, "base64url")
+        // timingSafeEqual throws on length mismatch — a length check leaks nothing secret
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+          return yield* unverified(token, "BadSignature")
+        }
+
+        return {
+          addressId: claims.addressId,
+          tokenId: claims.tokenId,
+          issuedAt: new Date(claims.issuedAt)
+        } satisfies RevertTokenClaims
+      })
+  }
+}
+
+export const makeHmacRevertTokenServiceLayer = (keyring: RevertTokenKeyring) =>
+  Layer.succeed(RevertTokenService, makeHmacRevertTokenService(keyring))
+
+// =============================================================================
+// Test Implementation: fixed key
+// =============================================================================
+//
+// Same signing code, known key: tests can mint the token a use case will
+// issue (same claims → same token) instead of fishing it out of an email.
+//
+
+export const TEST_REVERT_TOKEN_KEY: RevertTokenKey = { id: "test", secret: Redacted.make("test-secret") }
+
+export const TestRevertTokenServiceLive = makeHmacRevertTokenServiceLayer({
+  current: TEST_REVERT_TOKEN_KEY,
+  retired: [],
+  gracePeriod: Duration.zero
+})
@@ -21,13 +21,57 @@
 // The Layers are for wiring up the full application.
 //
 // IMPLEMENTATION:
-// Just a Map<StreamId, E[]>. Events are stored in insertion order.
+// Just a Map<StreamId, EventEnvelope<E>[]>. Events are stored in insertion order,
+// each wrapped in its envelope (ids, version, position, timestamp, tracing).
 // No persistence — data is lost when the process ends. That's fine for dev/test.
 //
-import { Effect, Layer } from "effect"
+// GLOBAL LOG:
+// Stores can share an InMemoryLog — the in-memory equivalent of the single
+// `events` table. It hands out global positions and backs the EventLog feed,
+// so user and address events interleave in true commit order.
+//
+import { Chunk, Clock, Context, Effect, Layer, Option, PubSub, Stream } from "effect"
 import type { AddressEvent } from "../domain/address/Events.js"
 import type { UserEvent } from "../domain/user/Events.js"
-import { AddressEventStore, type EventStoreService, type StreamId, UserEventStore } from "../EventStore.js"
+import {
+  AddressEventStore,
+  catchUpThenLive,
+  type ConcurrencyConflict,
+  type DomainEvent,
+  type EventEnvelope,
+  EventId,
+  EventLog,
+  type EventLogService,
+  type EventMetadata,
+  type EventStoreService,
+  type StreamId,
+  UserEventStore
+} from "../EventStore.js"
+
+// =============================================================================
+// Shared Log: positions + global order
+// =============================================================================
+//
+// Every envelope appended through any store sharing this log is recorded here,
+// in commit order. Typed as `unknown` events: the log spans event types, and
+// only the EventLog (typed over DomainEvent) reads it back.
+//
+// `appended` announces the new head position after each append — the
+// in-memory stand-in for Postgres NOTIFY. A PubSub (not a Queue) because
+// every subscriber must see every announcement.
+//
+export type InMemoryLog = {
+  lastPosition: number
+  readonly entries: Array<EventEnvelope<unknown>>
+  readonly appended: PubSub.PubSub<number>
+}
+
+// Effect.runSync is fine here: creating an unbounded PubSub is pure allocation
+export const makeInMemoryLog = (): InMemoryLog => ({
+  lastPosition: 0,
+  entries: [],
+  appended: Effect.runSync(PubSub.unbounded<number>())
+})
 
 // =============================================================================
 // Factory: Create an in-memory EventStore instance
@@ -45,43 +89,118 @@ import { AddressEventStore, type EventStoreService, type StreamId, UserEventStor
 // Returns the service interface directly (not wrapped in Effect).
 // The service methods return Effects, but creating the store is synchronous.
 //
-export const makeInMemoryEventStore = <E>(): EventStoreService<E> => {
-  // The storage: Map from StreamId to array of events
+// `log` defaults to a private one; pass a shared log to get cross-store positions.
+//
+export const makeInMemoryEventStore = <E>(log: InMemoryLog = makeInMemoryLog()): EventStoreService<E> => {
+  // The storage: Map from StreamId to array of envelopes
   // Using Map (not plain object) because StreamId is a branded string,
   // and Map handles any key type correctly.
-  const streams = new Map<StreamId, Array<E>>()
+  const streams = new Map<StreamId, Array<EventEnvelope<E>>>()
+
+  // Return copy to prevent external mutation of internal state
+  // (Defensive programming for correctness, not paranoia)
+  const loadEnvelopes = (streamId: StreamId) => Effect.sync(() => [...(streams.get(streamId) ?? [])])
 
   return {
     // -------------------------------------------------------------------------
-    // load: StreamId → Effect<E[], never>
+    // load: (StreamId, afterVersion?) → Effect<E[], never>
     // -------------------------------------------------------------------------
     // Returns all events for a stream, or empty array if stream doesn't exist.
     // Empty array for non-existent stream simplifies aggregate loading:
     //   events.reduce(evolve, initialState) works even with [].
     //
-    load: (streamId: StreamId) =>
-      Effect.sync(() => {
-        const events = streams.get(streamId)
-        // Return copy to prevent external mutation of internal state
-        // (Defensive programming for correctness, not paranoia)
-        return events ? [...events] : []
-      }),
+    // Versions are 1-based and contiguous, so "after version v" = slice(v).
+    //
+    load: (streamId: StreamId, afterVersion = 0) =>
+      loadEnvelopes(streamId).pipe(
+        Effect.map((envelopes) => envelopes.slice(afterVersion).map((envelope) => envelope.event))
+      ),
 
     // -------------------------------------------------------------------------
-    // append: (StreamId, E[]) → Effect<void, never>
+    // loadEnvelopes: StreamId → Effect<EventEnvelope<E>[], never>
+    // -------------------------------------------------------------------------
+    loadEnvelopes,
+
+    // -------------------------------------------------------------------------
+    // append: (StreamId, E[], expectedVersion, metadata?) → Effect<EventEnvelope<E>[], ConcurrencyConflict>
     // -------------------------------------------------------------------------
     // Appends events to a stream. Creates stream if it doesn't exist.
     // Events are added in order; subsequent loads will return them in order.
     //
-    append: (streamId: StreamId, events: ReadonlyArray<E>) =>
+    // OPTIMISTIC CONCURRENCY:
+    // The stream's version is its length. If it doesn't match what the caller
+    // expected, someone else appended in between → fail, write nothing.
+    // The check and the write happen in one synchronous block — no other fiber
+    // can interleave between them.
+    //
+    // recordedAt comes from Effect's Clock (TestClock in tests → deterministic).
+    //
+    append: (streamId: StreamId, events: ReadonlyArray<E>, expectedVersion: number, metadata?: EventMetadata) =>
+      Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) =>
+          Effect.suspend(() => {
+            const existing = streams.get(streamId) ?? []
+            if (existing.length !== expectedVersion) {
+              return Effect.fail<ConcurrencyConflict>({
+                _tag: "ConcurrencyConflict",
+                streamId,
+                expectedVersion,
+                actualVersion: existing.length
+              })
+            }
+            if (events.length === 0) {
+              // No-op for empty append — don't create empty stream entry
+              return Effect.succeed([])
+            }
+            const envelopes = events.map((event, i): EventEnvelope<E> => ({
+              eventId: EventId(crypto.randomUUID()),
+              streamId,
+              version: expectedVersion + i + 1,
+              position: ++log.lastPosition,
+              recordedAt: new Date(now),
+              correlationId: metadata?.correlationId ?? null,
+              causationId: metadata?.causationId ?? null,
+              actor: metadata?.actor ?? null,
+              event
+            }))
+            streams.set(streamId, [...existing, ...envelopes])
+            for (const envelope of envelopes) log.entries.push(envelope)
+            return PubSub.publish(log.appended, log.lastPosition).pipe(Effect.as(envelopes))
+          })
+        )
+      )
+  }
+}
+
+// =============================================================================
+// Factory: Create an in-memory EventLog over a shared log
+// =============================================================================
+//
+// EFFECT SYNTAX: Stream.paginateChunkEffect(state, f)
+// Builds a stream page by page: f(state) returns [page, Option<nextState>].
+// Option.none() ends the stream. Pages are only fetched when pulled.
+// Here, state = "last position read"; a short page means we've hit the end.
+//
+export const makeInMemoryEventLog = (log: InMemoryLog): EventLogService => {
+  const readAll = (fromPosition: number, batchSize: number) =>
+    Stream.paginateChunkEffect(fromPosition, (after) =>
       Effect.sync(() => {
-        if (events.length === 0) {
-          // No-op for empty append — don't create empty stream entry
-          return
-        }
-        const existing = streams.get(streamId) ?? []
-        streams.set(streamId, [...existing, ...events])
-      })
+        const batch = log.entries
+          .filter((envelope) => envelope.position > after)
+          .slice(0, batchSize) as Array<EventEnvelope<DomainEvent>>
+        const last = batch[batch.length - 1]
+        return [
+          Chunk.fromIterable(batch),
+          batch.length < batchSize || last === undefined ? Option.none() : Option.some(last.position)
+        ] as const
+      }))
+
+  return {
+    readAll,
+    // PubSub.subscribe is scoped: the subscription is registered before the
+    // catch-up read, and removed when the consumer stops
+    subscribe: (fromPosition: number) => catchUpThenLive(readAll, PubSub.subscribe(log.appended), fromPosition),
+    headPosition: Effect.sync(() => log.lastPosition)
   }
 }
 
@@ -169,14 +288,18 @@ export const InMemoryAddressEventStore = Layer.sync(
 )
 
 // -----------------------------------------------------------------------------
-// Layer.merge: Combine multiple layers
+// Layer.syncContext: One log, three services
 // -----------------------------------------------------------------------------
-// Creates a layer that provides BOTH services.
-// Useful when a program needs multiple services.
+// Both stores and the EventLog must share ONE InMemoryLog (like sharing one
+// `events` table), so we build them together and return a Context holding all
+// three. Still a fresh log per use — same test isolation as Layer.sync.
 //
-// SCALA ANALOGY: ZLayer.make / ++ operator
+// SCALA ANALOGY: a ZLayer producing several services from one shared resource
 //
-export const InMemoryEventStores = Layer.merge(
-  InMemoryUserEventStore,
-  InMemoryAddressEventStore
-)
+export const InMemoryEventStores = Layer.syncContext(() => {
+  const log = makeInMemoryLog()
+  return Context.make(UserEventStore, makeInMemoryEventStore<UserEvent>(log)).pipe(
+    Context.add(AddressEventStore, makeInMemoryEventStore<AddressEvent>(log)),
+    Context.add(EventLog, makeInMemoryEventLog(log))
+  )
+})
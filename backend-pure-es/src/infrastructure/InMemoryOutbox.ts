@@ -0,0 +1,154 @@
+// =============================================================================
+// InMemoryOutbox — Adapter Implementation
+// =============================================================================
+//
+// A Ref holding every message ever enqueued plus its delivery status.
+// Sent messages are kept (not removed) so tests can inspect the history.
+// Schedules follow the Effect Clock, so tests move them with TestClock.
+// A single Ref.modify per claim plays the part of Postgres' row locks.
+//
+import { Clock, Duration, Effect, Layer, Ref } from "effect"
+import { DEFAULT_MAX_ATTEMPTS, type FailureOutcome, Outbox, type OutboxMessage, type OutboxService } from "../Outbox.js"
+
+// =============================================================================
+// State
+// =============================================================================
+
+type Status = "pending" | "sent" | "dead"
+
+interface StoredMessage extends OutboxMessage {
+  readonly status: Status
+}
+
+interface OutboxState {
+  readonly lastId: number
+  readonly messages: ReadonlyArray<StoredMessage>
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makeInMemoryOutbox = (ref: Ref.Ref<OutboxState>): OutboxService => {
+  const updateMessage = (id: number, f: (message: StoredMessage) => StoredMessage) =>
+    Ref.update(ref, (state) => ({
+      ...state,
+      messages: state.messages.map((message) => (message.id === id ? f(message) : message))
+    }))
+
+  const toMessage = ({ status: _status, ...message }: StoredMessage): OutboxMessage => message
+
+  const withStatus = (status: Status, limit: number) =>
+    Ref.get(ref).pipe(
+      Effect.map((state) =>
+        state.messages
+          .filter((message) => message.status === status)
+          .slice(0, limit)
+          .map(toMessage)
+      )
+    )
+
+  const after = (now: number, duration: Duration.Duration) => new Date(now + Duration.toMillis(duration))
+
+  return {
+    enqueue: (email) =>
+      Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) =>
+          Ref.update(ref, (state): OutboxState => ({
+            lastId: state.lastId + 1,
+            messages: [
+              ...state.messages,
+              {
+                id: state.lastId + 1,
+                email,
+                attempts: 0,
+                maxAttempts: DEFAULT_MAX_ATTEMPTS,
+                nextAttemptAt: new Date(now),
+                lastError: null,
+                enqueuedAt: new Date(now),
+                status: "pending"
+              }
+            ]
+          }))
+        )
+      ),
+
+    pending: (limit) => withStatus("pending", limit),
+
+    claim: (limit, lease) =>
+      Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) =>
+          Ref.modify(ref, (state) => {
+            const claimed = state.messages
+              .filter((message) => message.status === "pending" && message.nextAttemptAt.getTime() <= now)
+              .slice(0, limit)
+              .map((message) => ({ ...message, nextAttemptAt: after(now, lease) }))
+            const byId = new Map(claimed.map((message) => [message.id, message]))
+            return [
+              claimed.map(toMessage),
+              { ...state, messages: state.messages.map((message) => byId.get(message.id) ?? message) }
+            ] as const
+          })
+        )
+      ),
+
+    markSent: (id) => updateMessage(id, (message) => ({ ...message, status: "sent" })),
+
+    recordFailure: (id, error, retryAfter) =>
+      Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) =>
+          Ref.modify(ref, (state): readonly [FailureOutcome, OutboxState] => {
+            const message = state.messages.find((candidate) => candidate.id === id)
+            if (message === undefined) return ["retrying", state]
+            const attempts = message.attempts + 1
+            const outcome: FailureOutcome = attempts >= message.maxAttempts ? "deadLettered" : "retrying"
+            const failed: StoredMessage = {
+              ...message,
+              attempts,
+              lastError: error,
+              nextAttemptAt: after(now, retryAfter),
+              status: outcome === "deadLettered" ? "dead" : message.status
+            }
+            return [
+              outcome,
+              { ...state, messages: state.messages.map((candidate) => (candidate.id === id ? failed : candidate)) }
+            ]
+          })
+        )
+      ),
+
+    deadLetters: (limit) => withStatus("dead", limit),
+
+    replay: (id) =>
+      Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) =>
+          Ref.modify(ref, (state) => {
+            const found = state.messages.some((message) => message.id === id && message.status === "dead")
+            if (!found) return [false, state] as const
+            return [
+              true,
+              {
+                ...state,
+                messages: state.messages.map((message) =>
+                  message.id === id
+                    ? { ...message, status: "pending" as const, attempts: 0, nextAttemptAt: new Date(now) }
+                    : message
+                )
+              }
+            ] as const
+          })
+        )
+      )
+  }
+}
+
+// =============================================================================
+// Layer
+// =============================================================================
+//
+// Layer.effect (not Layer.succeed) → fresh Ref per use, same as the registry.
+//
+export const InMemoryOutbox = Layer.effect(
+  Outbox,
+  Ref.make<OutboxState>({ lastId: 0, messages: [] }).pipe(Effect.map(makeInMemoryOutbox))
+)
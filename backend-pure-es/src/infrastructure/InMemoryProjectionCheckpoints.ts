@@ -0,0 +1,38 @@
+// =============================================================================
+// InMemoryProjectionCheckpoints — Adapter Implementation
+// =============================================================================
+//
+// A Ref<Map<projection, position>>. Nothing to be atomic WITH in memory
+// (the in-memory Registry isn't transactional), so `advance` simply applies
+// then records, and `atomically` runs the effect as-is.
+//
+import { Effect, Layer, Ref } from "effect"
+import { ProjectionCheckpoints, type ProjectionCheckpointsService } from "../ProjectionCheckpoints.js"
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makeInMemoryProjectionCheckpoints = (
+  ref: Ref.Ref<ReadonlyMap<string, number>>
+): ProjectionCheckpointsService => ({
+  load: (projection) => Ref.get(ref).pipe(Effect.map((positions) => positions.get(projection) ?? 0)),
+
+  advance: (projection, position, apply) =>
+    apply.pipe(
+      Effect.zipRight(Ref.update(ref, (positions) => new Map(positions).set(projection, position)))
+    ),
+
+  atomically: (effect) => effect
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+//
+// Layer.effect (not Layer.succeed) → fresh Ref per use, same as the registry.
+//
+export const InMemoryProjectionCheckpoints = Layer.effect(
+  ProjectionCheckpoints,
+  Ref.make<ReadonlyMap<string, number>>(new Map()).pipe(Effect.map(makeInMemoryProjectionCheckpoints))
+)
@@ -15,30 +15,42 @@
 // that persists to a database. The interface (RegistryService) stays the same.
 //
 import { Effect, Layer, Match, Option, Ref } from "effect"
-import { Registry, type RegistryService, deriveNickname } from "../Registry.js"
-import type { UserId } from "../domain/user/State.js"
 import type { AddressId, RevertToken } from "../domain/address/State.js"
+import type { FirstName, LastName, UserId } from "../domain/user/State.js"
+import { deriveNickname, nicknameCandidate, Registry, type RegistryService } from "../Registry.js"
 
 // =============================================================================
 // Registry State
 // =============================================================================
 
 interface RegistryState {
+  // Every nickname ever assigned, current or past (see NICKNAME HISTORY in Registry.ts)
   readonly nicknameToUserId: Map<string, UserId>
+  // userId → current nickname
+  readonly userIdToNickname: Map<UserId, string>
+  // userId → name — a *NameChanged event carries only one half of it — and
+  // the version of the event that set it (see REPLAYS in Registry.ts)
+  readonly userNames: Map<UserId, { firstName: FirstName; lastName: LastName; version: number }>
   readonly labelToAddressId: Map<string, AddressId> // key = `${userId}:${label}`
-  readonly tokenToAddressId: Map<RevertToken, AddressId>
+  // token → (addressId, issuedAt) — issuedAt is what the expiry sweep reads
+  readonly revertTokens: Map<RevertToken, { addressId: AddressId; issuedAt: Date }>
   // Reverse lookup: addressId → (userId, label) — needed for CreationReverted
   readonly addressIdToUserLabel: Map<AddressId, { userId: UserId; label: string }>
   // userId → Set<AddressId> — needed for GetUser to list all addresses
   readonly userIdToAddressIds: Map<UserId, Set<AddressId>>
+  // Same, append-only: a reverted creation stays listed here
+  readonly userIdToAllAddressIds: Map<UserId, Set<AddressId>>
 }
 
 const emptyState = (): RegistryState => ({
   nicknameToUserId: new Map(),
+  userIdToNickname: new Map(),
+  userNames: new Map(),
   labelToAddressId: new Map(),
-  tokenToAddressId: new Map(),
+  revertTokens: new Map(),
   addressIdToUserLabel: new Map(),
-  userIdToAddressIds: new Map()
+  userIdToAddressIds: new Map(),
+  userIdToAllAddressIds: new Map()
 })
 
 // =============================================================================
@@ -48,6 +60,53 @@ const emptyState = (): RegistryState => ({
 // Composite key for (userId, label) lookup
 const labelKey = (userId: UserId, label: string): string => `${userId}:${label}`
 
+// Record the user's name and make the nickname it derives to current —
+// suffixed if someone else holds it. An event no newer than the last one
+// applied changes nothing. Mutates `state` (called inside Ref.update).
+const assignNickname = (
+  state: RegistryState,
+  userId: UserId,
+  name: { firstName: FirstName; lastName: LastName; version: number }
+): RegistryState => {
+  const applied = state.userNames.get(userId)
+  if (applied !== undefined && applied.version >= name.version) return state
+  state.userNames.set(userId, name)
+  const derived = deriveNickname(name.firstName, name.lastName)
+  for (let attempt = 1;; attempt++) {
+    const nickname = nicknameCandidate(derived, attempt)
+    const holder = state.nicknameToUserId.get(nickname)
+    if (holder === undefined || holder === userId) {
+      state.nicknameToUserId.set(nickname, userId)
+      state.userIdToNickname.set(userId, nickname)
+      return state
+    }
+  }
+}
+
+// Map (userId, label) to the address, dropping its previous label. A label
+// another address holds is left alone — the event is an old one replayed over
+// a registry that is ahead (see "Label mapping" in PostgresRegistry.ts).
+// Mutates `state`.
+const placeLabel = (state: RegistryState, userId: UserId, addressId: AddressId, label: string): void => {
+  const holder = state.labelToAddressId.get(labelKey(userId, label))
+  if (holder !== undefined && holder !== addressId) return
+  const meta = state.addressIdToUserLabel.get(addressId)
+  if (meta && state.labelToAddressId.get(labelKey(meta.userId, meta.label)) === addressId) {
+    state.labelToAddressId.delete(labelKey(meta.userId, meta.label))
+  }
+  state.labelToAddressId.set(labelKey(userId, label), addressId)
+  state.addressIdToUserLabel.set(addressId, { userId, label })
+}
+
+// Move an address's label mapping to its new label (LabelChanged, a label in
+// an AddressChanged diff, and their reverts). Mutates `state`.
+const relabel = (state: RegistryState, addressId: AddressId, label: string): void => {
+  const meta = state.addressIdToUserLabel.get(addressId)
+  if (meta) {
+    placeLabel(state, meta.userId, addressId, label)
+  }
+}
+
 // =============================================================================
 // Factory: Create Registry from Ref
 // =============================================================================
@@ -61,6 +120,11 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
       Effect.map((state) => Option.fromNullable(state.nicknameToUserId.get(nickname)))
     ),
 
+  getNicknameByUserId: (userId) =>
+    Ref.get(ref).pipe(
+      Effect.map((state) => Option.fromNullable(state.userIdToNickname.get(userId)))
+    ),
+
   getAddressIdByLabel: (userId, label) =>
     Ref.get(ref).pipe(
       Effect.map((state) => Option.fromNullable(state.labelToAddressId.get(labelKey(userId, label))))
@@ -68,7 +132,7 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
 
   getAddressIdByToken: (token) =>
     Ref.get(ref).pipe(
-      Effect.map((state) => Option.fromNullable(state.tokenToAddressId.get(token)))
+      Effect.map((state) => Option.fromNullable(state.revertTokens.get(token)?.addressId))
     ),
 
   getAddressIdsByUserId: (userId) =>
@@ -79,25 +143,36 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
       })
     ),
 
+  getAllAddressIdsByUserId: (userId) =>
+    Ref.get(ref).pipe(
+      Effect.map((state) => Array.from(state.userIdToAllAddressIds.get(userId) ?? []))
+    ),
+
   // ---------------------------------------------------------------------------
   // Projections
   // ---------------------------------------------------------------------------
 
-  // Project UserEvent — only UserCreated affects the registry
-  projectUserEvent: (event) =>
+  // Project UserEvent — every one (re)derives the nickname
+  projectUserEvent: (event, version) =>
     Match.value(event).pipe(
       Match.tag("UserCreated", (e) =>
+        Ref.update(
+          ref,
+          (state) => assignNickname(state, e.id, { firstName: e.firstName, lastName: e.lastName, version })
+        )),
+      // A rename moves the user to a new nickname; the old one stays theirs
+      Match.tag("FirstNameChanged", (e) =>
         Ref.update(ref, (state) => {
-          const nickname = deriveNickname(e.firstName, e.lastName)
-          state.nicknameToUserId.set(nickname, e.id)
-          return state
-        })
-      ),
-      // Name changes don't affect nickname (it's derived at creation time)
-      // In a real system, we might want to update nickname on name change
-      // For this PoC, nickname is immutable
-      Match.tag("FirstNameChanged", () => Effect.void),
-      Match.tag("LastNameChanged", () => Effect.void),
+          const name = state.userNames.get(e.id)
+          return name ? assignNickname(state, e.id, { ...name, firstName: e.newValue, version }) : state
+        })),
+      Match.tag("LastNameChanged", (e) =>
+        Ref.update(ref, (state) => {
+          const name = state.userNames.get(e.id)
+          return name ? assignNickname(state, e.id, { ...name, lastName: e.newValue, version }) : state
+        })),
+      // Logins don't touch any lookup — sessions are checked on the User stream
+      Match.tag("LoginLinkRequested", "LoggedIn", "LoggedOut", () => Effect.void),
       Match.exhaustive
     ),
 
@@ -107,135 +182,115 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
       // AddressCreated: register label → addressId and token → addressId
       Match.tag("AddressCreated", (e) =>
         Ref.update(ref, (state) => {
-          state.labelToAddressId.set(labelKey(e.userId, e.label), e.id)
-          state.tokenToAddressId.set(e.revertToken, e.id)
-          state.addressIdToUserLabel.set(e.id, { userId: e.userId, label: e.label })
+          placeLabel(state, e.userId, e.id, e.label)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           // Add to userId → addressIds lookup
           const existing = state.userIdToAddressIds.get(e.userId) ?? new Set()
           existing.add(e.id)
           state.userIdToAddressIds.set(e.userId, existing)
+          const ever = state.userIdToAllAddressIds.get(e.userId) ?? new Set()
+          ever.add(e.id)
+          state.userIdToAllAddressIds.set(e.userId, ever)
           return state
-        })
-      ),
-
+        })),
       // Field changes: register new token → addressId
       Match.tag("LabelChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           // Also update the label mapping since label changed
-          const meta = state.addressIdToUserLabel.get(e.id)
-          if (meta) {
-            // Remove old label mapping
-            state.labelToAddressId.delete(labelKey(meta.userId, meta.label))
-            // Add new label mapping
-            state.labelToAddressId.set(labelKey(meta.userId, e.newValue), e.id)
-            // Update metadata
-            state.addressIdToUserLabel.set(e.id, { userId: meta.userId, label: e.newValue })
-          }
+          relabel(state, e.id, e.newValue)
           return state
-        })
-      ),
-
+        })),
       Match.tag("StreetNumberChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
       Match.tag("StreetNameChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
       Match.tag("ZipCodeChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
       Match.tag("CityChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
       Match.tag("CountryChanged", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
+      // AddressChanged: one token for the whole diff, which may include the label
+      Match.tag("AddressChanged", (e) =>
+        Ref.update(ref, (state) => {
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
+          if (e.changes.label) {
+            relabel(state, e.id, e.changes.label.newValue)
+          }
+          return state
+        })),
       // AddressDeleted: register token for restore, keep label mapping for now
       Match.tag("AddressDeleted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.set(e.revertToken, e.id)
+          state.revertTokens.set(e.revertToken, { addressId: e.id, issuedAt: e.revertTokenIssuedAt })
           return state
-        })
-      ),
-
+        })),
       // Corrections: consume token (remove from lookup)
       Match.tag("LabelReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           // Revert the label mapping
-          const meta = state.addressIdToUserLabel.get(e.id)
-          if (meta) {
-            state.labelToAddressId.delete(labelKey(meta.userId, meta.label))
-            state.labelToAddressId.set(labelKey(meta.userId, e.newValue), e.id)
-            state.addressIdToUserLabel.set(e.id, { userId: meta.userId, label: e.newValue })
-          }
+          relabel(state, e.id, e.newValue)
           return state
-        })
-      ),
-
+        })),
       Match.tag("StreetNumberReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           return state
-        })
-      ),
-
+        })),
       Match.tag("StreetNameReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           return state
-        })
-      ),
-
+        })),
       Match.tag("ZipCodeReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           return state
-        })
-      ),
-
+        })),
       Match.tag("CityReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           return state
-        })
-      ),
-
+        })),
       Match.tag("CountryReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           return state
-        })
-      ),
-
+        })),
+      Match.tag("AddressChangeReverted", (e) =>
+        Ref.update(ref, (state) => {
+          state.revertTokens.delete(e.revertToken)
+          if (e.changes.label) {
+            relabel(state, e.id, e.changes.label.newValue)
+          }
+          return state
+        })),
       // CreationReverted: remove label → addressId mapping entirely
       Match.tag("CreationReverted", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
+          state.revertTokens.delete(e.revertToken)
           const meta = state.addressIdToUserLabel.get(e.id)
           if (meta) {
-            state.labelToAddressId.delete(labelKey(meta.userId, meta.label))
+            if (state.labelToAddressId.get(labelKey(meta.userId, meta.label)) === e.id) {
+              state.labelToAddressId.delete(labelKey(meta.userId, meta.label))
+            }
             state.addressIdToUserLabel.delete(e.id)
             // Remove from userId → addressIds lookup
             const set = state.userIdToAddressIds.get(meta.userId)
@@ -244,25 +299,41 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
             }
           }
           return state
-        })
-      ),
-
+        })),
       // AddressRestored: re-register label → addressId, consume token
       Match.tag("AddressRestored", (e) =>
         Ref.update(ref, (state) => {
-          state.tokenToAddressId.delete(e.revertToken)
-          state.labelToAddressId.set(labelKey(e.userId, e.label), e.id)
-          state.addressIdToUserLabel.set(e.id, { userId: e.userId, label: e.label })
+          state.revertTokens.delete(e.revertToken)
+          placeLabel(state, e.userId, e.id, e.label)
           // Re-add to userId → addressIds lookup
           const existing = state.userIdToAddressIds.get(e.userId) ?? new Set()
           existing.add(e.id)
           state.userIdToAddressIds.set(e.userId, existing)
           return state
-        })
-      ),
-
+        })),
       Match.exhaustive
-    )
+    ),
+
+  // ---------------------------------------------------------------------------
+  // Housekeeping
+  // ---------------------------------------------------------------------------
+  purgeRevertTokensIssuedBefore: (cutoff) =>
+    Ref.modify(ref, (state) => {
+      let purged = 0
+      for (const [token, { issuedAt }] of state.revertTokens) {
+        if (issuedAt.getTime() <= cutoff.getTime()) {
+          state.revertTokens.delete(token)
+          purged++
+        }
+      }
+      return [purged, state]
+    }),
+
+  // ---------------------------------------------------------------------------
+  // Reset
+  // ---------------------------------------------------------------------------
+  // Swap in fresh Maps (projections mutate the current ones in place).
+  reset: Ref.set(ref, emptyState())
 })
 
 // =============================================================================
@@ -272,7 +343,7 @@ const makeInMemoryRegistry = (ref: Ref.Ref<RegistryState>): RegistryService => (
 export const makeInMemoryRegistryLayer = (): Layer.Layer<Registry> =>
   Layer.effect(
     Registry,
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const ref = yield* Ref.make(emptyState())
       return makeInMemoryRegistry(ref)
     })
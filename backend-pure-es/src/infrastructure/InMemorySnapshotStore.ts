@@ -0,0 +1,48 @@
+// =============================================================================
+// InMemorySnapshotStore — Adapter Implementation
+// =============================================================================
+//
+// A Ref<Map<StreamId, Snapshot[]>>, each list kept sorted by version.
+// States are stored encoded, exactly as Postgres would keep them, so the
+// decode path is exercised in tests too.
+//
+import { Effect, Layer, Option, Ref } from "effect"
+import type { StreamId } from "../EventStore.js"
+import { type Snapshot, SnapshotStore, type SnapshotStoreService } from "../SnapshotStore.js"
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makeInMemorySnapshotStore = (
+  ref: Ref.Ref<ReadonlyMap<StreamId, ReadonlyArray<Snapshot>>>
+): SnapshotStoreService => ({
+  latest: (streamId, schemaVersion) =>
+    Ref.get(ref).pipe(
+      Effect.map((snapshots) =>
+        // Lists are sorted by version → the last match is the latest
+        Option.fromNullable(
+          (snapshots.get(streamId) ?? []).filter((snapshot) => snapshot.schemaVersion === schemaVersion).at(-1)
+        )
+      )
+    ),
+
+  save: (snapshot) =>
+    Ref.update(ref, (snapshots) => {
+      const existing = snapshots.get(snapshot.streamId) ?? []
+      if (existing.some((s) => s.version === snapshot.version)) return snapshots
+      const updated = [...existing, snapshot].sort((a, b) => a.version - b.version)
+      return new Map(snapshots).set(snapshot.streamId, updated)
+    })
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+//
+// Layer.effect (not Layer.succeed) → fresh Ref per use, same as the registry.
+//
+export const InMemorySnapshotStore = Layer.effect(
+  SnapshotStore,
+  Ref.make<ReadonlyMap<StreamId, ReadonlyArray<Snapshot>>>(new Map()).pipe(Effect.map(makeInMemorySnapshotStore))
+)
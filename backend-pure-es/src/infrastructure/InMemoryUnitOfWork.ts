@@ -0,0 +1,15 @@
+// =============================================================================
+// InMemoryUnitOfWork — Adapter Implementation
+// =============================================================================
+//
+// The in-memory adapters apply their writes immediately and can't roll back,
+// so there is nothing to coordinate: `atomically` runs the effect as-is.
+// Use cases append events first and enqueue emails last, so a failing
+// command still leaves no orphaned notification behind.
+//
+import { Layer } from "effect"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+export const InMemoryUnitOfWork = Layer.succeed(UnitOfWork, {
+  atomically: (effect) => effect
+})
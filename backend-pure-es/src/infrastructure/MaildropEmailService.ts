@@ -0,0 +1,42 @@
+// =============================================================================
+// MaildropEmailService — Adapter Implementation
+// =============================================================================
+//
+// PURPOSE:
+// For end-to-end tests. Each email is written to its own JSON file in a
+// directory, where another process — Cypress, through a task — can read it.
+// The login link only exists in an email, so a browser test that needs to be
+// logged in has to read one; the console adapter's output is out of its reach.
+//
+// FILE NAMES sort in sending order (zero-padded millis, then a counter), so
+// "the newest email to X" is the last matching file.
+//
+// Not for production: the files hold working revert and login links.
+//
+import { Effect, Layer } from "effect"
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { type EmailContent, type EmailSendError, EmailService, type EmailServiceInterface } from "../EmailService.js"
+
+export const makeMaildropEmailService = (dir: string): EmailServiceInterface => {
+  let sent = 0
+  return {
+    send: (email: EmailContent) =>
+      Effect.tryPromise({
+        try: async () => {
+          await mkdir(dir, { recursive: true })
+          const name = `${String(Date.now()).padStart(15, "0")}-${String(sent++).padStart(6, "0")}.json`
+          await writeFile(join(dir, name), JSON.stringify({ ...email, sentAt: new Date().toISOString() }))
+        },
+        catch: (cause): EmailSendError => ({
+          _tag: "EmailSendError",
+          message: `Could not write to the maildrop ${dir}`,
+          cause
+        })
+      })
+  }
+}
+
+// Layer for DI (e.g. EMAIL_ADAPTER=maildrop MAILDROP_DIR=/tmp/maildrop pnpm start)
+export const makeMaildropEmailServiceLayer = (dir: string): Layer.Layer<EmailService> =>
+  Layer.sync(EmailService, () => makeMaildropEmailService(dir))
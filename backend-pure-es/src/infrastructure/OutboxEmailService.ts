@@ -0,0 +1,27 @@
+// =============================================================================
+// OutboxEmailService — Adapter Implementation
+// =============================================================================
+//
+// An EmailService that doesn't send: `send` writes the email to the Outbox.
+// Use cases and reactions keep calling `EmailService.send` exactly as before;
+// wiring this adapter in (see Program.ts) is what turns their inline SMTP
+// call into an outbox write inside the use case's UnitOfWork.
+//
+// The real adapter (Console, Ethereal) is handed to the OutboxDispatcher,
+// which does the actual sending in the background.
+//
+// `send` can no longer fail: enqueueing is a local write, and storage
+// failures are defects like everywhere else.
+//
+import { Effect, Layer } from "effect"
+import { EmailService, type EmailServiceInterface } from "../EmailService.js"
+import { Outbox, type OutboxService } from "../Outbox.js"
+
+export const makeOutboxEmailService = (outbox: OutboxService): EmailServiceInterface => ({
+  send: (email) => outbox.enqueue(email)
+})
+
+export const OutboxEmailService: Layer.Layer<EmailService, never, Outbox> = Layer.effect(
+  EmailService,
+  Effect.map(Outbox, makeOutboxEmailService)
+)
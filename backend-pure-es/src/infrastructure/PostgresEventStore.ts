@@ -14,87 +14,343 @@
 // Single `events` table with:
 //   - stream_id: aggregate identifier
 //   - stream_type: 'user' or 'address' (for querying by type)
-//   - version: monotonically increasing per stream
+//   - version: monotonically increasing per stream (optimistic concurrency)
 //   - event_type: the event's _tag (e.g., 'UserCreated')
 //   - payload: full event as JSONB
+//   - schema_version: version of the payload's shape (see 008_event_schema_version.sql)
+//   - id / event_id / created_at / correlation_id / causation_id / actor:
+//     envelope metadata (see 002_event_metadata.sql)
+//
+// SCHEMA-CHECKED PAYLOADS:
+// Each store is built from its event Schema (UserEvent, AddressEvent).
+// Appends ENCODE through it; loads DECODE through it. A JSONB row that no
+// longer matches (hand-edited, legacy shape...) fails the load with an
+// EventDecodeError naming the row — it never reaches `evolve`.
+//
+// UPCASTING:
+// Before decoding, payloads written under an older schema_version go through
+// the aggregate's upcasters (see EventUpcasting.ts), so old rows are read in
+// the current shape without ever being rewritten. Appends record the
+// current version of each event type.
 //
-import { Effect, Layer } from "effect"
 import { PgClient } from "@effect/sql-pg"
+import type { SqlError } from "@effect/sql/SqlError"
+import { Chunk, Effect, Either, Layer, Option, Schedule, Schema, Stream } from "effect"
 
-import type { AddressEvent } from "../domain/address/Events.js"
-import type { UserEvent } from "../domain/user/Events.js"
+import { AddressEvent } from "../domain/address/Events.js"
+import { addressUpcasters } from "../domain/address/Upcasters.js"
+import { UserEvent } from "../domain/user/Events.js"
+import { userUpcasters } from "../domain/user/Upcasters.js"
 import {
   AddressEventStore,
+  catchUpThenLive,
+  type ConcurrencyConflict,
+  DomainEvent,
+  type EventDecodeError,
+  type EventEnvelope,
+  EventId,
+  EventLog,
+  type EventLogService,
+  type EventMetadata,
   type EventStoreService,
-  type StreamId,
-  UserEventStore,
+  StreamId,
+  UserEventStore
 } from "../EventStore.js"
+import { makeUpcasterRegistry, type UpcasterRegistry } from "../EventUpcasting.js"
 
 // =============================================================================
 // Factory: Create a Postgres EventStore for a specific event type
 // =============================================================================
 
-const makePostgresEventStore = <E extends { _tag: string }>(
-  streamType: "user" | "address"
+const makePostgresEventStore = <E extends { _tag: string }, I>(
+  streamType: "user" | "address",
+  schema: Schema.Schema<E, I>,
+  upcasters: UpcasterRegistry
 ): Effect.Effect<EventStoreService<E>, never, PgClient.PgClient> =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const sql = yield* PgClient.PgClient
+    const decodeRow = makeRowDecoder(schema, upcasters)
+    // Events come from `decide`, already valid — an encode failure is a bug
+    const encode = (event: E) => Schema.encode(schema)(event).pipe(Effect.orDie)
+
+    // Current version of a stream = highest version number (0 if empty)
+    const loadVersion = (streamId: StreamId) =>
+      sql<{ max_version: number | null }>`
+        SELECT MAX(version) as max_version
+        FROM events
+        WHERE stream_id = ${streamId}
+      `.pipe(Effect.map(([row]) => row?.max_version ?? 0))
+
+    // Shared by load and loadEnvelopes
+    const loadEnvelopes = (streamId: StreamId, afterVersion = 0) =>
+      sql<EventRow>`
+        SELECT id, event_id, stream_id, version, created_at,
+               correlation_id, causation_id, actor, event_type, schema_version, payload
+        FROM events
+        WHERE stream_id = ${streamId}
+          AND stream_type = ${streamType}
+          AND version > ${afterVersion}
+        ORDER BY version ASC
+      `.pipe(
+        // Convert any SQL errors to defects (bug in our code, not expected)
+        Effect.orDie,
+        Effect.flatMap(Effect.forEach(decodeRow))
+      )
 
     return {
       // -----------------------------------------------------------------------
-      // load: StreamId → Effect<E[], never>
+      // load: (StreamId, afterVersion?) → Effect<E[], never>
       // -----------------------------------------------------------------------
-      load: (streamId: StreamId) =>
-        Effect.gen(function* () {
-          const rows = yield* sql<{ payload: E }>`
-            SELECT payload
-            FROM events
-            WHERE stream_id = ${streamId}
-              AND stream_type = ${streamType}
-            ORDER BY version ASC
-          `
-          return rows.map((row) => row.payload)
-        }).pipe(
-          // Convert any SQL errors to defects (bug in our code, not expected)
-          Effect.orDie
+      // UNIQUE (stream_id, version) doubles as the index for the tail query.
+      //
+      load: (streamId: StreamId, afterVersion?: number) =>
+        loadEnvelopes(streamId, afterVersion).pipe(
+          Effect.map((envelopes) => envelopes.map((envelope) => envelope.event))
         ),
 
       // -----------------------------------------------------------------------
-      // append: (StreamId, E[]) → Effect<void, never>
+      // loadEnvelopes: StreamId → Effect<EventEnvelope<E>[], EventDecodeError>
       // -----------------------------------------------------------------------
-      append: (streamId: StreamId, events: ReadonlyArray<E>) =>
-        Effect.gen(function* () {
-          if (events.length === 0) {
-            return // No-op for empty append
+      loadEnvelopes: (streamId: StreamId) => loadEnvelopes(streamId),
+
+      // -----------------------------------------------------------------------
+      // append: (StreamId, E[], expectedVersion, metadata?) → Effect<EventEnvelope<E>[], ConcurrencyConflict>
+      // -----------------------------------------------------------------------
+      // OPTIMISTIC CONCURRENCY — two lines of defence:
+      //   1. Compare MAX(version) with expectedVersion before inserting
+      //      (cheap early exit for the common stale-read case)
+      //   2. UNIQUE (stream_id, version) in the schema: if two writers pass the
+      //      check concurrently, only one INSERT wins; the loser gets a unique
+      //      violation, which we translate into ConcurrencyConflict
+      //
+      // ENVELOPES:
+      // Postgres assigns id (position), event_id and created_at; RETURNING
+      // hands them back so the caller gets the full envelopes without a reload.
+      //
+      // COMMIT ORDER:
+      // Before inserting, the append takes the global append lock (see the
+      // EventLog factory below), so positions become visible in order.
+      //
+      // SAVEPOINT:
+      // The INSERT runs in its own sql.withTransaction — a savepoint when the
+      // caller already holds a transaction (UnitOfWork). A unique violation
+      // then only rolls back the savepoint, so the caller's transaction stays
+      // usable and the CommandHandler can retry on fresh state.
+      //
+      append: (streamId: StreamId, events: ReadonlyArray<E>, expectedVersion: number, metadata?: EventMetadata) =>
+        Effect.gen(function*() {
+          const currentVersion = yield* loadVersion(streamId)
+          if (currentVersion !== expectedVersion) {
+            return yield* Effect.fail(conflict(streamId, expectedVersion, currentVersion))
           }
 
-          // Get current max version for this stream
-          const [maxVersionRow] = yield* sql<{ max_version: number | null }>`
-            SELECT MAX(version) as max_version
-            FROM events
-            WHERE stream_id = ${streamId}
-          `
-          const currentVersion = maxVersionRow?.max_version ?? 0
+          if (events.length === 0) {
+            return [] // No-op for empty append
+          }
 
           // Batch insert all events in a single query
+          const payloads = yield* Effect.forEach(events, encode)
           const values = events.map((event, i) => ({
             stream_id: streamId,
             stream_type: streamType,
-            version: currentVersion + i + 1,
+            version: expectedVersion + i + 1,
             event_type: event._tag,
-            payload: event,
+            schema_version: upcasters.currentVersion(event._tag),
+            payload: payloads[i],
+            correlation_id: metadata?.correlationId ?? null,
+            causation_id: metadata?.causationId ?? null,
+            actor: metadata?.actor ?? null
           }))
 
-          yield* sql`
-            INSERT INTO events ${sql.insert(values)}
-          `
+          const rows = yield* sql`SELECT pg_advisory_xact_lock(${APPEND_LOCK_KEY})`.pipe(
+            Effect.zipRight(sql<EventRow>`
+              INSERT INTO events ${sql.insert(values)}
+              RETURNING id, event_id, stream_id, version, created_at,
+                        correlation_id, causation_id, actor, event_type, schema_version, payload
+            `),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", (error) =>
+              isUniqueViolation(error)
+                ? loadVersion(streamId).pipe(
+                  Effect.flatMap((actualVersion) => Effect.fail(conflict(streamId, expectedVersion, actualVersion)))
+                )
+                : Effect.die(error))
+          )
+
+          // RETURNING order isn't guaranteed — sort by version.
+          // The events are the ones we were given: no need to decode them back.
+          return [...rows]
+            .sort((a, b) => a.version - b.version)
+            .map((row) => rowToEnvelope(row, events[row.version - expectedVersion - 1]))
         }).pipe(
-          // Convert any SQL errors to defects
-          Effect.orDie
-        ),
+          // Convert any remaining SQL errors to defects
+          Effect.catchTag("SqlError", Effect.die)
+        )
     }
   })
 
+// =============================================================================
+// Factory: Create a Postgres EventLog (global feed over the events table)
+// =============================================================================
+//
+// `id` (BIGSERIAL) is the global position; idx_events_id makes the
+// `WHERE id > $from ORDER BY id LIMIT $n` page query an index range scan.
+//
+// SEQUENCE ORDER vs COMMIT ORDER:
+// Sequence values are handed out at INSERT time, not COMMIT time. Two
+// concurrent transactions could commit "out of order" (id 11 visible before
+// id 10); a reader that has just consumed 11 reads `id > 11` from then on
+// and would never see 10 — the projections and their checkpoints would
+// silently miss it.
+//
+// So appends are serialized: each takes a transaction-level advisory lock
+// (APPEND_LOCK_KEY) before its INSERT, held until the surrounding transaction
+// (the use case's UnitOfWork) commits or rolls back. A second writer gets its
+// ids only once the first has committed, so ids become visible in order.
+// The price is one writer at a time across all streams — fine at this PoC's
+// scale; a busier log would instead record each row's transaction id and
+// only read below pg_snapshot_xmin(pg_current_snapshot()).
+//
+// LIVE SUBSCRIPTIONS (LISTEN/NOTIFY):
+// A trigger (003_event_notify.sql) NOTIFYs `events_appended` on every insert.
+// subscribe LISTENs on that channel and treats each notification as a
+// wake-up. A slow poll runs alongside as a safety net: NOTIFYs are missed
+// while the listening connection is down (or not yet LISTENing).
+//
+const NOTIFY_CHANNEL = "events_appended"
+const APPEND_LOCK_KEY = 7_141_001 // Arbitrary, but the same for every append
+const POLL_INTERVAL = "5 seconds"
+
+const makePostgresEventLog: Effect.Effect<EventLogService, never, PgClient.PgClient> = Effect.gen(function*() {
+  const sql = yield* PgClient.PgClient
+  const decodeRow = makeRowDecoder(DomainEvent, makeUpcasterRegistry([...userUpcasters, ...addressUpcasters]))
+
+  // An undecodable event here has no caller to report to (the feed drives
+  // background projections): it is a defect, carrying the EventDecodeError.
+  const readBatch = (after: number, batchSize: number) =>
+    sql<EventRow>`
+        SELECT id, event_id, stream_id, version, created_at,
+               correlation_id, causation_id, actor, event_type, schema_version, payload
+        FROM events
+        WHERE id > ${after}
+        ORDER BY id ASC
+        LIMIT ${batchSize}
+      `.pipe(
+      Effect.flatMap(Effect.forEach(decodeRow)),
+      Effect.orDie
+    )
+
+  // -------------------------------------------------------------------------
+  // readAll: (fromPosition, batchSize) → Stream<EventEnvelope<DomainEvent>>
+  // -------------------------------------------------------------------------
+  // One query per page; a short page means we've reached the end.
+  //
+  const readAll = (fromPosition: number, batchSize: number) =>
+    Stream.paginateChunkEffect(fromPosition, (after) =>
+      readBatch(after, batchSize).pipe(
+        Effect.map((batch) => {
+          const last = batch[batch.length - 1]
+          return [
+            Chunk.fromIterable(batch),
+            batch.length < batchSize || last === undefined ? Option.none() : Option.some(last.position)
+          ] as const
+        })
+      ))
+
+  // -------------------------------------------------------------------------
+  // Wake-ups: NOTIFY + poll, buffered into a queue
+  // -------------------------------------------------------------------------
+  // Stream.toQueue starts LISTENing in the background (scoped). A sliding
+  // queue collapses bursts: ten inserts while we're busy → one re-read.
+  // If the listening connection fails, LISTEN again after a pause.
+  //
+  const wakeups = Stream.merge(
+    sql.listen(NOTIFY_CHANNEL).pipe(Stream.retry(Schedule.spaced("1 second")), Stream.orDie),
+    Stream.tick(POLL_INTERVAL)
+  ).pipe(Stream.toQueue({ strategy: "sliding", capacity: 1 }))
+
+  return {
+    readAll,
+    subscribe: (fromPosition: number) => catchUpThenLive(readAll, wakeups, fromPosition),
+    headPosition: sql<{ head: string | number }>`
+        SELECT COALESCE(MAX(id), 0) AS head FROM events
+      `.pipe(
+      Effect.map(([row]) => Number(row?.head ?? 0)),
+      Effect.orDie
+    )
+  }
+})
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+type EventRow = {
+  readonly id: string | number // BIGSERIAL comes back as a string from pg
+  readonly event_id: string
+  readonly stream_id: string
+  readonly version: number
+  readonly created_at: Date
+  readonly correlation_id: string | null
+  readonly causation_id: string | null
+  readonly actor: string | null
+  readonly event_type: string
+  readonly schema_version: number
+  readonly payload: unknown // Encoded event, possibly an older shape — upcast and decode before use
+}
+
+// Row → envelope: upcast the payload to the current shape, then decode it
+// through the event Schema
+const makeRowDecoder = <E, I>(schema: Schema.Schema<E, I>, upcasters: UpcasterRegistry) => {
+  const decode = Schema.decodeUnknown(schema)
+  return (row: EventRow): Effect.Effect<EventEnvelope<E>, EventDecodeError> => {
+    const decodeError = (message: string): EventDecodeError => ({
+      _tag: "EventDecodeError",
+      streamId: StreamId(row.stream_id),
+      version: row.version,
+      eventType: row.event_type,
+      message
+    })
+    // Either is a subtype of Effect: a Left fails the pipeline
+    return upcasters.upcast(row.event_type, row.schema_version, row.payload).pipe(
+      Either.mapLeft(decodeError),
+      Effect.flatMap((payload) => decode(payload).pipe(Effect.mapError((error) => decodeError(error.message)))),
+      Effect.map((event) => rowToEnvelope(row, event))
+    )
+  }
+}
+
+const rowToEnvelope = <E>(row: EventRow, event: E): EventEnvelope<E> => ({
+  eventId: EventId(row.event_id),
+  streamId: StreamId(row.stream_id),
+  version: row.version,
+  position: Number(row.id),
+  recordedAt: row.created_at,
+  correlationId: row.correlation_id,
+  causationId: row.causation_id,
+  actor: row.actor,
+  event
+})
+
+const conflict = (
+  streamId: StreamId,
+  expectedVersion: number,
+  actualVersion: number
+): ConcurrencyConflict => ({
+  _tag: "ConcurrencyConflict",
+  streamId,
+  expectedVersion,
+  actualVersion
+})
+
+// Postgres error code 23505 = unique_violation
+// (here: another writer already took this (stream_id, version) slot)
+const isUniqueViolation = (error: SqlError): boolean =>
+  typeof error.cause === "object" &&
+  error.cause !== null &&
+  "code" in error.cause &&
+  error.cause.code === "23505"
+
 // =============================================================================
 // Layers: For Effect Dependency Injection
 // =============================================================================
@@ -102,19 +358,23 @@ const makePostgresEventStore = <E extends { _tag: string }>(
 // Layer for UserEventStore backed by Postgres
 export const PostgresUserEventStore = Layer.effect(
   UserEventStore,
-  makePostgresEventStore<UserEvent>("user")
+  makePostgresEventStore("user", UserEvent, makeUpcasterRegistry(userUpcasters))
 )
 
 // Layer for AddressEventStore backed by Postgres
 export const PostgresAddressEventStore = Layer.effect(
   AddressEventStore,
-  makePostgresEventStore<AddressEvent>("address")
+  makePostgresEventStore("address", AddressEvent, makeUpcasterRegistry(addressUpcasters))
 )
 
-// Combined layer for both stores
-export const PostgresEventStores = Layer.merge(
+// Layer for the global EventLog (reads across both stream types)
+export const PostgresEventLog = Layer.effect(EventLog, makePostgresEventLog)
+
+// Combined layer for both stores and the global feed
+export const PostgresEventStores = Layer.mergeAll(
   PostgresUserEventStore,
-  PostgresAddressEventStore
+  PostgresAddressEventStore,
+  PostgresEventLog
 )
 
 // =============================================================================
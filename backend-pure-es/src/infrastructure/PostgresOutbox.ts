@@ -0,0 +1,154 @@
+// =============================================================================
+// PostgresOutbox — Adapter Implementation
+// =============================================================================
+//
+// TABLE:
+//   - outbox: one row per email, 'pending' until delivered (005_outbox.sql),
+//     'dead' once the dispatcher gives up (006_outbox_dead_letters.sql),
+//     attempts / max_attempts / next_attempt_at hold the retry schedule
+//     (012_outbox_retry_schedule.sql)
+//
+// TRANSACTIONS:
+// `enqueue` is a plain INSERT through the shared PgClient, so when a use
+// case runs inside UnitOfWork.atomically the row commits (or rolls back)
+// together with the events that caused it.
+//
+// SEVERAL DISPATCHERS:
+// `claim` picks due rows with SELECT ... FOR UPDATE SKIP LOCKED and pushes
+// their next_attempt_at past the lease in the same UPDATE. A concurrent
+// claim skips the locked rows, and once the UPDATE commits they're no
+// longer due — so each row goes to one dispatcher at a time.
+//
+// TIME:
+// Schedules use the database's NOW(), not the app's clock: every
+// dispatcher compares against the same time source.
+//
+import { PgClient } from "@effect/sql-pg"
+import { Duration, Effect, Layer } from "effect"
+
+import { DEFAULT_MAX_ATTEMPTS, type FailureOutcome, Outbox, type OutboxService } from "../Outbox.js"
+import type { Email } from "../shared/Email.js"
+
+// =============================================================================
+// Row Type
+// =============================================================================
+
+type OutboxRow = {
+  id: string | number // BIGSERIAL comes back as a string from pg
+  recipient: string
+  subject: string
+  body: string
+  attempts: number
+  max_attempts: number
+  next_attempt_at: Date
+  last_error: string | null
+  created_at: Date
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const rowToMessage = (row: OutboxRow) => ({
+  id: Number(row.id),
+  // Recipients were validated Emails when enqueued
+  email: { to: row.recipient as Email, subject: row.subject, body: row.body },
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+  enqueuedAt: row.created_at
+})
+
+const makePostgresOutbox = Effect.gen(function*() {
+  const sql = yield* PgClient.PgClient
+
+  const columns = sql.literal(
+    "id, recipient, subject, body, attempts, max_attempts, next_attempt_at, last_error, created_at"
+  )
+
+  // Seconds, as make_interval takes them
+  const seconds = (duration: Duration.Duration) => Duration.toMillis(duration) / 1000
+
+  const withStatus = (status: "pending" | "dead", limit: number) =>
+    sql<OutboxRow>`
+      SELECT ${columns}
+      FROM outbox
+      WHERE status = ${status}
+      ORDER BY id
+      LIMIT ${limit}
+    `.pipe(
+      Effect.map((rows) => rows.map(rowToMessage)),
+      Effect.orDie
+    )
+
+  const service: OutboxService = {
+    enqueue: (email) =>
+      sql`
+        INSERT INTO outbox (recipient, subject, body, max_attempts)
+        VALUES (${email.to}, ${email.subject}, ${email.body}, ${DEFAULT_MAX_ATTEMPTS})
+      `.pipe(Effect.orDie, Effect.asVoid),
+
+    pending: (limit) => withStatus("pending", limit),
+
+    claim: (limit, lease) =>
+      sql<OutboxRow>`
+        UPDATE outbox SET next_attempt_at = NOW() + make_interval(secs => ${seconds(lease)})
+        WHERE id IN (
+          SELECT id FROM outbox
+          WHERE status = 'pending' AND next_attempt_at <= NOW()
+          ORDER BY id
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING ${columns}
+      `.pipe(
+        // UPDATE ... RETURNING has no ORDER BY
+        Effect.map((rows) => rows.map(rowToMessage).sort((a, b) => a.id - b.id)),
+        Effect.orDie
+      ),
+
+    markSent: (id) =>
+      sql`
+        UPDATE outbox SET status = 'sent', sent_at = NOW() WHERE id = ${id}
+      `.pipe(Effect.orDie, Effect.asVoid),
+
+    // One statement decides retry vs dead letter, from the stored counts
+    // (SET expressions see the row as it was before the update)
+    recordFailure: (id, error, retryAfter) =>
+      sql<{ status: string }>`
+        UPDATE outbox SET
+          attempts = attempts + 1,
+          last_error = ${error},
+          next_attempt_at = NOW() + make_interval(secs => ${seconds(retryAfter)}),
+          status = CASE WHEN attempts + 1 >= max_attempts THEN 'dead' ELSE status END,
+          dead_at = CASE WHEN attempts + 1 >= max_attempts THEN NOW() ELSE dead_at END
+        WHERE id = ${id}
+        RETURNING status
+      `.pipe(
+        Effect.map((rows): FailureOutcome => rows[0]?.status === "dead" ? "deadLettered" : "retrying"),
+        Effect.orDie
+      ),
+
+    deadLetters: (limit) => withStatus("dead", limit),
+
+    // The status guard makes replay a no-op for pending/sent rows
+    replay: (id) =>
+      sql<{ id: string | number }>`
+        UPDATE outbox SET status = 'pending', attempts = 0, dead_at = NULL, next_attempt_at = NOW()
+        WHERE id = ${id} AND status = 'dead'
+        RETURNING id
+      `.pipe(
+        Effect.map((rows) => rows.length > 0),
+        Effect.orDie
+      )
+  }
+
+  return service
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+export const PostgresOutbox = Layer.effect(Outbox, makePostgresOutbox)
@@ -0,0 +1,70 @@
+// =============================================================================
+// PostgresProjectionCheckpoints — Adapter Implementation
+// =============================================================================
+//
+// TABLE:
+//   - projection_checkpoints: projection name → last applied position
+//
+// ATOMICITY:
+// `advance` wraps the projection's work AND the checkpoint upsert in
+// sql.withTransaction. Any query the work runs through the same PgClient
+// (e.g. PostgresRegistry) joins that transaction — Effect SQL tracks the
+// open transaction per fiber — so both commit or neither does.
+//
+import { PgClient } from "@effect/sql-pg"
+import { SqlError } from "@effect/sql/SqlError"
+import { Effect, Layer } from "effect"
+
+import { ProjectionCheckpoints, type ProjectionCheckpointsService } from "../ProjectionCheckpoints.js"
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makePostgresProjectionCheckpoints = Effect.gen(function*() {
+  const sql = yield* PgClient.PgClient
+
+  const service: ProjectionCheckpointsService = {
+    load: (projection) =>
+      sql<{ position: string | number }>`
+        SELECT position FROM projection_checkpoints WHERE projection = ${projection}
+      `.pipe(
+        // BIGINT comes back as a string from pg
+        Effect.map(([row]) => (row ? Number(row.position) : 0)),
+        Effect.orDie
+      ),
+
+    advance: (projection, position, apply) =>
+      apply.pipe(
+        Effect.zipRight(sql`
+          INSERT INTO projection_checkpoints (projection, position)
+          VALUES (${projection}, ${position})
+          ON CONFLICT (projection) DO UPDATE SET position = ${position}, updated_at = NOW()
+        `),
+        sql.withTransaction,
+        Effect.orDie,
+        Effect.asVoid
+      ),
+
+    // Nested withTransaction calls (e.g. `advance` inside) become savepoints.
+    // SqlError from BEGIN/COMMIT is a defect here, like everywhere else.
+    atomically: (effect) =>
+      sql.withTransaction(effect).pipe(
+        Effect.catchIf(
+          (error): error is SqlError => error instanceof SqlError,
+          Effect.die
+        )
+      )
+  }
+
+  return service
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+export const PostgresProjectionCheckpoints = Layer.effect(
+  ProjectionCheckpoints,
+  makePostgresProjectionCheckpoints
+)
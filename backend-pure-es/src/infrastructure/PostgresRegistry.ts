@@ -7,43 +7,154 @@
 // It persists lookup indexes to PostgreSQL for durability.
 //
 // TABLES:
-//   - nicknames: nickname → user_id
+//   - nicknames: nickname → (user_id, is_current) — past nicknames included
+//   - user_names: user_id → (first_name, last_name), to re-derive the nickname,
+//     with the version of the event that set them (last_applied_version)
+//   - user_addresses: user_id → address_id, every address ever (history reads)
 //   - address_labels: (user_id, label) → address_id
-//   - revert_tokens: token → address_id
+//   - revert_tokens: token → (address_id, issued_at)
 //
 // PROJECTION LOGIC:
 // Same as InMemoryRegistry — uses Match.exhaustive to handle all event cases.
 // Updates SQL tables instead of in-memory Maps.
 //
-import { Effect, Layer, Match, Option } from "effect"
 import { PgClient } from "@effect/sql-pg"
+import { Effect, Layer, Match, Option } from "effect"
 
-import { Registry, type RegistryService, deriveNickname } from "../Registry.js"
-import type { UserId } from "../domain/user/State.js"
 import type { AddressId } from "../domain/address/State.js"
+import type { FirstName, LastName, UserId } from "../domain/user/State.js"
+import { deriveNickname, nicknameCandidate, Registry, type RegistryService } from "../Registry.js"
 
 // =============================================================================
 // Factory: Create PostgresRegistry from PgClient
 // =============================================================================
 
-const makePostgresRegistry = Effect.gen(function* () {
+const makePostgresRegistry = Effect.gen(function*() {
   const sql = yield* PgClient.PgClient
 
+  // Record the user's name and make the nickname it derives to current —
+  // suffixed if someone else holds it (see NICKNAME HISTORY in Registry.ts).
+  //
+  // The name is only written by an event newer than the last one applied
+  // (see REPLAYS in Registry.ts): the conditional DO UPDATE returns no row
+  // for a replayed one, and the nickname is left as it is.
+  //
+  // Claiming a candidate is a single upsert: the no-op DO UPDATE makes
+  // RETURNING report the holder whether we inserted the row or hit someone
+  // else's — so two users racing for the same slug can't both get it.
+  const assignNickname = (userId: UserId, firstName: FirstName, lastName: LastName, version: number) =>
+    Effect.gen(function*() {
+      const applied = yield* sql`
+        INSERT INTO user_names (user_id, first_name, last_name, last_applied_version)
+        VALUES (${userId}, ${firstName}, ${lastName}, ${version})
+        ON CONFLICT (user_id) DO UPDATE
+          SET first_name = EXCLUDED.first_name,
+              last_name = EXCLUDED.last_name,
+              last_applied_version = EXCLUDED.last_applied_version
+          WHERE user_names.last_applied_version < EXCLUDED.last_applied_version
+        RETURNING user_id
+      `
+      if (applied.length === 0) return
+      const derived = deriveNickname(firstName, lastName)
+      for (let attempt = 1;; attempt++) {
+        const nickname = nicknameCandidate(derived, attempt)
+        const [holder] = yield* sql<{ user_id: string }>`
+          INSERT INTO nicknames (nickname, user_id, is_current)
+          VALUES (${nickname}, ${userId}, FALSE)
+          ON CONFLICT (nickname) DO UPDATE SET nickname = EXCLUDED.nickname
+          RETURNING user_id
+        `
+        if (holder.user_id === userId) {
+          // Two statements: the partial unique index allows one current row
+          // per user at every step, so demote before promoting
+          yield* sql`
+            UPDATE nicknames SET is_current = FALSE
+            WHERE user_id = ${userId} AND nickname <> ${nickname}
+          `
+          yield* sql`UPDATE nicknames SET is_current = TRUE WHERE nickname = ${nickname}`
+          return
+        }
+      }
+    }).pipe(Effect.orDie)
+
+  // A *NameChanged event carries one half of the name; the other is stored
+  const renameUser = (
+    userId: UserId,
+    change: { readonly firstName: FirstName } | { readonly lastName: LastName },
+    version: number
+  ) =>
+    Effect.gen(function*() {
+      const [row] = yield* sql<{ first_name: string; last_name: string }>`
+        SELECT first_name, last_name FROM user_names WHERE user_id = ${userId}
+      `
+      if (row) {
+        const name = { firstName: row.first_name as FirstName, lastName: row.last_name as LastName, ...change }
+        yield* assignNickname(userId, name.firstName, name.lastName, version)
+      }
+    }).pipe(Effect.orDie)
+
+  // ---------------------------------------------------------------------------
+  // Label mapping: never takes a label from another address
+  // ---------------------------------------------------------------------------
+  // The projection runner re-applies events the use cases projected inline —
+  // on first start it replays the whole log over a populated registry. So an
+  // old event may name a label another address holds today (home was
+  // renamed office, then a new address took home). Neither write overwrites
+  // a row that belongs to another address: the old event is skipped, and the
+  // address's own later events move it to the label it holds today. Freeing
+  // the label instead would drop the other address from the lookups for
+  // good — it has no later event to put it back.
+  //
+  // The use cases check a label is free before they emit an event that takes
+  // it (RevertChange included), so inline this never skips anything.
+
+  const placeLabel = (userId: UserId, addressId: AddressId, label: string) =>
+    sql`
+      INSERT INTO address_labels (user_id, label, address_id)
+      SELECT ${userId}, ${label}, ${addressId}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM address_labels
+        WHERE user_id = ${userId} AND label = ${label} AND address_id <> ${addressId}
+      )
+      ON CONFLICT (address_id) DO UPDATE SET user_id = EXCLUDED.user_id, label = EXCLUDED.label
+    `
+
+  // Move an address's label mapping to its new label (LabelChanged, a label in
+  // an AddressChanged diff, and their reverts). No row (creation reverted):
+  // nothing to move.
+  const relabel = (addressId: AddressId, label: string) =>
+    sql`
+      UPDATE address_labels AS mine SET label = ${label}
+      WHERE mine.address_id = ${addressId}
+        AND NOT EXISTS (
+          SELECT 1 FROM address_labels AS other
+          WHERE other.user_id = mine.user_id AND other.label = ${label} AND other.address_id <> ${addressId}
+        )
+    `
+
   const service: RegistryService = {
     // -------------------------------------------------------------------------
     // Lookups
     // -------------------------------------------------------------------------
 
     getUserIdByNickname: (nickname) =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const rows = yield* sql<{ user_id: string }>`
           SELECT user_id FROM nicknames WHERE nickname = ${nickname}
         `
         return rows.length > 0 ? Option.some(rows[0].user_id as UserId) : Option.none()
       }).pipe(Effect.orDie),
 
+    getNicknameByUserId: (userId) =>
+      Effect.gen(function*() {
+        const rows = yield* sql<{ nickname: string }>`
+          SELECT nickname FROM nicknames WHERE user_id = ${userId} AND is_current
+        `
+        return rows.length > 0 ? Option.some(rows[0].nickname) : Option.none()
+      }).pipe(Effect.orDie),
+
     getAddressIdByLabel: (userId, label) =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const rows = yield* sql<{ address_id: string }>`
           SELECT address_id FROM address_labels
           WHERE user_id = ${userId} AND label = ${label}
@@ -52,7 +163,7 @@ const makePostgresRegistry = Effect.gen(function* () {
       }).pipe(Effect.orDie),
 
     getAddressIdByToken: (token) =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const rows = yield* sql<{ address_id: string }>`
           SELECT address_id FROM revert_tokens WHERE token = ${token}
         `
@@ -60,31 +171,32 @@ const makePostgresRegistry = Effect.gen(function* () {
       }).pipe(Effect.orDie),
 
     getAddressIdsByUserId: (userId) =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const rows = yield* sql<{ address_id: string }>`
           SELECT address_id FROM address_labels WHERE user_id = ${userId}
         `
         return rows.map((r) => r.address_id as AddressId)
       }).pipe(Effect.orDie),
 
+    getAllAddressIdsByUserId: (userId) =>
+      Effect.gen(function*() {
+        const rows = yield* sql<{ address_id: string }>`
+          SELECT address_id FROM user_addresses WHERE user_id = ${userId}
+        `
+        return rows.map((r) => r.address_id as AddressId)
+      }).pipe(Effect.orDie),
+
     // -------------------------------------------------------------------------
     // Projections
     // -------------------------------------------------------------------------
 
-    projectUserEvent: (event) =>
+    projectUserEvent: (event, version) =>
       Match.value(event).pipe(
-        Match.tag("UserCreated", (e) =>
-          Effect.gen(function* () {
-            const nickname = deriveNickname(e.firstName, e.lastName)
-            yield* sql`
-              INSERT INTO nicknames (nickname, user_id)
-              VALUES (${nickname}, ${e.id})
-              ON CONFLICT (nickname) DO NOTHING
-            `
-          }).pipe(Effect.orDie)
-        ),
-        Match.tag("FirstNameChanged", () => Effect.void),
-        Match.tag("LastNameChanged", () => Effect.void),
+        Match.tag("UserCreated", (e) => assignNickname(e.id, e.firstName, e.lastName, version)),
+        Match.tag("FirstNameChanged", (e) => renameUser(e.id, { firstName: e.newValue }, version)),
+        Match.tag("LastNameChanged", (e) => renameUser(e.id, { lastName: e.newValue }, version)),
+        // Logins don't touch any lookup — sessions are checked on the User stream
+        Match.tag("LoginLinkRequested", "LoggedIn", "LoggedOut", () => Effect.void),
         Match.exhaustive
       ),
 
@@ -92,167 +204,158 @@ const makePostgresRegistry = Effect.gen(function* () {
       Match.value(event).pipe(
         // AddressCreated: insert label + token
         Match.tag("AddressCreated", (e) =>
-          Effect.gen(function* () {
+          Effect.gen(function*() {
+            yield* placeLabel(e.userId, e.id, e.label)
             yield* sql`
-              INSERT INTO address_labels (user_id, label, address_id)
-              VALUES (${e.userId}, ${e.label}, ${e.id})
-              ON CONFLICT (user_id, label) DO UPDATE SET address_id = ${e.id}
+              INSERT INTO user_addresses (user_id, address_id)
+              VALUES (${e.userId}, ${e.id})
+              ON CONFLICT (address_id) DO NOTHING
             `
             yield* sql`
-              INSERT INTO revert_tokens (token, address_id)
-              VALUES (${e.revertToken}, ${e.id})
-              ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
+              INSERT INTO revert_tokens (token, address_id, issued_at)
+              VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+              ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
             `
-          }).pipe(Effect.orDie)
-        ),
-
+          }).pipe(Effect.orDie)),
         // Field changes: register new token
         Match.tag("LabelChanged", (e) =>
-          Effect.gen(function* () {
+          Effect.gen(function*() {
             yield* sql`
-              INSERT INTO revert_tokens (token, address_id)
-              VALUES (${e.revertToken}, ${e.id})
-              ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-            `
-            // Update label mapping: need to get userId first
-            const [row] = yield* sql<{ user_id: string }>`
-              SELECT user_id FROM address_labels WHERE address_id = ${e.id}
+              INSERT INTO revert_tokens (token, address_id, issued_at)
+              VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+              ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
             `
-            if (row) {
-              yield* sql`
-                DELETE FROM address_labels WHERE address_id = ${e.id}
-              `
-              yield* sql`
-                INSERT INTO address_labels (user_id, label, address_id)
-                VALUES (${row.user_id}, ${e.newValue}, ${e.id})
-              `
-            }
-          }).pipe(Effect.orDie)
-        ),
-
+            // Update label mapping
+            yield* relabel(e.id, e.newValue)
+          }).pipe(Effect.orDie)),
         Match.tag("StreetNumberChanged", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
         Match.tag("StreetNameChanged", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
         Match.tag("ZipCodeChanged", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
         Match.tag("CityChanged", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
         Match.tag("CountryChanged", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
+        // AddressChanged: one token for the whole diff, which may include the label
+        Match.tag("AddressChanged", (e) =>
+          Effect.gen(function*() {
+            yield* sql`
+              INSERT INTO revert_tokens (token, address_id, issued_at)
+              VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+              ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+            `
+            if (e.changes.label) {
+              yield* relabel(e.id, e.changes.label.newValue)
+            }
+          }).pipe(Effect.orDie)),
         Match.tag("AddressDeleted", (e) =>
           sql`
-            INSERT INTO revert_tokens (token, address_id)
-            VALUES (${e.revertToken}, ${e.id})
-            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}
-          `.pipe(Effect.orDie, Effect.asVoid)
-        ),
-
+            INSERT INTO revert_tokens (token, address_id, issued_at)
+            VALUES (${e.revertToken}, ${e.id}, ${e.revertTokenIssuedAt})
+            ON CONFLICT (token) DO UPDATE SET address_id = ${e.id}, issued_at = ${e.revertTokenIssuedAt}
+          `.pipe(Effect.orDie, Effect.asVoid)),
         // Corrections: consume token (delete from revert_tokens)
         Match.tag("LabelReverted", (e) =>
-          Effect.gen(function* () {
+          Effect.gen(function*() {
             yield* sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`
             // Revert label mapping
-            const [row] = yield* sql<{ user_id: string }>`
-              SELECT user_id FROM address_labels WHERE address_id = ${e.id}
-            `
-            if (row) {
-              yield* sql`DELETE FROM address_labels WHERE address_id = ${e.id}`
-              yield* sql`
-                INSERT INTO address_labels (user_id, label, address_id)
-                VALUES (${row.user_id}, ${e.newValue}, ${e.id})
-              `
-            }
-          }).pipe(Effect.orDie)
-        ),
-
+            yield* relabel(e.id, e.newValue)
+          }).pipe(Effect.orDie)),
         Match.tag("StreetNumberReverted", (e) =>
           sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`.pipe(
             Effect.orDie,
             Effect.asVoid
-          )
-        ),
-
+          )),
         Match.tag("StreetNameReverted", (e) =>
           sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`.pipe(
             Effect.orDie,
             Effect.asVoid
-          )
-        ),
-
+          )),
         Match.tag("ZipCodeReverted", (e) =>
           sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`.pipe(
             Effect.orDie,
             Effect.asVoid
-          )
-        ),
-
+          )),
         Match.tag("CityReverted", (e) =>
           sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`.pipe(
             Effect.orDie,
             Effect.asVoid
-          )
-        ),
-
+          )),
         Match.tag("CountryReverted", (e) =>
           sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`.pipe(
             Effect.orDie,
             Effect.asVoid
-          )
-        ),
-
+          )),
+        Match.tag("AddressChangeReverted", (e) =>
+          Effect.gen(function*() {
+            yield* sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`
+            if (e.changes.label) {
+              yield* relabel(e.id, e.changes.label.newValue)
+            }
+          }).pipe(Effect.orDie)),
         // CreationReverted: delete label + consume token
         Match.tag("CreationReverted", (e) =>
-          Effect.gen(function* () {
+          Effect.gen(function*() {
             yield* sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`
             yield* sql`DELETE FROM address_labels WHERE address_id = ${e.id}`
-          }).pipe(Effect.orDie)
-        ),
-
+          }).pipe(Effect.orDie)),
         // AddressRestored: re-register label, consume token
         Match.tag("AddressRestored", (e) =>
-          Effect.gen(function* () {
+          Effect.gen(function*() {
             yield* sql`DELETE FROM revert_tokens WHERE token = ${e.revertToken}`
-            yield* sql`
-              INSERT INTO address_labels (user_id, label, address_id)
-              VALUES (${e.userId}, ${e.label}, ${e.id})
-              ON CONFLICT (user_id, label) DO UPDATE SET address_id = ${e.id}
-            `
-          }).pipe(Effect.orDie)
-        ),
-
+            yield* placeLabel(e.userId, e.id, e.label)
+          }).pipe(Effect.orDie)),
         Match.exhaustive
       ),
+
+    // -------------------------------------------------------------------------
+    // Housekeeping
+    // -------------------------------------------------------------------------
+
+    purgeRevertTokensIssuedBefore: (cutoff) =>
+      Effect.gen(function*() {
+        const rows = yield* sql<{ token: string }>`
+          DELETE FROM revert_tokens WHERE issued_at <= ${cutoff} RETURNING token
+        `
+        return rows.length
+      }).pipe(Effect.orDie),
+
+    // -------------------------------------------------------------------------
+    // Reset
+    // -------------------------------------------------------------------------
+    // DELETE rather than TRUNCATE: TRUNCATE takes an exclusive lock that would
+    // block every lookup until a surrounding rebuild transaction commits,
+    // while DELETE lets readers keep seeing the old rows until then.
+    //
+    reset: Effect.gen(function*() {
+      yield* sql`DELETE FROM nicknames`
+      yield* sql`DELETE FROM user_names`
+      yield* sql`DELETE FROM address_labels`
+      yield* sql`DELETE FROM user_addresses`
+      yield* sql`DELETE FROM revert_tokens`
+    }).pipe(Effect.orDie)
   }
 
   return service
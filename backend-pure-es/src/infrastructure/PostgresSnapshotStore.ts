@@ -0,0 +1,73 @@
+// =============================================================================
+// PostgresSnapshotStore — Adapter Implementation
+// =============================================================================
+//
+// TABLE:
+//   - snapshots: (stream_id, version) → schema_version + encoded state (JSONB)
+//
+// `save` uses ON CONFLICT DO NOTHING: two writers snapshotting the same
+// version produce the same state, so the first one wins and the second is
+// a no-op — never an error that would abort the surrounding transaction.
+//
+import { PgClient } from "@effect/sql-pg"
+import { Effect, Layer, Option } from "effect"
+
+import { StreamId } from "../EventStore.js"
+import { SnapshotStore, type SnapshotStoreService } from "../SnapshotStore.js"
+
+// =============================================================================
+// Row Type
+// =============================================================================
+
+type SnapshotRow = {
+  stream_id: string
+  version: number
+  schema_version: number
+  state: unknown
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makePostgresSnapshotStore = Effect.gen(function*() {
+  const sql = yield* PgClient.PgClient
+
+  const service: SnapshotStoreService = {
+    latest: (streamId, schemaVersion) =>
+      sql<SnapshotRow>`
+        SELECT stream_id, version, schema_version, state
+        FROM snapshots
+        WHERE stream_id = ${streamId} AND schema_version = ${schemaVersion}
+        ORDER BY version DESC
+        LIMIT 1
+      `.pipe(
+        Effect.map(([row]) =>
+          Option.fromNullable(row).pipe(
+            Option.map((r) => ({
+              streamId: StreamId(r.stream_id),
+              version: r.version,
+              schemaVersion: r.schema_version,
+              state: r.state
+            }))
+          )
+        ),
+        Effect.orDie
+      ),
+
+    save: (snapshot) =>
+      sql`
+        INSERT INTO snapshots (stream_id, version, schema_version, state)
+        VALUES (${snapshot.streamId}, ${snapshot.version}, ${snapshot.schemaVersion}, ${JSON.stringify(snapshot.state)})
+        ON CONFLICT (stream_id, version) DO NOTHING
+      `.pipe(Effect.orDie, Effect.asVoid)
+  }
+
+  return service
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+export const PostgresSnapshotStore = Layer.effect(SnapshotStore, makePostgresSnapshotStore)
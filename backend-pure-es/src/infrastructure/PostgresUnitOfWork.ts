@@ -0,0 +1,44 @@
+// =============================================================================
+// PostgresUnitOfWork — Adapter Implementation
+// =============================================================================
+//
+// `atomically` = sql.withTransaction. Effect SQL tracks the open transaction
+// per fiber, so every adapter running queries through the same PgClient
+// (event stores, registry, outbox) joins it without being told.
+//
+// Nested withTransaction calls become savepoints — PostgresEventStore relies
+// on this to turn a unique violation into ConcurrencyConflict without
+// aborting the surrounding transaction.
+//
+import { PgClient } from "@effect/sql-pg"
+import { SqlError } from "@effect/sql/SqlError"
+import { Effect, Layer } from "effect"
+
+import { UnitOfWork, type UnitOfWorkService } from "../UnitOfWork.js"
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+const makePostgresUnitOfWork = Effect.gen(function*() {
+  const sql = yield* PgClient.PgClient
+
+  const service: UnitOfWorkService = {
+    // SqlError from BEGIN/COMMIT is a defect, as in the other adapters
+    atomically: (effect) =>
+      sql.withTransaction(effect).pipe(
+        Effect.catchIf(
+          (error): error is SqlError => error instanceof SqlError,
+          Effect.die
+        )
+      )
+  }
+
+  return service
+})
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+export const PostgresUnitOfWork = Layer.effect(UnitOfWork, makePostgresUnitOfWork)
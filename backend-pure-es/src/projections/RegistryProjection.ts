@@ -0,0 +1,61 @@
+// =============================================================================
+// RegistryProjection — Keep the Registry in sync with the event log
+// =============================================================================
+//
+// Routes each event from the global feed to the matching Registry projection
+// function. The Registry adapters already know how to apply events; this
+// module only decides WHICH function gets WHICH event.
+//
+// WHY, IF USE CASES ALREADY PROJECT INLINE?
+// Inline projection (right after append) gives read-your-writes: the next
+// request sees the new nickname/label/token immediately. But if the process
+// dies between append and projection, that update is lost — the log has the
+// event, the registry doesn't. Running this projection in the background
+// guarantees every committed event eventually reaches the registry.
+//
+// IDEMPOTENCY:
+// Events may be applied twice (inline + here). Registry projections are
+// upserts/deletes keyed by the event's own data, and the runner always
+// finishes by applying events in log order — so the registry converges to
+// the same state either way. That includes a replay from an old checkpoint
+// (or none, on first start) over a registry that is already ahead: an old
+// event must not collide with the rows later events left behind.
+//
+import { Effect, Match } from "effect"
+import { type Projection, type RebuildProgress, rebuildProjection } from "../application/ProjectionRunner.js"
+import { Registry } from "../Registry.js"
+
+// TYPE SAFETY: whatever isn't a user event must be an address event — if a
+// new UserEvent is added but not listed here, projectAddressEvent rejects it
+// at compile time.
+export const RegistryProjection: Projection<Registry> = {
+  name: "registry",
+  apply: ({ event, version }) =>
+    Effect.flatMap(Registry, (registry) =>
+      Match.value(event).pipe(
+        Match.tag(
+          "UserCreated",
+          "FirstNameChanged",
+          "LastNameChanged",
+          "LoginLinkRequested",
+          "LoggedIn",
+          "LoggedOut",
+          (e) => registry.projectUserEvent(e, version)
+        ),
+        Match.orElse((e) => registry.projectAddressEvent(e))
+      ))
+}
+
+// =============================================================================
+// rebuildRegistry
+// =============================================================================
+//
+// Wipes the Registry and replays the whole log into it. Use after corruption,
+// after changing projection logic, or to rehydrate an in-memory Registry
+// from a persisted event store.
+//
+export const rebuildRegistry = <R>(onProgress: (progress: RebuildProgress) => Effect.Effect<void, never, R>) =>
+  rebuildProjection(RegistryProjection, {
+    reset: Effect.flatMap(Registry, (registry) => registry.reset),
+    onProgress
+  })
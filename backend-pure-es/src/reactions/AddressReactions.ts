@@ -25,9 +25,10 @@
 // Pattern matching on sealed trait/ADT to route to different behaviors.
 //
 import { Effect, Match } from "effect"
+import { type AddressEvent, fieldDiffs } from "../domain/address/Events.js"
+import type { AddressFieldName } from "../domain/address/State.js"
+import { type EmailError, EmailService } from "../EmailService.js"
 import type { Email } from "../shared/Email.js"
-import { EmailService, type EmailError } from "../EmailService.js"
-import type { AddressEvent } from "../domain/address/Events.js"
 
 // =============================================================================
 // reactToAddressEvent
@@ -92,9 +93,7 @@ Address details:
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("LabelChanged", (e) =>
       sendEmail(
         userEmail,
@@ -103,9 +102,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("StreetNumberChanged", (e) =>
       sendEmail(
         userEmail,
@@ -114,9 +111,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("StreetNameChanged", (e) =>
       sendEmail(
         userEmail,
@@ -125,9 +120,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("ZipCodeChanged", (e) =>
       sendEmail(
         userEmail,
@@ -136,9 +129,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("CityChanged", (e) =>
       sendEmail(
         userEmail,
@@ -147,9 +138,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     Match.tag("CountryChanged", (e) =>
       sendEmail(
         userEmail,
@@ -158,9 +147,19 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to revert:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
+      )),
+    // One email for the whole change, whatever the number of fields: they
+    // share a single revert link, so they're confirmed (or undone) together.
+    Match.tag("AddressChanged", (e) =>
+      sendEmail(
+        userEmail,
+        "Address Changed - Please Confirm",
+        `Your address was changed:
+${fieldDiffs(e.changes).map((d) => `- ${fieldNames[d.field]}: "${d.oldValue}" → "${d.newValue}"`).join("\n")}
 
+If you did not make this change, click to revert all of it:
+${makeRevertUrl(e.revertToken)}`
+      )),
     Match.tag("AddressDeleted", (e) =>
       sendEmail(
         userEmail,
@@ -169,9 +168,7 @@ ${makeRevertUrl(e.revertToken)}`
 
 If you did not make this change, click to restore it:
 ${makeRevertUrl(e.revertToken)}`
-      )
-    ),
-
+      )),
     // -------------------------------------------------------------------------
     // CORRECTIONS → No Email
     // -------------------------------------------------------------------------
@@ -188,9 +185,9 @@ ${makeRevertUrl(e.revertToken)}`
     Match.tag("ZipCodeReverted", () => Effect.void),
     Match.tag("CityReverted", () => Effect.void),
     Match.tag("CountryReverted", () => Effect.void),
+    Match.tag("AddressChangeReverted", () => Effect.void),
     Match.tag("CreationReverted", () => Effect.void),
     Match.tag("AddressRestored", () => Effect.void),
-
     // -------------------------------------------------------------------------
     // EXHAUSTIVE CHECK
     // -------------------------------------------------------------------------
@@ -199,6 +196,15 @@ ${makeRevertUrl(e.revertToken)}`
     Match.exhaustive
   )
 
+const fieldNames: Record<AddressFieldName, string> = {
+  label: "label",
+  streetNumber: "street number",
+  streetName: "street name",
+  zipCode: "zip code",
+  city: "city",
+  country: "country"
+}
+
 // =============================================================================
 // Revert URL Builder
 // =============================================================================
@@ -209,8 +215,7 @@ ${makeRevertUrl(e.revertToken)}`
 //
 const FRONTEND_BASE_URL = process.env.FRONTEND_URL || "http://localhost:5173"
 
-const makeRevertUrl = (token: string): string =>
-  `${FRONTEND_BASE_URL}/revert/${token}`
+const makeRevertUrl = (token: string): string => `${FRONTEND_BASE_URL}/revert/${token}`
 
 // =============================================================================
 // sendEmail — Helper to construct and send
@@ -224,7 +229,7 @@ const sendEmail = (
   subject: string,
   body: string
 ): Effect.Effect<void, EmailError, EmailService> =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const emailService = yield* EmailService
     yield* emailService.send({ to, subject, body })
   })
@@ -0,0 +1,46 @@
+// =============================================================================
+// User Reactions — the login link email
+// =============================================================================
+//
+// Same trigger mechanism as AddressReactions.ts: match on the event, react.
+// Only one User event sends anything — LoginLinkRequested, whose email IS the
+// login. Renames, logins and logouts are things the user just did themselves.
+//
+// The event holds the token's claims, not the token: it's signed here, for
+// the email only (see LoginLinkRequested).
+//
+import { Effect, Match } from "effect"
+import { AuthTokenService } from "../AuthTokenService.js"
+import type { UserEvent } from "../domain/user/Events.js"
+import { type EmailError, EmailService } from "../EmailService.js"
+import type { Email } from "../shared/Email.js"
+
+export const reactToUserEvent = (
+  event: UserEvent,
+  userEmail: Email
+): Effect.Effect<void, EmailError, EmailService | AuthTokenService> =>
+  Match.value(event).pipe(
+    Match.tag("LoginLinkRequested", (e) =>
+      Effect.gen(function*() {
+        const tokens = yield* AuthTokenService
+        const loginToken = yield* tokens.mint({ kind: "Login", userId: e.id, tokenId: e.tokenId, issuedAt: e.issuedAt })
+        const emailService = yield* EmailService
+        yield* emailService.send({
+          to: userEmail,
+          subject: "Your Login Link",
+          body: `Someone — hopefully you — asked to log in to your account.
+
+Click to log in (the link works once, for a short while):
+${makeLoginUrl(loginToken)}
+
+If you didn't ask for this, ignore this email: nobody can log in without the link.`
+        })
+      })),
+    Match.tag("UserCreated", "FirstNameChanged", "LastNameChanged", "LoggedIn", "LoggedOut", () => Effect.void),
+    Match.exhaustive
+  )
+
+// Same base URL as the revert links (see AddressReactions.ts)
+const FRONTEND_BASE_URL = process.env.FRONTEND_URL || "http://localhost:5173"
+
+const makeLoginUrl = (token: string): string => `${FRONTEND_BASE_URL}/login/${token}`
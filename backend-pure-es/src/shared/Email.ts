@@ -26,11 +26,16 @@ import { Schema } from "effect"
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 
 // Schema with validation and branding
+// The brand's jsonSchema replaces the one Schema.pattern sets (both annotate
+// the same refinement), hence the pattern again — for the OpenAPI docs.
 const EmailSchema = Schema.String.pipe(
   Schema.pattern(EMAIL_PATTERN, {
     message: () => "Invalid email address format"
   }),
-  Schema.brand("Email")
+  Schema.brand("Email", {
+    description: "Email address — where the address-change notifications go",
+    jsonSchema: { pattern: EMAIL_PATTERN.source, examples: ["jean.dupont@example.com"] }
+  })
 )
 
 export type Email = typeof EmailSchema.Type
@@ -0,0 +1,97 @@
+// =============================================================================
+// Authenticate Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Verify the session token's signature (AuthTokenService, kind "Session")
+//   2. Check it's within the session TTL
+//   3. Load the User and check the session is still open (no LoggedOut)
+//   4. Return who's calling: userId + sessionId
+//
+// READ-ONLY: runs on every authenticated request (see the Authorization
+// middleware in http/ApiLive.ts), so it only folds the User stream — with
+// its snapshot — and records nothing.
+//
+// WHY CHECK THE STREAM AT ALL?
+// The signature proves we issued the token, not that it's still wanted. A
+// stateless token can't be revoked; checking it against the User's open
+// sessions is what makes logout actually log out.
+//
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
+import { AuthTokenService } from "../AuthTokenService.js"
+import { SessionTtl } from "../AuthTtl.js"
+import { sessionExpiresAt } from "../domain/user/decide.js"
+import { evolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { SessionId, UserId } from "../domain/user/State.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
+
+import { type AuthTokenUnverified } from "../AuthTokenService.js"
+
+import { type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AuthenticateInput {
+  readonly sessionToken: string
+}
+
+export interface AuthenticateOutput {
+  readonly userId: UserId
+  readonly sessionId: SessionId
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+// Past the session TTL — log in again
+export type SessionExpired = { readonly _tag: "SessionExpired"; readonly expiredAt: Date }
+
+// Logged out (or the user is gone) — the token is genuine but no longer honoured
+export type SessionClosed = { readonly _tag: "SessionClosed" }
+export { type AuthTokenUnverified }
+export { type EventDecodeError }
+
+export type AuthenticateError = AuthTokenUnverified | SessionExpired | SessionClosed | EventDecodeError
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const authenticate = (
+  input: AuthenticateInput
+): Effect.Effect<
+  AuthenticateOutput,
+  AuthenticateError,
+  AuthTokenService | UserEventStore
+> =>
+  Effect.gen(function*() {
+    // 1. Verify the signature
+    const tokens = yield* AuthTokenService
+    const claims = yield* tokens.verify("Session", input.sessionToken)
+    const sessionId = claims.tokenId as SessionId
+
+    // 2. Check the TTL (same boundary as the links: at expiresAt → expired)
+    const expiredAt = sessionExpiresAt(claims.issuedAt, yield* SessionTtl)
+    if ((yield* Clock.currentTimeMillis) >= expiredAt.getTime()) {
+      return yield* Effect.fail<SessionExpired>({ _tag: "SessionExpired", expiredAt })
+    }
+
+    // 3. Check the session is still open
+    const userStore = yield* UserEventStore
+    const { state } = yield* loadAggregate(userStore, StreamId(claims.userId), {
+      initialState: Option.none(),
+      evolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
+    if (Option.isNone(state) || !state.value.sessions.some((session) => session.sessionId === sessionId)) {
+      return yield* Effect.fail<SessionClosed>({ _tag: "SessionClosed" })
+    }
+
+    // 4. Who's calling
+    return { userId: claims.userId, sessionId }
+  })
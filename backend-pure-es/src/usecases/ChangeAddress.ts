@@ -0,0 +1,203 @@
+// =============================================================================
+// ChangeAddress Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Lookup user by nickname (get userId + email for reaction)
+//   2. Lookup address by (userId, label) — and, if the label changes, check
+//      the new one is free (the Registry maps each label to ONE address)
+//   3. Mint ONE signed revertToken for the whole change
+//   4. Execute ChangeAddress
+//   5. Project events to Registry
+//   6. React to events (ONE summarizing email, whatever the number of fields)
+//   7. Return the diff
+//
+// UpdateAddressField's big sibling: same steps, but any subset of the fields
+// at once. Moving house with UpdateAddressField means four or five requests,
+// tokens and emails — and undoing it means clicking every one of those links.
+//
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
+import { makeCommandHandler } from "../application/CommandHandler.js"
+import type { ChangeAddress } from "../domain/address/Commands.js"
+import { decide } from "../domain/address/decide.js"
+import { type AddressChanged, fieldDiffs } from "../domain/address/Events.js"
+import { evolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { FieldDiff } from "../domain/address/State.js"
+import { initialAddressState } from "../domain/address/State.js"
+import { evolve as userEvolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { UserId } from "../domain/user/State.js"
+import type { EmailSendError, EmailService } from "../EmailService.js"
+import { AddressEventStore, StreamId, UserEventStore } from "../EventStore.js"
+import { IdGenerator } from "../IdGenerator.js"
+import { reactToAddressEvent } from "../reactions/AddressReactions.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// The fields to change; omitted ones are left alone
+export type AddressFieldValues = ChangeAddress["fields"]
+
+export interface ChangeAddressInput {
+  readonly nickname: string
+  readonly label: string
+  readonly fields: AddressFieldValues
+}
+
+export interface ChangeAddressOutput {
+  readonly changes: ReadonlyArray<FieldDiff> // Only the fields that actually changed; empty for a no-op
+  readonly label: string // The address's label after the change
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type UserNotFound = { readonly _tag: "UserNotFound" }
+export type AddressNotFound = { readonly _tag: "AddressNotFound" }
+export type LabelAlreadyExists = { readonly _tag: "LabelAlreadyExists" }
+export { type EmailSendError }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type ChangeAddressError =
+  | UserNotFound
+  | AddressNotFound
+  | LabelAlreadyExists
+  | EmailSendError
+  | ConcurrencyConflict
+  | EventDecodeError
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+const addressCommandHandler = makeCommandHandler({
+  tag: AddressEventStore,
+  initialState: initialAddressState,
+  evolve,
+  decide,
+  snapshots: { codec: AddressStateSnapshot }
+})
+
+// =============================================================================
+// Helper: Load user email
+// =============================================================================
+
+const loadUserEmail = (userId: UserId) =>
+  Effect.gen(function*() {
+    const userStore = yield* UserEventStore
+    const { state } = yield* loadAggregate(userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve: userEvolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
+    return Option.map(state, (user) => user.email)
+  })
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const changeAddress = (
+  input: ChangeAddressInput
+): Effect.Effect<
+  ChangeAddressOutput,
+  ChangeAddressError,
+  IdGenerator | RevertTokenService | UserEventStore | AddressEventStore | Registry | EmailService | UnitOfWork
+> =>
+  Effect.gen(function*() {
+    const { fields, label, nickname } = input
+
+    // 1. Lookup user by nickname, and their email for the reaction
+    const registry = yield* Registry
+    const maybeUserId = yield* registry.getUserIdByNickname(nickname)
+    if (Option.isNone(maybeUserId)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+    const userId = maybeUserId.value
+
+    const maybeEmail = yield* loadUserEmail(userId)
+    if (Option.isNone(maybeEmail)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+    const userEmail = maybeEmail.value
+
+    // 2. Lookup address by (userId, label); a new label must be free
+    const maybeAddressId = yield* registry.getAddressIdByLabel(userId, label)
+    if (Option.isNone(maybeAddressId)) {
+      return yield* Effect.fail<AddressNotFound>({ _tag: "AddressNotFound" })
+    }
+    const addressId = maybeAddressId.value
+
+    if (fields.label !== undefined) {
+      const holder = yield* registry.getAddressIdByLabel(userId, fields.label)
+      if (Option.isSome(holder) && holder.value !== addressId) {
+        return yield* Effect.fail<LabelAlreadyExists>({ _tag: "LabelAlreadyExists" })
+      }
+    }
+
+    // 3. Mint ONE signed revertToken for every field
+    const idGenerator = yield* IdGenerator
+    const revertTokenIssuedAt = new Date(yield* Clock.currentTimeMillis)
+    const revertToken = yield* Effect.flatMap(RevertTokenService, (tokens) =>
+      Effect.flatMap(idGenerator.generate(), (tokenId) =>
+        tokens.mint({ addressId, tokenId, issuedAt: revertTokenIssuedAt })))
+
+    // The command, its registry entries and the queued email (see Outbox)
+    // commit as one unit of work — or not at all
+    const unitOfWork = yield* UnitOfWork
+    const events = yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 4. Execute ChangeAddress
+        const events = yield* addressCommandHandler(StreamId(addressId), {
+          _tag: "ChangeAddress",
+          id: addressId,
+          revertToken,
+          revertTokenIssuedAt,
+          fields
+        }).pipe(
+          // Narrow errors: ChangeAddress can only fail with AddressNotFound
+          Effect.catchTag("AddressAlreadyExists", () =>
+            Effect.die(new Error("BUG: AddressAlreadyExists should never occur for ChangeAddress command"))),
+          Effect.catchTag("RevertTokenInvalid", () =>
+            Effect.die(new Error("BUG: RevertTokenInvalid should never occur for ChangeAddress command"))),
+          Effect.catchTag("RevertTokenExpired", () =>
+            Effect.die(new Error("BUG: RevertTokenExpired should never occur for ChangeAddress command"))),
+          Effect.catchTag("RevertConflict", () =>
+            Effect.die(new Error("BUG: RevertConflict should never occur for ChangeAddress command")))
+        )
+
+        // 5. Project events to Registry
+        for (const event of events) {
+          yield* registry.projectAddressEvent(event)
+        }
+
+        // 6. React to events (one AddressChanged → one email)
+        for (const event of events) {
+          yield* reactToAddressEvent(event, userEmail)
+        }
+
+        return events
+      })
+    )
+
+    // 7. Return the diff — none if nothing changed (no event emitted)
+    const changed = events.find((e): e is AddressChanged =>
+      e._tag === "AddressChanged"
+    )
+    const changes = changed === undefined ? [] : fieldDiffs(changed.changes)
+    return {
+      changes,
+      label: changes.find((c) =>
+        c.field === "label"
+      )?.newValue ?? label
+    }
+  })
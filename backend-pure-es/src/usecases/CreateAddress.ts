@@ -5,7 +5,7 @@
 // ORCHESTRATION:
 //   1. Lookup user by nickname (get userId + email for reaction)
 //   2. Check label uniqueness for this user
-//   3. Generate addressId and revertToken
+//   3. Generate addressId and mint a signed revertToken (see RevertTokenService)
 //   4. Execute CreateAddress command via commandHandler
 //   5. Project events to Registry
 //   6. React to events (SEND EMAIL!)
@@ -14,20 +14,30 @@
 // THIS IS THE FIRST USE CASE THAT TRIGGERS AN EMAIL!
 // The core insight of the PoC: events → reactions.
 //
-import { Effect, Option } from "effect"
-import type { UserId } from "../domain/user/State.js"
-import type { Address, AddressId, RevertToken } from "../domain/address/State.js"
-import { UserEventStore, AddressEventStore, StreamId } from "../EventStore.js"
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
 import { makeCommandHandler } from "../application/CommandHandler.js"
 import { decide } from "../domain/address/decide.js"
 import { evolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { Address, AddressId } from "../domain/address/State.js"
 import { initialAddressState } from "../domain/address/State.js"
+import type { UserId } from "../domain/user/State.js"
+import { AddressEventStore, StreamId, UserEventStore } from "../EventStore.js"
 // User evolve needed for loadUserEmail helper (read-only)
 import { evolve as userEvolve } from "../domain/user/evolve.js"
-import { Registry } from "../Registry.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import { type EmailSendError, type EmailService } from "../EmailService.js"
 import { IdGenerator } from "../IdGenerator.js"
-import { EmailService } from "../EmailService.js"
 import { reactToAddressEvent } from "../reactions/AddressReactions.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+// Import specific domain error (not the full union)
+import { type AddressAlreadyExists } from "../domain/address/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
 
 // =============================================================================
 // Types
@@ -71,24 +81,23 @@ export interface CreateAddressOutput {
 //   - LabelAlreadyExists: address with this label exists (use case level)
 //   - AddressAlreadyExists: domain rejected (shouldn't happen if label check passed)
 //   - EmailSendError: email sending failed (reaction)
+//   - ConcurrencyConflict: stream changed between load and append (event store)
+//   - EventDecodeError: a stored event failed to decode (event store)
 //
 
 export type UserNotFound = { readonly _tag: "UserNotFound" }
 export type LabelAlreadyExists = { readonly _tag: "LabelAlreadyExists" }
-
-// Import specific domain error (not the full union)
-import { type AddressAlreadyExists } from "../domain/address/decide.js"
 export { type AddressAlreadyExists }
-
-// Import email error
-import { type EmailSendError } from "../EmailService.js"
 export { type EmailSendError }
+export { type ConcurrencyConflict, type EventDecodeError }
 
 export type CreateAddressError =
   | UserNotFound
   | LabelAlreadyExists
   | AddressAlreadyExists
   | EmailSendError
+  | ConcurrencyConflict
+  | EventDecodeError
 
 // =============================================================================
 // Command Handler
@@ -98,7 +107,8 @@ const addressCommandHandler = makeCommandHandler({
   tag: AddressEventStore,
   initialState: initialAddressState,
   evolve,
-  decide
+  decide,
+  snapshots: { codec: AddressStateSnapshot }
 })
 
 // NOTE: No userCommandHandler here — we only READ user state (for email),
@@ -109,10 +119,13 @@ const addressCommandHandler = makeCommandHandler({
 // =============================================================================
 
 const loadUserEmail = (userId: UserId) =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const userStore = yield* UserEventStore
-    const events = yield* userStore.load(StreamId(userId))
-    const state = events.reduce(userEvolve, Option.none())
+    const { state } = yield* loadAggregate(userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve: userEvolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
     return Option.map(state, (user) => user.email)
   })
 
@@ -125,10 +138,10 @@ export const createAddress = (
 ): Effect.Effect<
   CreateAddressOutput,
   CreateAddressError,
-  IdGenerator | UserEventStore | AddressEventStore | Registry | EmailService
+  IdGenerator | RevertTokenService | UserEventStore | AddressEventStore | Registry | EmailService | UnitOfWork
 > =>
-  Effect.gen(function* () {
-    const { nickname, label, streetNumber, streetName, zipCode, city, country } = input
+  Effect.gen(function*() {
+    const { city, country, label, nickname, streetName, streetNumber, zipCode } = input
 
     // 1. Lookup user by nickname
     const registry = yield* Registry
@@ -153,45 +166,58 @@ export const createAddress = (
       return yield* Effect.fail<LabelAlreadyExists>({ _tag: "LabelAlreadyExists" })
     }
 
-    // 4. Generate addressId and revertToken
+    // 4. Generate addressId, mint the signed revertToken
     const idGenerator = yield* IdGenerator
     const addressId = (yield* idGenerator.generate()) as AddressId
-    const revertToken = (yield* idGenerator.generate()) as RevertToken
-
-    // 5. Execute CreateAddress command
-    // NOTE: Narrowing error type — CreateAddress can only fail with AddressAlreadyExists.
-    // AddressNotFound and RevertTokenInvalid are impossible for this command.
-    const command = {
-      _tag: "CreateAddress" as const,
-      id: addressId,
-      userId,
-      revertToken,
-      label,
-      streetNumber,
-      streetName,
-      zipCode,
-      city,
-      country
-    }
-    const events = yield* addressCommandHandler(StreamId(addressId), command).pipe(
-      Effect.catchTag("AddressNotFound", () =>
-        Effect.die(new Error("BUG: AddressNotFound should never occur for CreateAddress command"))
-      ),
-      Effect.catchTag("RevertTokenInvalid", () =>
-        Effect.die(new Error("BUG: RevertTokenInvalid should never occur for CreateAddress command"))
-      )
+    const revertTokenIssuedAt = new Date(yield* Clock.currentTimeMillis)
+    const revertToken = yield* Effect.flatMap(RevertTokenService, (tokens) =>
+      Effect.flatMap(idGenerator.generate(), (tokenId) =>
+        tokens.mint({ addressId, tokenId, issuedAt: revertTokenIssuedAt })))
+
+    // The command, its registry entries and the queued email (see Outbox)
+    // commit as one unit of work — or not at all
+    const unitOfWork = yield* UnitOfWork
+    yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 5. Execute CreateAddress command
+        // NOTE: Narrowing error type — CreateAddress can only fail with AddressAlreadyExists.
+        // AddressNotFound and the revert-token errors are impossible for this command.
+        const command = {
+          _tag: "CreateAddress" as const,
+          id: addressId,
+          userId,
+          revertToken,
+          revertTokenIssuedAt,
+          label,
+          streetNumber,
+          streetName,
+          zipCode,
+          city,
+          country
+        }
+        const events = yield* addressCommandHandler(StreamId(addressId), command).pipe(
+          Effect.catchTag("AddressNotFound", () =>
+            Effect.die(new Error("BUG: AddressNotFound should never occur for CreateAddress command"))),
+          Effect.catchTag("RevertTokenInvalid", () =>
+            Effect.die(new Error("BUG: RevertTokenInvalid should never occur for CreateAddress command"))),
+          Effect.catchTag("RevertTokenExpired", () =>
+            Effect.die(new Error("BUG: RevertTokenExpired should never occur for CreateAddress command"))),
+          Effect.catchTag("RevertConflict", () =>
+            Effect.die(new Error("BUG: RevertConflict should never occur for CreateAddress command")))
+        )
+
+        // 6. Project events to Registry
+        for (const event of events) {
+          yield* registry.projectAddressEvent(event)
+        }
+
+        // 7. React to events (SEND EMAIL!)
+        for (const event of events) {
+          yield* reactToAddressEvent(event, userEmail)
+        }
+      })
     )
 
-    // 6. Project events to Registry
-    for (const event of events) {
-      yield* registry.projectAddressEvent(event)
-    }
-
-    // 7. React to events (SEND EMAIL!)
-    for (const event of events) {
-      yield* reactToAddressEvent(event, userEmail)
-    }
-
     // 8. Return result
     return {
       id: addressId,
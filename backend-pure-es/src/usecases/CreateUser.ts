@@ -7,11 +7,11 @@
 // and infrastructure without containing business logic.
 //
 // FLOW:
-//   1. Check if nickname already exists (uniqueness constraint)
+//   1. Check if nickname is already someone's current one (uniqueness constraint)
 //   2. Generate userId
 //   3. Execute CreateUser command via commandHandler
 //   4. Project UserCreated event to Registry
-//   5. Return user with derived nickname
+//   5. Return user with the nickname the Registry assigned
 //
 // NO EMAIL TRIGGERED — user creation is just setup.
 //
@@ -21,33 +21,15 @@
 //   - Registry: for projecting events and checking uniqueness
 //
 import { Effect, Option } from "effect"
-import type { UserId, FirstName, LastName } from "../domain/user/State.js"
-import type { Email } from "../shared/Email.js"
-import { UserEventStore } from "../EventStore.js"
 import { makeCommandHandler } from "../application/CommandHandler.js"
 import { decide } from "../domain/user/decide.js"
 import { evolve } from "../domain/user/evolve.js"
-import { Registry, deriveNickname } from "../Registry.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { FirstName, LastName, UserId } from "../domain/user/State.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
 import { IdGenerator } from "../IdGenerator.js"
-import { StreamId } from "../EventStore.js"
-
-// =============================================================================
-// Types
-// =============================================================================
-
-export interface CreateUserInput {
-  readonly email: Email
-  readonly firstName: FirstName
-  readonly lastName: LastName
-}
-
-export interface CreateUserOutput {
-  readonly id: UserId
-  readonly email: Email
-  readonly firstName: FirstName
-  readonly lastName: LastName
-  readonly nickname: string
-}
+import { deriveNickname, Registry } from "../Registry.js"
+import type { Email } from "../shared/Email.js"
 
 // =============================================================================
 // Error Types
@@ -77,15 +59,41 @@ export interface CreateUserOutput {
 //   - Or GADTs/dependent types (not available in TS)
 //
 import { type UserAlreadyExists } from "../domain/user/decide.js"
+
+// Concurrent append on the same stream (stale read) — surfaced to the caller
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CreateUserInput {
+  readonly email: Email
+  readonly firstName: FirstName
+  readonly lastName: LastName
+}
+
+export interface CreateUserOutput {
+  readonly id: UserId
+  readonly email: Email
+  readonly firstName: FirstName
+  readonly lastName: LastName
+  readonly nickname: string
+}
 export { type UserAlreadyExists }
 
-// Use case adds its own uniqueness check before calling domain
+// Use case adds its own uniqueness check before calling domain: another user
+// currently has this name. (A nickname only held from a past name doesn't
+// count — the Registry gives the newcomer a suffixed one, see Registry.ts.)
 export type NicknameAlreadyExists = { readonly _tag: "NicknameAlreadyExists" }
+export { type ConcurrencyConflict, type EventDecodeError }
 
 // Precise error type for this use case:
 // - UserAlreadyExists: from domain (CreateUser command rejected)
 // - NicknameAlreadyExists: from use case (uniqueness check)
-export type CreateUserError = UserAlreadyExists | NicknameAlreadyExists
+// - ConcurrencyConflict: from event store (optimistic concurrency check)
+// - EventDecodeError: from event store (a stored event failed to decode)
+export type CreateUserError = UserAlreadyExists | NicknameAlreadyExists | ConcurrencyConflict | EventDecodeError
 
 // =============================================================================
 // User Command Handler
@@ -95,7 +103,8 @@ const userCommandHandler = makeCommandHandler({
   tag: UserEventStore,
   initialState: Option.none(),
   evolve,
-  decide
+  decide,
+  snapshots: { codec: UserStateSnapshot }
 })
 
 // =============================================================================
@@ -109,16 +118,19 @@ export const createUser = (
   CreateUserError,
   IdGenerator | UserEventStore | Registry
 > =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const { email, firstName, lastName } = input
 
     // 1. Derive nickname and check uniqueness
-    const nickname = deriveNickname(firstName, lastName)
+    const derived = deriveNickname(firstName, lastName)
     const registry = yield* Registry
-    const existingUserId = yield* registry.getUserIdByNickname(nickname)
+    const existingUserId = yield* registry.getUserIdByNickname(derived)
 
     if (Option.isSome(existingUserId)) {
-      return yield* Effect.fail<NicknameAlreadyExists>({ _tag: "NicknameAlreadyExists" })
+      const current = yield* registry.getNicknameByUserId(existingUserId.value)
+      if (Option.contains(current, derived)) {
+        return yield* Effect.fail<NicknameAlreadyExists>({ _tag: "NicknameAlreadyExists" })
+      }
     }
 
     // 2. Generate userId
@@ -136,18 +148,23 @@ export const createUser = (
       firstName,
       lastName
     }
-    const events = yield* userCommandHandler(StreamId(userId), command).pipe(
+    const envelopes = yield* userCommandHandler.withEnvelopes(StreamId(userId), command).pipe(
       Effect.catchTag("UserNotFound", () =>
-        Effect.die(new Error("BUG: UserNotFound should never occur for CreateUser command"))
-      )
+        Effect.die(new Error("BUG: UserNotFound should never occur for CreateUser command"))),
+      Effect.catchTag("LoginLinkInvalid", () =>
+        Effect.die(new Error("BUG: LoginLinkInvalid should never occur for CreateUser command"))),
+      Effect.catchTag("LoginLinkExpired", () =>
+        Effect.die(new Error("BUG: LoginLinkExpired should never occur for CreateUser command")))
     )
 
     // 4. Project events to Registry
-    for (const event of events) {
-      yield* registry.projectUserEvent(event)
+    for (const { event, version } of envelopes) {
+      yield* registry.projectUserEvent(event, version)
     }
 
-    // 5. Return result
+    // 5. Return result — the nickname may carry a suffix (see Registry.ts)
+    const nickname = Option.getOrElse(yield* registry.getNicknameByUserId(userId), () =>
+      derived)
     return {
       id: userId,
       email,
@@ -0,0 +1,96 @@
+// =============================================================================
+// DeadLetters Use Cases (admin)
+// =============================================================================
+//
+// Emails the outbox dispatcher gave up on (see OutboxDispatcher.ts).
+//
+// ORCHESTRATION:
+//   listDeadLetters  — read the dead letters, oldest first
+//   replayDeadLetter — move one back to pending; the dispatcher's next poll
+//                      tries it again with a fresh retry budget
+//
+// Replay doesn't send anything itself: delivery stays the dispatcher's job,
+// so a replayed email goes through the same retry/backoff pipeline.
+//
+// REDACTED LINKS:
+// A listed body is for telling emails apart, not for clicking: its revert
+// and login links are blanked out. Whoever reads a dead login email's token
+// could log in as its recipient — the operator included. Replay is
+// unaffected: it re-queues the stored message, links intact.
+//
+import { Effect } from "effect"
+import { Outbox } from "../Outbox.js"
+import type { Email } from "../shared/Email.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ListDeadLettersInput {
+  readonly limit: number
+}
+
+export interface DeadLetterOutput {
+  readonly id: number
+  readonly to: Email
+  readonly subject: string
+  readonly body: string
+  readonly attempts: number
+  readonly lastError: string | null
+  readonly enqueuedAt: Date
+}
+
+export interface ReplayDeadLetterInput {
+  readonly id: number
+}
+
+export interface ReplayDeadLetterOutput {
+  readonly replayed: number
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type DeadLetterNotFound = { readonly _tag: "DeadLetterNotFound" }
+
+// =============================================================================
+// Helper: blank out the links' tokens
+// =============================================================================
+
+// The token is the last path segment of /revert/… and /login/… links
+// (see makeRevertUrl, makeLoginUrl in reactions/)
+const redactLinks = (body: string): string => body.replace(/\/(revert|login)\/[^\s/]+/g, "/$1/[redacted]")
+
+// =============================================================================
+// Use Case Implementations
+// =============================================================================
+
+export const listDeadLetters = (
+  input: ListDeadLettersInput
+): Effect.Effect<ReadonlyArray<DeadLetterOutput>, never, Outbox> =>
+  Effect.gen(function*() {
+    const outbox = yield* Outbox
+    const messages = yield* outbox.deadLetters(input.limit)
+    return messages.map((message) => ({
+      id: message.id,
+      to: message.email.to,
+      subject: message.email.subject,
+      body: redactLinks(message.email.body),
+      attempts: message.attempts,
+      lastError: message.lastError,
+      enqueuedAt: message.enqueuedAt
+    }))
+  })
+
+export const replayDeadLetter = (
+  input: ReplayDeadLetterInput
+): Effect.Effect<ReplayDeadLetterOutput, DeadLetterNotFound, Outbox> =>
+  Effect.gen(function*() {
+    const outbox = yield* Outbox
+    const replayed = yield* outbox.replay(input.id)
+    if (!replayed) {
+      return yield* Effect.fail<DeadLetterNotFound>({ _tag: "DeadLetterNotFound" })
+    }
+    return { replayed: input.id }
+  })
@@ -5,25 +5,31 @@
 // ORCHESTRATION:
 //   1. Lookup user by nickname
 //   2. Lookup address by (userId, label)
-//   3. Generate revertToken
+//   3. Mint a signed revertToken (see RevertTokenService)
 //   4. Execute DeleteAddress command
 //   5. Project events to Registry
 //   6. React to events (send "address deleted" email with restore link)
 //   7. Return deletion confirmation
 //
-import { Effect, Option } from "effect"
-import type { UserId } from "../domain/user/State.js"
-import type { AddressId, RevertToken } from "../domain/address/State.js"
-import { UserEventStore, AddressEventStore, StreamId } from "../EventStore.js"
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
 import { makeCommandHandler } from "../application/CommandHandler.js"
 import { decide } from "../domain/address/decide.js"
 import { evolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
 import { initialAddressState } from "../domain/address/State.js"
 import { evolve as userEvolve } from "../domain/user/evolve.js"
-import { Registry } from "../Registry.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { UserId } from "../domain/user/State.js"
+import type { EmailSendError, EmailService } from "../EmailService.js"
+import { AddressEventStore, StreamId, UserEventStore } from "../EventStore.js"
 import { IdGenerator } from "../IdGenerator.js"
-import { EmailService } from "../EmailService.js"
 import { reactToAddressEvent } from "../reactions/AddressReactions.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
 
 // =============================================================================
 // Types
@@ -45,14 +51,15 @@ export interface DeleteAddressOutput {
 
 export type UserNotFound = { readonly _tag: "UserNotFound" }
 export type AddressNotFound = { readonly _tag: "AddressNotFound" }
-
-import { type EmailSendError } from "../EmailService.js"
 export { type EmailSendError }
+export { type ConcurrencyConflict, type EventDecodeError }
 
 export type DeleteAddressError =
   | UserNotFound
   | AddressNotFound
   | EmailSendError
+  | ConcurrencyConflict
+  | EventDecodeError
 
 // =============================================================================
 // Command Handler
@@ -62,7 +69,8 @@ const addressCommandHandler = makeCommandHandler({
   tag: AddressEventStore,
   initialState: initialAddressState,
   evolve,
-  decide
+  decide,
+  snapshots: { codec: AddressStateSnapshot }
 })
 
 // =============================================================================
@@ -70,10 +78,13 @@ const addressCommandHandler = makeCommandHandler({
 // =============================================================================
 
 const loadUserEmail = (userId: UserId) =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const userStore = yield* UserEventStore
-    const events = yield* userStore.load(StreamId(userId))
-    const state = events.reduce(userEvolve, Option.none())
+    const { state } = yield* loadAggregate(userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve: userEvolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
     return Option.map(state, (user) => user.email)
   })
 
@@ -86,10 +97,10 @@ export const deleteAddress = (
 ): Effect.Effect<
   DeleteAddressOutput,
   DeleteAddressError,
-  IdGenerator | UserEventStore | AddressEventStore | Registry | EmailService
+  IdGenerator | RevertTokenService | UserEventStore | AddressEventStore | Registry | EmailService | UnitOfWork
 > =>
-  Effect.gen(function* () {
-    const { nickname, label } = input
+  Effect.gen(function*() {
+    const { label, nickname } = input
 
     // 1. Lookup user by nickname
     const registry = yield* Registry
@@ -114,37 +125,50 @@ export const deleteAddress = (
     }
     const addressId = maybeAddressId.value
 
-    // 4. Generate revertToken
+    // 4. Mint a signed revertToken
     const idGenerator = yield* IdGenerator
-    const revertToken = (yield* idGenerator.generate()) as RevertToken
-
-    // 5. Execute DeleteAddress command
-    const command = {
-      _tag: "DeleteAddress" as const,
-      id: addressId,
-      revertToken
-    }
-
-    const events = yield* addressCommandHandler(StreamId(addressId), command).pipe(
-      // Narrow errors: DeleteAddress can only fail with AddressNotFound
-      Effect.catchTag("AddressAlreadyExists", () =>
-        Effect.die(new Error("BUG: AddressAlreadyExists should never occur for DeleteAddress"))
-      ),
-      Effect.catchTag("RevertTokenInvalid", () =>
-        Effect.die(new Error("BUG: RevertTokenInvalid should never occur for DeleteAddress"))
-      )
+    const revertTokenIssuedAt = new Date(yield* Clock.currentTimeMillis)
+    const revertToken = yield* Effect.flatMap(RevertTokenService, (tokens) =>
+      Effect.flatMap(idGenerator.generate(), (tokenId) =>
+        tokens.mint({ addressId, tokenId, issuedAt: revertTokenIssuedAt })))
+
+    // The command, its registry entries and the queued email (see Outbox)
+    // commit as one unit of work — or not at all
+    const unitOfWork = yield* UnitOfWork
+    yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 5. Execute DeleteAddress command
+        const command = {
+          _tag: "DeleteAddress" as const,
+          id: addressId,
+          revertToken,
+          revertTokenIssuedAt
+        }
+
+        const events = yield* addressCommandHandler(StreamId(addressId), command).pipe(
+          // Narrow errors: DeleteAddress can only fail with AddressNotFound
+          Effect.catchTag("AddressAlreadyExists", () =>
+            Effect.die(new Error("BUG: AddressAlreadyExists should never occur for DeleteAddress"))),
+          Effect.catchTag("RevertTokenInvalid", () =>
+            Effect.die(new Error("BUG: RevertTokenInvalid should never occur for DeleteAddress"))),
+          Effect.catchTag("RevertTokenExpired", () =>
+            Effect.die(new Error("BUG: RevertTokenExpired should never occur for DeleteAddress"))),
+          Effect.catchTag("RevertConflict", () =>
+            Effect.die(new Error("BUG: RevertConflict should never occur for DeleteAddress")))
+        )
+
+        // 6. Project events to Registry
+        for (const event of events) {
+          yield* registry.projectAddressEvent(event)
+        }
+
+        // 7. React to events (send email)
+        for (const event of events) {
+          yield* reactToAddressEvent(event, userEmail)
+        }
+      })
     )
 
-    // 6. Project events to Registry
-    for (const event of events) {
-      yield* registry.projectAddressEvent(event)
-    }
-
-    // 7. React to events (send email)
-    for (const event of events) {
-      yield* reactToAddressEvent(event, userEmail)
-    }
-
     // 8. Return result
     return {
       deleted: true,
@@ -0,0 +1,262 @@
+// =============================================================================
+// GetAddressHistory Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Lookup user by nickname
+//   2. Lookup address by (userId, label)
+//   3. Load the address's envelopes → fold → get the pending reverts
+//   4. Turn each event into a timeline entry, link reverts to what they undid
+//   5. Return one page, newest first
+//
+// READ-ONLY: No commands, no events emitted, no emails.
+//
+// The event stream IS the history — nothing to record on top. Each entry is
+// identified by its event's version in the address stream (1-based, gapless),
+// which is also the pagination cursor: `before` = "entries older than this".
+//
+// REVERTABLE / REVERTED BY:
+// A user action is still revertable when its token is in the folded state's
+// pendingReverts and within its TTL — the same rules PreviewRevert applies.
+// A correction (*Reverted, CreationReverted, AddressRestored) carries the
+// token it consumed, so matching tokens links it to the action it undid.
+// The tokens themselves never leave this use case: they're what the email's
+// revert link carries, and whoever holds one can use it.
+//
+import { Array, Clock, Effect, Match, Option } from "effect"
+import { revertTokenExpiresAt } from "../domain/address/decide.js"
+import { type AddressEvent, fieldDiffs } from "../domain/address/Events.js"
+import { evolve } from "../domain/address/evolve.js"
+import type { Address, AddressFieldName, FieldDiff, RevertToken } from "../domain/address/State.js"
+import { initialAddressState } from "../domain/address/State.js"
+import { AddressEventStore, StreamId } from "../EventStore.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenTtl } from "../RevertTokenTtl.js"
+
+import { type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GetAddressHistoryInput {
+  readonly nickname: string
+  readonly label: string
+  readonly limit: number
+  readonly before?: number // A version: only entries older than it
+}
+
+export type AddressFields = Omit<Address, "id" | "userId">
+
+// What happened — one variant per kind of event
+export type HistoryChange =
+  | { readonly _tag: "Created"; readonly address: AddressFields }
+  | {
+    readonly _tag: "FieldChanged"
+    readonly field: AddressFieldName
+    readonly oldValue: string
+    readonly newValue: string
+  }
+  | { readonly _tag: "AddressChanged"; readonly changes: ReadonlyArray<FieldDiff> }
+  | { readonly _tag: "Deleted"; readonly address: AddressFields }
+  | {
+    readonly _tag: "FieldReverted"
+    readonly field: AddressFieldName
+    readonly oldValue: string // The value reverted from
+    readonly newValue: string // The value restored
+  }
+  | { readonly _tag: "AddressChangeReverted"; readonly changes: ReadonlyArray<FieldDiff> } // oldValue → newValue as above
+  | { readonly _tag: "CreationReverted" }
+  | { readonly _tag: "Restored"; readonly address: AddressFields }
+
+export interface HistoryEntry {
+  readonly version: number
+  readonly recordedAt: Date
+  readonly description: string
+  readonly change: HistoryChange
+  readonly revertable: boolean // User actions only: the email's link still works
+  readonly revertedBy: number | null // User actions only: the correction that undid it
+  readonly reverts: number | null // Corrections only: the action it undid
+}
+
+export interface GetAddressHistoryOutput {
+  readonly entries: ReadonlyArray<HistoryEntry> // Newest first
+  readonly total: number
+  readonly nextBefore: number | null // Cursor for the next (older) page; null on the last one
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type UserNotFound = { readonly _tag: "UserNotFound" }
+export type AddressNotFound = { readonly _tag: "AddressNotFound" }
+export { type EventDecodeError }
+
+export type GetAddressHistoryError = UserNotFound | AddressNotFound | EventDecodeError
+
+// =============================================================================
+// Helpers: describe an event
+// =============================================================================
+
+const addressFields = (e: AddressFields): AddressFields => ({
+  label: e.label,
+  streetNumber: e.streetNumber,
+  streetName: e.streetName,
+  zipCode: e.zipCode,
+  city: e.city,
+  country: e.country
+})
+
+const fieldNames: Record<AddressFieldName, string> = {
+  label: "Label",
+  streetNumber: "Street number",
+  streetName: "Street name",
+  zipCode: "Zip code",
+  city: "City",
+  country: "Country"
+}
+
+const oneLine = (a: AddressFields) => `${a.streetNumber} ${a.streetName}, ${a.zipCode} ${a.city}, ${a.country}`
+
+const diffs = (changes: ReadonlyArray<FieldDiff>) =>
+  changes.map((d) => `${fieldNames[d.field]} "${d.oldValue}" → "${d.newValue}"`).join(", ")
+
+const fieldChanged = (field: AddressFieldName, e: { oldValue: string; newValue: string }): HistoryChange => ({
+  _tag: "FieldChanged",
+  field,
+  oldValue: e.oldValue,
+  newValue: e.newValue
+})
+
+const fieldReverted = (field: AddressFieldName, e: { oldValue: string; newValue: string }): HistoryChange => ({
+  _tag: "FieldReverted",
+  field,
+  oldValue: e.oldValue,
+  newValue: e.newValue
+})
+
+const toChange = (event: AddressEvent): HistoryChange =>
+  Match.value(event).pipe(
+    Match.tag("AddressCreated", (e): HistoryChange => ({ _tag: "Created", address: addressFields(e) })),
+    Match.tag("LabelChanged", (e) => fieldChanged("label", e)),
+    Match.tag("StreetNumberChanged", (e) => fieldChanged("streetNumber", e)),
+    Match.tag("StreetNameChanged", (e) => fieldChanged("streetName", e)),
+    Match.tag("ZipCodeChanged", (e) => fieldChanged("zipCode", e)),
+    Match.tag("CityChanged", (e) => fieldChanged("city", e)),
+    Match.tag("CountryChanged", (e) => fieldChanged("country", e)),
+    Match.tag("AddressChanged", (e): HistoryChange => ({ _tag: "AddressChanged", changes: fieldDiffs(e.changes) })),
+    Match.tag("AddressDeleted", (e): HistoryChange => ({ _tag: "Deleted", address: addressFields(e) })),
+    Match.tag("LabelReverted", (e) => fieldReverted("label", e)),
+    Match.tag("StreetNumberReverted", (e) => fieldReverted("streetNumber", e)),
+    Match.tag("StreetNameReverted", (e) => fieldReverted("streetName", e)),
+    Match.tag("ZipCodeReverted", (e) => fieldReverted("zipCode", e)),
+    Match.tag("CityReverted", (e) => fieldReverted("city", e)),
+    Match.tag("CountryReverted", (e) => fieldReverted("country", e)),
+    Match.tag(
+      "AddressChangeReverted",
+      (e): HistoryChange => ({ _tag: "AddressChangeReverted", changes: fieldDiffs(e.changes) })
+    ),
+    Match.tag("CreationReverted", (): HistoryChange => ({ _tag: "CreationReverted" })),
+    Match.tag("AddressRestored", (e): HistoryChange => ({ _tag: "Restored", address: addressFields(e) })),
+    Match.exhaustive
+  )
+
+const describeChange = (change: HistoryChange): string =>
+  Match.value(change).pipe(
+    Match.tag("Created", (c) => `Address created: ${oneLine(c.address)}`),
+    Match.tag("FieldChanged", (c) => `${fieldNames[c.field]} changed from "${c.oldValue}" to "${c.newValue}"`),
+    Match.tag("AddressChanged", (c) => `Address changed: ${diffs(c.changes)}`),
+    Match.tag("Deleted", (c) => `Address deleted: ${oneLine(c.address)}`),
+    Match.tag("FieldReverted", (c) => `${fieldNames[c.field]} reverted from "${c.oldValue}" to "${c.newValue}"`),
+    Match.tag("AddressChangeReverted", (c) => `Address change reverted: ${diffs(c.changes)}`),
+    Match.tag("CreationReverted", () => "Address creation reverted"),
+    Match.tag("Restored", (c) => `Address restored: ${oneLine(c.address)}`),
+    Match.exhaustive
+  )
+
+// Corrections consume the token of the action they undo; user actions issue one
+const isCorrection = (change: HistoryChange) =>
+  change._tag === "FieldReverted" ||
+  change._tag === "AddressChangeReverted" ||
+  change._tag === "CreationReverted" ||
+  change._tag === "Restored"
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const getAddressHistory = (
+  input: GetAddressHistoryInput
+): Effect.Effect<
+  GetAddressHistoryOutput,
+  GetAddressHistoryError,
+  AddressEventStore | Registry
+> =>
+  Effect.gen(function*() {
+    const { before, label, limit, nickname } = input
+
+    // 1. Lookup user by nickname
+    const registry = yield* Registry
+    const maybeUserId = yield* registry.getUserIdByNickname(nickname)
+    if (Option.isNone(maybeUserId)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+
+    // 2. Lookup address by (userId, label)
+    const maybeAddressId = yield* registry.getAddressIdByLabel(maybeUserId.value, label)
+    if (Option.isNone(maybeAddressId)) {
+      return yield* Effect.fail<AddressNotFound>({ _tag: "AddressNotFound" })
+    }
+
+    // 3. Load every envelope (the whole history is needed anyway) and fold.
+    //    No snapshot: it would skip the very events we're listing.
+    const addressStore = yield* AddressEventStore
+    const envelopes = yield* addressStore.loadEnvelopes(StreamId(maybeAddressId.value))
+    const { pendingReverts } = envelopes.reduce((state, env) => evolve(state, env.event), initialAddressState)
+
+    const ttl = yield* RevertTokenTtl
+    const now = yield* Clock.currentTimeMillis
+    const stillRevertable = (token: RevertToken) => {
+      const pending = pendingReverts.get(token)
+      return pending !== undefined && now < revertTokenExpiresAt(pending.issuedAt, ttl).getTime()
+    }
+
+    // 4. Oldest first: an action's token is always issued before it's consumed
+    const issuedBy = new Map<RevertToken, number>()
+    const consumedBy = new Map<RevertToken, number>()
+    for (const { event, version } of envelopes) {
+      if (isCorrection(toChange(event))) {
+        consumedBy.set(event.revertToken, version)
+      } else {
+        issuedBy.set(event.revertToken, version)
+      }
+    }
+
+    const entries: ReadonlyArray<HistoryEntry> = envelopes.map(({ event, recordedAt, version }) => {
+      const change = toChange(event)
+      const correction = isCorrection(change)
+      return {
+        version,
+        recordedAt,
+        description: describeChange(change),
+        change,
+        revertable: !correction && stillRevertable(event.revertToken),
+        revertedBy: correction ? null : consumedBy.get(event.revertToken) ?? null,
+        reverts: correction ? issuedBy.get(event.revertToken) ?? null : null
+      }
+    })
+
+    // 5. One page, newest first
+    const older = [...entries].reverse().filter((entry) => before === undefined || entry.version < before)
+    const page = older.slice(0, limit)
+    const hasMore = older.length > page.length
+    return {
+      entries: page,
+      total: entries.length,
+      nextBefore: Option.match(Array.last(page), {
+        onNone: () => null,
+        onSome: (oldest) => (hasMore ? oldest.version : null)
+      })
+    }
+  })
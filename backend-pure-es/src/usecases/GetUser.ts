@@ -3,11 +3,11 @@
 // =============================================================================
 //
 // ORCHESTRATION:
-//   1. Lookup userId by nickname
+//   1. Lookup userId by nickname (a past nickname works too — see Registry.ts)
 //   2. Load user events → fold → get user state
 //   3. Get address IDs for this user
 //   4. For each addressId: load events → fold → get address state
-//   5. Return user + addresses
+//   5. Return user + addresses, and the user's current nickname
 //
 // READ-ONLY: No commands, no events emitted, no emails.
 //
@@ -15,22 +15,55 @@
 // This is pure event sourcing: state is derived from events on read.
 // No separate "user table" — we replay history to get current state.
 //
+// TIME TRAVEL:
+// Given `at`, every fold stops at that point (see loadAggregateAt) and the
+// result is the profile as it was then — including addresses that were
+// later deleted or had their creation reverted. A user who didn't exist yet
+// is UserNotFound.
+//
+// `at` may also be a version of the USER's stream: the profile right after
+// the user's Nth event. Address streams have versions of their own, so it's
+// turned into that event's log position, and every stream is folded up to
+// there. A version the user never reached is UserNotFound, like a point
+// before its creation.
+//
 import { Effect, Option } from "effect"
-import type { UserId, FirstName, LastName } from "../domain/user/State.js"
-import type { Email } from "../shared/Email.js"
-import type { AddressId, Label, StreetNumber, StreetName, ZipCode, City, Country } from "../domain/address/State.js"
-import { UserEventStore, AddressEventStore, StreamId } from "../EventStore.js"
-import { evolve as userEvolve } from "../domain/user/evolve.js"
+import {
+  loadAggregate,
+  loadAggregateAt,
+  type PointInTime,
+  type SnapshotPolicy
+} from "../application/AggregateLoader.js"
 import { evolve as addressEvolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { AddressId, City, Country, Label, StreetName, StreetNumber, ZipCode } from "../domain/address/State.js"
 import { initialAddressState } from "../domain/address/State.js"
+import { evolve as userEvolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { FirstName, LastName, UserId } from "../domain/user/State.js"
+import {
+  AddressEventStore,
+  type EventDecodeError,
+  type EventStoreService,
+  StreamId,
+  UserEventStore
+} from "../EventStore.js"
 import { Registry } from "../Registry.js"
+import type { Email } from "../shared/Email.js"
 
 // =============================================================================
 // Types
 // =============================================================================
 
+// After the user's Nth event (1-based, as stream versions are)
+export interface AtVersion {
+  readonly _tag: "AtVersion"
+  readonly version: number
+}
+
 export interface GetUserInput {
   readonly nickname: string
+  readonly at?: PointInTime | AtVersion // Omitted: the current profile
 }
 
 export interface UserOutput {
@@ -51,6 +84,8 @@ export interface AddressOutput {
 }
 
 export interface GetUserOutput {
+  // Canonical: differs from the input when that was a past nickname
+  readonly nickname: string
   readonly user: UserOutput
   readonly addresses: ReadonlyArray<AddressOutput>
 }
@@ -60,8 +95,24 @@ export interface GetUserOutput {
 // =============================================================================
 
 export type UserNotFound = { readonly _tag: "UserNotFound" }
+export { type EventDecodeError }
 
-export type GetUserError = UserNotFound
+export type GetUserError = UserNotFound | EventDecodeError
+
+// =============================================================================
+// Helper: fold now, or at a point in the past
+// =============================================================================
+
+const loadAt = <S, E, I>(
+  at: PointInTime | undefined,
+  store: EventStoreService<E>,
+  streamId: StreamId,
+  config: {
+    readonly initialState: S
+    readonly evolve: (state: S, event: E) => S
+    readonly snapshots: SnapshotPolicy<S, I>
+  }
+) => at === undefined ? loadAggregate(store, streamId, config) : loadAggregateAt(store, streamId, config, at)
 
 // =============================================================================
 // Use Case Implementation
@@ -74,7 +125,7 @@ export const getUser = (
   GetUserError,
   UserEventStore | AddressEventStore | Registry
 > =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const { nickname } = input
 
     // 1. Lookup userId by nickname
@@ -85,28 +136,51 @@ export const getUser = (
       return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
     }
     const userId = maybeUserId.value
-
-    // 2. Load user events and fold to get current state
     const userStore = yield* UserEventStore
-    const userEvents = yield* userStore.load(StreamId(userId))
-    const userState = userEvents.reduce(userEvolve, Option.none())
+
+    // A user version → the log position of that event (see TIME TRAVEL)
+    let at: PointInTime | undefined
+    if (input.at?._tag === "AtVersion") {
+      const version = input.at.version
+      const envelopes = yield* userStore.loadEnvelopes(StreamId(userId))
+      const envelope = envelopes.find((candidate) => candidate.version === version)
+      if (envelope === undefined) {
+        return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+      }
+      at = { _tag: "AtPosition", position: envelope.position }
+    } else {
+      at = input.at
+    }
+
+    // 2. Load user events and fold to get current state (from a snapshot, if any)
+    const { state: userState } = yield* loadAt(at, userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve: userEvolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
 
     if (Option.isNone(userState)) {
-      // Shouldn't happen if Registry is consistent, but handle gracefully
+      // Not created yet at `at` — or, without it, an inconsistent Registry
       return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
     }
     const user = userState.value
 
     // 3. Get all address IDs for this user
-    const addressIds = yield* registry.getAddressIdsByUserId(userId)
+    //    (in the past, any address may have existed — not just today's)
+    const addressIds = at === undefined
+      ? yield* registry.getAddressIdsByUserId(userId)
+      : yield* registry.getAllAddressIdsByUserId(userId)
 
     // 4. For each addressId, load events and fold to get current state
     const addressStore = yield* AddressEventStore
-    const addresses: AddressOutput[] = []
+    const addresses: Array<AddressOutput> = []
 
     for (const addressId of addressIds) {
-      const addressEvents = yield* addressStore.load(StreamId(addressId))
-      const addressState = addressEvents.reduce(addressEvolve, initialAddressState)
+      const { state: addressState } = yield* loadAt(at, addressStore, StreamId(addressId), {
+        initialState: initialAddressState,
+        evolve: addressEvolve,
+        snapshots: { codec: AddressStateSnapshot }
+      })
 
       // Only include if address exists (not deleted/reverted)
       if (addressState.address !== null) {
@@ -123,7 +197,9 @@ export const getUser = (
     }
 
     // 5. Return user + addresses
+    const currentNickname = yield* registry.getNicknameByUserId(userId)
     return {
+      nickname: Option.getOrElse(currentNickname, () => nickname),
       user: {
         id: userId,
         email: user.email,
@@ -0,0 +1,132 @@
+// =============================================================================
+// LogIn Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   0. Verify the login token's signature (AuthTokenService, kind "Login")
+//   1. Execute LogIn command (with "now" and the link TTL — decide refuses a
+//      link that isn't pending or is past it, see LoginLinkTtl)
+//   2. Project events to Registry
+//   3. Mint the session token (kind "Session") for the new SessionId
+//   4. Return it, with the user's nickname and when the session ends
+//
+// No Registry lookup to find the user: the verified token names it. Like a
+// revert link, the login link is what proves the caller read the email.
+//
+import { Clock, Effect, Option } from "effect"
+import { makeCommandHandler } from "../application/CommandHandler.js"
+import { AuthTokenService } from "../AuthTokenService.js"
+import { LoginLinkTtl, SessionTtl } from "../AuthTtl.js"
+import { decide, sessionExpiresAt } from "../domain/user/decide.js"
+import { evolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { LoginTokenId, SessionId } from "../domain/user/State.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
+import { IdGenerator } from "../IdGenerator.js"
+import { Registry } from "../Registry.js"
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+import { type AuthTokenUnverified } from "../AuthTokenService.js"
+
+import { type LoginLinkExpired, type LoginLinkInvalid } from "../domain/user/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LogInInput {
+  readonly token: string // From the emailed link
+}
+
+export interface LogInOutput {
+  readonly sessionToken: string // Bearer credential for authenticated requests
+  readonly nickname: string
+  readonly expiresAt: Date
+}
+export { type AuthTokenUnverified }
+export { type LoginLinkExpired, type LoginLinkInvalid }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type LogInError =
+  | AuthTokenUnverified
+  | LoginLinkInvalid
+  | LoginLinkExpired
+  | ConcurrencyConflict
+  | EventDecodeError
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+const userCommandHandler = makeCommandHandler({
+  tag: UserEventStore,
+  initialState: Option.none(),
+  evolve,
+  decide,
+  snapshots: { codec: UserStateSnapshot }
+})
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const logIn = (
+  input: LogInInput
+): Effect.Effect<
+  LogInOutput,
+  LogInError,
+  IdGenerator | AuthTokenService | UserEventStore | Registry
+> =>
+  Effect.gen(function*() {
+    // 0. Check the signature first: a forged token never reaches the store
+    const tokens = yield* AuthTokenService
+    const claims = yield* tokens.verify("Login", input.token)
+    const userId = claims.userId
+
+    // 1. Execute LogIn command
+    const idGenerator = yield* IdGenerator
+    const sessionId = (yield* idGenerator.generate()) as SessionId
+    const now = new Date(yield* Clock.currentTimeMillis)
+    const sessionTtl = yield* SessionTtl
+    const command = {
+      _tag: "LogIn" as const,
+      id: userId,
+      tokenId: claims.tokenId as LoginTokenId,
+      sessionId,
+      requestedAt: now,
+      linkTtl: yield* LoginLinkTtl,
+      sessionTtl
+    }
+    const envelopes = yield* userCommandHandler.withEnvelopes(StreamId(userId), command).pipe(
+      // A signed token for a user with no stream — we never issue those
+      Effect.catchTag("UserNotFound", () =>
+        Effect.die(new Error("BUG: UserNotFound should never occur for a verified login token"))),
+      Effect.catchTag("UserAlreadyExists", () =>
+        Effect.die(new Error("BUG: UserAlreadyExists should never occur for LogIn command")))
+    )
+
+    // 2. Project events to Registry
+    const registry = yield* Registry
+    for (const { event, version } of envelopes) {
+      yield* registry.projectUserEvent(event, version)
+    }
+
+    // 3. Mint the session token
+    const sessionToken = yield* tokens.mint({ kind: "Session", userId, tokenId: sessionId, issuedAt: now })
+
+    // 4. Return it, with the nickname for the redirect
+    const maybeNickname = yield* registry.getNicknameByUserId(userId)
+    if (Option.isNone(maybeNickname)) {
+      return yield* Effect.die(new Error("BUG: No nickname for a logged-in user"))
+    }
+    return {
+      sessionToken,
+      nickname: maybeNickname.value,
+      expiresAt: sessionExpiresAt(now, sessionTtl)
+    }
+  })
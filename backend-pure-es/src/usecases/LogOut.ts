@@ -0,0 +1,95 @@
+// =============================================================================
+// LogOut Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Execute LogOut command → LoggedOut (nothing if already closed)
+//   2. Project events to Registry
+//   3. Return whether a session was closed
+//
+// The caller is already authenticated (the Authorization middleware ran
+// Authenticate), so the input is its userId + sessionId, not a token.
+// Once LoggedOut is recorded, Authenticate refuses the session's token.
+//
+import { Effect, Option } from "effect"
+import { makeCommandHandler } from "../application/CommandHandler.js"
+import { decide } from "../domain/user/decide.js"
+import { evolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { SessionId, UserId } from "../domain/user/State.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
+import { Registry } from "../Registry.js"
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+import { type UserNotFound } from "../domain/user/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LogOutInput {
+  readonly userId: UserId
+  readonly sessionId: SessionId
+}
+
+export interface LogOutOutput {
+  readonly loggedOut: boolean // false: the session was already closed
+}
+export { type UserNotFound }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type LogOutError = UserNotFound | ConcurrencyConflict | EventDecodeError
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+const userCommandHandler = makeCommandHandler({
+  tag: UserEventStore,
+  initialState: Option.none(),
+  evolve,
+  decide,
+  snapshots: { codec: UserStateSnapshot }
+})
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const logOut = (
+  input: LogOutInput
+): Effect.Effect<
+  LogOutOutput,
+  LogOutError,
+  UserEventStore | Registry
+> =>
+  Effect.gen(function*() {
+    const { sessionId, userId } = input
+
+    // 1. Execute LogOut command
+    const envelopes = yield* userCommandHandler.withEnvelopes(
+      StreamId(userId),
+      { _tag: "LogOut" as const, id: userId, sessionId }
+    ).pipe(
+      Effect.catchTag("UserAlreadyExists", () =>
+        Effect.die(new Error("BUG: UserAlreadyExists should never occur for LogOut command"))),
+      Effect.catchTag("LoginLinkInvalid", () =>
+        Effect.die(new Error("BUG: LoginLinkInvalid should never occur for LogOut command"))),
+      Effect.catchTag("LoginLinkExpired", () =>
+        Effect.die(new Error("BUG: LoginLinkExpired should never occur for LogOut command")))
+    )
+
+    // 2. Project events to Registry
+    const registry = yield* Registry
+    for (const { event, version } of envelopes) {
+      yield* registry.projectUserEvent(event, version)
+    }
+
+    // 3. Return result
+    return { loggedOut: envelopes.length > 0 }
+  })
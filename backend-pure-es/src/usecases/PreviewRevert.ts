@@ -0,0 +1,162 @@
+// =============================================================================
+// PreviewRevert Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   0. Verify the token's signature (RevertTokenService) — a legacy
+//      unsigned token skips this step, and is checked from step 1 on
+//   1. Lookup address by revert token
+//   2. Load address events → fold → get address state
+//   3. Find the token's pending revert, check it's still within its TTL
+//   4. Describe what a revert would undo
+//
+// READ-ONLY: No commands, no events emitted, no token consumed.
+//
+// WHY?
+// Mail clients' link scanners (and accidental clicks) follow links in emails.
+// If opening the link reverted straight away, they'd burn the token. The page
+// now GETs this preview first and only POSTs /revert/:token once the user
+// confirms.
+//
+// The pending revert in the folded state IS the description: it already holds
+// the field's old/new value, or the address snapshot for creation/deletion.
+//
+import { Clock, Effect, Match, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
+import { revertTokenExpiresAt } from "../domain/address/decide.js"
+import { evolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { Address, AddressFieldName, FieldDiff, RevertToken } from "../domain/address/State.js"
+import { initialAddressState } from "../domain/address/State.js"
+import { AddressEventStore, StreamId } from "../EventStore.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { RevertTokenTtl } from "../RevertTokenTtl.js"
+
+import { isLegacyRevertToken, type RevertTokenUnverified } from "../RevertTokenService.js"
+
+import { type RevertTokenExpired, type RevertTokenInvalid } from "../domain/address/decide.js"
+
+import { type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PreviewRevertInput {
+  readonly token: RevertToken
+}
+
+export type AddressFields = Omit<Address, "id" | "userId">
+
+export interface FieldChangePreview {
+  readonly field: AddressFieldName
+  readonly oldValue: string // What the revert restores
+  readonly newValue: string // What the email's change set
+  readonly currentValue: string | null // What's there now (differs from newValue → the revert will conflict)
+}
+
+// What the revert would do — mirrors RevertableChange, minus internals
+export type RevertPreview =
+  | ({ readonly _tag: "FieldChange" } & FieldChangePreview)
+  | {
+    readonly _tag: "AddressChange"
+    readonly changes: ReadonlyArray<FieldChangePreview> // Restored together, each as above
+  }
+  | { readonly _tag: "Creation"; readonly address: AddressFields } // Revert deletes this address
+  | { readonly _tag: "Deletion"; readonly address: AddressFields } // Revert restores this address
+
+export interface PreviewRevertOutput {
+  readonly change: RevertPreview
+  readonly expiresAt: Date
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+export type TokenNotFound = { readonly _tag: "TokenNotFound" }
+export { type RevertTokenUnverified }
+export { type RevertTokenExpired, type RevertTokenInvalid }
+export { type EventDecodeError }
+
+export type PreviewRevertError =
+  | TokenNotFound
+  | RevertTokenUnverified
+  | RevertTokenInvalid
+  | RevertTokenExpired
+  | EventDecodeError
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+const addressFields = (address: Address): AddressFields => ({
+  label: address.label,
+  streetNumber: address.streetNumber,
+  streetName: address.streetName,
+  zipCode: address.zipCode,
+  city: address.city,
+  country: address.country
+})
+
+export const previewRevert = (
+  input: PreviewRevertInput
+): Effect.Effect<
+  PreviewRevertOutput,
+  PreviewRevertError,
+  AddressEventStore | Registry | RevertTokenService
+> =>
+  Effect.gen(function*() {
+    const { token } = input
+
+    // 0. Check the signature first: a forged token never reaches the Registry.
+    //    Legacy unsigned tokens go on to the lookup and expiry checks.
+    yield* Effect.flatMap(RevertTokenService, (tokens) => tokens.verify(token)).pipe(
+      Effect.catchIf(isLegacyRevertToken, () => Effect.void)
+    )
+
+    // 1. Lookup address by token
+    const registry = yield* Registry
+    const maybeAddressId = yield* registry.getAddressIdByToken(token)
+
+    if (Option.isNone(maybeAddressId)) {
+      return yield* Effect.fail<TokenNotFound>({ _tag: "TokenNotFound" })
+    }
+
+    // 2. Load address events and fold (from a snapshot, if any)
+    const addressStore = yield* AddressEventStore
+    const { state } = yield* loadAggregate(addressStore, StreamId(maybeAddressId.value), {
+      initialState: initialAddressState,
+      evolve,
+      snapshots: { codec: AddressStateSnapshot }
+    })
+
+    // 3. Same validity rules as decide's RevertChange: known, unused, not expired
+    const pendingRevert = state.pendingReverts.get(token)
+    if (pendingRevert === undefined) {
+      return yield* Effect.fail<RevertTokenInvalid>({ _tag: "RevertTokenInvalid", token })
+    }
+
+    const expiresAt = revertTokenExpiresAt(pendingRevert.issuedAt, yield* RevertTokenTtl)
+    if ((yield* Clock.currentTimeMillis) >= expiresAt.getTime()) {
+      return yield* Effect.fail<RevertTokenExpired>({ _tag: "RevertTokenExpired", token, expiredAt: expiresAt })
+    }
+
+    // 4. Describe it
+    const preview = (diff: FieldDiff): FieldChangePreview => ({
+      field: diff.field,
+      oldValue: diff.oldValue,
+      newValue: diff.newValue,
+      currentValue: state.address === null ? null : state.address[diff.field]
+    })
+    const change = Match.value(pendingRevert).pipe(
+      Match.tag("FieldChange", (pr): RevertPreview => ({ _tag: "FieldChange", ...preview(pr) })),
+      Match.tag("AddressChange", (pr): RevertPreview => ({ _tag: "AddressChange", changes: pr.changes.map(preview) })),
+      Match.tag("Creation", (pr): RevertPreview => ({ _tag: "Creation", address: addressFields(pr.snapshot) })),
+      Match.tag("Deletion", (pr): RevertPreview => ({ _tag: "Deletion", address: addressFields(pr.snapshot) })),
+      Match.exhaustive
+    )
+
+    return { change, expiresAt }
+  })
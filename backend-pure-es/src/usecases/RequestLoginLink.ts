@@ -0,0 +1,146 @@
+// =============================================================================
+// RequestLoginLink Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Lookup user by nickname
+//   2. Load the user's email (the link goes to the address on file)
+//   3. Pick the login token's id and issue time
+//   4. Execute RequestLoginLink command → LoginLinkRequested
+//   5. Project events to Registry
+//   6. React: sign the token and email the link (queued in the Outbox, like
+//      the safety emails)
+//   7. Return when the link stops working
+//
+// WHY A NICKNAME, NOT AN EMAIL?
+// Emails aren't unique here — two users may share one — while a nickname
+// always names exactly one user. The caller never learns the email, and the
+// token never leaves the email: the response only says when it expires.
+//
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
+import { makeCommandHandler } from "../application/CommandHandler.js"
+import type { AuthTokenService } from "../AuthTokenService.js"
+import { LoginLinkTtl } from "../AuthTtl.js"
+import { decide, loginLinkExpiresAt } from "../domain/user/decide.js"
+import { evolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { LoginTokenId, UserId } from "../domain/user/State.js"
+import type { EmailSendError, EmailService } from "../EmailService.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
+import { IdGenerator } from "../IdGenerator.js"
+import { reactToUserEvent } from "../reactions/UserReactions.js"
+import { Registry } from "../Registry.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+import { type UserNotFound } from "../domain/user/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RequestLoginLinkInput {
+  readonly nickname: string
+}
+
+export interface RequestLoginLinkOutput {
+  readonly expiresAt: Date
+}
+export { type UserNotFound }
+export { type EmailSendError }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type RequestLoginLinkError = UserNotFound | EmailSendError | ConcurrencyConflict | EventDecodeError
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+const userCommandHandler = makeCommandHandler({
+  tag: UserEventStore,
+  initialState: Option.none(),
+  evolve,
+  decide,
+  snapshots: { codec: UserStateSnapshot }
+})
+
+const loadUserEmail = (userId: UserId) =>
+  Effect.gen(function*() {
+    const userStore = yield* UserEventStore
+    const { state } = yield* loadAggregate(userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
+    return Option.map(state, (user) => user.email)
+  })
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const requestLoginLink = (
+  input: RequestLoginLinkInput
+): Effect.Effect<
+  RequestLoginLinkOutput,
+  RequestLoginLinkError,
+  IdGenerator | AuthTokenService | UserEventStore | Registry | EmailService | UnitOfWork
+> =>
+  Effect.gen(function*() {
+    // 1. Lookup user by nickname
+    const registry = yield* Registry
+    const maybeUserId = yield* registry.getUserIdByNickname(input.nickname)
+    if (Option.isNone(maybeUserId)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+    const userId = maybeUserId.value
+
+    // 2. Get user email for the reaction
+    const maybeEmail = yield* loadUserEmail(userId)
+    if (Option.isNone(maybeEmail)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+    const userEmail = maybeEmail.value
+
+    // 3. The token's claims — signed only by the reaction, for the email
+    const idGenerator = yield* IdGenerator
+    const tokenId = (yield* idGenerator.generate()) as LoginTokenId
+    const issuedAt = new Date(yield* Clock.currentTimeMillis)
+
+    const unitOfWork = yield* UnitOfWork
+    yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 4. Execute RequestLoginLink command
+        const envelopes = yield* userCommandHandler.withEnvelopes(
+          StreamId(userId),
+          { _tag: "RequestLoginLink" as const, id: userId, tokenId, issuedAt }
+        ).pipe(
+          Effect.catchTag("UserAlreadyExists", () =>
+            Effect.die(new Error("BUG: UserAlreadyExists should never occur for RequestLoginLink command"))),
+          Effect.catchTag("LoginLinkInvalid", () =>
+            Effect.die(new Error("BUG: LoginLinkInvalid should never occur for RequestLoginLink command"))),
+          Effect.catchTag("LoginLinkExpired", () =>
+            Effect.die(new Error("BUG: LoginLinkExpired should never occur for RequestLoginLink command")))
+        )
+
+        // 5. Project events to Registry
+        for (const { event, version } of envelopes) {
+          yield* registry.projectUserEvent(event, version)
+        }
+
+        // 6. React to events (SEND THE LINK)
+        for (const { event } of envelopes) {
+          yield* reactToUserEvent(event, userEmail)
+        }
+      })
+    )
+
+    // 7. Return result
+    return { expiresAt: loginLinkExpiresAt(issuedAt, yield* LoginLinkTtl) }
+  })
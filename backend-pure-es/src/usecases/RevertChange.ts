@@ -3,24 +3,40 @@
 // =============================================================================
 //
 // ORCHESTRATION:
+//   0. Verify the token's signature (RevertTokenService) — a legacy
+//      unsigned token skips this step, and is checked from step 1 on
 //   1. Lookup address by revert token
-//   2. Execute RevertChange command
-//   3. Project events to Registry
-//   4. Return confirmation
+//   2. Refuse a revert that would put back a label another of the user's
+//      addresses holds now (LabelAlreadyExists, like any other relabel)
+//   3. Execute RevertChange command (with "now" and the token TTL — decide
+//      refuses tokens past it, see RevertTokenTtl.ts — and the force flag,
+//      which overrides a RevertConflict when the field changed since)
+//   4. Project events to Registry
+//   5. Return confirmation
 //
 // THIS IS THE CLIMAX OF THE POC!
 // User clicks revert link → change is undone → NO spam email loop.
 // The "correction" events (e.g., CityReverted) don't trigger emails.
 //
-import { Effect, Option } from "effect"
-import type { RevertToken } from "../domain/address/State.js"
-import { AddressEventStore, UserEventStore, StreamId } from "../EventStore.js"
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
 import { makeCommandHandler } from "../application/CommandHandler.js"
 import { decide } from "../domain/address/decide.js"
 import { evolve } from "../domain/address/evolve.js"
-import { evolve as userEvolve } from "../domain/user/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { AddressState, RevertToken } from "../domain/address/State.js"
 import { initialAddressState } from "../domain/address/State.js"
-import { Registry, deriveNickname } from "../Registry.js"
+import type { UserId } from "../domain/user/State.js"
+import { AddressEventStore, StreamId } from "../EventStore.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { RevertTokenTtl } from "../RevertTokenTtl.js"
+
+import { isLegacyRevertToken, type RevertTokenUnverified } from "../RevertTokenService.js"
+
+import { type RevertConflict, type RevertTokenExpired, type RevertTokenInvalid } from "../domain/address/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
 
 // =============================================================================
 // NOTE: No EmailService, No reactToAddressEvent
@@ -42,6 +58,7 @@ import { Registry, deriveNickname } from "../Registry.js"
 
 export interface RevertChangeInput {
   readonly token: RevertToken
+  readonly force?: boolean // Revert even if the field was changed again since the email
 }
 
 export interface RevertChangeOutput {
@@ -56,10 +73,21 @@ export interface RevertChangeOutput {
 
 export type TokenNotFound = { readonly _tag: "TokenNotFound" }
 
-import { type RevertTokenInvalid } from "../domain/address/decide.js"
-export { type RevertTokenInvalid }
-
-export type RevertChangeError = TokenNotFound | RevertTokenInvalid
+// The revert would put back a label another of the user's addresses took since
+export type LabelAlreadyExists = { readonly _tag: "LabelAlreadyExists" }
+export { type RevertTokenUnverified }
+export { type RevertConflict, type RevertTokenExpired, type RevertTokenInvalid }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type RevertChangeError =
+  | TokenNotFound
+  | LabelAlreadyExists
+  | RevertTokenUnverified
+  | RevertTokenInvalid
+  | RevertTokenExpired
+  | RevertConflict
+  | ConcurrencyConflict
+  | EventDecodeError
 
 // =============================================================================
 // Command Handler
@@ -69,9 +97,45 @@ const addressCommandHandler = makeCommandHandler({
   tag: AddressEventStore,
   initialState: initialAddressState,
   evolve,
-  decide
+  decide,
+  snapshots: { codec: AddressStateSnapshot }
 })
 
+// =============================================================================
+// Helper: the label a revert would put back
+// =============================================================================
+//
+// Labels are unique per user, and a revert restores an OLD label — one the
+// address gave up, which another address may have taken in the meantime
+// (home renamed office, a new address created as home, then the rename
+// reverted). Field reverts, AddressChange reverts with a label in the diff
+// and restored deletions all bring a label back; undoing a creation doesn't.
+// Unknown tokens and dead addresses yield None: decide reports those.
+//
+const labelToRestore = (
+  state: AddressState,
+  token: RevertToken
+): Option.Option<{ readonly userId: UserId; readonly label: string }> => {
+  const pendingRevert = state.pendingReverts.get(token)
+  if (pendingRevert === undefined) return Option.none()
+  switch (pendingRevert._tag) {
+    case "FieldChange":
+      return state.address !== null && pendingRevert.field === "label"
+        ? Option.some({ userId: state.address.userId, label: pendingRevert.oldValue })
+        : Option.none()
+    case "AddressChange": {
+      const diff = pendingRevert.changes.find((change) => change.field === "label")
+      return state.address !== null && diff !== undefined
+        ? Option.some({ userId: state.address.userId, label: diff.oldValue })
+        : Option.none()
+    }
+    case "Deletion":
+      return Option.some({ userId: pendingRevert.snapshot.userId, label: pendingRevert.snapshot.label })
+    case "Creation":
+      return Option.none()
+  }
+}
+
 // =============================================================================
 // Use Case Implementation
 // =============================================================================
@@ -81,11 +145,17 @@ export const revertChange = (
 ): Effect.Effect<
   RevertChangeOutput,
   RevertChangeError,
-  AddressEventStore | UserEventStore | Registry
+  AddressEventStore | Registry | RevertTokenService
 > =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const { token } = input
 
+    // 0. Check the signature first: a forged token never reaches the Registry.
+    //    Legacy unsigned tokens go on to the lookup and expiry checks.
+    yield* Effect.flatMap(RevertTokenService, (tokens) => tokens.verify(token)).pipe(
+      Effect.catchIf(isLegacyRevertToken, () => Effect.void)
+    )
+
     // 1. Lookup address by token
     const registry = yield* Registry
     const maybeAddressId = yield* registry.getAddressIdByToken(token)
@@ -95,51 +165,67 @@ export const revertChange = (
     }
     const addressId = maybeAddressId.value
 
-    // 2. Execute RevertChange command
+    // 2. The label it restores must still be free (force doesn't override
+    //    this: labels are how the user's addresses are told apart)
+    const { state } = yield* loadAggregate(yield* AddressEventStore, StreamId(addressId), {
+      initialState: initialAddressState,
+      evolve,
+      snapshots: { codec: AddressStateSnapshot }
+    })
+    const restored = labelToRestore(state, token)
+    if (Option.isSome(restored)) {
+      const holder = yield* registry.getAddressIdByLabel(restored.value.userId, restored.value.label)
+      if (Option.isSome(holder) && holder.value !== addressId) {
+        return yield* Effect.fail<LabelAlreadyExists>({ _tag: "LabelAlreadyExists" })
+      }
+    }
+
+    // 3. Execute RevertChange command
     const command = {
       _tag: "RevertChange" as const,
       id: addressId,
-      revertToken: token
+      revertToken: token,
+      requestedAt: new Date(yield* Clock.currentTimeMillis),
+      tokenTtl: yield* RevertTokenTtl,
+      force: input.force ?? false
     }
     const events = yield* addressCommandHandler(StreamId(addressId), command).pipe(
-      // Narrow errors: RevertChange can only fail with RevertTokenInvalid
+      // Narrow errors: RevertChange can only fail with RevertTokenInvalid / RevertTokenExpired / RevertConflict
       Effect.catchTag("AddressNotFound", () =>
-        Effect.die(new Error("BUG: AddressNotFound should never occur for RevertChange command"))
-      ),
+        Effect.die(new Error("BUG: AddressNotFound should never occur for RevertChange command"))),
       Effect.catchTag("AddressAlreadyExists", () =>
-        Effect.die(new Error("BUG: AddressAlreadyExists should never occur for RevertChange command"))
-      )
+        Effect.die(new Error("BUG: AddressAlreadyExists should never occur for RevertChange command")))
     )
 
-    // 3. Project events to Registry
+    // 4. Project events to Registry
     //    (consumes the token — subsequent lookups will return None)
     for (const event of events) {
       yield* registry.projectAddressEvent(event)
     }
 
-    // 4. Get nickname for redirect
+    // 5. Get nickname for redirect
     //    Load address events to find the AddressCreated event (has userId)
     const addressStore = yield* AddressEventStore
     const addressEvents = yield* addressStore.load(StreamId(addressId))
 
     // The userId is on the AddressCreated event
-    const createdEvent = addressEvents.find(e => e._tag === "AddressCreated")
+    const createdEvent = addressEvents.find((e) =>
+      e._tag === "AddressCreated"
+    )
     if (!createdEvent || createdEvent._tag !== "AddressCreated") {
       return yield* Effect.die(new Error("BUG: No AddressCreated event found"))
     }
     const userId = createdEvent.userId
 
-    const userStore = yield* UserEventStore
-    const userEvents = yield* userStore.load(StreamId(userId))
-    const userState = userEvents.reduce(userEvolve, Option.none())
-
-    if (Option.isNone(userState)) {
+    // The current nickname, which is not necessarily the one the user's
+    // name derives to (suffixes, see Registry.ts)
+    const maybeNickname = yield* registry.getNicknameByUserId(userId)
+    if (Option.isNone(maybeNickname)) {
       return yield* Effect.die(new Error("BUG: User not found for address"))
     }
-    const user = userState.value
-    const nickname = deriveNickname(user.firstName, user.lastName)
+    const nickname = maybeNickname.value
 
-    // 5. Return confirmation with nickname for redirect
+    // 6. Return confirmation with nickname for redirect
     //    NOTE: No reactToAddressEvent call — corrections are SILENT (no email)
     return {
       reverted: true,
@@ -4,8 +4,9 @@
 //
 // ORCHESTRATION:
 //   1. Lookup user by nickname (get userId + email for reaction)
-//   2. Lookup address by (userId, label)
-//   3. Generate revertToken
+//   2. Lookup address by (userId, label) — and, for a rename, check the new
+//      label is free (the Registry maps each label to ONE address)
+//   3. Mint a signed revertToken (see RevertTokenService)
 //   4. Execute the appropriate Change* command
 //   5. Project events to Registry
 //   6. React to events (SEND FIELD-SPECIFIC EMAIL!)
@@ -14,19 +15,26 @@
 // THIS IS THE "DIFFERENT EMAILS PER FIELD" USE CASE!
 // The boss's challenge: "different messages based on which field changed."
 //
-import { Effect, Option } from "effect"
-import type { UserId } from "../domain/user/State.js"
-import type { AddressId, RevertToken, AddressFieldName } from "../domain/address/State.js"
-import { UserEventStore, AddressEventStore, StreamId } from "../EventStore.js"
+import { Clock, Effect, Option } from "effect"
+import { loadAggregate } from "../application/AggregateLoader.js"
 import { makeCommandHandler } from "../application/CommandHandler.js"
 import { decide } from "../domain/address/decide.js"
 import { evolve } from "../domain/address/evolve.js"
+import { AddressStateSnapshot } from "../domain/address/Snapshot.js"
+import type { AddressFieldName, AddressId, RevertToken } from "../domain/address/State.js"
 import { initialAddressState } from "../domain/address/State.js"
 import { evolve as userEvolve } from "../domain/user/evolve.js"
-import { Registry } from "../Registry.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { UserId } from "../domain/user/State.js"
+import type { EmailSendError, EmailService } from "../EmailService.js"
+import { AddressEventStore, StreamId, UserEventStore } from "../EventStore.js"
 import { IdGenerator } from "../IdGenerator.js"
-import { EmailService } from "../EmailService.js"
 import { reactToAddressEvent } from "../reactions/AddressReactions.js"
+import { Registry } from "../Registry.js"
+import { RevertTokenService } from "../RevertTokenService.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
 
 // =============================================================================
 // Types
@@ -51,14 +59,17 @@ export interface UpdateAddressFieldOutput {
 
 export type UserNotFound = { readonly _tag: "UserNotFound" }
 export type AddressNotFound = { readonly _tag: "AddressNotFound" }
-
-import { type EmailSendError } from "../EmailService.js"
+export type LabelAlreadyExists = { readonly _tag: "LabelAlreadyExists" }
 export { type EmailSendError }
+export { type ConcurrencyConflict, type EventDecodeError }
 
 export type UpdateAddressFieldError =
   | UserNotFound
   | AddressNotFound
+  | LabelAlreadyExists
   | EmailSendError
+  | ConcurrencyConflict
+  | EventDecodeError
 
 // =============================================================================
 // Command Handler
@@ -68,7 +79,8 @@ const addressCommandHandler = makeCommandHandler({
   tag: AddressEventStore,
   initialState: initialAddressState,
   evolve,
-  decide
+  decide,
+  snapshots: { codec: AddressStateSnapshot }
 })
 
 // =============================================================================
@@ -76,10 +88,13 @@ const addressCommandHandler = makeCommandHandler({
 // =============================================================================
 
 const loadUserEmail = (userId: UserId) =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const userStore = yield* UserEventStore
-    const events = yield* userStore.load(StreamId(userId))
-    const state = events.reduce(userEvolve, Option.none())
+    const { state } = yield* loadAggregate(userStore, StreamId(userId), {
+      initialState: Option.none(),
+      evolve: userEvolve,
+      snapshots: { codec: UserStateSnapshot }
+    })
     return Option.map(state, (user) => user.email)
   })
 
@@ -88,10 +103,14 @@ const loadUserEmail = (userId: UserId) =>
 // =============================================================================
 
 const loadAddressState = (addressId: AddressId) =>
-  Effect.gen(function* () {
+  Effect.gen(function*() {
     const addressStore = yield* AddressEventStore
-    const events = yield* addressStore.load(StreamId(addressId))
-    return events.reduce(evolve, initialAddressState)
+    const { state } = yield* loadAggregate(addressStore, StreamId(addressId), {
+      initialState: initialAddressState,
+      evolve,
+      snapshots: { codec: AddressStateSnapshot }
+    })
+    return state
   })
 
 // =============================================================================
@@ -99,7 +118,7 @@ const loadAddressState = (addressId: AddressId) =>
 // =============================================================================
 //
 // Maps field name to command _tag. The command structure is uniform:
-//   { _tag, id, revertToken, [field]: value }
+//   { _tag, id, revertToken, revertTokenIssuedAt, [field]: value }
 //
 const fieldToCommandTag: Record<AddressFieldName, string> = {
   label: "ChangeLabel",
@@ -114,11 +133,13 @@ const makeChangeCommand = (
   field: AddressFieldName,
   addressId: AddressId,
   revertToken: RevertToken,
+  revertTokenIssuedAt: Date,
   value: string
 ) => ({
   _tag: fieldToCommandTag[field],
   id: addressId,
   revertToken,
+  revertTokenIssuedAt,
   [field]: value
 })
 
@@ -131,10 +152,10 @@ export const updateAddressField = (
 ): Effect.Effect<
   UpdateAddressFieldOutput,
   UpdateAddressFieldError,
-  IdGenerator | UserEventStore | AddressEventStore | Registry | EmailService
+  IdGenerator | RevertTokenService | UserEventStore | AddressEventStore | Registry | EmailService | UnitOfWork
 > =>
-  Effect.gen(function* () {
-    const { nickname, label, field, value } = input
+  Effect.gen(function*() {
+    const { field, label, nickname, value } = input
 
     // 1. Lookup user by nickname
     const registry = yield* Registry
@@ -159,6 +180,13 @@ export const updateAddressField = (
     }
     const addressId = maybeAddressId.value
 
+    if (field === "label") {
+      const holder = yield* registry.getAddressIdByLabel(userId, value)
+      if (Option.isSome(holder) && holder.value !== addressId) {
+        return yield* Effect.fail<LabelAlreadyExists>({ _tag: "LabelAlreadyExists" })
+      }
+    }
+
     // 4. Load current address state to get old value
     const addressState = yield* loadAddressState(addressId)
     if (addressState.address === null) {
@@ -166,32 +194,44 @@ export const updateAddressField = (
     }
     const oldValue = addressState.address[field] as string
 
-    // 5. Generate revertToken
+    // 5. Mint a signed revertToken
     const idGenerator = yield* IdGenerator
-    const revertToken = (yield* idGenerator.generate()) as RevertToken
-
-    // 6. Execute the Change* command
-    const command = makeChangeCommand(field, addressId, revertToken, value)
-    const events = yield* addressCommandHandler(StreamId(addressId), command as any).pipe(
-      // Narrow errors: Change* can only fail with AddressNotFound
-      Effect.catchTag("AddressAlreadyExists", () =>
-        Effect.die(new Error("BUG: AddressAlreadyExists should never occur for Change* command"))
-      ),
-      Effect.catchTag("RevertTokenInvalid", () =>
-        Effect.die(new Error("BUG: RevertTokenInvalid should never occur for Change* command"))
-      )
+    const revertTokenIssuedAt = new Date(yield* Clock.currentTimeMillis)
+    const revertToken = yield* Effect.flatMap(RevertTokenService, (tokens) =>
+      Effect.flatMap(idGenerator.generate(), (tokenId) =>
+        tokens.mint({ addressId, tokenId, issuedAt: revertTokenIssuedAt })))
+
+    // The command, its registry entries and the queued email (see Outbox)
+    // commit as one unit of work — or not at all
+    const unitOfWork = yield* UnitOfWork
+    yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 6. Execute the Change* command
+        const command = makeChangeCommand(field, addressId, revertToken, revertTokenIssuedAt, value)
+        const events = yield* addressCommandHandler(StreamId(addressId), command as any).pipe(
+          // Narrow errors: Change* can only fail with AddressNotFound
+          Effect.catchTag("AddressAlreadyExists", () =>
+            Effect.die(new Error("BUG: AddressAlreadyExists should never occur for Change* command"))),
+          Effect.catchTag("RevertTokenInvalid", () =>
+            Effect.die(new Error("BUG: RevertTokenInvalid should never occur for Change* command"))),
+          Effect.catchTag("RevertTokenExpired", () =>
+            Effect.die(new Error("BUG: RevertTokenExpired should never occur for Change* command"))),
+          Effect.catchTag("RevertConflict", () =>
+            Effect.die(new Error("BUG: RevertConflict should never occur for Change* command")))
+        )
+
+        // 7. Project events to Registry
+        for (const event of events) {
+          yield* registry.projectAddressEvent(event)
+        }
+
+        // 8. React to events (SEND FIELD-SPECIFIC EMAIL!)
+        for (const event of events) {
+          yield* reactToAddressEvent(event, userEmail)
+        }
+      })
     )
 
-    // 7. Project events to Registry
-    for (const event of events) {
-      yield* registry.projectAddressEvent(event)
-    }
-
-    // 8. React to events (SEND FIELD-SPECIFIC EMAIL!)
-    for (const event of events) {
-      yield* reactToAddressEvent(event, userEmail)
-    }
-
     // 9. Return result
     // Note: if value === oldValue, no event was emitted (no-op), we still return
     return {
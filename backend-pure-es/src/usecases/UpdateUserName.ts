@@ -0,0 +1,137 @@
+// =============================================================================
+// UpdateUserName Use Case
+// =============================================================================
+//
+// ORCHESTRATION:
+//   1. Lookup user by nickname
+//   2. Execute ChangeFirstName / ChangeLastName (depending on the field)
+//   3. Project events to Registry
+//   4. Return the change, with the user's nickname — a new one if the rename
+//      changed it (the old one keeps resolving, see Registry.ts)
+//
+// Same shape as UpdateAddressField — one field per request — but NO EMAIL:
+// fixing a typo in your own name isn't a change anyone needs to be warned
+// about (and there's nothing to revert).
+//
+import { Effect, Option } from "effect"
+import { makeCommandHandler } from "../application/CommandHandler.js"
+import { decide } from "../domain/user/decide.js"
+import type { FirstNameChanged, LastNameChanged } from "../domain/user/Events.js"
+import { evolve } from "../domain/user/evolve.js"
+import { UserStateSnapshot } from "../domain/user/Snapshot.js"
+import type { FirstName, LastName, UserId } from "../domain/user/State.js"
+import { StreamId, UserEventStore } from "../EventStore.js"
+import { Registry } from "../Registry.js"
+import { UnitOfWork } from "../UnitOfWork.js"
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+import { type UserNotFound } from "../domain/user/decide.js"
+
+import { type ConcurrencyConflict, type EventDecodeError } from "../EventStore.js"
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// A discriminated union rather than { field, value: string }: each field
+// carries its own branded type, so the command below needs no cast.
+export type UpdateUserNameInput =
+  | { readonly nickname: string; readonly field: "firstName"; readonly value: FirstName }
+  | { readonly nickname: string; readonly field: "lastName"; readonly value: LastName }
+
+export type UserNameField = UpdateUserNameInput["field"]
+
+export interface UpdateUserNameOutput {
+  readonly field: UserNameField
+  readonly oldValue: string
+  readonly newValue: string
+  readonly nickname: string
+}
+export { type UserNotFound }
+export { type ConcurrencyConflict, type EventDecodeError }
+
+export type UpdateUserNameError = UserNotFound | ConcurrencyConflict | EventDecodeError
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+const userCommandHandler = makeCommandHandler({
+  tag: UserEventStore,
+  initialState: Option.none(),
+  evolve,
+  decide,
+  snapshots: { codec: UserStateSnapshot }
+})
+
+const makeChangeCommand = (userId: UserId, input: UpdateUserNameInput) =>
+  input.field === "firstName"
+    ? { _tag: "ChangeFirstName" as const, id: userId, firstName: input.value }
+    : { _tag: "ChangeLastName" as const, id: userId, lastName: input.value }
+
+// =============================================================================
+// Use Case Implementation
+// =============================================================================
+
+export const updateUserName = (
+  input: UpdateUserNameInput
+): Effect.Effect<
+  UpdateUserNameOutput,
+  UpdateUserNameError,
+  UserEventStore | Registry | UnitOfWork
+> =>
+  Effect.gen(function*() {
+    const { field, nickname, value } = input
+
+    // 1. Lookup user by nickname
+    const registry = yield* Registry
+    const maybeUserId = yield* registry.getUserIdByNickname(nickname)
+    if (Option.isNone(maybeUserId)) {
+      return yield* Effect.fail<UserNotFound>({ _tag: "UserNotFound" })
+    }
+    const userId = maybeUserId.value
+
+    const unitOfWork = yield* UnitOfWork
+    const envelopes = yield* unitOfWork.atomically(
+      Effect.gen(function*() {
+        // 2. Execute the Change* command
+        const command = makeChangeCommand(userId, input)
+        const envelopes = yield* userCommandHandler.withEnvelopes(StreamId(userId), command).pipe(
+          Effect.catchTag("UserAlreadyExists", () =>
+            Effect.die(new Error("BUG: UserAlreadyExists should never occur for Change* command"))),
+          Effect.catchTag("LoginLinkInvalid", () =>
+            Effect.die(new Error("BUG: LoginLinkInvalid should never occur for Change* command"))),
+          Effect.catchTag("LoginLinkExpired", () =>
+            Effect.die(new Error("BUG: LoginLinkExpired should never occur for Change* command")))
+        )
+
+        // 3. Project events to Registry
+        for (const { event, version } of envelopes) {
+          yield* registry.projectUserEvent(event, version)
+        }
+
+        return envelopes
+      })
+    )
+    const events = envelopes.map((envelope) =>
+      envelope.event
+    )
+
+    // 4. Return result
+    // The old value comes from the event; a no-op (same value) emits none
+    const currentNickname = yield* registry.getNicknameByUserId(userId)
+    const changed = events.find(
+      (e): e is FirstNameChanged | LastNameChanged =>
+        e._tag === "FirstNameChanged" || e._tag === "LastNameChanged"
+    )
+    return {
+      field,
+      oldValue: changed?.oldValue ?? value,
+      newValue: value,
+      nickname: Option.getOrElse(currentNickname, () =>
+        nickname)
+    }
+  })
@@ -0,0 +1,94 @@
+// =============================================================================
+// TDD: Event Upcasting
+// =============================================================================
+//
+// An upcaster registry brings a stored payload from its recorded version up
+// to the current one, one step at a time — so the event Schema and `evolve`
+// only ever see the latest shape.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Either, Schema } from "effect"
+import { makeUpcasterRegistry, type Upcaster } from "../src/EventUpcasting.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+//
+// A made-up history for "ContactAdded":
+//   v1: { name }
+//   v2: { name, phone }              — phone added (null for old rows)
+//   v3: { firstName, lastName, phone } — name split in two
+//
+
+const v1ToV2: Upcaster = {
+  eventType: "ContactAdded",
+  fromVersion: 1,
+  upcast: (payload) => ({ ...payload, phone: null })
+}
+
+const v2ToV3: Upcaster = {
+  eventType: "ContactAdded",
+  fromVersion: 2,
+  upcast: ({ name, ...rest }) => {
+    const [firstName, ...lastName] = String(name).split(" ")
+    return { ...rest, firstName, lastName: lastName.join(" ") }
+  }
+}
+
+const ContactAddedV3 = Schema.Struct({
+  _tag: Schema.Literal("ContactAdded"),
+  firstName: Schema.String,
+  lastName: Schema.String,
+  phone: Schema.NullOr(Schema.String)
+})
+
+// Registration order doesn't matter
+const registry = makeUpcasterRegistry([v2ToV3, v1ToV2])
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("makeUpcasterRegistry", () => {
+  it("current version = 1 + number of upcasters for the type", () => {
+    expect(registry.currentVersion("ContactAdded")).toBe(3)
+    expect(registry.currentVersion("SomethingElse")).toBe(1)
+  })
+
+  it("passes current-version payloads through untouched", () => {
+    const payload = { _tag: "ContactAdded", firstName: "Jean", lastName: "Dupont", phone: null }
+    expect(registry.upcast("ContactAdded", 3, payload)).toEqual(Either.right(payload))
+    expect(registry.upcast("SomethingElse", 1, "anything")).toEqual(Either.right("anything"))
+  })
+
+  it("runs the chain from the stored version, so the result decodes as the latest shape", () => {
+    const v1 = { _tag: "ContactAdded", name: "Jean Dupont" }
+    const v2 = { _tag: "ContactAdded", name: "Marie Curie", phone: "0102030405" }
+
+    const fromV1 = Either.getOrThrow(registry.upcast("ContactAdded", 1, v1))
+    const fromV2 = Either.getOrThrow(registry.upcast("ContactAdded", 2, v2))
+
+    expect(Schema.decodeUnknownSync(ContactAddedV3)(fromV1)).toEqual({
+      _tag: "ContactAdded",
+      firstName: "Jean",
+      lastName: "Dupont",
+      phone: null
+    })
+    expect(Schema.decodeUnknownSync(ContactAddedV3)(fromV2)).toEqual({
+      _tag: "ContactAdded",
+      firstName: "Marie",
+      lastName: "Curie",
+      phone: "0102030405"
+    })
+  })
+
+  it("rejects versions it doesn't know (e.g. written by a newer deployment)", () => {
+    expect(Either.isLeft(registry.upcast("ContactAdded", 4, {}))).toBe(true)
+    expect(Either.isLeft(registry.upcast("ContactAdded", 0, {}))).toBe(true)
+    expect(Either.isLeft(registry.upcast("SomethingElse", 2, {}))).toBe(true)
+  })
+
+  it("refuses a chain with gaps at construction", () => {
+    expect(() => makeUpcasterRegistry([v2ToV3])).toThrow(/ContactAdded/)
+  })
+})
@@ -6,10 +6,12 @@
 // It subscribes to domain events and builds lookup indexes.
 //
 // Three lookups:
-//   - nickname → userId       (from UserCreated events)
+//   - nickname → userId       (from UserCreated / *NameChanged events, past nicknames included)
 //   - (userId, label) → addressId  (from AddressCreated events)
 //   - revertToken → addressId      (from events with revertToken)
 //
+// Plus housekeeping: tokens issued before a cutoff can be purged (expiry).
+//
 // EVENT-DRIVEN:
 // Registry.project(event) updates internal state based on event type.
 // No imperative register* calls — state is derived from events.
@@ -20,14 +22,14 @@
 //
 import { describe, expect, it } from "@effect/vitest"
 import { Effect, Option } from "effect"
-import type { UserId, FirstName, LastName } from "../src/domain/user/State.js"
-import { Email } from "../src/shared/Email.js"
-import type { UserEvent } from "../src/domain/user/Events.js"
 import type { AddressEvent } from "../src/domain/address/Events.js"
 import type { Address, AddressId, RevertToken } from "../src/domain/address/State.js"
+import type { UserEvent } from "../src/domain/user/Events.js"
+import type { FirstName, LastName, UserId } from "../src/domain/user/State.js"
+import { Email } from "../src/shared/Email.js"
 
-import { Registry } from "../src/Registry.js"
 import { makeInMemoryRegistryLayer } from "../src/infrastructure/InMemoryRegistry.js"
+import { Registry } from "../src/Registry.js"
 
 // =============================================================================
 // Test Fixtures
@@ -42,10 +44,12 @@ const expectedNickname = "jean-dupont" // derived from firstName-lastName
 const addressId = "addr-456" as AddressId
 const label = "Home" as Address["label"]
 const token = "token-abc" as RevertToken
+const issuedAt = new Date("2024-01-01T10:00:00Z")
 
-// Base address data for events
+// Base address data for events (token-issuing ones also carry issuedAt)
 const baseAddressData = {
   id: addressId,
+  revertTokenIssuedAt: issuedAt,
   userId,
   label,
   streetNumber: "42" as Address["streetNumber"],
@@ -65,17 +69,16 @@ describe("Registry", () => {
   // ---------------------------------------------------------------------------
   describe("nickname lookup", () => {
     it.effect("returns None for unknown nickname", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const result = yield* registry.getUserIdByNickname("unknown")
 
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns Some(userId) after projecting UserCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const event: UserEvent = {
           _tag: "UserCreated",
@@ -85,15 +88,14 @@ describe("Registry", () => {
           lastName
         }
 
-        yield* registry.projectUserEvent(event)
+        yield* registry.projectUserEvent(event, 1)
         const result = yield* registry.getUserIdByNickname(expectedNickname)
 
         expect(result).toEqual(Option.some(userId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("nickname is lowercase hyphenated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const event: UserEvent = {
           _tag: "UserCreated",
@@ -103,13 +105,95 @@ describe("Registry", () => {
           lastName: "De La Fontaine" as LastName
         }
 
-        yield* registry.projectUserEvent(event)
+        yield* registry.projectUserEvent(event, 1)
 
         // Nickname should be lowercase, spaces become hyphens
         const result = yield* registry.getUserIdByNickname("jean-pierre-de-la-fontaine")
         expect(result).toEqual(Option.some(userId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Nickname history (renames and collisions)
+  // ---------------------------------------------------------------------------
+  describe("nickname history", () => {
+    const otherUserId = "user-789" as UserId
+    const created: UserEvent = { _tag: "UserCreated", id: userId, email, firstName, lastName }
+
+    it.effect("a rename makes the new nickname current; the old one still resolves", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        yield* registry.projectUserEvent(created, 1)
+
+        yield* registry.projectUserEvent({
+          _tag: "LastNameChanged",
+          id: userId,
+          oldValue: lastName,
+          newValue: "Durand" as LastName
+        }, 2)
+
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.some("jean-durand"))
+        expect(yield* registry.getUserIdByNickname("jean-durand")).toEqual(Option.some(userId))
+        expect(yield* registry.getUserIdByNickname(expectedNickname)).toEqual(Option.some(userId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+
+    it.effect("a nickname held by someone else, even a past one, gets a numeric suffix", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        yield* registry.projectUserEvent(created, 1)
+        yield* registry.projectUserEvent({
+          _tag: "FirstNameChanged",
+          id: userId,
+          oldValue: firstName,
+          newValue: "Paul" as FirstName
+        }, 2)
+
+        // jean-dupont is now only a past nickname of user-123 — still not free
+        yield* registry.projectUserEvent({ ...created, id: otherUserId }, 1)
+
+        expect(yield* registry.getNicknameByUserId(otherUserId)).toEqual(Option.some("jean-dupont-2"))
+        expect(yield* registry.getUserIdByNickname(expectedNickname)).toEqual(Option.some(userId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+
+    it.effect("renaming back reclaims the user's own past nickname", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        yield* registry.projectUserEvent(created, 1)
+        yield* registry.projectUserEvent({
+          _tag: "FirstNameChanged",
+          id: userId,
+          oldValue: firstName,
+          newValue: "Paul" as FirstName
+        }, 2)
+
+        yield* registry.projectUserEvent({
+          _tag: "FirstNameChanged",
+          id: userId,
+          oldValue: "Paul" as FirstName,
+          newValue: firstName
+        }, 3)
+
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.some(expectedNickname))
+        expect(yield* registry.getUserIdByNickname("paul-dupont")).toEqual(Option.some(userId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+
+    it.effect("replaying an older event does not move the current nickname back", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        yield* registry.projectUserEvent(created, 1)
+        yield* registry.projectUserEvent({
+          _tag: "FirstNameChanged",
+          id: userId,
+          oldValue: firstName,
+          newValue: "Paul" as FirstName
+        }, 2)
+
+        // The projection runner re-applies the stream from the start
+        yield* registry.projectUserEvent(created, 1)
+
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.some("paul-dupont"))
+        expect(yield* registry.getUserIdByNickname(expectedNickname)).toEqual(Option.some(userId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
   })
 
   // ---------------------------------------------------------------------------
@@ -117,17 +201,16 @@ describe("Registry", () => {
   // ---------------------------------------------------------------------------
   describe("address lookup by label", () => {
     it.effect("returns None for unknown (userId, label)", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const result = yield* registry.getAddressIdByLabel(userId, label)
 
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns Some(addressId) after projecting AddressCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const event: AddressEvent = {
           _tag: "AddressCreated",
@@ -139,11 +222,10 @@ describe("Registry", () => {
         const result = yield* registry.getAddressIdByLabel(userId, label)
 
         expect(result).toEqual(Option.some(addressId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("different users can have same label", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const otherUserId = "user-other" as UserId
         const otherAddressId = "addr-other" as AddressId
@@ -157,6 +239,7 @@ describe("Registry", () => {
         const event2: AddressEvent = {
           _tag: "AddressCreated",
           revertToken: otherToken,
+          revertTokenIssuedAt: issuedAt,
           id: otherAddressId,
           userId: otherUserId,
           label,
@@ -175,11 +258,10 @@ describe("Registry", () => {
 
         expect(result1).toEqual(Option.some(addressId))
         expect(result2).toEqual(Option.some(otherAddressId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns None after projecting CreationReverted", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const createEvent: AddressEvent = {
           _tag: "AddressCreated",
@@ -197,8 +279,55 @@ describe("Registry", () => {
         const result = yield* registry.getAddressIdByLabel(userId, label)
 
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+
+    it.effect("keeps a reverted creation among all the user's addresses (for history reads)", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+
+        yield* registry.projectAddressEvent({ _tag: "AddressCreated", revertToken: token, ...baseAddressData })
+        yield* registry.projectAddressEvent({ _tag: "CreationReverted", id: addressId, revertToken: token })
+
+        expect(yield* registry.getAddressIdsByUserId(userId)).toEqual([])
+        expect(yield* registry.getAllAddressIdsByUserId(userId)).toEqual([addressId])
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+
+    it.effect("never takes a label over from another address", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const otherAddressId = "addr-other" as AddressId
+        const office = "Office" as Address["label"]
+
+        // Home is renamed Office, then a second address takes Home
+        yield* registry.projectAddressEvent({ _tag: "AddressCreated", revertToken: token, ...baseAddressData })
+        yield* registry.projectAddressEvent({
+          _tag: "LabelChanged",
+          id: addressId,
+          oldValue: label,
+          newValue: office,
+          revertToken: "token-relabel" as RevertToken,
+          revertTokenIssuedAt: issuedAt
+        })
+        yield* registry.projectAddressEvent({
+          _tag: "AddressCreated",
+          revertToken: "token-other" as RevertToken,
+          ...baseAddressData,
+          id: otherAddressId
+        })
+
+        // A revert back to Home, and the first AddressCreated replayed
+        yield* registry.projectAddressEvent({
+          _tag: "LabelReverted",
+          id: addressId,
+          oldValue: office,
+          newValue: label,
+          revertToken: "token-relabel" as RevertToken
+        })
+        yield* registry.projectAddressEvent({ _tag: "AddressCreated", revertToken: token, ...baseAddressData })
+
+        expect(yield* registry.getAddressIdByLabel(userId, label)).toEqual(Option.some(otherAddressId))
+        expect(yield* registry.getAddressIdByLabel(userId, office)).toEqual(Option.some(addressId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
   })
 
   // ---------------------------------------------------------------------------
@@ -206,17 +335,16 @@ describe("Registry", () => {
   // ---------------------------------------------------------------------------
   describe("token lookup", () => {
     it.effect("returns None for unknown token", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const result = yield* registry.getAddressIdByToken(token)
 
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns Some(addressId) after projecting AddressCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const event: AddressEvent = {
           _tag: "AddressCreated",
@@ -228,16 +356,16 @@ describe("Registry", () => {
         const result = yield* registry.getAddressIdByToken(token)
 
         expect(result).toEqual(Option.some(addressId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns Some(addressId) after projecting CityChanged", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const event: AddressEvent = {
           _tag: "CityChanged",
           id: addressId,
           revertToken: token,
+          revertTokenIssuedAt: issuedAt,
           oldValue: "Paris" as Address["city"],
           newValue: "Lyon" as Address["city"]
         }
@@ -246,16 +374,16 @@ describe("Registry", () => {
         const result = yield* registry.getAddressIdByToken(token)
 
         expect(result).toEqual(Option.some(addressId))
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
 
     it.effect("returns None after projecting *Reverted (token consumed)", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const changeEvent: AddressEvent = {
           _tag: "CityChanged",
           id: addressId,
           revertToken: token,
+          revertTokenIssuedAt: issuedAt,
           oldValue: "Paris" as Address["city"],
           newValue: "Lyon" as Address["city"]
         }
@@ -272,7 +400,55 @@ describe("Registry", () => {
         const result = yield* registry.getAddressIdByToken(token)
 
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(makeInMemoryRegistryLayer()))
-    )
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Purge (revert token expiry)
+  // ---------------------------------------------------------------------------
+  describe("purgeRevertTokensIssuedBefore", () => {
+    it.effect("drops tokens issued at or before the cutoff, keeps the rest", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const freshToken = "token-fresh" as RevertToken
+        yield* registry.projectAddressEvent({ _tag: "AddressCreated", revertToken: token, ...baseAddressData })
+        yield* registry.projectAddressEvent({
+          _tag: "CityChanged",
+          id: addressId,
+          revertToken: freshToken,
+          revertTokenIssuedAt: new Date("2024-01-05T10:00:00Z"),
+          oldValue: "Paris" as Address["city"],
+          newValue: "Lyon" as Address["city"]
+        })
+
+        const purged = yield* registry.purgeRevertTokensIssuedBefore(issuedAt)
+
+        expect(purged).toBe(1)
+        expect(yield* registry.getAddressIdByToken(token)).toEqual(Option.none())
+        expect(yield* registry.getAddressIdByToken(freshToken)).toEqual(Option.some(addressId))
+        // Only tokens go — the address itself is still listed
+        expect(yield* registry.getAddressIdByLabel(userId, label)).toEqual(Option.some(addressId))
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Reset (first step of a rebuild)
+  // ---------------------------------------------------------------------------
+  describe("reset", () => {
+    it.effect("forgets every nickname, label and token", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        yield* registry.projectUserEvent({ _tag: "UserCreated", id: userId, email, firstName, lastName }, 1)
+        yield* registry.projectAddressEvent({ _tag: "AddressCreated", revertToken: token, ...baseAddressData })
+
+        yield* registry.reset
+
+        expect(yield* registry.getUserIdByNickname(expectedNickname)).toEqual(Option.none())
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.none())
+        expect(yield* registry.getAddressIdByLabel(userId, label)).toEqual(Option.none())
+        expect(yield* registry.getAddressIdByToken(token)).toEqual(Option.none())
+        expect(yield* registry.getAddressIdsByUserId(userId)).toEqual([])
+        expect(yield* registry.getAllAddressIdsByUserId(userId)).toEqual([])
+      }).pipe(Effect.provide(makeInMemoryRegistryLayer())))
   })
 })
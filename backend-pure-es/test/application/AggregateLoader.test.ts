@@ -0,0 +1,213 @@
+// =============================================================================
+// TDD: AggregateLoader (snapshots)
+// =============================================================================
+//
+// A snapshot is a memoized prefix of the fold. So:
+//   1. loading from a snapshot gives the same state as folding every event
+//   2. only events AFTER the snapshot's version are folded on top of it
+//   3. snapshots of another schemaVersion, or that don't decode, are ignored
+//   4. the command handler saves one whenever an append crosses `every`
+//   5. AddressState — pendingReverts Map included — survives encoding
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Either, Layer, Option, Schema } from "effect"
+import { loadAggregate, type SnapshotCodec } from "../../src/application/AggregateLoader.js"
+import { makeCommandHandler } from "../../src/application/CommandHandler.js"
+import type { AddressCommand } from "../../src/domain/address/Commands.js"
+import { decide } from "../../src/domain/address/decide.js"
+import { evolve } from "../../src/domain/address/evolve.js"
+import { AddressStateSnapshot } from "../../src/domain/address/Snapshot.js"
+import type { AddressId, RevertToken } from "../../src/domain/address/State.js"
+import { initialAddressState } from "../../src/domain/address/State.js"
+import type { UserId } from "../../src/domain/user/State.js"
+import { AddressEventStore, StreamId } from "../../src/EventStore.js"
+import { InMemoryAddressEventStore, makeInMemoryEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import { InMemorySnapshotStore } from "../../src/infrastructure/InMemorySnapshotStore.js"
+import { SnapshotStore } from "../../src/SnapshotStore.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+// A counter aggregate keeps the arithmetic obvious: state = sum of events
+type Added = { readonly _tag: "Added"; readonly n: number }
+
+const sum = (state: number, event: Added) => state + event.n
+const counterCodec: SnapshotCodec<number, number> = { schemaVersion: 1, schema: Schema.Number }
+
+const streamId = StreamId("counter-1")
+const added = (...ns: ReadonlyArray<number>): ReadonlyArray<Added> => ns.map((n) => ({ _tag: "Added", n }))
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("loadAggregate", () => {
+  it.effect("without a SnapshotStore → folds the whole stream", () =>
+    Effect.gen(function*() {
+      const store = makeInMemoryEventStore<Added>()
+      yield* store.append(streamId, added(1, 2, 3), 0)
+
+      const loaded = yield* loadAggregate(store, streamId, {
+        initialState: 0,
+        evolve: sum,
+        snapshots: { codec: counterCodec }
+      })
+
+      expect(loaded).toEqual({ state: 6, version: 3 })
+    }))
+
+  it.effect("starts from the latest snapshot and folds only the tail", () =>
+    Effect.gen(function*() {
+      const store = makeInMemoryEventStore<Added>()
+      yield* store.append(streamId, added(1, 2, 3, 4), 0)
+
+      // Deliberately NOT the real fold (1 + 2 = 3) — proves the snapshot is used
+      const snapshots = yield* SnapshotStore
+      yield* snapshots.save({ streamId, version: 1, schemaVersion: 1, state: 100 })
+      yield* snapshots.save({ streamId, version: 2, schemaVersion: 1, state: 200 })
+
+      const loaded = yield* loadAggregate(store, streamId, {
+        initialState: 0,
+        evolve: sum,
+        snapshots: { codec: counterCodec }
+      })
+
+      expect(loaded).toEqual({ state: 200 + 3 + 4, version: 4 })
+    }).pipe(Effect.provide(InMemorySnapshotStore)))
+
+  it.effect("ignores snapshots written under another schemaVersion", () =>
+    Effect.gen(function*() {
+      const store = makeInMemoryEventStore<Added>()
+      yield* store.append(streamId, added(1, 2), 0)
+
+      const snapshots = yield* SnapshotStore
+      yield* snapshots.save({ streamId, version: 2, schemaVersion: 0, state: 100 })
+
+      const loaded = yield* loadAggregate(store, streamId, {
+        initialState: 0,
+        evolve: sum,
+        snapshots: { codec: counterCodec }
+      })
+
+      expect(loaded).toEqual({ state: 3, version: 2 })
+    }).pipe(Effect.provide(InMemorySnapshotStore)))
+
+  it.effect("ignores a snapshot that doesn't decode", () =>
+    Effect.gen(function*() {
+      const store = makeInMemoryEventStore<Added>()
+      yield* store.append(streamId, added(1, 2), 0)
+
+      const snapshots = yield* SnapshotStore
+      yield* snapshots.save({ streamId, version: 2, schemaVersion: 1, state: "not a number" })
+
+      const loaded = yield* loadAggregate(store, streamId, {
+        initialState: 0,
+        evolve: sum,
+        snapshots: { codec: counterCodec }
+      })
+
+      expect(loaded).toEqual({ state: 3, version: 2 })
+    }).pipe(Effect.provide(InMemorySnapshotStore)))
+})
+
+describe("makeCommandHandler with snapshots", () => {
+  const addressId = "addr-1" as AddressId
+  const addressStreamId = StreamId(addressId)
+  const issuedAt = new Date("2024-01-01T10:00:00Z")
+
+  const handler = makeCommandHandler({
+    tag: AddressEventStore,
+    initialState: initialAddressState,
+    evolve,
+    decide,
+    snapshots: { codec: AddressStateSnapshot, every: 2 }
+  })
+
+  const create: AddressCommand = {
+    _tag: "CreateAddress",
+    id: addressId,
+    revertToken: "token-create" as RevertToken,
+    revertTokenIssuedAt: issuedAt,
+    userId: "user-1" as UserId,
+    label: "home" as any,
+    streetNumber: "42" as any,
+    streetName: "Rue de Rivoli" as any,
+    zipCode: "75001" as any,
+    city: "Paris" as any,
+    country: "France" as any
+  }
+
+  const changeCity = (city: string, token: string): AddressCommand => ({
+    _tag: "ChangeCity",
+    id: addressId,
+    revertToken: token as RevertToken,
+    revertTokenIssuedAt: issuedAt,
+    city: city as any
+  })
+
+  const TestLayer = Layer.mergeAll(InMemoryAddressEventStore, InMemorySnapshotStore)
+
+  it.effect("saves a snapshot each time the stream crosses `every` events", () =>
+    Effect.gen(function*() {
+      const snapshots = yield* SnapshotStore
+      const latestVersion = snapshots.latest(addressStreamId, AddressStateSnapshot.schemaVersion).pipe(
+        Effect.map(Option.map((snapshot) => snapshot.version))
+      )
+
+      yield* handler(addressStreamId, create)
+      expect(yield* latestVersion).toEqual(Option.none())
+
+      yield* handler(addressStreamId, changeCity("Lyon", "token-1"))
+      expect(yield* latestVersion).toEqual(Option.some(2))
+
+      yield* handler(addressStreamId, changeCity("Nice", "token-2"))
+      expect(yield* latestVersion).toEqual(Option.some(2))
+
+      yield* handler(addressStreamId, changeCity("Lille", "token-3"))
+      expect(yield* latestVersion).toEqual(Option.some(4))
+    }).pipe(Effect.provide(TestLayer)))
+
+  it.effect("state loaded from a snapshot equals the full fold — pendingReverts included", () =>
+    Effect.gen(function*() {
+      yield* handler(addressStreamId, create)
+      yield* handler(addressStreamId, changeCity("Lyon", "token-1"))
+      yield* handler(addressStreamId, changeCity("Nice", "token-2"))
+
+      const store = yield* AddressEventStore
+      const fromSnapshot = yield* loadAggregate(store, addressStreamId, {
+        initialState: initialAddressState,
+        evolve,
+        snapshots: { codec: AddressStateSnapshot }
+      })
+      const fullFold = (yield* store.load(addressStreamId)).reduce(evolve, initialAddressState)
+
+      expect(fromSnapshot.version).toBe(3)
+      expect(fromSnapshot.state).toEqual(fullFold)
+      expect([...fromSnapshot.state.pendingReverts.keys()]).toEqual(["token-create", "token-1", "token-2"])
+
+      // A token from before the snapshot is still honoured after it
+      // (forced: token-1's Lyon has since become Nice)
+      const reverted = yield* handler(addressStreamId, {
+        _tag: "RevertChange",
+        id: addressId,
+        revertToken: "token-1" as RevertToken,
+        requestedAt: issuedAt,
+        tokenTtl: Duration.days(7),
+        force: true
+      }).pipe(Effect.either)
+      expect(Either.isRight(reverted)).toBe(true)
+    }).pipe(Effect.provide(TestLayer)))
+
+  it("AddressState round-trips through its snapshot encoding as JSON", () => {
+    const state = [create, changeCity("Lyon", "token-1")].reduce(
+      (current, command) => Either.getOrThrow(decide(current, command)).reduce(evolve, current),
+      initialAddressState
+    )
+    const encoded = Schema.encodeSync(AddressStateSnapshot.schema)(state)
+    const decoded = Schema.decodeUnknownSync(AddressStateSnapshot.schema)(JSON.parse(JSON.stringify(encoded)))
+
+    expect(decoded).toEqual(state)
+    expect(decoded.pendingReverts).toBeInstanceOf(Map)
+  })
+})
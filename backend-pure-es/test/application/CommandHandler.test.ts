@@ -9,7 +9,7 @@
 //   1. Loads events from store
 //   2. Folds them with evolve to get current state
 //   3. Calls decide with state + command
-//   4. Appends resulting events to store
+//   4. Appends resulting events to store (with expectedVersion)
 //   5. Returns the events (for downstream reactions)
 //
 // EFFECT CONTEXT:
@@ -17,12 +17,12 @@
 // Tests provide InMemoryEventStore via Layer.
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Effect, Exit, Option } from "effect"
+import { Effect, Exit, Fiber, Layer, Option, Schedule, TestClock } from "effect"
 import type { ChangeFirstName, CreateUser } from "../../src/domain/user/Commands.js"
 import type { UserEvent } from "../../src/domain/user/Events.js"
 import type { User } from "../../src/domain/user/State.js"
-import { StreamId, UserEventStore } from "../../src/EventStore.js"
-import { InMemoryUserEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import { type EventStoreService, StreamId, UserEventStore } from "../../src/EventStore.js"
+import { InMemoryUserEventStore, makeInMemoryEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
 
 // Will fail until we create makeCommandHandler — that's TDD!
 import { makeCommandHandler } from "../../src/application/CommandHandler.js"
@@ -46,6 +46,29 @@ const userCommandHandler = makeCommandHandler({
   decide
 })
 
+// Simulates contention: each of the first `races` loads "lets another request
+// in", which appends `concurrentEvent` right after our handler has read.
+const makeRacingStore = (
+  inner: EventStoreService<UserEvent>,
+  concurrentEvent: UserEvent,
+  races: number
+) => {
+  const stats = { loads: 0 }
+  const store: EventStoreService<UserEvent> = {
+    load: (id) =>
+      inner.load(id).pipe(
+        Effect.tap((events) => {
+          stats.loads++
+          if (stats.loads > races) return Effect.void
+          return inner.append(id, [concurrentEvent], events.length).pipe(Effect.orDie)
+        })
+      ),
+    loadEnvelopes: inner.loadEnvelopes,
+    append: inner.append
+  }
+  return { store, stats }
+}
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -106,7 +129,7 @@ describe("makeCommandHandler", () => {
             firstName,
             lastName
           }
-          yield* store.append(streamId, [existingEvent])
+          yield* store.append(streamId, [existingEvent], 0)
 
           // Execute the command — should fail
           const result = yield* userCommandHandler(streamId, command).pipe(
@@ -140,7 +163,7 @@ describe("makeCommandHandler", () => {
             firstName,
             lastName
           }
-          yield* store.append(streamId, [existingEvent])
+          yield* store.append(streamId, [existingEvent], 0)
 
           // Change first name
           const command: ChangeFirstName = {
@@ -165,6 +188,32 @@ describe("makeCommandHandler", () => {
         }).pipe(Effect.provide(InMemoryUserEventStore))
     )
 
+    it.effect(
+      "metadata → recorded on the persisted envelopes",
+      () =>
+        Effect.gen(function*() {
+          const streamId = StreamId(userId)
+          const command: CreateUser = {
+            _tag: "CreateUser",
+            id: userId,
+            email,
+            firstName,
+            lastName
+          }
+
+          yield* userCommandHandler(streamId, command, { correlationId: "req-42", actor: userId })
+
+          const store = yield* UserEventStore
+          const [envelope] = yield* store.loadEnvelopes(streamId)
+          expect(envelope).toMatchObject({
+            version: 1,
+            correlationId: "req-42",
+            causationId: null,
+            actor: userId
+          })
+        }).pipe(Effect.provide(InMemoryUserEventStore))
+    )
+
     it.effect(
       "ChangeFirstName on empty stream → returns Left(UserNotFound)",
       () =>
@@ -207,7 +256,7 @@ describe("makeCommandHandler", () => {
             firstName,
             lastName
           }
-          yield* store.append(streamId, [existingEvent])
+          yield* store.append(streamId, [existingEvent], 0)
 
           // Change to same value
           const command: ChangeFirstName = {
@@ -226,4 +275,186 @@ describe("makeCommandHandler", () => {
         }).pipe(Effect.provide(InMemoryUserEventStore))
     )
   })
+
+  // ---------------------------------------------------------------------------
+  // Optimistic concurrency
+  // ---------------------------------------------------------------------------
+  //
+  // We simulate a race: another writer appends right after our handler loads.
+  // The handler's decision is based on stale state → append must be rejected.
+  //
+  describe("optimistic concurrency", () => {
+    it.effect(
+      "stream modified between load and append → fails with ConcurrencyConflict, nothing persisted",
+      () => {
+        const streamId = StreamId(userId)
+        const inner = makeInMemoryEventStore<UserEvent>()
+        const concurrentEvent: UserEvent = {
+          _tag: "LastNameChanged",
+          id: userId,
+          oldValue: lastName,
+          newValue: "Martin" as User["lastName"]
+        }
+
+        const { store: racingStore } = makeRacingStore(inner, concurrentEvent, 1)
+        // Retry is on by default — switch it off to see the bare conflict
+        const handler = makeCommandHandler({
+          tag: UserEventStore,
+          initialState: Option.none<User>(),
+          evolve,
+          decide,
+          retry: false
+        })
+
+        return Effect.gen(function*() {
+          yield* inner.append(streamId, [{ _tag: "UserCreated", id: userId, email, firstName, lastName }], 0)
+
+          const command: ChangeFirstName = {
+            _tag: "ChangeFirstName",
+            id: userId,
+            firstName: "Pierre" as User["firstName"]
+          }
+          const result = yield* handler(streamId, command).pipe(Effect.exit)
+
+          expect(Exit.isFailure(result)).toBe(true)
+          if (Exit.isFailure(result)) {
+            expect(result.cause).toMatchObject({
+              _tag: "Fail",
+              error: { _tag: "ConcurrencyConflict", expectedVersion: 1, actualVersion: 2 }
+            })
+          }
+
+          // Only the concurrent writer's event made it in
+          const storedEvents = yield* inner.load(streamId)
+          expect(storedEvents).toHaveLength(2)
+          expect(storedEvents[1]).toEqual(concurrentEvent)
+        }).pipe(Effect.provide(Layer.succeed(UserEventStore, racingStore)))
+      }
+    )
+  })
+
+  // ---------------------------------------------------------------------------
+  // Retry on conflict
+  // ---------------------------------------------------------------------------
+  //
+  // A conflict triggers a fresh load → fold → decide → append cycle — with
+  // defaultRetryPolicy unless the handler names another. Domain errors, and
+  // races to create the same stream, must NOT be retried.
+  //
+  describe("retry on conflict", () => {
+    const streamId = StreamId(userId)
+    const userCreated: UserEvent = { _tag: "UserCreated", id: userId, email, firstName, lastName }
+    const concurrentEvent: UserEvent = {
+      _tag: "LastNameChanged",
+      id: userId,
+      oldValue: lastName,
+      newValue: "Martin" as User["lastName"]
+    }
+    const changeFirstName: ChangeFirstName = {
+      _tag: "ChangeFirstName",
+      id: userId,
+      firstName: "Pierre" as User["firstName"]
+    }
+
+    // No delays — keeps these tests independent of the clock
+    const retryingHandler = (retries: number) =>
+      makeCommandHandler({
+        tag: UserEventStore,
+        initialState: Option.none<User>(),
+        evolve,
+        decide,
+        retry: Schedule.recurs(retries)
+      })
+
+    it.effect("conflict once → reloads, re-decides, and commits on fresh state", () => {
+      const inner = makeInMemoryEventStore<UserEvent>()
+      const { stats, store } = makeRacingStore(inner, concurrentEvent, 1)
+
+      return Effect.gen(function*() {
+        yield* inner.append(streamId, [userCreated], 0)
+
+        const events = yield* retryingHandler(3)(streamId, changeFirstName)
+
+        expect(events).toEqual([
+          { _tag: "FirstNameChanged", id: userId, oldValue: firstName, newValue: "Pierre" }
+        ])
+        expect(stats.loads).toBe(2)
+
+        // Both the concurrent write and ours are persisted, in order
+        const storedEvents = yield* inner.load(streamId)
+        expect(storedEvents.map((e) => e._tag)).toEqual(["UserCreated", "LastNameChanged", "FirstNameChanged"])
+      }).pipe(Effect.provide(Layer.succeed(UserEventStore, store)))
+    })
+
+    it.effect("contention outlasts the policy → fails with ConcurrencyConflict", () => {
+      const inner = makeInMemoryEventStore<UserEvent>()
+      const { stats, store } = makeRacingStore(inner, concurrentEvent, 10)
+
+      return Effect.gen(function*() {
+        yield* inner.append(streamId, [userCreated], 0)
+
+        const result = yield* retryingHandler(2)(streamId, changeFirstName).pipe(Effect.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          expect(result.cause).toMatchObject({ _tag: "Fail", error: { _tag: "ConcurrencyConflict" } })
+        }
+        // 1 initial attempt + 2 retries
+        expect(stats.loads).toBe(3)
+      }).pipe(Effect.provide(Layer.succeed(UserEventStore, store)))
+    })
+
+    it.effect("domain error → fails immediately, no retry", () => {
+      const inner = makeInMemoryEventStore<UserEvent>()
+      const { stats, store } = makeRacingStore(inner, concurrentEvent, 0)
+
+      return Effect.gen(function*() {
+        // Empty stream → UserNotFound
+        const result = yield* retryingHandler(3)(streamId, changeFirstName).pipe(Effect.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          expect(result.cause).toMatchObject({ _tag: "Fail", error: { _tag: "UserNotFound" } })
+        }
+        expect(stats.loads).toBe(1)
+      }).pipe(Effect.provide(Layer.succeed(UserEventStore, store)))
+    })
+
+    it.effect("racing to create the same stream → fails with ConcurrencyConflict, no retry", () => {
+      const inner = makeInMemoryEventStore<UserEvent>()
+      const { stats, store } = makeRacingStore(inner, userCreated, 1)
+      const createUser: CreateUser = { _tag: "CreateUser", id: userId, email, firstName, lastName }
+
+      return Effect.gen(function*() {
+        const result = yield* retryingHandler(3)(streamId, createUser).pipe(Effect.exit)
+
+        expect(Exit.isFailure(result)).toBe(true)
+        if (Exit.isFailure(result)) {
+          expect(result.cause).toMatchObject({
+            _tag: "Fail",
+            error: { _tag: "ConcurrencyConflict", expectedVersion: 0 }
+          })
+        }
+        expect(stats.loads).toBe(1)
+      }).pipe(Effect.provide(Layer.succeed(UserEventStore, store)))
+    })
+
+    it.effect("no retry option → defaultRetryPolicy: backs off, then succeeds", () => {
+      const inner = makeInMemoryEventStore<UserEvent>()
+      const { stats, store } = makeRacingStore(inner, concurrentEvent, 2)
+      const handler = userCommandHandler
+
+      return Effect.gen(function*() {
+        yield* inner.append(streamId, [userCreated], 0)
+
+        // The policy sleeps between attempts — drive the TestClock past them
+        const fiber = yield* Effect.fork(handler(streamId, changeFirstName))
+        yield* TestClock.adjust("1 second")
+        const events = yield* Fiber.join(fiber)
+
+        expect(events).toHaveLength(1)
+        expect(stats.loads).toBe(3)
+      }).pipe(Effect.provide(Layer.succeed(UserEventStore, store)))
+    })
+  })
 })
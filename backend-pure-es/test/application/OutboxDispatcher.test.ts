@@ -0,0 +1,270 @@
+// =============================================================================
+// OutboxDispatcher Tests
+// =============================================================================
+//
+// The app wiring under test: use cases "send" through OutboxEmailService
+// (which only enqueues), and the dispatcher delivers through a transport.
+// Transports are capture adapters with fault injection (failFirst), so
+// "SMTP is flaky" is deterministic.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Fiber, Layer, TestClock } from "effect"
+
+import { dispatchPending, runOutboxDispatcher } from "../../src/application/OutboxDispatcher.js"
+import type { Address } from "../../src/domain/address/State.js"
+import type { FirstName, LastName } from "../../src/domain/user/State.js"
+import type { EmailContent, EmailServiceInterface } from "../../src/EmailService.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { InMemoryOutbox } from "../../src/infrastructure/InMemoryOutbox.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { OutboxEmailService } from "../../src/infrastructure/OutboxEmailService.js"
+import { DEFAULT_MAX_ATTEMPTS, Outbox } from "../../src/Outbox.js"
+import { Email } from "../../src/shared/Email.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { listDeadLetters, replayDeadLetter } from "../../src/usecases/DeadLetters.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const email = (subject: string): EmailContent => ({
+  to: Email.make("jean.dupont@example.com"),
+  subject,
+  body: `Body of ${subject}`
+})
+
+const enqueue = (...emails: ReadonlyArray<EmailContent>) =>
+  Effect.flatMap(Outbox, (outbox) => Effect.forEach(emails, outbox.enqueue, { discard: true }))
+
+// No backoff: a failed message is due again on the very next pass
+const noBackoff = { backoff: () => Duration.zero }
+
+// One pass per allowed attempt — enough to exhaust any message's budget
+const dispatchUntilDead = (transport: EmailServiceInterface) =>
+  Effect.repeatN(dispatchPending(transport, noBackoff), DEFAULT_MAX_ATTEMPTS - 1)
+
+// Each send takes a second (of TestClock time)
+const slow = (transport: EmailServiceInterface): EmailServiceInterface => ({
+  send: (content) => Effect.sleep("1 second").pipe(Effect.zipRight(transport.send(content)))
+})
+
+// The app's wiring: EmailService = outbox, over in-memory storage
+const makeAppLayer = () =>
+  Layer.mergeAll(
+    Layer.provideMerge(OutboxEmailService, InMemoryOutbox),
+    InMemoryEventStores,
+    InMemoryUnitOfWork,
+    makeInMemoryRegistryLayer(),
+    TestIdGeneratorLive,
+    TestRevertTokenServiceLive
+  )
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("dispatchPending", () => {
+  it.effect("delivers pending emails in enqueue order and marks them sent", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      yield* enqueue(email("first"), email("second"))
+
+      const result = yield* dispatchPending(capture.service)
+
+      expect(result).toEqual({ delivered: 2, retrying: 0, deadLettered: 0 })
+      expect(capture.getSentEmails().map((sent) => sent.subject)).toEqual(["first", "second"])
+      const outbox = yield* Outbox
+      expect(yield* outbox.pending(10)).toEqual([])
+      // Nothing left → a second pass sends nothing
+      expect(yield* dispatchPending(capture.service)).toEqual({ delivered: 0, retrying: 0, deadLettered: 0 })
+      expect(capture.getSentEmails()).toHaveLength(2)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("tries each message once per pass: a failure waits for a later pass, the rest go through", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: 1 })
+      yield* enqueue(email("unlucky"), email("fine"))
+
+      const result = yield* dispatchPending(capture.service, { concurrency: 1 })
+
+      expect(result).toEqual({ delivered: 1, retrying: 1, deadLettered: 0 })
+      expect(capture.getSentEmails().map((sent) => sent.subject)).toEqual(["fine"])
+      const outbox = yield* Outbox
+      const [waiting] = yield* outbox.pending(10)
+      expect(waiting?.email.subject).toBe("unlucky")
+      expect(waiting?.attempts).toBe(1)
+      expect(waiting?.lastError).toContain("Injected fault")
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("backs off exponentially between passes, from the stored schedule", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: 2 })
+      yield* enqueue(email("safety"))
+
+      expect((yield* dispatchPending(capture.service)).retrying).toBe(1) // attempt 1 fails → due in 1s
+      expect(yield* dispatchPending(capture.service)).toEqual({ delivered: 0, retrying: 0, deadLettered: 0 })
+
+      yield* TestClock.adjust("1 second")
+      expect((yield* dispatchPending(capture.service)).retrying).toBe(1) // attempt 2 fails → due in 2s
+
+      yield* TestClock.adjust("1 second")
+      expect((yield* dispatchPending(capture.service)).delivered).toBe(0)
+      yield* TestClock.adjust("1 second")
+      expect((yield* dispatchPending(capture.service)).delivered).toBe(1)
+      expect(capture.getSentEmails().map((sent) => sent.subject)).toEqual(["safety"])
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("dead-letters a message once its stored maxAttempts have failed, with its last error", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: DEFAULT_MAX_ATTEMPTS })
+      yield* enqueue(email("doomed"))
+
+      const last = yield* dispatchUntilDead(capture.service)
+
+      expect(last).toEqual({ delivered: 0, retrying: 0, deadLettered: 1 })
+      const outbox = yield* Outbox
+      expect(yield* outbox.pending(10)).toEqual([])
+      const [deadLetter] = yield* listDeadLetters({ limit: 10 })
+      expect(deadLetter?.subject).toBe("doomed")
+      expect(deadLetter?.attempts).toBe(DEFAULT_MAX_ATTEMPTS)
+      expect(deadLetter?.lastError).toContain("Injected fault")
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("skips messages another dispatcher has claimed, until their lease runs out", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      yield* enqueue(email("claimed"))
+      const outbox = yield* Outbox
+
+      // Another dispatcher claims it, then dies without reporting back
+      expect(yield* outbox.claim(10, Duration.minutes(1))).toHaveLength(1)
+      expect((yield* dispatchPending(capture.service)).delivered).toBe(0)
+
+      yield* TestClock.adjust("1 minute")
+      expect((yield* dispatchPending(capture.service)).delivered).toBe(1)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("sends up to `concurrency` messages at once", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      yield* enqueue(email("1"), email("2"), email("3"), email("4"))
+
+      const fiber = yield* Effect.fork(dispatchPending(slow(capture.service), { concurrency: 2 }))
+
+      yield* TestClock.adjust("1 second")
+      expect(capture.getSentEmails()).toHaveLength(2)
+      yield* TestClock.adjust("1 second")
+      expect(capture.getSentEmails()).toHaveLength(4)
+      expect((yield* Fiber.join(fiber)).delivered).toBe(4)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("delivers at most batchSize emails per pass", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      yield* enqueue(email("1"), email("2"), email("3"))
+
+      expect((yield* dispatchPending(capture.service, { batchSize: 2 })).delivered).toBe(2)
+      expect((yield* dispatchPending(capture.service, { batchSize: 2 })).delivered).toBe(1)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+})
+
+describe("replayDeadLetter", () => {
+  it.effect("puts a dead letter back in the pipeline with a fresh retry budget", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: DEFAULT_MAX_ATTEMPTS })
+      yield* enqueue(email("safety"))
+      yield* dispatchUntilDead(capture.service)
+      const [deadLetter] = yield* listDeadLetters({ limit: 10 })
+
+      expect(yield* replayDeadLetter({ id: deadLetter!.id })).toEqual({ replayed: deadLetter!.id })
+      expect(yield* listDeadLetters({ limit: 10 })).toEqual([])
+
+      const result = yield* dispatchPending(capture.service)
+      expect(result).toEqual({ delivered: 1, retrying: 0, deadLettered: 0 })
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("fails with DeadLetterNotFound for unknown or non-dead messages", () =>
+    Effect.gen(function*() {
+      yield* enqueue(email("pending"))
+      const outbox = yield* Outbox
+      const [pending] = yield* outbox.pending(10)
+
+      expect(yield* Effect.flip(replayDeadLetter({ id: 999 }))).toEqual({ _tag: "DeadLetterNotFound" })
+      expect(yield* Effect.flip(replayDeadLetter({ id: pending!.id }))).toEqual({ _tag: "DeadLetterNotFound" })
+    }).pipe(Effect.provide(InMemoryOutbox)))
+})
+
+describe("runOutboxDispatcher", () => {
+  it.effect("keeps polling: an email enqueued later is delivered on the next poll", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      const fiber = yield* Effect.fork(runOutboxDispatcher(capture.service, { pollInterval: "1 second" }))
+
+      yield* TestClock.adjust("1 second")
+      yield* enqueue(email("later"))
+      expect(capture.getSentEmails()).toEqual([])
+
+      yield* TestClock.adjust("1 second")
+      expect(capture.getSentEmails().map((sent) => sent.subject)).toEqual(["later"])
+
+      yield* Fiber.interrupt(fiber)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+
+  it.effect("retries a failed send on the first poll after its backoff", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: 1 })
+      yield* enqueue(email("safety"))
+      const fiber = yield* Effect.fork(
+        runOutboxDispatcher(capture.service, { pollInterval: "1 second", backoff: () => "3 seconds" })
+      )
+
+      yield* TestClock.adjust("2 seconds") // polls at 0s (fails), 1s, 2s
+      expect(capture.getSentEmails()).toEqual([])
+      yield* TestClock.adjust("1 second") // due at 3s
+      expect(capture.getSentEmails().map((sent) => sent.subject)).toEqual(["safety"])
+
+      yield* Fiber.interrupt(fiber)
+    }).pipe(Effect.provide(InMemoryOutbox)))
+})
+
+describe("use cases with the outbox wired in", () => {
+  it.effect("enqueue the safety email instead of sending it, and succeed while SMTP is down", () =>
+    Effect.gen(function*() {
+      yield* createUser({
+        email: Email.make("jean.dupont@example.com"),
+        firstName: "Jean" as FirstName,
+        lastName: "Dupont" as LastName
+      })
+      const result = yield* createAddress({
+        nickname: "jean-dupont",
+        label: "home" as Address["label"],
+        streetNumber: "42" as Address["streetNumber"],
+        streetName: "Rue de Rivoli" as Address["streetName"],
+        zipCode: "75001" as Address["zipCode"],
+        city: "Paris" as Address["city"],
+        country: "France" as Address["country"]
+      })
+      expect(result.label).toBe("home")
+
+      const outbox = yield* Outbox
+      const pending = yield* outbox.pending(10)
+      expect(pending).toHaveLength(1)
+      expect(pending[0]?.email.to).toBe("jean.dupont@example.com")
+
+      // SMTP down for every attempt: dead-lettered, not lost
+      const capture = makeCaptureEmailService({ failFirst: DEFAULT_MAX_ATTEMPTS })
+      yield* dispatchUntilDead(capture.service)
+      expect(yield* listDeadLetters({ limit: 10 })).toHaveLength(1)
+
+      // SMTP back: replay → delivered
+      yield* replayDeadLetter({ id: pending[0]!.id })
+      yield* dispatchPending(capture.service)
+      expect(capture.getSentEmails()).toHaveLength(1)
+      expect(capture.getSentEmails()[0]?.body).toContain("Paris")
+    }).pipe(Effect.provide(makeAppLayer())))
+})
@@ -0,0 +1,243 @@
+// =============================================================================
+// ProjectionRunner Tests
+// =============================================================================
+//
+// Events are appended straight to the stores (no use case → no inline
+// projection), so anything that shows up in the Registry got there through
+// the runner.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Deferred, Effect, Fiber, Layer, Option, Ref, TestClock } from "effect"
+
+import {
+  catchUpProjection,
+  type Projection,
+  type RebuildProgress,
+  rebuildProjection,
+  runProjection
+} from "../../src/application/ProjectionRunner.js"
+import type { AddressEvent } from "../../src/domain/address/Events.js"
+import type { AddressId, RevertToken } from "../../src/domain/address/State.js"
+import type { UserEvent } from "../../src/domain/user/Events.js"
+import type { UserId } from "../../src/domain/user/State.js"
+import { AddressEventStore, StreamId, UserEventStore } from "../../src/EventStore.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { InMemoryProjectionCheckpoints } from "../../src/infrastructure/InMemoryProjectionCheckpoints.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { ProjectionCheckpoints } from "../../src/ProjectionCheckpoints.js"
+import { rebuildRegistry, RegistryProjection } from "../../src/projections/RegistryProjection.js"
+import { Registry } from "../../src/Registry.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const userId = "user-1" as UserId
+const addressId = "address-1" as AddressId
+const token = "token-1" as RevertToken
+
+const userCreated = {
+  _tag: "UserCreated",
+  id: userId,
+  email: "jean@example.com",
+  firstName: "Jean",
+  lastName: "Dupont"
+} as unknown as UserEvent
+
+const addressCreated = {
+  _tag: "AddressCreated",
+  id: addressId,
+  userId,
+  revertToken: token,
+  label: "home",
+  streetNumber: "42",
+  streetName: "Rue de Rivoli",
+  zipCode: "75001",
+  city: "Paris",
+  country: "France"
+} as unknown as AddressEvent
+
+const cityReverted = {
+  _tag: "CityReverted",
+  id: addressId,
+  oldValue: "Lyon",
+  newValue: "Paris",
+  revertToken: token
+} as unknown as AddressEvent
+
+const makeTestLayer = () =>
+  Layer.mergeAll(InMemoryEventStores, makeInMemoryRegistryLayer(), InMemoryProjectionCheckpoints)
+
+const appendUser = Effect.flatMap(UserEventStore, (store) => store.append(StreamId(userId), [userCreated], 0))
+const appendAddress = Effect.flatMap(
+  AddressEventStore,
+  (store) => store.append(StreamId(addressId), [addressCreated], 0)
+)
+
+// Records every position it sees; optionally dies once on a given position
+const makeRecordingProjection = (options?: { readonly dieOnceAt?: number }) => {
+  const seen: Array<number> = []
+  let died = false
+  const projection: Projection<never> = {
+    name: "recording",
+    apply: (envelope) =>
+      Effect.suspend(() => {
+        if (envelope.position === options?.dieOnceAt && !died) {
+          died = true
+          return Effect.die(new Error("projection blew up"))
+        }
+        seen.push(envelope.position)
+        return Effect.void
+      })
+  }
+  return { projection, seen }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("ProjectionRunner", () => {
+  describe("catchUpProjection", () => {
+    it.effect("RegistryProjection → applies user and address events to the Registry", () =>
+      Effect.gen(function*() {
+        yield* appendUser
+        yield* appendAddress
+
+        const position = yield* catchUpProjection(RegistryProjection)
+
+        const registry = yield* Registry
+        expect(position).toBe(2)
+        expect(yield* registry.getUserIdByNickname("jean-dupont")).toEqual(Option.some(userId))
+        expect(yield* registry.getAddressIdByLabel(userId, "home")).toEqual(Option.some(addressId))
+        expect(yield* registry.getAddressIdByToken(token)).toEqual(Option.some(addressId))
+      }).pipe(Effect.provide(makeTestLayer())))
+
+    it.effect("persists the checkpoint and resumes after it", () =>
+      Effect.gen(function*() {
+        const { projection, seen } = makeRecordingProjection()
+        yield* appendUser
+        yield* catchUpProjection(projection)
+
+        yield* appendAddress
+        const position = yield* catchUpProjection(projection)
+
+        const checkpoints = yield* ProjectionCheckpoints
+        expect(seen).toEqual([1, 2])
+        expect(position).toBe(2)
+        expect(yield* checkpoints.load("recording")).toBe(2)
+      }).pipe(Effect.provide(makeTestLayer())))
+
+    it.effect("nothing new → returns the existing checkpoint", () =>
+      Effect.gen(function*() {
+        const { projection } = makeRecordingProjection()
+
+        const position = yield* catchUpProjection(projection)
+
+        expect(position).toBe(0)
+      }).pipe(Effect.provide(makeTestLayer())))
+  })
+
+  describe("runProjection", () => {
+    it.effect("keeps applying events appended after it started", () =>
+      Effect.gen(function*() {
+        yield* appendUser
+        const applied = yield* Deferred.make<void>()
+        const projection: Projection<Registry> = {
+          name: RegistryProjection.name,
+          apply: (envelope) =>
+            RegistryProjection.apply(envelope).pipe(
+              Effect.zipRight(envelope.position === 3 ? Deferred.succeed(applied, undefined) : Effect.void)
+            )
+        }
+
+        const fiber = yield* Effect.fork(runProjection(projection))
+        yield* appendAddress
+        yield* Effect.flatMap(AddressEventStore, (store) => store.append(StreamId(addressId), [cityReverted], 1))
+        yield* Deferred.await(applied)
+        yield* Fiber.interrupt(fiber)
+
+        // CityReverted consumed the token
+        const registry = yield* Registry
+        expect(yield* registry.getAddressIdByLabel(userId, "home")).toEqual(Option.some(addressId))
+        expect(yield* registry.getAddressIdByToken(token)).toEqual(Option.none())
+      }).pipe(Effect.provide(makeTestLayer())))
+
+    it.effect("apply dies → restarts from the last checkpoint, skipping nothing", () =>
+      Effect.gen(function*() {
+        const { projection, seen } = makeRecordingProjection({ dieOnceAt: 2 })
+        yield* appendUser
+        yield* appendAddress
+
+        const fiber = yield* Effect.fork(runProjection(projection))
+        // Let the first run fail, then skip past the restart delay
+        yield* TestClock.adjust("5 seconds")
+        const checkpoints = yield* ProjectionCheckpoints
+        const position = yield* checkpoints.load("recording").pipe(
+          Effect.repeat({ until: (p) => p === 2 })
+        )
+        yield* Fiber.interrupt(fiber)
+
+        expect(position).toBe(2)
+        expect(seen).toEqual([1, 2])
+      }).pipe(Effect.provide(makeTestLayer())))
+  })
+
+  describe("rebuildRegistry", () => {
+    it.effect("corrupted registry → wiped and rebuilt from the log", () =>
+      Effect.gen(function*() {
+        yield* appendUser
+        yield* appendAddress
+        yield* catchUpProjection(RegistryProjection)
+
+        // Corruption: a label the log knows nothing about
+        const registry = yield* Registry
+        yield* registry.projectAddressEvent({
+          ...(addressCreated as Extract<AddressEvent, { _tag: "AddressCreated" }>),
+          id: "ghost" as AddressId,
+          label: "ghost" as never
+        })
+
+        const done = yield* rebuildRegistry(() => Effect.void)
+
+        expect(done).toEqual({ processed: 2, position: 2, headPosition: 2 })
+        expect(yield* registry.getAddressIdByLabel(userId, "ghost")).toEqual(Option.none())
+        expect(yield* registry.getAddressIdByLabel(userId, "home")).toEqual(Option.some(addressId))
+        expect(yield* registry.getUserIdByNickname("jean-dupont")).toEqual(Option.some(userId))
+        const checkpoints = yield* ProjectionCheckpoints
+        expect(yield* checkpoints.load(RegistryProjection.name)).toBe(2)
+      }).pipe(Effect.provide(makeTestLayer())))
+
+    it.effect("empty registry over an existing log → rehydrated", () =>
+      Effect.gen(function*() {
+        yield* appendUser
+        yield* appendAddress
+
+        yield* rebuildRegistry(() => Effect.void)
+
+        const registry = yield* Registry
+        expect(yield* registry.getAddressIdByToken(token)).toEqual(Option.some(addressId))
+      }).pipe(Effect.provide(makeTestLayer())))
+
+    it.effect("reports progress every N events and once at the end", () =>
+      Effect.gen(function*() {
+        const { projection, seen } = makeRecordingProjection()
+        yield* appendUser
+        yield* appendAddress
+        yield* Effect.flatMap(AddressEventStore, (store) => store.append(StreamId(addressId), [cityReverted], 1))
+        const reports = yield* Ref.make<ReadonlyArray<RebuildProgress>>([])
+
+        yield* rebuildProjection(projection, {
+          reset: Effect.void,
+          onProgress: (progress) => Ref.update(reports, (all) => [...all, progress]),
+          progressEvery: 2
+        })
+
+        expect(seen).toEqual([1, 2, 3])
+        expect(yield* Ref.get(reports)).toEqual([
+          { processed: 2, position: 2, headPosition: 3 },
+          { processed: 3, position: 3, headPosition: 3 }
+        ])
+      }).pipe(Effect.provide(makeTestLayer())))
+  })
+})
@@ -0,0 +1,92 @@
+// =============================================================================
+// RevertTokenSweep Tests
+// =============================================================================
+//
+// Time is TestClock time: tokens are issued at t = 0, the TTL is 1 hour,
+// and the clock is moved past it to make them stale.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Fiber, Option, TestClock } from "effect"
+
+import { runRevertTokenSweep, sweepExpiredRevertTokens } from "../../src/application/RevertTokenSweep.js"
+import type { AddressEvent } from "../../src/domain/address/Events.js"
+import type { Address, AddressId, RevertToken } from "../../src/domain/address/State.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { Registry } from "../../src/Registry.js"
+import { RevertTokenTtl } from "../../src/RevertTokenTtl.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const addressId = "addr-1" as AddressId
+const ttl = Duration.hours(1)
+
+const cityChangedAt = (token: string, issuedAtMillis: number): AddressEvent => ({
+  _tag: "CityChanged",
+  id: addressId,
+  revertToken: token as RevertToken,
+  revertTokenIssuedAt: new Date(issuedAtMillis),
+  oldValue: "Paris" as Address["city"],
+  newValue: "Lyon" as Address["city"]
+})
+
+const lookup = (token: string) =>
+  Effect.flatMap(Registry, (registry) => registry.getAddressIdByToken(token as RevertToken))
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("sweepExpiredRevertTokens", () => {
+  it.effect("purges tokens older than the TTL, keeps the fresh ones", () =>
+    Effect.gen(function*() {
+      const registry = yield* Registry
+      yield* registry.projectAddressEvent(cityChangedAt("token-old", 0))
+      yield* TestClock.adjust("30 minutes")
+      yield* registry.projectAddressEvent(cityChangedAt("token-new", Duration.toMillis("30 minutes")))
+
+      // t = 1h: token-old has exactly reached its TTL
+      yield* TestClock.adjust("30 minutes")
+      expect(yield* sweepExpiredRevertTokens).toBe(1)
+
+      expect(yield* lookup("token-old")).toEqual(Option.none())
+      expect(yield* lookup("token-new")).toEqual(Option.some(addressId))
+    }).pipe(
+      Effect.provide(makeInMemoryRegistryLayer()),
+      Effect.provideService(RevertTokenTtl, ttl)
+    ))
+
+  it.effect("nothing to purge → 0", () =>
+    Effect.gen(function*() {
+      const registry = yield* Registry
+      yield* registry.projectAddressEvent(cityChangedAt("token-new", 0))
+
+      expect(yield* sweepExpiredRevertTokens).toBe(0)
+      expect(yield* lookup("token-new")).toEqual(Option.some(addressId))
+    }).pipe(
+      Effect.provide(makeInMemoryRegistryLayer()),
+      Effect.provideService(RevertTokenTtl, ttl)
+    ))
+})
+
+describe("runRevertTokenSweep", () => {
+  it.effect("sweeps again every interval", () =>
+    Effect.gen(function*() {
+      const registry = yield* Registry
+      const fiber = yield* Effect.fork(runRevertTokenSweep({ interval: "10 minutes" }))
+
+      yield* registry.projectAddressEvent(cityChangedAt("token-1", 0))
+      yield* TestClock.adjust("50 minutes")
+      expect(yield* lookup("token-1")).toEqual(Option.some(addressId))
+
+      // Next tick after t = 1h drops it
+      yield* TestClock.adjust("10 minutes")
+      expect(yield* lookup("token-1")).toEqual(Option.none())
+
+      yield* Fiber.interrupt(fiber)
+    }).pipe(
+      Effect.provide(makeInMemoryRegistryLayer()),
+      Effect.provideService(RevertTokenTtl, ttl)
+    ))
+})
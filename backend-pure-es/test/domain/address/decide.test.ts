@@ -10,11 +10,12 @@
 //   - Include revertToken in commands
 //   - Verify correct events are emitted with tokens
 //   - Test RevertChange command with pendingReverts lookup
+//   - Stamp tokens with issuedAt, and revert within (or past) the TTL
 //
 // We test incrementally, one scenario at a time.
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Either } from "effect"
+import { Duration, Either } from "effect"
 import type { AddressCommand, CreateAddress } from "../../../src/domain/address/Commands.js"
 import { decide } from "../../../src/domain/address/decide.js"
 import type { Address, AddressState, RevertToken } from "../../../src/domain/address/State.js"
@@ -28,6 +29,12 @@ const addressId = "addr-123" as Address["id"]
 const userId = "user-456" as Address["userId"]
 const revertToken = "token-abc" as RevertToken
 
+// Tokens are issued at `issuedAt` and honoured for `tokenTtl`;
+// reverts happen at `requestedAt` — a day later, well within the window
+const issuedAt = new Date("2024-01-01T10:00:00Z")
+const tokenTtl = Duration.days(7)
+const requestedAt = new Date("2024-01-02T10:00:00Z")
+
 const baseAddress: Address = {
   id: addressId,
   userId,
@@ -68,6 +75,7 @@ describe("decide", () => {
         _tag: "CreateAddress",
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         userId,
         label: baseAddress.label,
         streetNumber: baseAddress.streetNumber,
@@ -83,6 +91,7 @@ describe("decide", () => {
         _tag: "AddressCreated",
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         userId,
         label: baseAddress.label,
         streetNumber: baseAddress.streetNumber,
@@ -98,6 +107,7 @@ describe("decide", () => {
         _tag: "CreateAddress",
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         userId,
         label: baseAddress.label,
         streetNumber: baseAddress.streetNumber,
@@ -134,6 +144,7 @@ describe("decide", () => {
         _tag: cmdTag,
         id: addressId,
         revertToken: fieldRevertToken,
+        revertTokenIssuedAt: issuedAt,
         [field]: newValue
       } as AddressCommand
 
@@ -143,6 +154,7 @@ describe("decide", () => {
         _tag: evtTag,
         id: addressId,
         revertToken: fieldRevertToken,
+        revertTokenIssuedAt: issuedAt,
         oldValue: baseAddress[field],
         newValue
       }]))
@@ -153,6 +165,7 @@ describe("decide", () => {
         _tag: cmdTag,
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         [field]: newValue
       } as AddressCommand
 
@@ -166,6 +179,7 @@ describe("decide", () => {
         _tag: cmdTag,
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         [field]: baseAddress[field] // same as current
       } as AddressCommand
 
@@ -175,6 +189,49 @@ describe("decide", () => {
     })
   })
 
+  // ---------------------------------------------------------------------------
+  // ChangeAddress (several fields, one event)
+  // ---------------------------------------------------------------------------
+  describe("ChangeAddress", () => {
+    const changeToken = "token-change" as RevertToken
+    const changeAddress = (fields: Record<string, string>) =>
+      ({
+        _tag: "ChangeAddress",
+        id: addressId,
+        revertToken: changeToken,
+        revertTokenIssuedAt: issuedAt,
+        fields
+      }) as AddressCommand
+
+    it("on state with address → Right([AddressChanged]) with only the fields that change", () => {
+      const result = decide(
+        stateWithAddress(baseAddress),
+        changeAddress({ streetNumber: "7", streetName: "Rue de la République", city: "Paris" })
+      )
+
+      expect(result).toEqual(Either.right([{
+        _tag: "AddressChanged",
+        id: addressId,
+        revertToken: changeToken,
+        revertTokenIssuedAt: issuedAt,
+        changes: {
+          streetNumber: { oldValue: "42", newValue: "7" },
+          streetName: { oldValue: "Rue de Rivoli", newValue: "Rue de la République" }
+        }
+      }]))
+    })
+
+    it("with nothing actually changing → Right([]) (no-op)", () => {
+      expect(decide(stateWithAddress(baseAddress), changeAddress({ city: "Paris" }))).toEqual(Either.right([]))
+    })
+
+    it("on empty state → Left(AddressNotFound)", () => {
+      expect(decide(initialAddressState, changeAddress({ city: "Lyon" }))).toEqual(
+        Either.left({ _tag: "AddressNotFound" })
+      )
+    })
+  })
+
   // ---------------------------------------------------------------------------
   // DeleteAddress
   // ---------------------------------------------------------------------------
@@ -184,7 +241,8 @@ describe("decide", () => {
       const command = {
         _tag: "DeleteAddress" as const,
         id: addressId,
-        revertToken: deleteToken
+        revertToken: deleteToken,
+        revertTokenIssuedAt: issuedAt
       }
 
       const result = decide(stateWithAddress(baseAddress), command)
@@ -193,6 +251,7 @@ describe("decide", () => {
         _tag: "AddressDeleted",
         id: addressId,
         revertToken: deleteToken,
+        revertTokenIssuedAt: issuedAt,
         userId,
         label: baseAddress.label,
         streetNumber: baseAddress.streetNumber,
@@ -207,7 +266,8 @@ describe("decide", () => {
       const command = {
         _tag: "DeleteAddress" as const,
         id: addressId,
-        revertToken
+        revertToken,
+        revertTokenIssuedAt: issuedAt
       }
 
       const result = decide(initialAddressState, command)
@@ -244,14 +304,23 @@ describe("decide", () => {
         // State: address has changed value, token in pendingReverts
         const changedAddress = { ...baseAddress, [field]: changedValue } as Address
         const pendingReverts = new Map([
-          [fieldRevertToken, { _tag: "FieldChange" as const, field, oldValue: originalValue, newValue: changedValue }]
+          [fieldRevertToken, {
+            _tag: "FieldChange" as const,
+            field,
+            oldValue: originalValue,
+            newValue: changedValue,
+            issuedAt
+          }]
         ])
         const state = stateWithAddressAndReverts(changedAddress, pendingReverts)
 
         const command = {
           _tag: "RevertChange" as const,
           id: addressId,
-          revertToken: fieldRevertToken
+          revertToken: fieldRevertToken,
+          requestedAt,
+          tokenTtl,
+          force: false
         }
 
         const result = decide(state, command)
@@ -272,7 +341,10 @@ describe("decide", () => {
       const command = {
         _tag: "RevertChange" as const,
         id: addressId,
-        revertToken: unknownToken
+        revertToken: unknownToken,
+        requestedAt,
+        tokenTtl,
+        force: false
       }
 
       const result = decide(stateWithAddress(baseAddress), command)
@@ -289,7 +361,10 @@ describe("decide", () => {
       const command = {
         _tag: "RevertChange" as const,
         id: addressId,
-        revertToken: usedToken
+        revertToken: usedToken,
+        requestedAt,
+        tokenTtl,
+        force: false
       }
 
       // State has no pending reverts (token was already used)
@@ -301,6 +376,177 @@ describe("decide", () => {
       }))
     })
 
+    // -------------------------------------------------------------------------
+    // Expiry
+    // -------------------------------------------------------------------------
+    describe("token expiry", () => {
+      const cityToken = "token-city" as RevertToken
+      const state = stateWithAddressAndReverts(
+        { ...baseAddress, city: "Lyon" as Address["city"] },
+        new Map([[cityToken, {
+          _tag: "FieldChange" as const,
+          field: "city" as const,
+          oldValue: "Paris",
+          newValue: "Lyon",
+          issuedAt
+        }]])
+      )
+      const revertAt = (at: Date) =>
+        decide(state, {
+          _tag: "RevertChange",
+          id: addressId,
+          revertToken: cityToken,
+          requestedAt: at,
+          tokenTtl,
+          force: false
+        })
+
+      it("just before issuedAt + TTL → still honoured", () => {
+        const result = revertAt(new Date(issuedAt.getTime() + Duration.toMillis(tokenTtl) - 1))
+
+        expect(Either.isRight(result)).toBe(true)
+      })
+
+      it("at issuedAt + TTL → Left(RevertTokenExpired) with the expiry instant", () => {
+        const expiredAt = new Date("2024-01-08T10:00:00Z")
+
+        expect(revertAt(expiredAt)).toEqual(Either.left({
+          _tag: "RevertTokenExpired",
+          token: cityToken,
+          expiredAt
+        }))
+      })
+
+      it("an unknown token is Invalid, not Expired — whatever the time", () => {
+        const result = decide(state, {
+          _tag: "RevertChange",
+          id: addressId,
+          revertToken: "token-unknown" as RevertToken,
+          requestedAt: new Date("2030-01-01T00:00:00Z"),
+          tokenTtl,
+          force: false
+        })
+
+        expect(result).toEqual(Either.left({ _tag: "RevertTokenInvalid", token: "token-unknown" }))
+      })
+    })
+
+    // -------------------------------------------------------------------------
+    // Stale reverts: the field changed again after the email
+    // -------------------------------------------------------------------------
+    describe("stale field revert", () => {
+      // Token A set Paris → Lyon; a later change (token B) set Lyon → Nice
+      const staleToken = "token-city-a" as RevertToken
+      const pendingReverts = new Map([
+        [staleToken, {
+          _tag: "FieldChange" as const,
+          field: "city" as const,
+          oldValue: "Paris",
+          newValue: "Lyon",
+          issuedAt
+        }]
+      ])
+      const nice = { ...baseAddress, city: "Nice" as Address["city"] }
+      const revert = (state: AddressState, force: boolean) =>
+        decide(state, { _tag: "RevertChange", id: addressId, revertToken: staleToken, requestedAt, tokenTtl, force })
+
+      it("without force → Left(RevertConflict) with expected and current values", () => {
+        expect(revert(stateWithAddressAndReverts(nice, pendingReverts), false)).toEqual(Either.left({
+          _tag: "RevertConflict",
+          token: staleToken,
+          field: "city",
+          expectedValue: "Lyon",
+          currentValue: "Nice"
+        }))
+      })
+
+      it("with force → Right([CityReverted]) from the CURRENT value", () => {
+        expect(revert(stateWithAddressAndReverts(nice, pendingReverts), true)).toEqual(Either.right([{
+          _tag: "CityReverted",
+          id: addressId,
+          revertToken: staleToken,
+          oldValue: "Nice",
+          newValue: "Paris"
+        }]))
+      })
+
+      it("address deleted since → Left(RevertConflict) with null current value, even with force", () => {
+        expect(revert(stateWithAddressAndReverts(null, pendingReverts), true)).toEqual(Either.left({
+          _tag: "RevertConflict",
+          token: staleToken,
+          field: "city",
+          expectedValue: "Lyon",
+          currentValue: null
+        }))
+      })
+    })
+
+    // -------------------------------------------------------------------------
+    // Multi-field revert (AddressChanged): all fields together, or none
+    // -------------------------------------------------------------------------
+    describe("address change revert", () => {
+      // Token set 42 Rue de Rivoli, Paris → 7 Rue Nationale, Lyon
+      const changeToken = "token-change" as RevertToken
+      const pendingReverts = new Map([
+        [changeToken, {
+          _tag: "AddressChange" as const,
+          changes: [
+            { field: "streetNumber" as const, oldValue: "42", newValue: "7" },
+            { field: "streetName" as const, oldValue: "Rue de Rivoli", newValue: "Rue Nationale" },
+            { field: "city" as const, oldValue: "Paris", newValue: "Lyon" }
+          ],
+          issuedAt
+        }]
+      ])
+      const moved = {
+        ...baseAddress,
+        streetNumber: "7" as Address["streetNumber"],
+        streetName: "Rue Nationale" as Address["streetName"],
+        city: "Lyon" as Address["city"]
+      }
+      const revert = (address: Address | null, force: boolean) =>
+        decide(stateWithAddressAndReverts(address, pendingReverts), {
+          _tag: "RevertChange",
+          id: addressId,
+          revertToken: changeToken,
+          requestedAt,
+          tokenTtl,
+          force
+        })
+
+      it("with valid token → Right([AddressChangeReverted]) restoring every field", () => {
+        expect(revert(moved, false)).toEqual(Either.right([{
+          _tag: "AddressChangeReverted",
+          id: addressId,
+          revertToken: changeToken,
+          changes: {
+            streetNumber: { oldValue: "7", newValue: "42" },
+            streetName: { oldValue: "Rue Nationale", newValue: "Rue de Rivoli" },
+            city: { oldValue: "Lyon", newValue: "Paris" }
+          }
+        }]))
+      })
+
+      it("one field changed since, without force → Left(RevertConflict) for that field", () => {
+        expect(revert({ ...moved, city: "Nice" as Address["city"] }, false)).toEqual(Either.left({
+          _tag: "RevertConflict",
+          token: changeToken,
+          field: "city",
+          expectedValue: "Lyon",
+          currentValue: "Nice"
+        }))
+      })
+
+      it("one field changed since, with force → Right([AddressChangeReverted]) from the CURRENT values", () => {
+        const result = revert({ ...moved, city: "Nice" as Address["city"] }, true)
+
+        expect(Either.getOrThrow(result)[0]).toMatchObject({
+          _tag: "AddressChangeReverted",
+          changes: { city: { oldValue: "Nice", newValue: "Paris" } }
+        })
+      })
+    })
+
     // -------------------------------------------------------------------------
     // Deletion revert (restore)
     // -------------------------------------------------------------------------
@@ -309,7 +555,7 @@ describe("decide", () => {
 
       // State: address deleted, token in pendingReverts with snapshot
       const pendingReverts = new Map([
-        [restoreToken, { _tag: "Deletion" as const, snapshot: baseAddress }]
+        [restoreToken, { _tag: "Deletion" as const, snapshot: baseAddress, issuedAt }]
       ])
       const deletedState: AddressState = {
         address: null,
@@ -319,7 +565,10 @@ describe("decide", () => {
       const command = {
         _tag: "RevertChange" as const,
         id: addressId,
-        revertToken: restoreToken
+        revertToken: restoreToken,
+        requestedAt,
+        tokenTtl,
+        force: false
       }
 
       const result = decide(deletedState, command)
@@ -346,14 +595,17 @@ describe("decide", () => {
 
       // State: address exists, token in pendingReverts as Creation
       const pendingReverts = new Map([
-        [creationToken, { _tag: "Creation" as const, snapshot: baseAddress }]
+        [creationToken, { _tag: "Creation" as const, snapshot: baseAddress, issuedAt }]
       ])
       const state = stateWithAddressAndReverts(baseAddress, pendingReverts)
 
       const command = {
         _tag: "RevertChange" as const,
         id: addressId,
-        revertToken: creationToken
+        revertToken: creationToken,
+        requestedAt,
+        tokenTtl,
+        force: false
       }
 
       const result = decide(state, command)
@@ -32,6 +32,7 @@ import { initialAddressState } from "../../../src/domain/address/State.js"
 const addressId = "addr-123" as Address["id"]
 const userId = "user-456" as Address["userId"]
 const revertToken = "token-abc" as RevertToken
+const issuedAt = new Date("2024-01-01T10:00:00Z")
 
 const baseAddress: Address = {
   id: addressId,
@@ -90,6 +91,7 @@ describe("evolve", () => {
         _tag: "AddressCreated",
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         userId,
         label: baseAddress.label,
         streetNumber: baseAddress.streetNumber,
@@ -106,7 +108,8 @@ describe("evolve", () => {
       // Token should be in pendingReverts as Creation
       expect(result.pendingReverts.get(revertToken)).toEqual({
         _tag: "Creation",
-        snapshot: baseAddress
+        snapshot: baseAddress,
+        issuedAt
       })
     })
   })
@@ -124,6 +127,7 @@ describe("evolve", () => {
         _tag: tag,
         id: addressId,
         revertToken: fieldRevertToken,
+        revertTokenIssuedAt: issuedAt,
         oldValue: baseAddress[field],
         newValue
       } as AddressEvent
@@ -140,7 +144,8 @@ describe("evolve", () => {
         _tag: "FieldChange",
         field,
         oldValue: baseAddress[field],
-        newValue
+        newValue,
+        issuedAt
       })
     })
 
@@ -151,6 +156,7 @@ describe("evolve", () => {
         _tag: tag,
         id: addressId,
         revertToken,
+        revertTokenIssuedAt: issuedAt,
         oldValue: baseAddress[field],
         newValue
       } as AddressEvent
@@ -164,6 +170,60 @@ describe("evolve", () => {
     })
   })
 
+  // ---------------------------------------------------------------------------
+  // AddressChanged / AddressChangeReverted (several fields, one token)
+  // ---------------------------------------------------------------------------
+  describe("AddressChanged", () => {
+    const changeToken = "token-change" as RevertToken
+    const moved = { ...baseAddress, streetNumber: "7", city: "Lyon" } as Address
+
+    it("on state with address → updates every field of the diff + adds ONE pending revert", () => {
+      const event = {
+        _tag: "AddressChanged",
+        id: addressId,
+        revertToken: changeToken,
+        revertTokenIssuedAt: issuedAt,
+        changes: { streetNumber: { oldValue: "42", newValue: "7" }, city: { oldValue: "Paris", newValue: "Lyon" } }
+      } as AddressEvent
+
+      const result = evolve(stateWithAddress(baseAddress), event)
+
+      expect(result.address).toEqual(moved)
+      expect(result.pendingReverts.get(changeToken)).toEqual({
+        _tag: "AddressChange",
+        changes: [
+          { field: "streetNumber", oldValue: "42", newValue: "7" },
+          { field: "city", oldValue: "Paris", newValue: "Lyon" }
+        ],
+        issuedAt
+      })
+    })
+
+    it("AddressChangeReverted → restores every field + removes the pending revert", () => {
+      const pendingReverts = new Map([
+        [changeToken, {
+          _tag: "AddressChange" as const,
+          changes: [
+            { field: "streetNumber" as const, oldValue: "42", newValue: "7" },
+            { field: "city" as const, oldValue: "Paris", newValue: "Lyon" }
+          ],
+          issuedAt
+        }]
+      ])
+      const event = {
+        _tag: "AddressChangeReverted",
+        id: addressId,
+        revertToken: changeToken,
+        changes: { streetNumber: { oldValue: "7", newValue: "42" }, city: { oldValue: "Lyon", newValue: "Paris" } }
+      } as AddressEvent
+
+      const result = evolve(stateWithAddressAndReverts(moved, pendingReverts), event)
+
+      expect(result.address).toEqual(baseAddress)
+      expect(result.pendingReverts.has(changeToken)).toBe(false)
+    })
+  })
+
   // ---------------------------------------------------------------------------
   // AddressDeleted
   // ---------------------------------------------------------------------------
@@ -174,6 +234,7 @@ describe("evolve", () => {
         _tag: "AddressDeleted",
         id: addressId,
         revertToken: deleteToken,
+        revertTokenIssuedAt: issuedAt,
         // Snapshot fields (for restore capability)
         userId,
         label: baseAddress.label,
@@ -191,7 +252,8 @@ describe("evolve", () => {
       // Pending revert should contain snapshot for restoration
       expect(result.pendingReverts.get(deleteToken)).toEqual({
         _tag: "Deletion",
-        snapshot: baseAddress
+        snapshot: baseAddress,
+        issuedAt
       })
     })
   })
@@ -222,7 +284,13 @@ describe("evolve", () => {
 
       // State has the token in pendingReverts
       const pendingReverts = new Map([
-        [fieldRevertToken, { _tag: "FieldChange" as const, field, oldValue: originalValue, newValue: changedValue }]
+        [fieldRevertToken, {
+          _tag: "FieldChange" as const,
+          field,
+          oldValue: originalValue,
+          newValue: changedValue,
+          issuedAt
+        }]
       ])
       const state = stateWithAddressAndReverts(changedAddress, pendingReverts)
 
@@ -254,7 +322,7 @@ describe("evolve", () => {
 
       // State: address exists, token in pendingReverts as Creation
       const pendingReverts = new Map([
-        [creationToken, { _tag: "Creation" as const, snapshot: baseAddress }]
+        [creationToken, { _tag: "Creation" as const, snapshot: baseAddress, issuedAt }]
       ])
       const state: AddressState = {
         address: baseAddress,
@@ -285,7 +353,7 @@ describe("evolve", () => {
 
       // State: address deleted, token in pendingReverts
       const pendingReverts = new Map([
-        [restoreToken, { _tag: "Deletion" as const, snapshot: baseAddress }]
+        [restoreToken, { _tag: "Deletion" as const, snapshot: baseAddress, issuedAt }]
       ])
       const deletedState: AddressState = {
         address: null,
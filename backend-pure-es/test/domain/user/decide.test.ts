@@ -14,10 +14,17 @@
 // We test incrementally: one test → make it pass → next test.
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Either, Option } from "effect"
-import type { ChangeFirstName, ChangeLastName, CreateUser } from "../../../src/domain/user/Commands.js"
+import { Duration, Either, Option } from "effect"
+import type {
+  ChangeFirstName,
+  ChangeLastName,
+  CreateUser,
+  LogIn,
+  LogOut,
+  RequestLoginLink
+} from "../../../src/domain/user/Commands.js"
 import { decide } from "../../../src/domain/user/decide.js"
-import type { User } from "../../../src/domain/user/State.js"
+import type { LoginTokenId, SessionId, User } from "../../../src/domain/user/State.js"
 
 // =============================================================================
 // Test Fixtures
@@ -27,6 +34,11 @@ const userId = "user-123" as User["id"]
 const email = "jean@example.com" as User["email"]
 const firstName = "Jean" as User["firstName"]
 const lastName = "Dupont" as User["lastName"]
+const tokenId = "login-1" as LoginTokenId
+const sessionId = "session-1" as SessionId
+const issuedAt = new Date("2026-01-01T00:00:00Z")
+const linkTtl = Duration.minutes(15)
+const sessionTtl = Duration.days(7)
 
 // =============================================================================
 // decide tests
@@ -60,7 +72,7 @@ describe("decide", () => {
       // CreateUser means "birth a new user" — can only happen once.
       // If user already exists, it's an error, not a silent no-op.
       // This makes the command's meaning unambiguous.
-      const existingUser: User = { id: userId, email, firstName, lastName }
+      const existingUser: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
       const command: CreateUser = {
         _tag: "CreateUser",
         id: userId,
@@ -77,7 +89,7 @@ describe("decide", () => {
 
   describe("ChangeFirstName", () => {
     it("ChangeFirstName on Some(User) → Right([FirstNameChanged])", () => {
-      const existingUser: User = { id: userId, email, firstName, lastName }
+      const existingUser: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
       const newFirstName = "Pierre" as User["firstName"]
       const command: ChangeFirstName = {
         _tag: "ChangeFirstName",
@@ -115,7 +127,7 @@ describe("decide", () => {
     it("ChangeFirstName with same value → Right([]) (no-op)", () => {
       // NO-OP: If value doesn't change, no event to record.
       // The desired state is already true — nothing happened.
-      const existingUser: User = { id: userId, email, firstName, lastName }
+      const existingUser: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
       const command: ChangeFirstName = {
         _tag: "ChangeFirstName",
         id: userId,
@@ -130,7 +142,7 @@ describe("decide", () => {
 
   describe("ChangeLastName", () => {
     it("ChangeLastName on Some(User) → Right([LastNameChanged])", () => {
-      const existingUser: User = { id: userId, email, firstName, lastName }
+      const existingUser: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
       const newLastName = "Martin" as User["lastName"]
       const command: ChangeLastName = {
         _tag: "ChangeLastName",
@@ -162,7 +174,7 @@ describe("decide", () => {
     })
 
     it("ChangeLastName with same value → Right([]) (no-op)", () => {
-      const existingUser: User = { id: userId, email, firstName, lastName }
+      const existingUser: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
       const command: ChangeLastName = {
         _tag: "ChangeLastName",
         id: userId,
@@ -174,4 +186,97 @@ describe("decide", () => {
       expect(result).toEqual(Either.right([]))
     })
   })
+
+  describe("RequestLoginLink", () => {
+    it("RequestLoginLink on Some(User) → Right([LoginLinkRequested])", () => {
+      const user: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
+      const command: RequestLoginLink = { _tag: "RequestLoginLink", id: userId, tokenId, issuedAt }
+
+      const result = decide(Option.some(user), command)
+
+      expect(result).toEqual(Either.right([{ _tag: "LoginLinkRequested", id: userId, tokenId, issuedAt }]))
+    })
+
+    it("RequestLoginLink on None → Left(UserNotFound)", () => {
+      const command: RequestLoginLink = { _tag: "RequestLoginLink", id: userId, tokenId, issuedAt }
+
+      expect(decide(Option.none(), command)).toEqual(Either.left({ _tag: "UserNotFound" }))
+    })
+  })
+
+  describe("LogIn", () => {
+    const withPendingLink: User = {
+      id: userId,
+      email,
+      firstName,
+      lastName,
+      pendingLogins: [{ tokenId, issuedAt }],
+      sessions: []
+    }
+    const logIn = (requestedAt: Date, linkId: LoginTokenId = tokenId): LogIn => ({
+      _tag: "LogIn",
+      id: userId,
+      tokenId: linkId,
+      sessionId,
+      requestedAt,
+      linkTtl,
+      sessionTtl
+    })
+
+    it("LogIn with a pending link → Right([LoggedIn]), stamped with the session's expiry", () => {
+      const loggedInAt = new Date("2026-01-01T00:05:00Z")
+
+      const result = decide(Option.some(withPendingLink), logIn(loggedInAt))
+
+      expect(result).toEqual(Either.right([{
+        _tag: "LoggedIn",
+        id: userId,
+        tokenId,
+        sessionId,
+        loggedInAt,
+        expiresAt: new Date("2026-01-08T00:05:00Z")
+      }]))
+    })
+
+    it("LogIn with a link that isn't pending (used or never issued) → Left(LoginLinkInvalid)", () => {
+      const other = "login-2" as LoginTokenId
+
+      const result = decide(Option.some(withPendingLink), logIn(new Date("2026-01-01T00:05:00Z"), other))
+
+      expect(result).toEqual(Either.left({ _tag: "LoginLinkInvalid", tokenId: other }))
+    })
+
+    it("LogIn exactly at the TTL → Left(LoginLinkExpired)", () => {
+      const expiredAt = new Date("2026-01-01T00:15:00Z")
+
+      const result = decide(Option.some(withPendingLink), logIn(expiredAt))
+
+      expect(result).toEqual(Either.left({ _tag: "LoginLinkExpired", tokenId, expiredAt }))
+    })
+  })
+
+  describe("LogOut", () => {
+    const command: LogOut = { _tag: "LogOut", id: userId, sessionId }
+
+    it("LogOut of an open session → Right([LoggedOut])", () => {
+      const user: User = {
+        id: userId,
+        email,
+        firstName,
+        lastName,
+        pendingLogins: [],
+        sessions: [{ sessionId, expiresAt: issuedAt }]
+      }
+
+      expect(decide(Option.some(user), command)).toEqual(
+        Either.right([{ _tag: "LoggedOut", id: userId, sessionId }])
+      )
+    })
+
+    it("LogOut of a closed session → Right([]) (no-op)", () => {
+      const user: User = { id: userId, email, firstName, lastName, pendingLogins: [], sessions: [] }
+
+      expect(decide(Option.some(user), command)).toEqual(Either.right([]))
+    })
+  })
 })
@@ -24,8 +24,15 @@ import { Option } from "effect"
 import { evolve } from "../../../src/domain/user/evolve.js"
 // TS SYNTAX: `import type` — import only the type, not the runtime value.
 // Ensures no runtime code is pulled in; purely for type-checking.
-import type { FirstNameChanged, LastNameChanged, UserCreated } from "../../../src/domain/user/Events.js"
-import type { User } from "../../../src/domain/user/State.js"
+import type {
+  FirstNameChanged,
+  LastNameChanged,
+  LoggedIn,
+  LoggedOut,
+  LoginLinkRequested,
+  UserCreated
+} from "../../../src/domain/user/Events.js"
+import type { LoginTokenId, SessionId, User } from "../../../src/domain/user/State.js"
 
 // =============================================================================
 // Test Fixtures
@@ -50,12 +57,27 @@ const userId = "user-123" as User["id"]
 const email = "jean@example.com" as User["email"]
 const firstName = "Jean" as User["firstName"]
 const lastName = "Dupont" as User["lastName"]
+const tokenId = "login-1" as LoginTokenId
+const sessionId = "session-1" as SessionId
+const issuedAt = new Date("2026-01-01T00:00:00Z")
+
+// A 7-day session opened at `loggedInAt`
+const loggedIn = (id: SessionId, loggedInAt: Date): LoggedIn => ({
+  _tag: "LoggedIn",
+  id: userId,
+  tokenId,
+  sessionId: id,
+  loggedInAt,
+  expiresAt: new Date(loggedInAt.getTime() + 7 * 24 * 60 * 60 * 1000)
+})
 
 const existingUser: User = {
   id: userId,
   email,
   firstName,
-  lastName
+  lastName,
+  pendingLogins: [],
+  sessions: []
 }
 
 // =============================================================================
@@ -89,7 +111,9 @@ describe("evolve", () => {
         id: userId,
         email,
         firstName,
-        lastName
+        lastName,
+        pendingLogins: [],
+        sessions: []
       }))
     })
   })
@@ -110,7 +134,9 @@ describe("evolve", () => {
         id: userId,
         email,
         firstName: newFirstName,
-        lastName // unchanged
+        lastName, // unchanged
+        pendingLogins: [],
+        sessions: []
       }))
     })
   })
@@ -131,8 +157,60 @@ describe("evolve", () => {
         id: userId,
         email,
         firstName, // unchanged
-        lastName: newLastName
+        lastName: newLastName,
+        pendingLogins: [],
+        sessions: []
       }))
     })
   })
+
+  describe("LoginLinkRequested", () => {
+    it("LoginLinkRequested on Some(User) → the link is pending", () => {
+      const event: LoginLinkRequested = { _tag: "LoginLinkRequested", id: userId, tokenId, issuedAt }
+
+      const result = evolve(Option.some(existingUser), event)
+
+      expect(result).toEqual(Option.some({ ...existingUser, pendingLogins: [{ tokenId, issuedAt }] }))
+    })
+  })
+
+  describe("LoggedIn", () => {
+    it("LoggedIn → every pending link is used up, the session is open", () => {
+      const withLinks: User = {
+        ...existingUser,
+        pendingLogins: [{ tokenId, issuedAt }, { tokenId: "login-2" as LoginTokenId, issuedAt }]
+      }
+      const event = loggedIn(sessionId, issuedAt)
+
+      const result = evolve(Option.some(withLinks), event)
+
+      expect(result).toEqual(
+        Option.some({ ...existingUser, pendingLogins: [], sessions: [{ sessionId, expiresAt: event.expiresAt }] })
+      )
+    })
+
+    it("LoggedIn → sessions that expired by then are dropped, live ones kept", () => {
+      const expired = { sessionId: "session-old" as SessionId, expiresAt: new Date("2026-01-02T00:00:00Z") }
+      const live = { sessionId: "session-live" as SessionId, expiresAt: new Date("2026-01-05T00:00:00Z") }
+      const event = loggedIn(sessionId, new Date("2026-01-03T00:00:00Z"))
+
+      const result = evolve(Option.some({ ...existingUser, sessions: [expired, live] }), event)
+
+      expect(result).toEqual(
+        Option.some({ ...existingUser, sessions: [live, { sessionId, expiresAt: event.expiresAt }] })
+      )
+    })
+  })
+
+  describe("LoggedOut", () => {
+    it("LoggedOut → only that session is closed", () => {
+      const expiresAt = new Date("2026-01-08T00:00:00Z")
+      const otherSession = { sessionId: "session-2" as SessionId, expiresAt }
+      const event: LoggedOut = { _tag: "LoggedOut", id: userId, sessionId }
+
+      const result = evolve(Option.some({ ...existingUser, sessions: [{ sessionId, expiresAt }, otherSession] }), event)
+
+      expect(result).toEqual(Option.some({ ...existingUser, sessions: [otherSession] }))
+    })
+  })
 })
@@ -8,19 +8,80 @@
 // We use HttpApiBuilder.toWebHandler to test without a real server.
 // This creates an in-memory handler we can call directly with Request objects.
 //
-import { describe, expect, it } from "@effect/vitest"
-import { Effect, Layer } from "effect"
 import { HttpApiBuilder, HttpServer } from "@effect/platform"
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Layer, Option, Redacted } from "effect"
 
-import { ApiLive } from "../../src/http/Api.js"
+import { dispatchPending } from "../../src/application/OutboxDispatcher.js"
+import type { EmailContent } from "../../src/EmailService.js"
+import { ApiDocsLive, ApiLive } from "../../src/http/ApiLive.js"
+import { UuidIdGeneratorLive } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService, makeCaptureEmailServiceLayer } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestAuthTokenServiceLive } from "../../src/infrastructure/HmacAuthTokenService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
 import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
-import { makeCaptureEmailServiceLayer } from "../../src/infrastructure/ConsoleEmailService.js"
+import { InMemoryOutbox } from "../../src/infrastructure/InMemoryOutbox.js"
 import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { UuidIdGeneratorLive } from "../../src/IdGenerator.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { OutboxEmailService } from "../../src/infrastructure/OutboxEmailService.js"
+import { OperatorToken } from "../../src/OperatorToken.js"
+import { DEFAULT_MAX_ATTEMPTS, Outbox } from "../../src/Outbox.js"
+import { RevertTokenTtl } from "../../src/RevertTokenTtl.js"
+
+// =============================================================================
+// Logging in
+// =============================================================================
+//
+// Name and address changes need a session. Tests log in the way a user does:
+// ask for a link, pick its token out of the email, exchange it. The login
+// email is taken out of the inbox, so each test's email indices only count
+// the emails it is about.
+//
+
+type Handler = (request: Request) => Promise<Response>
+
+const takeCaptured = (capture: { getSentEmails: () => ReadonlyArray<EmailContent>; clear: () => void }) =>
+  Effect.sync(() => {
+    const emails = capture.getSentEmails()
+    capture.clear()
+    return emails[emails.length - 1]
+  })
+
+const takeQueued = (outbox: Outbox["Type"]) =>
+  Effect.gen(function*() {
+    const pending = yield* outbox.pending(100)
+    const message = pending[pending.length - 1]
+    if (message !== undefined) {
+      yield* outbox.markSent(message.id)
+    }
+    return message?.email
+  })
+
+const loginTokenIn = (email: EmailContent | undefined) => email?.body.match(/\/login\/([\w.-]+)/)?.[1]
+
+// → the header to send: { Authorization: "Bearer <session token>" }
+const logIn = (handler: Handler, nickname: string, takeEmail: Effect.Effect<EmailContent | undefined>) =>
+  Effect.gen(function*() {
+    yield* Effect.promise(() =>
+      handler(
+        new Request("http://localhost/auth/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ nickname })
+        })
+      )
+    )
+    const token = loginTokenIn(yield* takeEmail)
+    const response = yield* Effect.promise(() =>
+      handler(new Request(`http://localhost/auth/login/${token}`, { method: "POST" }))
+    )
+    const { sessionToken } = yield* Effect.promise(() => response.json())
+    return { Authorization: `Bearer ${sessionToken}` }
+  })
 
 describe("HTTP API", () => {
   it.effect("CreateUser → CreateAddress → email triggered", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       // Setup: capture emails for assertion
       const emailCapture = makeCaptureEmailServiceLayer()
 
@@ -35,9 +96,13 @@ describe("HTTP API", () => {
       //
       const AppDependencies = Layer.mergeAll(
         InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
         emailCapture.layer,
         makeInMemoryRegistryLayer(),
-        UuidIdGeneratorLive
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
       )
 
       const TestLayer = Layer.mergeAll(
@@ -46,7 +111,7 @@ describe("HTTP API", () => {
       )
 
       // Create web handler (no real server needed)
-      const { handler, dispose } = HttpApiBuilder.toWebHandler(TestLayer)
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
 
       try {
         // 1. Create user
@@ -63,18 +128,20 @@ describe("HTTP API", () => {
             })
           )
         )
-
         expect(createUserResponse.status).toBe(200)
         const user = yield* Effect.promise(() => createUserResponse.json())
         expect(user.nickname).toBe("jean-dupont")
         expect(user.email).toBe("jean.dupont@example.com")
 
+        // Address changes need a session — log in as the user
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+
         // 2. Create address for user
         const createAddressResponse = yield* Effect.promise(() =>
           handler(
             new Request("http://localhost/users/jean-dupont/addresses", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: { ...session, "Content-Type": "application/json" },
               body: JSON.stringify({
                 label: "home",
                 streetNumber: "42",
@@ -102,18 +169,21 @@ describe("HTTP API", () => {
         // Cleanup
         yield* Effect.promise(() => dispose())
       }
-    })
-  )
+    }))
 
   it.effect("GET /users/:nickname returns user with addresses", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const emailCapture = makeCaptureEmailServiceLayer()
 
       const AppDependencies = Layer.mergeAll(
         InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
         emailCapture.layer,
         makeInMemoryRegistryLayer(),
-        UuidIdGeneratorLive
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
       )
 
       const TestLayer = Layer.mergeAll(
@@ -121,7 +191,7 @@ describe("HTTP API", () => {
         HttpServer.layerContext
       )
 
-      const { handler, dispose } = HttpApiBuilder.toWebHandler(TestLayer)
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
 
       try {
         // 1. Create user
@@ -138,13 +208,14 @@ describe("HTTP API", () => {
             })
           )
         )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
 
         // 2. Create two addresses
         yield* Effect.promise(() =>
           handler(
             new Request("http://localhost/users/jean-dupont/addresses", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: { ...session, "Content-Type": "application/json" },
               body: JSON.stringify({
                 label: "home",
                 streetNumber: "42",
@@ -161,7 +232,7 @@ describe("HTTP API", () => {
           handler(
             new Request("http://localhost/users/jean-dupont/addresses", {
               method: "POST",
-              headers: { "Content-Type": "application/json" },
+              headers: { ...session, "Content-Type": "application/json" },
               body: JSON.stringify({
                 label: "work",
                 streetNumber: "1",
@@ -197,18 +268,21 @@ describe("HTTP API", () => {
       } finally {
         yield* Effect.promise(() => dispose())
       }
-    })
-  )
+    }))
 
   it.effect("GET /users/:nickname returns 404 for unknown user", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const emailCapture = makeCaptureEmailServiceLayer()
 
       const AppDependencies = Layer.mergeAll(
         InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
         emailCapture.layer,
         makeInMemoryRegistryLayer(),
-        UuidIdGeneratorLive
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
       )
 
       const TestLayer = Layer.mergeAll(
@@ -216,7 +290,7 @@ describe("HTTP API", () => {
         HttpServer.layerContext
       )
 
-      const { handler, dispose } = HttpApiBuilder.toWebHandler(TestLayer)
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
 
       try {
         const response = yield* Effect.promise(() =>
@@ -231,6 +305,863 @@ describe("HTTP API", () => {
       } finally {
         yield* Effect.promise(() => dispose())
       }
-    })
-  )
+    }))
+
+  it.effect("PATCH /users/:nickname changes a name and the nickname, 400 for an empty one", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+
+        const patchName = (body: unknown) =>
+          Effect.promise(() =>
+            handler(
+              new Request("http://localhost/users/jean-dupont", {
+                method: "PATCH",
+                headers: { ...session, "Content-Type": "application/json" },
+                body: JSON.stringify(body)
+              })
+            )
+          )
+
+        const response = yield* patchName({ field: "firstName", value: "Jeanne" })
+
+        expect(response.status).toBe(200)
+        expect(yield* Effect.promise(() => response.json())).toEqual({
+          field: "firstName",
+          oldValue: "Jean",
+          newValue: "Jeanne",
+          nickname: "jeanne-dupont"
+        })
+
+        // The old nickname still works, and reports the new one
+        const getUserResponse = yield* Effect.promise(() => handler(new Request("http://localhost/users/jean-dupont")))
+        const result = yield* Effect.promise(() => getUserResponse.json())
+        expect(result.nickname).toBe("jeanne-dupont")
+        expect(result.user.firstName).toBe("Jeanne")
+
+        // Names are NonEmptyString — rejected by the payload schema
+        expect((yield* patchName({ field: "lastName", value: "" })).status).toBe(400)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("GET /users/:nickname?asOf= returns the past profile, 400 with more than one point", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      const getUser = (query: string) =>
+        Effect.promise(() => handler(new Request(`http://localhost/users/jean-dupont${query}`)))
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+        // Real clock here: this instant separates the user from the address
+        const beforeAddress = new Date().toISOString()
+        yield* Effect.promise(() => new Promise((resolve) => setTimeout(resolve, 5)))
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+
+        const past = yield* getUser(`?asOf=${encodeURIComponent(beforeAddress)}`)
+        expect(past.status).toBe(200)
+        expect((yield* Effect.promise(() => past.json())).addresses).toEqual([])
+
+        // Positions: 1 UserCreated, 2-3 the login (link requested, logged in), 4 AddressCreated
+        const atPosition = yield* getUser("?atPosition=4")
+        expect((yield* Effect.promise(() => atPosition.json())).addresses).toHaveLength(1)
+
+        // User versions: 1 UserCreated, 2-3 the login — the address is at position 4
+        const atVersion = yield* getUser("?atVersion=3")
+        expect(atVersion.status).toBe(200)
+        expect((yield* Effect.promise(() => atVersion.json())).addresses).toEqual([])
+        expect((yield* getUser("?atVersion=4")).status).toBe(404)
+        expect((yield* getUser("?atVersion=0")).status).toBe(400)
+
+        expect((yield* getUser(`?asOf=${encodeURIComponent(beforeAddress)}&atPosition=4`)).status).toBe(400)
+        expect((yield* getUser("?atPosition=4&atVersion=3")).status).toBe(400)
+        expect((yield* getUser("?asOf=not-a-date")).status).toBe(400)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  // it.live: the handler enqueues on the real clock, so the dispatcher must
+  // compare due times against that same clock
+  it.live("dead letters are listed (links redacted) and replayed through the admin endpoints, with the operator token", () =>
+    Effect.gen(function*() {
+      // The app's wiring: use cases enqueue through the outbox.
+      // Building the outbox up front lets the test run the dispatcher on it.
+      const outbox = yield* Outbox.pipe(Effect.provide(InMemoryOutbox))
+      const outboxLayer = Layer.succeed(Outbox, outbox)
+      const transport = makeCaptureEmailService({ failFirst: DEFAULT_MAX_ATTEMPTS })
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        Layer.provideMerge(OutboxEmailService, outboxLayer),
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive,
+        Layer.succeed(OperatorToken, Option.some(Redacted.make("operator-secret")))
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+      const admin = (path: string, method: string, token = "operator-secret") =>
+        Effect.promise(() =>
+          handler(
+            new Request(`http://localhost/admin${path}`, { method, headers: { Authorization: `Bearer ${token}` } })
+          )
+        )
+      // No backoff, so each pass makes the next attempt
+      const dispatch = dispatchPending(transport.service, { backoff: () => Duration.zero }).pipe(
+        Effect.provideService(Outbox, outbox)
+      )
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeQueued(outbox))
+        const createAddressResponse = yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+        // SMTP is down, yet the request succeeds — the email waits in the outbox
+        expect(createAddressResponse.status).toBe(200)
+
+        // Every allowed attempt fails → dead letter
+        expect(yield* Effect.repeatN(dispatch, DEFAULT_MAX_ATTEMPTS - 1))
+          .toEqual({ delivered: 0, retrying: 0, deadLettered: 1 })
+
+        // No token, or a session's: refused
+        expect((yield* Effect.promise(() => handler(new Request("http://localhost/admin/dead-letters")))).status)
+          .toBe(401)
+        expect((yield* admin("/dead-letters", "GET", session.Authorization.replace("Bearer ", ""))).status).toBe(401)
+
+        expect((yield* admin("/dead-letters?limit=0", "GET")).status).toBe(400)
+        expect((yield* admin("/dead-letters?limit=2.5", "GET")).status).toBe(400)
+
+        const listResponse = yield* admin("/dead-letters", "GET")
+        expect(listResponse.status).toBe(200)
+        const deadLetters = yield* Effect.promise(() => listResponse.json())
+        expect(deadLetters).toHaveLength(1)
+        expect(deadLetters[0].to).toBe("jean.dupont@example.com")
+        expect(deadLetters[0].attempts).toBe(DEFAULT_MAX_ATTEMPTS)
+        expect(deadLetters[0].lastError).toContain("Injected fault")
+        // The revert link's token isn't readable here
+        expect(deadLetters[0].body).toContain("/revert/[redacted]")
+
+        // Replay → pending again → delivered now that SMTP is back, link intact
+        const replayResponse = yield* admin(`/dead-letters/${deadLetters[0].id}/replay`, "POST")
+        expect(replayResponse.status).toBe(200)
+        expect(yield* dispatch).toEqual({ delivered: 1, retrying: 0, deadLettered: 0 })
+        expect(transport.getSentEmails()[0]?.subject).toContain("Address Created")
+        expect(transport.getSentEmails()[0]?.body).not.toContain("[redacted]")
+
+        // Not a dead letter anymore
+        expect((yield* admin(`/dead-letters/${deadLetters[0].id}/replay`, "POST")).status).toBe(404)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("admin endpoints are closed to any token without an ADMIN_TOKEN", () =>
+    Effect.gen(function*() {
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(
+          ApiLive,
+          Layer.mergeAll(
+            InMemoryEventStores,
+            InMemoryUnitOfWork,
+            Layer.provideMerge(OutboxEmailService, InMemoryOutbox),
+            makeInMemoryRegistryLayer(),
+            UuidIdGeneratorLive,
+            TestRevertTokenServiceLive,
+            TestAuthTokenServiceLive
+          )
+        ),
+        HttpServer.layerContext
+      )
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        const response = yield* Effect.promise(() =>
+          handler(new Request("http://localhost/admin/dead-letters", { headers: { Authorization: "Bearer guess" } }))
+        )
+        expect(response.status).toBe(401)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("POST /revert/:token returns 410 with RevertTokenExpiredError once the TTL has passed", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      // A zero TTL: every link is already expired by the time it's used
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive,
+        Layer.succeed(RevertTokenTtl, Duration.zero)
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+        const token = emailCapture.getSentEmails()[0]?.body.match(/\/revert\/([\w.-]+)/)?.[1]
+        expect(token).toBeDefined()
+
+        const response = yield* Effect.promise(() =>
+          handler(new Request(`http://localhost/revert/${token}`, { method: "POST" }))
+        )
+
+        expect(response.status).toBe(410)
+        const body = yield* Effect.promise(() => response.json())
+        expect(body._tag).toBe("RevertTokenExpiredError")
+        expect(Number.isNaN(Date.parse(body.expiredAt))).toBe(false)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("POST /revert/:token returns 409 with RevertConflictError for a stale change, ?force=true overrides it", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+
+        const changeCity = (city: string) =>
+          Effect.promise(() =>
+            handler(
+              new Request("http://localhost/users/jean-dupont/addresses/home", {
+                method: "PATCH",
+                headers: { ...session, "Content-Type": "application/json" },
+                body: JSON.stringify({ field: "city", value: city })
+              })
+            )
+          )
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+        yield* changeCity("Lyon")
+        yield* changeCity("Nice")
+
+        // emails: [creation, Paris → Lyon, Lyon → Nice] — take the Lyon one's link
+        const token = emailCapture.getSentEmails()[1]?.body.match(/\/revert\/([\w.-]+)/)?.[1]
+        expect(token).toBeDefined()
+
+        const response = yield* Effect.promise(() =>
+          handler(new Request(`http://localhost/revert/${token}`, { method: "POST" }))
+        )
+
+        expect(response.status).toBe(409)
+        const body = yield* Effect.promise(() => response.json())
+        expect(body).toMatchObject({
+          _tag: "RevertConflictError",
+          field: "city",
+          expectedValue: "Lyon",
+          currentValue: "Nice"
+        })
+
+        const forced = yield* Effect.promise(() =>
+          handler(new Request(`http://localhost/revert/${token}?force=true`, { method: "POST" }))
+        )
+        expect(forced.status).toBe(200)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("GET /revert/:token previews the change and leaves the token usable", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses/home", {
+              method: "PATCH",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({ field: "city", value: "Lyon" })
+            })
+          )
+        )
+        const token = emailCapture.getSentEmails()[1]?.body.match(/\/revert\/([\w.-]+)/)?.[1]
+        expect(token).toBeDefined()
+
+        const preview = yield* Effect.promise(() => handler(new Request(`http://localhost/revert/${token}`)))
+
+        expect(preview.status).toBe(200)
+        const body = yield* Effect.promise(() => preview.json())
+        expect(body.change).toEqual({
+          _tag: "FieldChange",
+          field: "city",
+          oldValue: "Paris",
+          newValue: "Lyon",
+          currentValue: "Lyon"
+        })
+        expect(Number.isNaN(Date.parse(body.expiresAt))).toBe(false)
+
+        const reverted = yield* Effect.promise(() =>
+          handler(new Request(`http://localhost/revert/${token}`, { method: "POST" }))
+        )
+        expect(reverted.status).toBe(200)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("GET /users/:nickname/addresses/:label/history pages the timeline, 400 for a bad limit", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+
+        const changeCity = (city: string) =>
+          Effect.promise(() =>
+            handler(
+              new Request("http://localhost/users/jean-dupont/addresses/home", {
+                method: "PATCH",
+                headers: { ...session, "Content-Type": "application/json" },
+                body: JSON.stringify({ field: "city", value: city })
+              })
+            )
+          )
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+        yield* changeCity("Lyon")
+        yield* changeCity("Nice")
+
+        const response = yield* Effect.promise(() =>
+          handler(new Request("http://localhost/users/jean-dupont/addresses/home/history?limit=2"))
+        )
+
+        expect(response.status).toBe(200)
+        const body = yield* Effect.promise(() => response.json())
+        expect(body.total).toBe(3)
+        expect(body.nextBefore).toBe(2)
+        expect(body.entries.map((e: { version: number }) => e.version)).toEqual([3, 2])
+        expect(body.entries[0]).toMatchObject({
+          description: "City changed from \"Lyon\" to \"Nice\"",
+          change: { _tag: "FieldChanged", field: "city", oldValue: "Lyon", newValue: "Nice" },
+          revertable: true,
+          revertedBy: null
+        })
+
+        const badLimit = yield* Effect.promise(() =>
+          handler(new Request("http://localhost/users/jean-dupont/addresses/home/history?limit=0"))
+        )
+        expect(badLimit.status).toBe(400)
+
+        const unknown = yield* Effect.promise(() =>
+          handler(new Request("http://localhost/users/jean-dupont/addresses/work/history"))
+        )
+        expect(unknown.status).toBe(404)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("PUT /users/:nickname/addresses/:label changes several fields, 400 for an empty payload", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+            })
+          )
+        )
+        const session = yield* logIn(handler, "jean-dupont", takeCaptured(emailCapture))
+
+        const put = (label: string, body: unknown) =>
+          Effect.promise(() =>
+            handler(
+              new Request(`http://localhost/users/jean-dupont/addresses/${label}`, {
+                method: "PUT",
+                headers: { ...session, "Content-Type": "application/json" },
+                body: JSON.stringify(body)
+              })
+            )
+          )
+        yield* Effect.promise(() =>
+          handler(
+            new Request("http://localhost/users/jean-dupont/addresses", {
+              method: "POST",
+              headers: { ...session, "Content-Type": "application/json" },
+              body: JSON.stringify({
+                label: "home",
+                streetNumber: "42",
+                streetName: "Rue de Rivoli",
+                zipCode: "75001",
+                city: "Paris",
+                country: "France"
+              })
+            })
+          )
+        )
+
+        const response = yield* put("home", { label: "lyon", zipCode: "69002", city: "Lyon" })
+
+        expect(response.status).toBe(200)
+        const body = yield* Effect.promise(() => response.json())
+        expect(body).toEqual({
+          changes: [
+            { field: "label", oldValue: "home", newValue: "lyon" },
+            { field: "zipCode", oldValue: "75001", newValue: "69002" },
+            { field: "city", oldValue: "Paris", newValue: "Lyon" }
+          ],
+          label: "lyon"
+        })
+
+        const history = yield* Effect.promise(() =>
+          handler(new Request("http://localhost/users/jean-dupont/addresses/lyon/history"))
+        )
+        const { entries } = yield* Effect.promise(() => history.json())
+        expect(entries[0]).toMatchObject({
+          description:
+            "Address changed: Label \"home\" → \"lyon\", Zip code \"75001\" → \"69002\", City \"Paris\" → \"Lyon\"",
+          change: { _tag: "AddressChanged" },
+          revertable: true
+        })
+
+        const empty = yield* put("lyon", {})
+        expect(empty.status).toBe(400)
+
+        const unknown = yield* put("home", { city: "Nice" })
+        expect(unknown.status).toBe(404)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("GET /openapi.json documents branded fields and every error a status can carry; GET /docs serves the UI", () =>
+    Effect.gen(function*() {
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        makeCaptureEmailServiceLayer().layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provideMerge(ApiDocsLive, Layer.provide(ApiLive, AppDependencies)),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+
+      try {
+        const specResponse = yield* Effect.promise(() => handler(new Request("http://localhost/openapi.json")))
+        expect(specResponse.status).toBe(200)
+        const spec = yield* Effect.promise(() => specResponse.json())
+
+        const createAddress = spec.paths["/users/{nickname}/addresses"].post
+        const label = createAddress.requestBody.content["application/json"].schema.properties.label
+        expect(label.description).toContain("unique per user")
+        expect(label.examples).toEqual(["home", "work"])
+        expect(label.pattern).toBe("\\S") // The non-empty rule survives the brand's annotations
+
+        // Three errors share createUser's 409 — all three are described
+        const conflict = spec.paths["/users"].post.responses["409"].description
+        expect(conflict).toContain("UserAlreadyExistsError")
+        expect(conflict).toContain("NicknameAlreadyExistsError")
+        expect(conflict).toContain("ConcurrencyConflictError")
+        expect(spec.paths["/revert/{token}"].post.responses["410"].description).toContain("validity period")
+
+        // Time travel's position is documented as global, not a stream version
+        const atPosition = spec.paths["/users/{nickname}"].get.parameters.find(
+          (parameter: { name: string }) => parameter.name === "atPosition"
+        )
+        expect(atPosition.description).toContain("not the user's version")
+        const atVersion = spec.paths["/users/{nickname}"].get.parameters.find(
+          (parameter: { name: string }) => parameter.name === "atVersion"
+        )
+        expect(atVersion.description).toContain("user stream's version")
+
+        // Protected endpoints declare the bearer scheme and the middleware's errors
+        expect(spec.components.securitySchemes.session).toMatchObject({ type: "http", scheme: "bearer" })
+        expect(createAddress.security).toEqual([{ session: [] }])
+        expect(createAddress.responses["401"].description).toContain("log in")
+        expect(createAddress.responses["403"].description).toContain("another user")
+        expect(spec.paths["/users/{nickname}"].get.security).toEqual([])
+        expect(spec.paths["/admin/dead-letters"].get.security).toEqual([{ operator: [] }])
+
+        const docsResponse = yield* Effect.promise(() => handler(new Request("http://localhost/docs")))
+        expect(docsResponse.status).toBe(200)
+        expect(docsResponse.headers.get("content-type")).toContain("text/html")
+        expect(yield* Effect.promise(() => docsResponse.text())).toContain("Event Triggers PoC")
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
+
+  it.effect("a login link is exchanged once for a session that can only change its own user, until logout", () =>
+    Effect.gen(function*() {
+      const emailCapture = makeCaptureEmailServiceLayer()
+
+      const AppDependencies = Layer.mergeAll(
+        InMemoryEventStores,
+        InMemoryUnitOfWork,
+        InMemoryOutbox,
+        emailCapture.layer,
+        makeInMemoryRegistryLayer(),
+        UuidIdGeneratorLive,
+        TestRevertTokenServiceLive,
+        TestAuthTokenServiceLive
+      )
+
+      const TestLayer = Layer.mergeAll(
+        Layer.provide(ApiLive, AppDependencies),
+        HttpServer.layerContext
+      )
+
+      const { dispose, handler } = HttpApiBuilder.toWebHandler(TestLayer)
+      const post = (path: string, headers: Record<string, string> = {}, body?: unknown) =>
+        Effect.promise(() =>
+          handler(
+            new Request(`http://localhost${path}`, {
+              method: "POST",
+              headers: { ...headers, "Content-Type": "application/json" },
+              ...(body === undefined ? {} : { body: JSON.stringify(body) })
+            })
+          )
+        )
+      const home = {
+        label: "home",
+        streetNumber: "42",
+        streetName: "Rue de Rivoli",
+        zipCode: "75001",
+        city: "Paris",
+        country: "France"
+      }
+
+      try {
+        yield* post("/users", {}, { email: "jean.dupont@example.com", firstName: "Jean", lastName: "Dupont" })
+        yield* post("/users", {}, { email: "marie.curie@example.com", firstName: "Marie", lastName: "Curie" })
+
+        // Knowing a nickname is no longer enough
+        const anonymous = yield* post("/users/jean-dupont/addresses", {}, home)
+        expect(anonymous.status).toBe(401)
+        expect((yield* Effect.promise(() => anonymous.json()))._tag).toBe("UnauthorizedError")
+
+        // The link goes to the email on file; the response doesn't carry it
+        const requested = yield* post("/auth/login", {}, { nickname: "jean-dupont" })
+        expect(requested.status).toBe(200)
+        expect(Object.keys(yield* Effect.promise(() => requested.json()))).toEqual(["expiresAt"])
+        const [loginEmail] = emailCapture.getSentEmails()
+        expect(loginEmail?.to).toBe("jean.dupont@example.com")
+        expect(loginEmail?.subject).toContain("Login")
+        const token = loginTokenIn(loginEmail)
+
+        const loggedIn = yield* post(`/auth/login/${token}`)
+        expect(loggedIn.status).toBe(200)
+        const { nickname, sessionToken } = yield* Effect.promise(() => loggedIn.json())
+        expect(nickname).toBe("jean-dupont")
+        const session = { Authorization: `Bearer ${sessionToken}` }
+
+        // One-time link
+        const reused = yield* post(`/auth/login/${token}`)
+        expect(reused.status).toBe(400)
+        expect((yield* Effect.promise(() => reused.json()))._tag).toBe("LoginLinkInvalidError")
+
+        // Own addresses only
+        expect((yield* post("/users/jean-dupont/addresses", session, home)).status).toBe(200)
+        const someoneElses = yield* post("/users/marie-curie/addresses", session, home)
+        expect(someoneElses.status).toBe(403)
+        expect((yield* Effect.promise(() => someoneElses.json()))._tag).toBe("ForbiddenError")
+
+        // Logging out ends the session, even though its token still verifies
+        const loggedOut = yield* post("/auth/logout", session)
+        expect(loggedOut.status).toBe(200)
+        expect(yield* Effect.promise(() => loggedOut.json())).toEqual({ loggedOut: true })
+        expect((yield* post("/auth/logout", session)).status).toBe(401)
+        expect((yield* post("/users/jean-dupont/addresses", session, { ...home, label: "work" })).status).toBe(401)
+      } finally {
+        yield* Effect.promise(() => dispose())
+      }
+    }))
 })
@@ -11,13 +11,10 @@
 //
 import { describe, expect, it } from "@effect/vitest"
 import { Effect } from "effect"
-import { EmailService, type EmailContent, Email } from "../../src/EmailService.js"
+import { Email, type EmailContent, EmailService } from "../../src/EmailService.js"
 
 // Will fail until we create the implementation — that's TDD!
-import {
-  makeCaptureEmailService,
-  makeCaptureEmailServiceLayer
-} from "../../src/infrastructure/ConsoleEmailService.js"
+import { makeCaptureEmailService, makeCaptureEmailServiceLayer } from "../../src/infrastructure/ConsoleEmailService.js"
 
 // =============================================================================
 // Test Fixtures
@@ -40,7 +37,7 @@ const testEmailContent: EmailContent = {
 describe("CaptureEmailService", () => {
   describe("makeCaptureEmailService", () => {
     it.effect("send() captures email in getSentEmails()", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const capture = makeCaptureEmailService()
 
         yield* capture.service.send(testEmailContent)
@@ -48,11 +45,10 @@ describe("CaptureEmailService", () => {
         const sent = capture.getSentEmails()
         expect(sent).toHaveLength(1)
         expect(sent[0]).toEqual(testEmailContent)
-      })
-    )
+      }))
 
     it.effect("multiple sends accumulate in order", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const capture = makeCaptureEmailService()
         const email1: EmailContent = { ...testEmailContent, subject: "First" }
         const email2: EmailContent = { ...testEmailContent, subject: "Second" }
@@ -64,8 +60,7 @@ describe("CaptureEmailService", () => {
         expect(sent).toHaveLength(2)
         expect(sent[0].subject).toBe("First")
         expect(sent[1].subject).toBe("Second")
-      })
-    )
+      }))
 
     it("clear() resets the captured emails", () => {
       const capture = makeCaptureEmailService()
@@ -94,11 +89,11 @@ describe("CaptureEmailService", () => {
 
   describe("makeCaptureEmailServiceLayer", () => {
     it.effect("provides EmailService via Layer", () =>
-      Effect.gen(function* () {
-        const { layer, getSentEmails } = makeCaptureEmailServiceLayer()
+      Effect.gen(function*() {
+        const { getSentEmails, layer } = makeCaptureEmailServiceLayer()
 
         // Use the service via the Tag (as real code would)
-        const program = Effect.gen(function* () {
+        const program = Effect.gen(function*() {
           const emailService = yield* EmailService
           yield* emailService.send(testEmailContent)
         })
@@ -108,11 +103,56 @@ describe("CaptureEmailService", () => {
         // Verify capture worked
         expect(getSentEmails()).toHaveLength(1)
         expect(getSentEmails()[0]).toEqual(testEmailContent)
-      })
-    )
+      }))
   })
 })
 
+// =============================================================================
+// Fault Injection Tests
+// =============================================================================
+
+describe("fault injection", () => {
+  it.effect("failFirst: the first N sends fail and capture nothing, then delivery recovers", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: 2 })
+
+      const first = yield* Effect.flip(capture.service.send(testEmailContent))
+      const second = yield* Effect.flip(capture.service.send(testEmailContent))
+      expect(first._tag).toBe("EmailSendError")
+      expect(second._tag).toBe("EmailSendError")
+      expect(capture.getSentEmails()).toHaveLength(0)
+
+      yield* capture.service.send(testEmailContent)
+      expect(capture.getSentEmails()).toHaveLength(1)
+    }))
+
+  it.effect("setFaults: faults can be switched on and off mid-test", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService()
+      yield* capture.service.send(testEmailContent)
+
+      capture.setFaults({ failureRate: 1 })
+      yield* Effect.flip(capture.service.send(testEmailContent))
+      yield* Effect.flip(capture.service.send(testEmailContent))
+
+      capture.setFaults({})
+      yield* capture.service.send(testEmailContent)
+      expect(capture.getSentEmails()).toHaveLength(2)
+    }))
+
+  it.effect("setFaults restarts the failFirst count", () =>
+    Effect.gen(function*() {
+      const capture = makeCaptureEmailService({ failFirst: 1 })
+      yield* Effect.flip(capture.service.send(testEmailContent))
+      yield* capture.service.send(testEmailContent)
+
+      capture.setFaults({ failFirst: 1 })
+      yield* Effect.flip(capture.service.send(testEmailContent))
+      yield* capture.service.send(testEmailContent)
+      expect(capture.getSentEmails()).toHaveLength(2)
+    }))
+})
+
 // =============================================================================
 // Email Validation Tests
 // =============================================================================
@@ -0,0 +1,77 @@
+// =============================================================================
+// HmacAuthTokenService Tests
+// =============================================================================
+//
+// Round trip and tampering, like the revert tokens — plus the `kind` claim,
+// which keeps a login link from being used as a session token.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Either, Redacted } from "effect"
+
+import type { AuthTokenClaims } from "../../src/AuthTokenService.js"
+import type { UserId } from "../../src/domain/user/State.js"
+import { makeHmacAuthTokenService, TEST_AUTH_TOKEN_KEY } from "../../src/infrastructure/HmacAuthTokenService.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const claims: AuthTokenClaims = {
+  kind: "Login",
+  userId: "user-1" as UserId,
+  tokenId: "token-1",
+  issuedAt: new Date("2024-01-01T10:00:00Z")
+}
+
+const tokens = makeHmacAuthTokenService(TEST_AUTH_TOKEN_KEY)
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("HmacAuthTokenService", () => {
+  it.effect("verify(kind, mint(claims)) returns the claims", () =>
+    Effect.gen(function*() {
+      const token = yield* tokens.mint(claims)
+
+      expect(yield* tokens.verify("Login", token)).toEqual(claims)
+    }))
+
+  it.effect("a token of the other kind fails with WrongKind", () =>
+    Effect.gen(function*() {
+      const token = yield* tokens.mint(claims)
+
+      const result = yield* tokens.verify("Session", token).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "WrongKind" }))
+    }))
+
+  it.effect("relabelling the kind breaks the signature", () =>
+    Effect.gen(function*() {
+      const [payload, signature] = (yield* tokens.mint(claims)).split(".")
+      const relabelled = Buffer.from(
+        Buffer.from(payload ?? "", "base64url").toString("utf8").replace("\"Login\"", "\"Session\"")
+      ).toString("base64url")
+
+      const result = yield* tokens.verify("Session", `${relabelled}.${signature}`).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "BadSignature" }))
+    }))
+
+  it.effect("garbage fails with Malformed", () =>
+    Effect.gen(function*() {
+      for (const token of ["not-a-token", "a.b.c", "e30."]) {
+        const result = yield* tokens.verify("Login", token).pipe(Effect.either)
+        expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "Malformed" }))
+      }
+    }))
+
+  it.effect("a token signed with another key fails with UnknownKey", () =>
+    Effect.gen(function*() {
+      const stranger = makeHmacAuthTokenService({ id: "k9", secret: Redacted.make("whatever") })
+
+      const result = yield* tokens.verify("Login", yield* stranger.mint(claims)).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "UnknownKey" }))
+    }))
+})
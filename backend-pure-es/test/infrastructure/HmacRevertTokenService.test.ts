@@ -0,0 +1,157 @@
+// =============================================================================
+// HmacRevertTokenService Tests
+// =============================================================================
+//
+// Round trip, tampering, and key rotation. Rotation time is TestClock time:
+// the old key is retired at t = 0 with a 1 hour grace period.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Either, Redacted, TestClock } from "effect"
+
+import type { AddressId } from "../../src/domain/address/State.js"
+import {
+  makeHmacRevertTokenService,
+  parseRetiredRevertTokenKeys,
+  parseRevertTokenKey,
+  type RevertTokenKey
+} from "../../src/infrastructure/HmacRevertTokenService.js"
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const oldKey: RevertTokenKey = { id: "k1", secret: Redacted.make("old-secret") }
+const newKey: RevertTokenKey = { id: "k2", secret: Redacted.make("new-secret") }
+
+const claims = {
+  addressId: "addr-1" as AddressId,
+  tokenId: "token-1",
+  issuedAt: new Date("2024-01-01T10:00:00Z")
+}
+
+const signedWithOldKey = makeHmacRevertTokenService({ current: oldKey, retired: [], gracePeriod: Duration.zero })
+const rotated = makeHmacRevertTokenService({
+  current: newKey,
+  retired: [{ ...oldKey, retiredAt: new Date(0) }],
+  gracePeriod: Duration.hours(1)
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe("HmacRevertTokenService", () => {
+  it.effect("verify(mint(claims)) returns the claims", () =>
+    Effect.gen(function*() {
+      const token = yield* rotated.mint(claims)
+
+      expect(yield* rotated.verify(token)).toEqual(claims)
+    }))
+
+  it.effect("minting is deterministic and URL-safe", () =>
+    Effect.gen(function*() {
+      const token = yield* rotated.mint(claims)
+
+      expect(yield* rotated.mint(claims)).toBe(token)
+      expect(token).toMatch(/^[\w-]+\.[\w-]+$/)
+    }))
+
+  it.effect("a tampered payload fails with BadSignature", () =>
+    Effect.gen(function*() {
+      const [, signature] = (yield* rotated.mint(claims)).split(".")
+      const forgedPayload = Buffer.from(JSON.stringify({
+        kid: "k2",
+        addressId: "someone-elses-address",
+        tokenId: "token-1",
+        issuedAt: claims.issuedAt.getTime()
+      })).toString("base64url")
+
+      const result = yield* rotated.verify(`${forgedPayload}.${signature}`).pipe(Effect.either)
+
+      expect(result).toEqual(
+        Either.left(expect.objectContaining({ _tag: "RevertTokenUnverified", reason: "BadSignature" }))
+      )
+    }))
+
+  it.effect("garbage fails with Malformed", () =>
+    Effect.gen(function*() {
+      for (const token of ["not-a-token", "a.b.c", "e30.", `${Buffer.from("{}").toString("base64url")}.sig`]) {
+        const result = yield* rotated.verify(token).pipe(Effect.either)
+        expect(result).toEqual(Either.left({ _tag: "RevertTokenUnverified", token, reason: "Malformed" }))
+      }
+    }))
+
+  it.effect("a bare UUID — a link from before signing — fails with Legacy, not Malformed", () =>
+    Effect.gen(function*() {
+      const token = "3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b"
+      const result = yield* rotated.verify(token).pipe(Effect.either)
+      expect(result).toEqual(Either.left({ _tag: "RevertTokenUnverified", token, reason: "Legacy" }))
+    }))
+
+  it.effect("a token signed with a key we never had fails with UnknownKey", () =>
+    Effect.gen(function*() {
+      const stranger = makeHmacRevertTokenService({
+        current: { id: "k9", secret: Redacted.make("whatever") },
+        retired: [],
+        gracePeriod: Duration.zero
+      })
+
+      const result = yield* rotated.verify(yield* stranger.mint(claims)).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left(expect.objectContaining({ reason: "UnknownKey" })))
+    }))
+
+  describe("key rotation", () => {
+    it.effect("tokens from the retired key still verify during the grace period", () =>
+      Effect.gen(function*() {
+        const token = yield* signedWithOldKey.mint(claims)
+        yield* TestClock.adjust(Duration.minutes(59))
+
+        expect(yield* rotated.verify(token)).toEqual(claims)
+      }))
+
+    it.effect("…and stop verifying once it's over", () =>
+      Effect.gen(function*() {
+        const token = yield* signedWithOldKey.mint(claims)
+        yield* TestClock.adjust(Duration.hours(1))
+
+        const result = yield* rotated.verify(token).pipe(Effect.either)
+
+        expect(result).toEqual(Either.left(expect.objectContaining({ reason: "KeyRetired" })))
+      }))
+
+    it.effect("new tokens are signed with the current key", () =>
+      Effect.gen(function*() {
+        const token = yield* rotated.mint(claims)
+
+        const result = yield* signedWithOldKey.verify(token).pipe(Effect.either)
+
+        expect(result).toEqual(Either.left(expect.objectContaining({ reason: "UnknownKey" })))
+      }))
+  })
+})
+
+describe("parseRevertTokenKey / parseRetiredRevertTokenKeys", () => {
+  it("reads id:secret, keeping colons in the secret", () => {
+    const key = parseRevertTokenKey("k2:se:cret")
+
+    expect(key.id).toBe("k2")
+    expect(Redacted.value(key.secret)).toBe("se:cret")
+  })
+
+  it("reads a comma-separated list of retired keys with their retirement date", () => {
+    const keys = parseRetiredRevertTokenKeys("k1:a@2026-10-01T00:00:00Z, k0:b@2026-09-01T00:00:00Z")
+
+    expect(keys.map((k) => [k.id, Redacted.value(k.secret), k.retiredAt.toISOString()])).toEqual([
+      ["k1", "a", "2026-10-01T00:00:00.000Z"],
+      ["k0", "b", "2026-09-01T00:00:00.000Z"]
+    ])
+  })
+
+  it("rejects malformed specs without echoing the secret", () => {
+    expect(() => parseRevertTokenKey("no-separator-secret")).toThrow(
+      /^Invalid revert token key — expected "id:secret"$/
+    )
+    expect(() => parseRetiredRevertTokenKeys("k1:secret")).toThrow(/expected "id:secret@<ISO date>"/)
+  })
+})
@@ -15,14 +15,20 @@
 // 2. append then load → returns appended events
 // 3. append multiple times → events accumulate in order
 // 4. separate streams are isolated
+// 5. optimistic concurrency: stale expectedVersion → ConcurrencyConflict
+// 6. envelopes: store-assigned ids/versions/positions + caller metadata
+// 7. readAll: global feed across user + address stores, batched, resumable
+// 8. subscribe: catch-up, then live delivery
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Effect } from "effect"
-import { StreamId } from "../../src/EventStore.js"
+import { Chunk, Deferred, Effect, Either, Fiber, Stream, TestClock } from "effect"
+import type { AddressEvent } from "../../src/domain/address/Events.js"
+import type { UserEvent } from "../../src/domain/user/Events.js"
+import { AddressEventStore, EventLog, StreamId, UserEventStore } from "../../src/EventStore.js"
 
 // Import will fail until we create the implementation — that's TDD!
 // The test file drives the implementation.
-import { makeInMemoryEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import { InMemoryEventStores, makeInMemoryEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
 
 // We'll test with a simple event type (not importing domain events to keep tests focused)
 type TestEvent =
@@ -51,7 +57,7 @@ describe("InMemoryEventStore", () => {
         const event1: TestEvent = { _tag: "EventA", value: "hello" }
         const event2: TestEvent = { _tag: "EventB", value: 42 }
 
-        yield* store.append(streamId, [event1, event2])
+        yield* store.append(streamId, [event1, event2], 0)
         const events = yield* store.load(streamId)
 
         expect(events).toEqual([event1, event2])
@@ -65,12 +71,26 @@ describe("InMemoryEventStore", () => {
         const event2: TestEvent = { _tag: "EventB", value: 1 }
         const event3: TestEvent = { _tag: "EventA", value: "third" }
 
-        yield* store.append(streamId, [event1])
-        yield* store.append(streamId, [event2, event3])
+        yield* store.append(streamId, [event1], 0)
+        yield* store.append(streamId, [event2, event3], 1)
         const events = yield* store.load(streamId)
 
         expect(events).toEqual([event1, event2, event3])
       }))
+
+    it.effect("after a version → returns only the later events", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+        const streamId = StreamId("stream-1")
+        const event1: TestEvent = { _tag: "EventA", value: "first" }
+        const event2: TestEvent = { _tag: "EventB", value: 2 }
+        const event3: TestEvent = { _tag: "EventA", value: "third" }
+
+        yield* store.append(streamId, [event1, event2, event3], 0)
+
+        expect(yield* store.load(streamId, 1)).toEqual([event2, event3])
+        expect(yield* store.load(streamId, 3)).toEqual([])
+      }))
   })
 
   // ---------------------------------------------------------------------------
@@ -85,8 +105,8 @@ describe("InMemoryEventStore", () => {
         const event1: TestEvent = { _tag: "EventA", value: "for-stream-1" }
         const event2: TestEvent = { _tag: "EventB", value: 99 }
 
-        yield* store.append(stream1, [event1])
-        yield* store.append(stream2, [event2])
+        yield* store.append(stream1, [event1], 0)
+        yield* store.append(stream2, [event2], 0)
 
         const events1 = yield* store.load(stream1)
         const events2 = yield* store.load(stream2)
@@ -105,7 +125,7 @@ describe("InMemoryEventStore", () => {
         const store = makeInMemoryEventStore<TestEvent>()
         const streamId = StreamId("stream-1")
 
-        yield* store.append(streamId, [])
+        yield* store.append(streamId, [], 0)
         const events = yield* store.load(streamId)
 
         expect(events).toEqual([])
@@ -117,11 +137,248 @@ describe("InMemoryEventStore", () => {
         const streamId = StreamId("stream-1")
         const event1: TestEvent = { _tag: "EventA", value: "existing" }
 
-        yield* store.append(streamId, [event1])
-        yield* store.append(streamId, [])
+        yield* store.append(streamId, [event1], 0)
+        yield* store.append(streamId, [], 1)
         const events = yield* store.load(streamId)
 
         expect(events).toEqual([event1])
       }))
   })
+
+  // ---------------------------------------------------------------------------
+  // Optimistic concurrency
+  // ---------------------------------------------------------------------------
+  describe("optimistic concurrency", () => {
+    it.effect("stale expectedVersion → fails with ConcurrencyConflict, nothing written", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+        const streamId = StreamId("stream-1")
+        const event1: TestEvent = { _tag: "EventA", value: "first" }
+        const event2: TestEvent = { _tag: "EventB", value: 2 }
+
+        yield* store.append(streamId, [event1], 0)
+        // Another writer decided based on the empty stream (version 0)
+        const result = yield* store.append(streamId, [event2], 0).pipe(Effect.either)
+
+        expect(result).toEqual(Either.left({
+          _tag: "ConcurrencyConflict",
+          streamId,
+          expectedVersion: 0,
+          actualVersion: 1
+        }))
+        const events = yield* store.load(streamId)
+        expect(events).toEqual([event1])
+      }))
+
+    it.effect("expectedVersion ahead of stream → fails with ConcurrencyConflict", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+        const streamId = StreamId("stream-1")
+
+        const result = yield* store.append(streamId, [{ _tag: "EventA", value: "x" }], 3).pipe(Effect.either)
+
+        expect(Either.isLeft(result)).toBe(true)
+        const events = yield* store.load(streamId)
+        expect(events).toEqual([])
+      }))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Envelopes
+  // ---------------------------------------------------------------------------
+  describe("envelopes", () => {
+    it.effect("append returns envelopes; loadEnvelopes returns the same ones", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+        const streamId = StreamId("stream-1")
+        const event1: TestEvent = { _tag: "EventA", value: "first" }
+        const event2: TestEvent = { _tag: "EventB", value: 2 }
+
+        yield* TestClock.setTime(1_700_000_000_000)
+        const appended = yield* store.append(streamId, [event1, event2], 0, {
+          correlationId: "req-1",
+          actor: "user-123"
+        })
+        const loaded = yield* store.loadEnvelopes(streamId)
+
+        expect(loaded).toEqual(appended)
+        expect(loaded.map((e) => e.event)).toEqual([event1, event2])
+        expect(loaded.map((e) => e.version)).toEqual([1, 2])
+        expect(loaded[0]).toMatchObject({
+          streamId,
+          recordedAt: new Date(1_700_000_000_000),
+          correlationId: "req-1",
+          causationId: null,
+          actor: "user-123"
+        })
+        expect(loaded[0]!.eventId).not.toEqual(loaded[1]!.eventId)
+      }))
+
+    it.effect("positions increase across streams in commit order", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+
+        yield* store.append(StreamId("stream-1"), [{ _tag: "EventA", value: "a" }], 0)
+        yield* store.append(StreamId("stream-2"), [{ _tag: "EventA", value: "b" }], 0)
+        yield* store.append(StreamId("stream-1"), [{ _tag: "EventB", value: 3 }], 1)
+
+        const stream1 = yield* store.loadEnvelopes(StreamId("stream-1"))
+        const stream2 = yield* store.loadEnvelopes(StreamId("stream-2"))
+
+        expect(stream1.map((e) => e.position)).toEqual([1, 3])
+        expect(stream2.map((e) => e.position)).toEqual([2])
+      }))
+
+    it.effect("metadata omitted → tracing fields are null", () =>
+      Effect.gen(function*() {
+        const store = makeInMemoryEventStore<TestEvent>()
+        const [envelope] = yield* store.append(StreamId("stream-1"), [{ _tag: "EventA", value: "x" }], 0)
+
+        expect(envelope).toMatchObject({ correlationId: null, causationId: null, actor: null })
+      }))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Global feed (EventLog.readAll)
+  // ---------------------------------------------------------------------------
+  //
+  // The user and address stores in InMemoryEventStores share one log, so the
+  // feed interleaves their events in commit order.
+  //
+  describe("readAll", () => {
+    const userCreated = {
+      _tag: "UserCreated",
+      id: "user-1",
+      email: "jean@example.com",
+      firstName: "Jean",
+      lastName: "Dupont"
+    } as unknown as UserEvent
+    const firstNameChanged = {
+      _tag: "FirstNameChanged",
+      id: "user-1",
+      oldValue: "Jean",
+      newValue: "Pierre"
+    } as unknown as UserEvent
+    const cityChanged = {
+      _tag: "CityChanged",
+      id: "address-1",
+      oldValue: "Paris",
+      newValue: "Lyon",
+      revertToken: "token-1"
+    } as unknown as AddressEvent
+
+    // user-1: v1, address-1: v1, user-1: v2 → positions 1, 2, 3
+    const seed = Effect.gen(function*() {
+      const users = yield* UserEventStore
+      const addresses = yield* AddressEventStore
+      yield* users.append(StreamId("user-1"), [userCreated], 0)
+      yield* addresses.append(StreamId("address-1"), [cityChanged], 0)
+      yield* users.append(StreamId("user-1"), [firstNameChanged], 1)
+    })
+
+    it.effect("returns events across stores in commit order", () =>
+      Effect.gen(function*() {
+        yield* seed
+        const log = yield* EventLog
+
+        const envelopes = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(0, 100)))
+
+        expect(envelopes.map((e) => e.event._tag)).toEqual(["UserCreated", "CityChanged", "FirstNameChanged"])
+        expect(envelopes.map((e) => e.position)).toEqual([1, 2, 3])
+        expect(envelopes.map((e) => [e.streamId, e.version])).toEqual([
+          ["user-1", 1],
+          ["address-1", 1],
+          ["user-1", 2]
+        ])
+      }).pipe(Effect.provide(InMemoryEventStores)))
+
+    it.effect("fromPosition is exclusive (resume after a checkpoint)", () =>
+      Effect.gen(function*() {
+        yield* seed
+        const log = yield* EventLog
+
+        const envelopes = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(1, 100)))
+
+        expect(envelopes.map((e) => e.position)).toEqual([2, 3])
+      }).pipe(Effect.provide(InMemoryEventStores)))
+
+    it.effect("batchSize smaller than the log → still reads everything", () =>
+      Effect.gen(function*() {
+        yield* seed
+        const log = yield* EventLog
+
+        const envelopes = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(0, 2)))
+
+        expect(envelopes.map((e) => e.position)).toEqual([1, 2, 3])
+      }).pipe(Effect.provide(InMemoryEventStores)))
+
+    it.effect("empty log → empty stream", () =>
+      Effect.gen(function*() {
+        const log = yield* EventLog
+
+        const envelopes = yield* Stream.runCollect(log.readAll(0, 10))
+
+        expect(Chunk.size(envelopes)).toBe(0)
+      }).pipe(Effect.provide(InMemoryEventStores)))
+  })
+
+  // ---------------------------------------------------------------------------
+  // Live subscription (EventLog.subscribe)
+  // ---------------------------------------------------------------------------
+  //
+  // A Deferred marks "catch-up is done" so the live appends are guaranteed to
+  // arrive through the PubSub path, not the initial read.
+  //
+  describe("subscribe", () => {
+    const userCreated = {
+      _tag: "UserCreated",
+      id: "user-1",
+      email: "jean@example.com",
+      firstName: "Jean",
+      lastName: "Dupont"
+    } as unknown as UserEvent
+    const lastNameChanged = (version: number) =>
+      ({
+        _tag: "LastNameChanged",
+        id: "user-1",
+        oldValue: `Dupont-${version - 1}`,
+        newValue: `Dupont-${version}`
+      }) as unknown as UserEvent
+
+    it.effect("delivers the backlog, then new events as they are appended", () =>
+      Effect.gen(function*() {
+        const users = yield* UserEventStore
+        const log = yield* EventLog
+        const streamId = StreamId("user-1")
+        yield* users.append(streamId, [userCreated], 0)
+
+        const caughtUp = yield* Deferred.make<void>()
+        const fiber = yield* log.subscribe(0).pipe(
+          Stream.tap((e) => e.position === 1 ? Deferred.succeed(caughtUp, undefined) : Effect.void),
+          Stream.take(3),
+          Stream.runCollect,
+          Effect.fork
+        )
+
+        yield* Deferred.await(caughtUp)
+        yield* users.append(streamId, [lastNameChanged(2)], 1)
+        yield* users.append(streamId, [lastNameChanged(3)], 2)
+
+        const envelopes = Chunk.toReadonlyArray(yield* Fiber.join(fiber))
+        expect(envelopes.map((e) => e.position)).toEqual([1, 2, 3])
+        expect(envelopes.map((e) => e.event._tag)).toEqual(["UserCreated", "LastNameChanged", "LastNameChanged"])
+      }).pipe(Effect.provide(InMemoryEventStores)))
+
+    it.effect("fromPosition is exclusive", () =>
+      Effect.gen(function*() {
+        const users = yield* UserEventStore
+        const log = yield* EventLog
+        const streamId = StreamId("user-1")
+        yield* users.append(streamId, [userCreated, lastNameChanged(2)], 0)
+
+        const envelopes = yield* log.subscribe(1).pipe(Stream.take(1), Stream.runCollect)
+
+        expect(Chunk.toReadonlyArray(envelopes).map((e) => e.position)).toEqual([2])
+      }).pipe(Effect.provide(InMemoryEventStores)))
+  })
 })
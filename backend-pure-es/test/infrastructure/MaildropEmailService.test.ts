@@ -0,0 +1,45 @@
+// =============================================================================
+// MaildropEmailService Tests
+// =============================================================================
+//
+// One JSON file per email, names sorting in sending order — what the Cypress
+// login helper relies on to find the newest link.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+import { mkdtemp, readdir, readFile, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { Email } from "../../src/EmailService.js"
+import { makeMaildropEmailService } from "../../src/infrastructure/MaildropEmailService.js"
+
+describe("MaildropEmailService", () => {
+  it.effect("writes each email to its own file, in sending order", () =>
+    Effect.gen(function*() {
+      const dir = yield* Effect.promise(() => mkdtemp(join(tmpdir(), "maildrop-test-")))
+      const maildrop = makeMaildropEmailService(join(dir, "inbox")) // Created on first send
+
+      for (const subject of ["First", "Second", "Third"]) {
+        yield* maildrop.send({ to: Email.make("jean@example.com"), subject, body: `${subject} body` })
+      }
+
+      const files = (yield* Effect.promise(() => readdir(join(dir, "inbox")))).sort()
+      const emails = yield* Effect.promise(() =>
+        Promise.all(files.map(async (file) => JSON.parse(await readFile(join(dir, "inbox", file), "utf8"))))
+      )
+      expect(emails.map((email) => email.subject)).toEqual(["First", "Second", "Third"])
+      expect(emails[0]).toMatchObject({ to: "jean@example.com", body: "First body" })
+    }))
+
+  it.effect("fails with EmailSendError when the directory can't be created", () =>
+    Effect.gen(function*() {
+      const dir = yield* Effect.promise(() => mkdtemp(join(tmpdir(), "maildrop-test-")))
+      yield* Effect.promise(() => writeFile(join(dir, "not-a-dir"), ""))
+      const maildrop = makeMaildropEmailService(join(dir, "not-a-dir", "inbox"))
+
+      const error = yield* Effect.flip(maildrop.send({ to: Email.make("jean@example.com"), subject: "Lost", body: "" }))
+
+      expect(error._tag).toBe("EmailSendError")
+    }))
+})
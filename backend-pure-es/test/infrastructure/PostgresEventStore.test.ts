@@ -10,15 +10,15 @@
 // The tests verify the same behavior as InMemoryEventStore.
 // If both pass the same tests, they're interchangeable (Liskov).
 //
-import { describe, expect, it, beforeAll } from "@effect/vitest"
-import { Effect, Layer, Redacted } from "effect"
 import { PgClient } from "@effect/sql-pg"
+import { beforeAll, describe, expect, it } from "@effect/vitest"
+import { Chunk, Deferred, Effect, Either, Fiber, Layer, Redacted, Stream } from "effect"
 
-import { UserEventStore, AddressEventStore, StreamId } from "../../src/EventStore.js"
-import { PostgresEventStores } from "../../src/infrastructure/PostgresEventStore.js"
-import type { UserEvent } from "../../src/domain/user/Events.js"
 import type { AddressEvent } from "../../src/domain/address/Events.js"
-import type { UserId, FirstName, LastName } from "../../src/domain/user/State.js"
+import type { UserEvent } from "../../src/domain/user/Events.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { AddressEventStore, EventLog, StreamId, UserEventStore } from "../../src/EventStore.js"
+import { PostgresEventStores } from "../../src/infrastructure/PostgresEventStore.js"
 import type { Email } from "../../src/shared/Email.js"
 
 // =============================================================================
@@ -46,7 +46,7 @@ const isPostgresAvailable = async (): Promise<boolean> => {
 // =============================================================================
 
 const TestPgClient = PgClient.layer({
-  url: Redacted.make(DATABASE_URL),
+  url: Redacted.make(DATABASE_URL)
 })
 
 const TestLayer = Layer.provideMerge(PostgresEventStores, TestPgClient)
@@ -75,15 +75,14 @@ describe("PostgresEventStore", async () => {
     // ---------------------------------------------------------------------------
 
     it.effect("load returns empty array for non-existent stream", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const events = yield* store.load(StreamId("nonexistent-user-id"))
         expect(events).toEqual([])
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("load returns events in insertion order", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const streamId = StreamId("user-order-test")
 
@@ -92,32 +91,31 @@ describe("PostgresEventStore", async () => {
           id: "user-order-test" as UserId,
           email: "test@example.com" as Email,
           firstName: "First" as FirstName,
-          lastName: "User" as LastName,
+          lastName: "User" as LastName
         }
 
         const event2: UserEvent = {
           _tag: "FirstNameChanged",
           id: "user-order-test" as UserId,
           oldValue: "First" as FirstName,
-          newValue: "Updated" as FirstName,
+          newValue: "Updated" as FirstName
         }
 
-        yield* store.append(streamId, [event1])
-        yield* store.append(streamId, [event2])
+        yield* store.append(streamId, [event1], 0)
+        yield* store.append(streamId, [event2], 1)
 
         const events = yield* store.load(streamId)
         expect(events).toHaveLength(2)
         expect(events[0]._tag).toBe("UserCreated")
         expect(events[1]._tag).toBe("FirstNameChanged")
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     // ---------------------------------------------------------------------------
     // append() Tests
     // ---------------------------------------------------------------------------
 
     it.effect("append creates stream and stores events", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const streamId = StreamId("user-append-test")
 
@@ -126,31 +124,29 @@ describe("PostgresEventStore", async () => {
           id: "user-append-test" as UserId,
           email: "append@example.com" as Email,
           firstName: "Append" as FirstName,
-          lastName: "Test" as LastName,
+          lastName: "Test" as LastName
         }
 
-        yield* store.append(streamId, [event])
+        yield* store.append(streamId, [event], 0)
 
         const events = yield* store.load(streamId)
         expect(events).toHaveLength(1)
         expect(events[0]).toEqual(event)
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("append is no-op for empty array", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const streamId = StreamId("user-empty-append")
 
-        yield* store.append(streamId, [])
+        yield* store.append(streamId, [], 0)
 
         const events = yield* store.load(streamId)
         expect(events).toEqual([])
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("append adds to existing stream", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const streamId = StreamId("user-multi-append")
 
@@ -159,30 +155,221 @@ describe("PostgresEventStore", async () => {
           id: "user-multi-append" as UserId,
           email: "multi@example.com" as Email,
           firstName: "Multi" as FirstName,
-          lastName: "Append" as LastName,
+          lastName: "Append" as LastName
         }
 
         const event2: UserEvent = {
           _tag: "LastNameChanged",
           id: "user-multi-append" as UserId,
           oldValue: "Append" as LastName,
-          newValue: "Changed" as LastName,
+          newValue: "Changed" as LastName
         }
 
-        yield* store.append(streamId, [event1])
-        yield* store.append(streamId, [event2])
+        yield* store.append(streamId, [event1], 0)
+        yield* store.append(streamId, [event2], 1)
 
         const events = yield* store.load(streamId)
         expect(events).toHaveLength(2)
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("append with stale expectedVersion fails with ConcurrencyConflict", () =>
+      Effect.gen(function*() {
+        const store = yield* UserEventStore
+        const streamId = StreamId("user-conflict-test")
+
+        const event1: UserEvent = {
+          _tag: "UserCreated",
+          id: "user-conflict-test" as UserId,
+          email: "conflict@example.com" as Email,
+          firstName: "Conflict" as FirstName,
+          lastName: "Test" as LastName
+        }
+
+        const event2: UserEvent = {
+          _tag: "LastNameChanged",
+          id: "user-conflict-test" as UserId,
+          oldValue: "Test" as LastName,
+          newValue: "Stale" as LastName
+        }
+
+        yield* store.append(streamId, [event1], 0)
+        const result = yield* store.append(streamId, [event2], 0).pipe(Effect.either)
+
+        expect(result).toEqual(Either.left({
+          _tag: "ConcurrencyConflict",
+          streamId,
+          expectedVersion: 0,
+          actualVersion: 1
+        }))
+        const events = yield* store.load(streamId)
+        expect(events).toHaveLength(1)
+      }).pipe(Effect.provide(TestLayer)))
+
+    // ---------------------------------------------------------------------------
+    // Envelope Tests
+    // ---------------------------------------------------------------------------
+
+    it.effect("append returns envelopes with metadata; loadEnvelopes matches", () =>
+      Effect.gen(function*() {
+        const store = yield* UserEventStore
+        const streamId = StreamId("user-envelope-test")
+
+        const event1: UserEvent = {
+          _tag: "UserCreated",
+          id: "user-envelope-test" as UserId,
+          email: "envelope@example.com" as Email,
+          firstName: "Envelope" as FirstName,
+          lastName: "Test" as LastName
+        }
+
+        const event2: UserEvent = {
+          _tag: "FirstNameChanged",
+          id: "user-envelope-test" as UserId,
+          oldValue: "Envelope" as FirstName,
+          newValue: "Wrapped" as FirstName
+        }
+
+        const appended = yield* store.append(streamId, [event1, event2], 0, {
+          correlationId: "req-1",
+          causationId: "req-1",
+          actor: "user-envelope-test"
+        })
+        const loaded = yield* store.loadEnvelopes(streamId)
+
+        expect(loaded).toEqual(appended)
+        expect(loaded.map((e) => e.event)).toEqual([event1, event2])
+        expect(loaded.map((e) => e.version)).toEqual([1, 2])
+        expect(loaded[1]!.position).toBeGreaterThan(loaded[0]!.position)
+        expect(loaded[0]!.recordedAt).toBeInstanceOf(Date)
+        expect(loaded[0]).toMatchObject({
+          streamId,
+          correlationId: "req-1",
+          causationId: "req-1",
+          actor: "user-envelope-test"
+        })
+      }).pipe(Effect.provide(TestLayer)))
+
+    // ---------------------------------------------------------------------------
+    // Global Feed Tests
+    // ---------------------------------------------------------------------------
+
+    it.effect("readAll returns user and address events in position order", () =>
+      Effect.gen(function*() {
+        const users = yield* UserEventStore
+        const addresses = yield* AddressEventStore
+        const log = yield* EventLog
+
+        const userEvent: UserEvent = {
+          _tag: "UserCreated",
+          id: "user-feed-test" as UserId,
+          email: "feed@example.com" as Email,
+          firstName: "Feed" as FirstName,
+          lastName: "Test" as LastName
+        }
+
+        const addressEvent = {
+          _tag: "CityChanged",
+          id: "address-feed-test",
+          oldValue: "Paris",
+          newValue: "Lyon",
+          revertToken: "token-feed-test",
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
+        } as unknown as AddressEvent
+
+        // Checkpoint = current end of the log (other tests share the table)
+        const before = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(0, 100)))
+        const checkpoint = before.length === 0 ? 0 : before[before.length - 1]!.position
+
+        yield* users.append(StreamId("user-feed-test"), [userEvent], 0)
+        yield* addresses.append(StreamId("address-feed-test"), [addressEvent], 0)
+
+        // batchSize 1 → one page per event, exercises pagination
+        const after = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(checkpoint, 1)))
+
+        expect(after.map((e) => e.event)).toEqual([userEvent, addressEvent])
+        expect(after[1]!.position).toBeGreaterThan(after[0]!.position)
+      }).pipe(Effect.provide(TestLayer)))
+
+    // A transaction that took its id first but commits last must not be
+    // skipped: the later writer waits for it, so the feed never shows a gap
+    // that fills in behind a reader's checkpoint. it.live: real sleeps.
+    it.live("appends commit in position order: a later writer waits for an open one", () =>
+      Effect.gen(function*() {
+        const sql = yield* PgClient.PgClient
+        const users = yield* UserEventStore
+        const log = yield* EventLog
+
+        const created = (id: string): UserEvent => ({
+          _tag: "UserCreated",
+          id: id as UserId,
+          email: `${id}@example.com` as Email,
+          firstName: "Commit" as FirstName,
+          lastName: "Order" as LastName
+        })
+
+        const before = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(0, 100)))
+        const checkpoint = before.length === 0 ? 0 : before[before.length - 1]!.position
+
+        // The slow writer appends, then holds its transaction open
+        const appended = yield* Deferred.make<void>()
+        const release = yield* Deferred.make<void>()
+        const slow = yield* users.append(StreamId("user-commit-slow"), [created("user-commit-slow")], 0).pipe(
+          Effect.zipRight(Deferred.succeed(appended, undefined)),
+          Effect.zipRight(Deferred.await(release)),
+          sql.withTransaction,
+          Effect.fork
+        )
+        yield* Deferred.await(appended)
+
+        const fast = yield* Effect.fork(users.append(StreamId("user-commit-fast"), [created("user-commit-fast")], 0))
+        yield* Effect.sleep("300 millis")
+
+        // Neither is visible yet: the fast writer hasn't been able to commit ahead
+        expect(Chunk.size(yield* Stream.runCollect(log.readAll(checkpoint, 100)))).toBe(0)
+
+        yield* Deferred.succeed(release, undefined)
+        yield* Fiber.join(slow)
+        yield* Fiber.join(fast)
+
+        const after = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(checkpoint, 100)))
+        expect(after.map((e) => e.streamId)).toEqual(["user-commit-slow", "user-commit-fast"])
+      }).pipe(Effect.provide(TestLayer)), 15_000)
+
+    // it.live: real clock, so the polling fallback can fire if the NOTIFY
+    // arrives before LISTEN is registered
+    it.live("subscribe delivers events appended after subscribing", () =>
+      Effect.gen(function*() {
+        const users = yield* UserEventStore
+        const log = yield* EventLog
+
+        const userEvent: UserEvent = {
+          _tag: "UserCreated",
+          id: "user-subscribe-test" as UserId,
+          email: "subscribe@example.com" as Email,
+          firstName: "Sub" as FirstName,
+          lastName: "Scriber" as LastName
+        }
+
+        const before = Chunk.toReadonlyArray(yield* Stream.runCollect(log.readAll(0, 100)))
+        const checkpoint = before.length === 0 ? 0 : before[before.length - 1]!.position
+
+        const fiber = yield* log.subscribe(checkpoint).pipe(
+          Stream.take(1),
+          Stream.runCollect,
+          Effect.fork
+        )
+        yield* users.append(StreamId("user-subscribe-test"), [userEvent], 0)
+
+        const [delivered] = Chunk.toReadonlyArray(yield* Fiber.join(fiber))
+        expect(delivered?.event).toEqual(userEvent)
+      }).pipe(Effect.provide(TestLayer)), 15_000)
 
     // ---------------------------------------------------------------------------
     // Stream Isolation Tests
     // ---------------------------------------------------------------------------
 
     it.effect("streams are isolated (different streamIds don't interfere)", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* UserEventStore
         const streamId1 = StreamId("user-isolated-1")
         const streamId2 = StreamId("user-isolated-2")
@@ -192,7 +379,7 @@ describe("PostgresEventStore", async () => {
           id: "user-isolated-1" as UserId,
           email: "iso1@example.com" as Email,
           firstName: "Iso" as FirstName,
-          lastName: "One" as LastName,
+          lastName: "One" as LastName
         }
 
         const event2: UserEvent = {
@@ -200,11 +387,11 @@ describe("PostgresEventStore", async () => {
           id: "user-isolated-2" as UserId,
           email: "iso2@example.com" as Email,
           firstName: "Iso" as FirstName,
-          lastName: "Two" as LastName,
+          lastName: "Two" as LastName
         }
 
-        yield* store.append(streamId1, [event1])
-        yield* store.append(streamId2, [event2])
+        yield* store.append(streamId1, [event1], 0)
+        yield* store.append(streamId2, [event2], 0)
 
         const events1 = yield* store.load(streamId1)
         const events2 = yield* store.load(streamId2)
@@ -213,15 +400,14 @@ describe("PostgresEventStore", async () => {
         expect(events2).toHaveLength(1)
         expect((events1[0] as any).lastName).toBe("One")
         expect((events2[0] as any).lastName).toBe("Two")
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     // ---------------------------------------------------------------------------
     // Address Events (different aggregate)
     // ---------------------------------------------------------------------------
 
     it.effect("AddressEventStore works independently", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const store = yield* AddressEventStore
         const streamId = StreamId("address-test-1")
 
@@ -236,15 +422,145 @@ describe("PostgresEventStore", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: "token-123" as any,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
 
-        yield* store.append(streamId, [event])
+        yield* store.append(streamId, [event], 0)
         const events = yield* store.load(streamId)
 
         expect(events).toHaveLength(1)
         expect(events[0]._tag).toBe("AddressCreated")
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
+
+    // ---------------------------------------------------------------------------
+    // Payload Decoding
+    // ---------------------------------------------------------------------------
+
+    it.effect("load fails with EventDecodeError naming a malformed row", () =>
+      Effect.gen(function*() {
+        const store = yield* UserEventStore
+        const sql = yield* PgClient.PgClient
+        const streamId = StreamId("user-malformed")
+
+        yield* store.append(streamId, [
+          {
+            _tag: "UserCreated",
+            id: "user-malformed" as UserId,
+            email: "malformed@example.com" as Email,
+            firstName: "Mal" as FirstName,
+            lastName: "Formed" as LastName
+          },
+          {
+            _tag: "FirstNameChanged",
+            id: "user-malformed" as UserId,
+            oldValue: "Mal" as FirstName,
+            newValue: "Bad" as FirstName
+          }
+        ], 0)
+
+        // Simulate a legacy/hand-edited row: drop a required field
+        yield* sql`
+          UPDATE events SET payload = payload - 'newValue'
+          WHERE stream_id = ${streamId} AND version = 2
+        `
+
+        const error = yield* store.load(streamId).pipe(Effect.flip)
+        expect(error).toMatchObject({
+          _tag: "EventDecodeError",
+          streamId,
+          version: 2,
+          eventType: "FirstNameChanged"
+        })
+        expect(error.message).toContain("newValue")
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("append records each event's current schema version", () =>
+      Effect.gen(function*() {
+        const store = yield* UserEventStore
+        const sql = yield* PgClient.PgClient
+        const streamId = StreamId("user-schema-version")
+
+        yield* store.append(streamId, [
+          {
+            _tag: "UserCreated",
+            id: "user-schema-version" as UserId,
+            email: "versioned@example.com" as Email,
+            firstName: "Ver" as FirstName,
+            lastName: "Sioned" as LastName
+          }
+        ], 0)
+
+        const rows = yield* sql<{ schema_version: number }>`
+          SELECT schema_version FROM events WHERE stream_id = ${streamId}
+        `
+        // No UserCreated upcasters yet → v1
+        expect(rows).toEqual([{ schema_version: 1 }])
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("a v1 AddressCreated row (before token expiry) loads with an epoch issuedAt", () =>
+      Effect.gen(function*() {
+        const store = yield* AddressEventStore
+        const sql = yield* PgClient.PgClient
+        const streamId = StreamId("address-legacy-v1")
+
+        yield* store.append(streamId, [
+          {
+            _tag: "AddressCreated",
+            id: "address-legacy-v1" as any,
+            userId: "user-legacy" as any,
+            label: "home" as any,
+            streetNumber: "1" as any,
+            streetName: "Rue Legacy" as any,
+            zipCode: "75001" as any,
+            city: "Paris" as any,
+            country: "France" as any,
+            revertToken: "token-legacy" as any,
+            revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
+          }
+        ], 0)
+
+        const [written] = yield* sql<{ schema_version: number }>`
+          SELECT schema_version FROM events WHERE stream_id = ${streamId}
+        `
+        expect(written.schema_version).toBe(2)
+
+        // Rewrite the row the way a pre-expiry deployment stored it
+        yield* sql`
+          UPDATE events SET payload = payload - 'revertTokenIssuedAt', schema_version = 1
+          WHERE stream_id = ${streamId}
+        `
+
+        const [event] = yield* store.load(streamId)
+        expect(event._tag).toBe("AddressCreated")
+        expect((event as any).revertTokenIssuedAt).toEqual(new Date(0))
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("a v1 LoggedIn row (before session expiry was recorded) loads with epoch dates", () =>
+      Effect.gen(function*() {
+        const store = yield* UserEventStore
+        const sql = yield* PgClient.PgClient
+        const streamId = StreamId("user-legacy-session")
+
+        yield* store.append(streamId, [
+          {
+            _tag: "LoggedIn",
+            id: "user-legacy-session" as UserId,
+            tokenId: "login-legacy" as any,
+            sessionId: "session-legacy" as any,
+            loggedInAt: new Date("2024-01-01T10:00:00Z"),
+            expiresAt: new Date("2024-01-08T10:00:00Z")
+          }
+        ], 0)
+
+        // Rewrite the row the way the first login deployment stored it
+        yield* sql`
+          UPDATE events SET payload = payload - 'loggedInAt' - 'expiresAt', schema_version = 1
+          WHERE stream_id = ${streamId}
+        `
+
+        const [event] = yield* store.load(streamId)
+        expect(event).toMatchObject({ _tag: "LoggedIn", loggedInAt: new Date(0), expiresAt: new Date(0) })
+      }).pipe(Effect.provide(TestLayer)))
   })
 
   // Placeholder test when Postgres not available
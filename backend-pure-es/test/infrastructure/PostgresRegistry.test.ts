@@ -8,16 +8,21 @@
 // SAME CONTRACT AS IN-MEMORY:
 // Verifies the same behavior as InMemoryRegistry.
 //
-import { describe, expect, it, beforeAll } from "@effect/vitest"
-import { Effect, Layer, Option, Redacted } from "effect"
 import { PgClient } from "@effect/sql-pg"
+import { beforeAll, describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Option, Redacted } from "effect"
 
-import { Registry } from "../../src/Registry.js"
-import { PostgresRegistry } from "../../src/infrastructure/PostgresRegistry.js"
-import type { UserEvent } from "../../src/domain/user/Events.js"
+import { catchUpProjection } from "../../src/application/ProjectionRunner.js"
 import type { AddressEvent } from "../../src/domain/address/Events.js"
-import type { UserId, FirstName, LastName } from "../../src/domain/user/State.js"
 import type { AddressId, RevertToken } from "../../src/domain/address/State.js"
+import type { UserEvent } from "../../src/domain/user/Events.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { AddressEventStore, StreamId } from "../../src/EventStore.js"
+import { PostgresEventStores } from "../../src/infrastructure/PostgresEventStore.js"
+import { PostgresProjectionCheckpoints } from "../../src/infrastructure/PostgresProjectionCheckpoints.js"
+import { PostgresRegistry } from "../../src/infrastructure/PostgresRegistry.js"
+import { RegistryProjection } from "../../src/projections/RegistryProjection.js"
+import { Registry } from "../../src/Registry.js"
 import type { Email } from "../../src/shared/Email.js"
 
 // =============================================================================
@@ -43,11 +48,17 @@ const isPostgresAvailable = async (): Promise<boolean> => {
 // =============================================================================
 
 const TestPgClient = PgClient.layer({
-  url: Redacted.make(DATABASE_URL),
+  url: Redacted.make(DATABASE_URL)
 })
 
 const TestLayer = Layer.provideMerge(PostgresRegistry, TestPgClient)
 
+// Registry + log + checkpoints, for replaying the log like the projection runner
+const ReplayLayer = Layer.provideMerge(
+  Layer.mergeAll(PostgresRegistry, PostgresEventStores, PostgresProjectionCheckpoints),
+  TestPgClient
+)
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -61,7 +72,9 @@ describe("PostgresRegistry", async () => {
       const { Client } = await import("pg")
       const client = new Client({ connectionString: DATABASE_URL })
       await client.connect()
-      await client.query("TRUNCATE events, nicknames, address_labels, revert_tokens RESTART IDENTITY")
+      await client.query(
+        "TRUNCATE events, nicknames, user_names, address_labels, user_addresses, revert_tokens RESTART IDENTITY"
+      )
       await client.end()
     })
 
@@ -70,15 +83,14 @@ describe("PostgresRegistry", async () => {
     // -------------------------------------------------------------------------
 
     it.effect("getUserIdByNickname returns None for unknown nickname", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const result = yield* registry.getUserIdByNickname("unknown-nickname")
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("getUserIdByNickname returns Some after projecting UserCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const userId = "user-pg-test-1" as UserId
@@ -87,30 +99,28 @@ describe("PostgresRegistry", async () => {
           id: userId,
           email: "pg@example.com" as Email,
           firstName: "Postgres" as FirstName,
-          lastName: "Test" as LastName,
+          lastName: "Test" as LastName
         }
 
-        yield* registry.projectUserEvent(event)
+        yield* registry.projectUserEvent(event, 1)
 
         const result = yield* registry.getUserIdByNickname("postgres-test")
         expect(result).toEqual(Option.some(userId))
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     // -------------------------------------------------------------------------
     // Address Label Lookup Tests
     // -------------------------------------------------------------------------
 
     it.effect("getAddressIdByLabel returns None for unknown label", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const result = yield* registry.getAddressIdByLabel("user-123" as UserId, "unknown")
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("getAddressIdByLabel returns Some after projecting AddressCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const userId = "user-pg-addr-test" as UserId
@@ -126,29 +136,76 @@ describe("PostgresRegistry", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: "token-pg-1" as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
 
         yield* registry.projectAddressEvent(event)
 
         const result = yield* registry.getAddressIdByLabel(userId, "home")
         expect(result).toEqual(Option.some(addressId))
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("label writes never take a label over from another address", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const userId = "user-pg-label-owner" as UserId
+        const first = "addr-pg-label-owner-1" as AddressId
+        const second = "addr-pg-label-owner-2" as AddressId
+        const created = (id: AddressId, token: string): AddressEvent => ({
+          _tag: "AddressCreated",
+          id,
+          userId,
+          label: "home" as any,
+          streetNumber: "1" as any,
+          streetName: "Rue Test" as any,
+          zipCode: "75001" as any,
+          city: "Paris" as any,
+          country: "France" as any,
+          revertToken: token as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
+        })
+
+        // "home" is renamed office, then a second address takes "home"
+        yield* registry.projectAddressEvent(created(first, "token-pg-owner-1"))
+        yield* registry.projectAddressEvent({
+          _tag: "LabelChanged",
+          id: first,
+          oldValue: "home" as any,
+          newValue: "office" as any,
+          revertToken: "token-pg-owner-relabel" as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T11:00:00Z")
+        })
+        yield* registry.projectAddressEvent(created(second, "token-pg-owner-2"))
+
+        // relabel (a revert back to "home") and placeLabel (the first
+        // creation replayed) both leave the second address's row alone
+        yield* registry.projectAddressEvent({
+          _tag: "LabelReverted",
+          id: first,
+          oldValue: "office" as any,
+          newValue: "home" as any,
+          revertToken: "token-pg-owner-relabel" as RevertToken
+        })
+        yield* registry.projectAddressEvent(created(first, "token-pg-owner-1"))
+
+        expect(yield* registry.getAddressIdByLabel(userId, "home")).toEqual(Option.some(second))
+        expect(yield* registry.getAddressIdByLabel(userId, "office")).toEqual(Option.some(first))
+        expect(yield* registry.getAddressIdsByUserId(userId)).toEqual(expect.arrayContaining([first, second]))
+      }).pipe(Effect.provide(TestLayer)))
 
     // -------------------------------------------------------------------------
     // Token Lookup Tests
     // -------------------------------------------------------------------------
 
     it.effect("getAddressIdByToken returns None for unknown token", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
         const result = yield* registry.getAddressIdByToken("unknown-token" as RevertToken)
         expect(result).toEqual(Option.none())
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("getAddressIdByToken returns Some after projecting AddressCreated", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const addressId = "addr-pg-token-test" as AddressId
@@ -164,17 +221,17 @@ describe("PostgresRegistry", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: token,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
 
         yield* registry.projectAddressEvent(event)
 
         const result = yield* registry.getAddressIdByToken(token)
         expect(result).toEqual(Option.some(addressId))
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     it.effect("token is consumed after revert projection", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const addressId = "addr-pg-revert" as AddressId
@@ -192,6 +249,7 @@ describe("PostgresRegistry", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: token,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
         yield* registry.projectAddressEvent(createEvent)
 
@@ -203,22 +261,21 @@ describe("PostgresRegistry", async () => {
         const revertEvent: AddressEvent = {
           _tag: "CreationReverted",
           id: addressId,
-          revertToken: token,
+          revertToken: token
         }
         yield* registry.projectAddressEvent(revertEvent)
 
         // Token should be consumed (None)
         const after = yield* registry.getAddressIdByToken(token)
         expect(after).toEqual(Option.none())
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
 
     // -------------------------------------------------------------------------
     // getAddressIdsByUserId Tests
     // -------------------------------------------------------------------------
 
     it.effect("getAddressIdsByUserId returns all addresses for a user", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const registry = yield* Registry
 
         const userId = "user-multi-addr" as UserId
@@ -234,6 +291,7 @@ describe("PostgresRegistry", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: "token-multi-1" as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
 
         const event2: AddressEvent = {
@@ -247,6 +305,7 @@ describe("PostgresRegistry", async () => {
           city: "Paris" as any,
           country: "France" as any,
           revertToken: "token-multi-2" as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
         }
 
         yield* registry.projectAddressEvent(event1)
@@ -256,8 +315,179 @@ describe("PostgresRegistry", async () => {
         expect(addresses).toHaveLength(2)
         expect(addresses).toContain("addr-multi-1")
         expect(addresses).toContain("addr-multi-2")
-      }).pipe(Effect.provide(TestLayer))
-    )
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("getAllAddressIdsByUserId still lists an address whose creation was reverted", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+
+        yield* registry.projectAddressEvent({
+          _tag: "CreationReverted",
+          id: "addr-multi-2" as AddressId,
+          revertToken: "token-multi-2" as RevertToken
+        })
+
+        expect(yield* registry.getAddressIdsByUserId("user-multi-addr" as UserId)).toEqual(["addr-multi-1"])
+        const all = yield* registry.getAllAddressIdsByUserId("user-multi-addr" as UserId)
+        expect([...all].sort()).toEqual(["addr-multi-1", "addr-multi-2"])
+      }).pipe(Effect.provide(TestLayer)))
+
+    // -------------------------------------------------------------------------
+    // Purge Tests (revert token expiry)
+    // -------------------------------------------------------------------------
+
+    it.effect("purgeRevertTokensIssuedBefore deletes only tokens issued at or before the cutoff", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const addressId = "addr-pg-purge" as AddressId
+        const cityChanged = (token: string, issuedAt: string): AddressEvent => ({
+          _tag: "CityChanged",
+          id: addressId,
+          revertToken: token as RevertToken,
+          revertTokenIssuedAt: new Date(issuedAt),
+          oldValue: "Paris" as any,
+          newValue: "Lyon" as any
+        })
+
+        yield* registry.projectAddressEvent(cityChanged("token-pg-stale", "2000-01-01T00:00:00Z"))
+        yield* registry.projectAddressEvent(cityChanged("token-pg-fresh", "2099-01-01T00:00:00Z"))
+
+        const purged = yield* registry.purgeRevertTokensIssuedBefore(new Date("2000-01-01T00:00:00Z"))
+
+        expect(purged).toBe(1)
+        expect(yield* registry.getAddressIdByToken("token-pg-stale" as RevertToken)).toEqual(Option.none())
+        expect(yield* registry.getAddressIdByToken("token-pg-fresh" as RevertToken)).toEqual(Option.some(addressId))
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("a rename moves the current nickname, keeps the old one, and suffixes collisions", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const userId = "user-pg-rename" as UserId
+        const newcomerId = "user-pg-newcomer" as UserId
+        const created = {
+          _tag: "UserCreated" as const,
+          email: "rename@example.com" as Email,
+          firstName: "Rename" as FirstName,
+          lastName: "Test" as LastName
+        }
+
+        yield* registry.projectUserEvent({ ...created, id: userId }, 1)
+        yield* registry.projectUserEvent({
+          _tag: "LastNameChanged",
+          id: userId,
+          oldValue: "Test" as LastName,
+          newValue: "Renamed" as LastName
+        }, 2)
+        yield* registry.projectUserEvent({ ...created, id: newcomerId }, 1)
+
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.some("rename-renamed"))
+        expect(yield* registry.getUserIdByNickname("rename-test")).toEqual(Option.some(userId))
+        expect(yield* registry.getNicknameByUserId(newcomerId)).toEqual(Option.some("rename-test-2"))
+      }).pipe(Effect.provide(TestLayer)))
+
+    it.effect("replaying an older UserCreated after a rename keeps the renamed nickname current", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const userId = "user-pg-replay-rename" as UserId
+        const created = {
+          _tag: "UserCreated" as const,
+          id: userId,
+          email: "replay-rename@example.com" as Email,
+          firstName: "Replay" as FirstName,
+          lastName: "Before" as LastName
+        }
+
+        yield* registry.projectUserEvent(created, 1)
+        yield* registry.projectUserEvent({
+          _tag: "LastNameChanged",
+          id: userId,
+          oldValue: "Before" as LastName,
+          newValue: "After" as LastName
+        }, 2)
+        yield* registry.projectUserEvent(created, 1)
+
+        expect(yield* registry.getNicknameByUserId(userId)).toEqual(Option.some("replay-after"))
+        expect(yield* registry.getUserIdByNickname("replay-before")).toEqual(Option.some(userId))
+      }).pipe(Effect.provide(TestLayer)))
+
+    // -------------------------------------------------------------------------
+    // Replay (the projection runner re-applies events already projected inline)
+    // -------------------------------------------------------------------------
+
+    it.effect("replaying the full log over a live registry converges, even past relabels", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const store = yield* AddressEventStore
+        const sql = yield* PgClient.PgClient
+        const userId = "user-pg-replay" as UserId
+        const first = "addr-pg-replay-1" as AddressId
+        const second = "addr-pg-replay-2" as AddressId
+        const created = (id: AddressId, token: string): AddressEvent => ({
+          _tag: "AddressCreated",
+          id,
+          userId,
+          label: "home" as any,
+          streetNumber: "1" as any,
+          streetName: "Rue Replay" as any,
+          zipCode: "75001" as any,
+          city: "Paris" as any,
+          country: "France" as any,
+          revertToken: token as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T10:00:00Z")
+        })
+        const relabelled: AddressEvent = {
+          _tag: "LabelChanged",
+          id: first,
+          oldValue: "home" as any,
+          newValue: "office" as any,
+          revertToken: "token-pg-replay-relabel" as RevertToken,
+          revertTokenIssuedAt: new Date("2024-01-01T11:00:00Z")
+        }
+
+        // "home" moves to office, then a second address takes "home" —
+        // appended and projected inline, as the use cases do
+        for (
+          const [streamId, event, version] of [
+            [first, created(first, "token-pg-replay-1"), 0],
+            [first, relabelled, 1],
+            [second, created(second, "token-pg-replay-2"), 0]
+          ] as const
+        ) {
+          yield* store.append(StreamId(streamId), [event], version)
+          yield* registry.projectAddressEvent(event)
+        }
+
+        // First start of the runner: no checkpoint, the whole log again
+        yield* sql`DELETE FROM projection_checkpoints WHERE projection = ${RegistryProjection.name}`
+        yield* catchUpProjection(RegistryProjection)
+
+        expect(yield* registry.getAddressIdByLabel(userId, "office")).toEqual(Option.some(first))
+        expect(yield* registry.getAddressIdByLabel(userId, "home")).toEqual(Option.some(second))
+        expect(yield* registry.getAddressIdsByUserId(userId)).toEqual(expect.arrayContaining([first, second]))
+      }).pipe(Effect.provide(ReplayLayer)))
+
+    // -------------------------------------------------------------------------
+    // Reset (runs last: it empties the registry tables)
+    // -------------------------------------------------------------------------
+
+    it.effect("reset empties all registry tables", () =>
+      Effect.gen(function*() {
+        const registry = yield* Registry
+        const userId = "user-reset-test" as UserId
+
+        yield* registry.projectUserEvent({
+          _tag: "UserCreated",
+          id: userId,
+          email: "reset@example.com" as Email,
+          firstName: "Reset" as FirstName,
+          lastName: "Test" as LastName
+        }, 1)
+
+        yield* registry.reset
+
+        expect(yield* registry.getUserIdByNickname("reset-test")).toEqual(Option.none())
+        expect(yield* registry.getAddressIdsByUserId("user-multi-addr" as UserId)).toEqual([])
+      }).pipe(Effect.provide(TestLayer)))
   })
 
   describe.skipIf(postgresAvailable)("without Postgres", () => {
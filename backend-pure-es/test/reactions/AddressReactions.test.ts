@@ -21,11 +21,11 @@
 //
 import { describe, expect, it } from "@effect/vitest"
 import { Effect } from "effect"
-import { Email } from "../../src/shared/Email.js"
-import { EmailService } from "../../src/EmailService.js"
-import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
 import type { AddressEvent } from "../../src/domain/address/Events.js"
 import type { Address, RevertToken } from "../../src/domain/address/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { Email } from "../../src/shared/Email.js"
 
 // Will fail until we implement — that's TDD!
 import { reactToAddressEvent } from "../../src/reactions/AddressReactions.js"
@@ -38,6 +38,7 @@ const userEmail = Email.make("user@example.com")
 const addressId = "addr-123" as Address["id"]
 const userId = "user-456" as Address["userId"]
 const revertToken = "token-abc" as RevertToken
+const revertTokenIssuedAt = new Date("2024-01-01T10:00:00Z")
 
 // Base address data for events
 const baseAddressData = {
@@ -58,10 +59,11 @@ const baseAddressData = {
 describe("reactToAddressEvent", () => {
   describe("user actions → send email", () => {
     it.effect("AddressCreated → sends email", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "AddressCreated",
           revertToken,
+          revertTokenIssuedAt,
           ...baseAddressData
         }
         const capture = makeCaptureEmailService()
@@ -74,15 +76,15 @@ describe("reactToAddressEvent", () => {
         expect(sent).toHaveLength(1)
         expect(sent[0].to).toBe(userEmail)
         expect(sent[0].subject).toContain("Address")
-      })
-    )
+      }))
 
     it.effect("CityChanged → sends email mentioning city", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "CityChanged",
           id: addressId,
           revertToken,
+          revertTokenIssuedAt,
           oldValue: "Paris" as Address["city"],
           newValue: "Lyon" as Address["city"]
         }
@@ -98,15 +100,15 @@ describe("reactToAddressEvent", () => {
         // Subject or body should mention the field changed
         const content = sent[0].subject + sent[0].body
         expect(content.toLowerCase()).toContain("city")
-      })
-    )
+      }))
 
     it.effect("CountryChanged → sends email mentioning country", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "CountryChanged",
           id: addressId,
           revertToken,
+          revertTokenIssuedAt,
           oldValue: "France" as Address["country"],
           newValue: "Belgium" as Address["country"]
         }
@@ -121,14 +123,14 @@ describe("reactToAddressEvent", () => {
         expect(sent[0].to).toBe(userEmail)
         const content = sent[0].subject + sent[0].body
         expect(content.toLowerCase()).toContain("country")
-      })
-    )
+      }))
 
     it.effect("AddressDeleted → sends email", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "AddressDeleted",
           revertToken,
+          revertTokenIssuedAt,
           ...baseAddressData
         }
         const capture = makeCaptureEmailService()
@@ -141,8 +143,7 @@ describe("reactToAddressEvent", () => {
         expect(sent).toHaveLength(1)
         expect(sent[0].to).toBe(userEmail)
         expect(sent[0].subject.toLowerCase()).toContain("deleted")
-      })
-    )
+      }))
   })
 
   // ===========================================================================
@@ -151,7 +152,7 @@ describe("reactToAddressEvent", () => {
 
   describe("corrections → no email", () => {
     it.effect("CityReverted → no email sent", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "CityReverted",
           id: addressId,
@@ -166,11 +167,10 @@ describe("reactToAddressEvent", () => {
         )
 
         expect(capture.getSentEmails()).toHaveLength(0)
-      })
-    )
+      }))
 
     it.effect("CreationReverted → no email sent", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "CreationReverted",
           id: addressId,
@@ -183,11 +183,10 @@ describe("reactToAddressEvent", () => {
         )
 
         expect(capture.getSentEmails()).toHaveLength(0)
-      })
-    )
+      }))
 
     it.effect("AddressRestored → no email sent", () =>
-      Effect.gen(function* () {
+      Effect.gen(function*() {
         const event: AddressEvent = {
           _tag: "AddressRestored",
           revertToken,
@@ -200,7 +199,6 @@ describe("reactToAddressEvent", () => {
         )
 
         expect(capture.getSentEmails()).toHaveLength(0)
-      })
-    )
+      }))
   })
 })
@@ -0,0 +1,115 @@
+// =============================================================================
+// Authenticate / LogOut Use Case Tests
+// =============================================================================
+//
+// A session token is honoured while it's signed, within SessionTtl, and its
+// session is still open on the User stream. LogOut closes it.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Either, Layer, TestClock } from "effect"
+
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { StreamId, UserEventStore } from "../../src/EventStore.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestAuthTokenServiceLive } from "../../src/infrastructure/HmacAuthTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { Email } from "../../src/shared/Email.js"
+import { authenticate } from "../../src/usecases/Authenticate.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { logIn } from "../../src/usecases/LogIn.js"
+import { logOut } from "../../src/usecases/LogOut.js"
+import { requestLoginLink } from "../../src/usecases/RequestLoginLink.js"
+
+describe("Authenticate use case", () => {
+  const makeTestLayer = (capture = makeCaptureEmailService()) =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      makeInMemoryRegistryLayer(),
+      TestIdGeneratorLive,
+      TestAuthTokenServiceLive,
+      Layer.succeed(EmailService, capture.service)
+    )
+
+  // test-1 = userId, test-2 = login token id, test-3 = sessionId
+  const loggedIn = (capture: ReturnType<typeof makeCaptureEmailService>) =>
+    Effect.gen(function*() {
+      yield* createUser({
+        email: Email.make("jean@example.com"),
+        firstName: "Jean" as FirstName,
+        lastName: "Dupont" as LastName
+      })
+      yield* requestLoginLink({ nickname: "jean-dupont" })
+      const token = capture.getSentEmails()[0]?.body.match(/\/login\/([\w.-]+)/)?.[1] ?? ""
+      return { token, ...(yield* logIn({ token })) }
+    })
+
+  it.effect("an open session authenticates its user", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const { sessionToken } = yield* loggedIn(capture)
+
+      expect(yield* authenticate({ sessionToken })).toEqual({ userId: "test-1", sessionId: "test-3" })
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("fails with SessionExpired once the TTL has passed", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const { sessionToken } = yield* loggedIn(capture)
+      yield* TestClock.adjust(Duration.days(7))
+
+      const result = yield* authenticate({ sessionToken }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({
+        _tag: "SessionExpired",
+        expiredAt: new Date(Duration.toMillis(Duration.days(7)))
+      }))
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("the login link is not a session token", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const { token } = yield* loggedIn(capture)
+
+      const result = yield* authenticate({ sessionToken: token }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "WrongKind" }))
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  describe("after LogOut", () => {
+    it.effect("the session is closed, and LoggedOut is recorded", () => {
+      const capture = makeCaptureEmailService()
+      return Effect.gen(function*() {
+        const { sessionToken } = yield* loggedIn(capture)
+        const caller = yield* authenticate({ sessionToken })
+
+        expect(yield* logOut(caller)).toEqual({ loggedOut: true })
+
+        const result = yield* authenticate({ sessionToken }).pipe(Effect.either)
+        expect(result).toEqual(Either.left({ _tag: "SessionClosed" }))
+        const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+        expect(events.map((e) => e._tag)).toEqual(["UserCreated", "LoginLinkRequested", "LoggedIn", "LoggedOut"])
+      }).pipe(Effect.provide(makeTestLayer(capture)))
+    })
+
+    it.effect("logging out twice records nothing the second time", () => {
+      const capture = makeCaptureEmailService()
+      return Effect.gen(function*() {
+        const { sessionToken } = yield* loggedIn(capture)
+        const caller = yield* authenticate({ sessionToken })
+        yield* logOut(caller)
+
+        expect(yield* logOut(caller)).toEqual({ loggedOut: false })
+        const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+        expect(events).toHaveLength(4)
+      }).pipe(Effect.provide(makeTestLayer(capture)))
+    })
+  })
+})
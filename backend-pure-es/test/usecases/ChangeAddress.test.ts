@@ -0,0 +1,176 @@
+// =============================================================================
+// ChangeAddress Use Case Tests
+// =============================================================================
+//
+// Several fields, one event, one email, one revert link that undoes them all.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer } from "effect"
+
+import type { AddressId, City, Label, StreetName, StreetNumber } from "../../src/domain/address/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { AddressEventStore, StreamId } from "../../src/EventStore.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { changeAddress } from "../../src/usecases/ChangeAddress.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { getUser } from "../../src/usecases/GetUser.js"
+import { revertChange } from "../../src/usecases/RevertChange.js"
+
+describe("ChangeAddress use case", () => {
+  const makeTestLayer = () => {
+    const emailCapture = makeCaptureEmailService()
+    const layer = Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      Layer.succeed(EmailService, emailCapture.service),
+      makeInMemoryRegistryLayer(),
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
+    )
+    return { layer, emailCapture }
+  }
+
+  // test-1 = userId, test-2 = "home" addressId, test-3 = its creation token
+  const setup = Effect.gen(function*() {
+    yield* createUser({
+      email: "jean@example.com" as any,
+      firstName: "Jean" as any,
+      lastName: "Dupont" as any
+    })
+
+    yield* createAddress({
+      nickname: "jean-dupont",
+      label: "home" as any,
+      streetNumber: "42" as any,
+      streetName: "Rue de Rivoli" as any,
+      zipCode: "75001" as any,
+      city: "Paris" as any,
+      country: "France" as any
+    })
+  })
+
+  const moveToLyon = changeAddress({
+    nickname: "jean-dupont",
+    label: "home",
+    fields: {
+      streetNumber: "7" as StreetNumber,
+      streetName: "Rue Nationale" as StreetName,
+      city: "Lyon" as City
+    }
+  })
+
+  // The revert link of the (single) email sent since the last clear
+  const revertLinkToken = (emailCapture: ReturnType<typeof makeCaptureEmailService>) =>
+    emailCapture.getSentEmails()[0]!.body.match(/\/revert\/(\S+)/)![1]!
+
+  it.effect("changes several fields with one event and one summarizing email", () => {
+    const { emailCapture, layer } = makeTestLayer()
+    return Effect.gen(function*() {
+      yield* setup
+      emailCapture.clear()
+
+      const result = yield* moveToLyon
+
+      expect(result).toEqual({
+        changes: [
+          { field: "streetNumber", oldValue: "42", newValue: "7" },
+          { field: "streetName", oldValue: "Rue de Rivoli", newValue: "Rue Nationale" },
+          { field: "city", oldValue: "Paris", newValue: "Lyon" }
+        ],
+        label: "home"
+      })
+
+      const events = yield* Effect.flatMap(AddressEventStore, (store) => store.load(StreamId("test-2" as AddressId)))
+      expect(events.map((e) => e._tag)).toEqual(["AddressCreated", "AddressChanged"])
+
+      const emails = emailCapture.getSentEmails()
+      expect(emails).toHaveLength(1)
+      expect(emails[0]!.subject).toContain("Address Changed")
+      expect(emails[0]!.body).toContain("street number: \"42\" → \"7\"")
+      expect(emails[0]!.body).toContain("city: \"Paris\" → \"Lyon\"")
+      expect(emails[0]!.body.match(/\/revert\//g)).toHaveLength(1)
+    }).pipe(Effect.provide(layer))
+  })
+
+  it.effect("the email's one revert link restores every field", () => {
+    const { emailCapture, layer } = makeTestLayer()
+    return Effect.gen(function*() {
+      yield* setup
+      emailCapture.clear()
+      yield* moveToLyon
+
+      yield* revertChange({ token: revertLinkToken(emailCapture) as any })
+
+      const { addresses } = yield* getUser({ nickname: "jean-dupont" })
+      expect(addresses[0]).toMatchObject({ streetNumber: "42", streetName: "Rue de Rivoli", city: "Paris" })
+    }).pipe(Effect.provide(layer))
+  })
+
+  it.effect("a new label moves the address in the Registry, and its revert moves it back", () => {
+    const { emailCapture, layer } = makeTestLayer()
+    return Effect.gen(function*() {
+      yield* setup
+      emailCapture.clear()
+
+      const result = yield* changeAddress({
+        nickname: "jean-dupont",
+        label: "home",
+        fields: { label: "old-home" as Label, city: "Lyon" as City }
+      })
+      expect(result.label).toBe("old-home")
+      const moved = yield* getUser({ nickname: "jean-dupont" })
+      expect(moved.addresses.map((a) => a.label)).toEqual(["old-home"])
+
+      yield* revertChange({ token: revertLinkToken(emailCapture) as any })
+
+      const reverted = yield* getUser({ nickname: "jean-dupont" })
+      expect(reverted.addresses.map((a) => a.label)).toEqual(["home"])
+    }).pipe(Effect.provide(layer))
+  })
+
+  it.effect("records nothing and sends no email when no field actually changes", () => {
+    const { emailCapture, layer } = makeTestLayer()
+    return Effect.gen(function*() {
+      yield* setup
+      emailCapture.clear()
+
+      const result = yield* changeAddress({ nickname: "jean-dupont", label: "home", fields: { city: "Paris" as City } })
+
+      expect(result).toEqual({ changes: [], label: "home" })
+      expect(emailCapture.getSentEmails()).toHaveLength(0)
+    }).pipe(Effect.provide(layer))
+  })
+
+  it.effect("fails with LabelAlreadyExists when the new label belongs to another address", () => {
+    const { layer } = makeTestLayer()
+    return Effect.gen(function*() {
+      yield* setup
+      yield* createAddress({
+        nickname: "jean-dupont",
+        label: "work" as any,
+        streetNumber: "1" as any,
+        streetName: "Avenue Foch" as any,
+        zipCode: "75016" as any,
+        city: "Paris" as any,
+        country: "France" as any
+      })
+
+      const result = yield* changeAddress({
+        nickname: "jean-dupont",
+        label: "home",
+        fields: { label: "work" as Label, city: "Lyon" as City }
+      }).pipe(Effect.either)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("LabelAlreadyExists")
+      }
+    }).pipe(Effect.provide(layer))
+  })
+})
@@ -16,15 +16,17 @@
 //
 import { describe, expect, it } from "@effect/vitest"
 import { Effect, Layer, Option } from "effect"
-import { Email } from "../../src/shared/Email.js"
-import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
 import type { Address } from "../../src/domain/address/State.js"
-import { Registry } from "../../src/Registry.js"
-import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { InMemoryUserEventStore, InMemoryAddressEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
-import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
 import { EmailService } from "../../src/EmailService.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
 import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryAddressEventStore, InMemoryUserEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { Registry } from "../../src/Registry.js"
+import { Email } from "../../src/shared/Email.js"
 
 // Will fail until we implement — that's TDD!
 import { createAddress } from "../../src/usecases/CreateAddress.js"
@@ -54,7 +56,7 @@ const testAddressData = {
 
 describe("createAddress", () => {
   it.effect("creates address and returns it", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       // Setup: create user first
       yield* createUser({
         email: testEmail,
@@ -75,15 +77,16 @@ describe("createAddress", () => {
       Effect.provide(Layer.mergeAll(
         InMemoryUserEventStore,
         InMemoryAddressEventStore,
+        InMemoryUnitOfWork,
         makeInMemoryRegistryLayer(),
         TestIdGeneratorLive,
+        TestRevertTokenServiceLive,
         Layer.succeed(EmailService, makeCaptureEmailService().service)
       ))
-    )
-  )
+    ))
 
   it.effect("projects AddressCreated to Registry", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       // Setup: create user first
       const user = yield* createUser({
         email: testEmail,
@@ -107,18 +110,19 @@ describe("createAddress", () => {
       Effect.provide(Layer.mergeAll(
         InMemoryUserEventStore,
         InMemoryAddressEventStore,
+        InMemoryUnitOfWork,
         makeInMemoryRegistryLayer(),
         TestIdGeneratorLive,
+        TestRevertTokenServiceLive,
         Layer.succeed(EmailService, makeCaptureEmailService().service)
       ))
-    )
-  )
+    ))
 
   it.effect("sends email on address creation", () => {
     // Create capture outside Effect.gen so we can access it for assertions
     const capture = makeCaptureEmailService()
 
-    return Effect.gen(function* () {
+    return Effect.gen(function*() {
       // Setup: create user first
       yield* createUser({
         email: testEmail,
@@ -141,15 +145,17 @@ describe("createAddress", () => {
       Effect.provide(Layer.mergeAll(
         InMemoryUserEventStore,
         InMemoryAddressEventStore,
+        InMemoryUnitOfWork,
         makeInMemoryRegistryLayer(),
         TestIdGeneratorLive,
+        TestRevertTokenServiceLive,
         Layer.succeed(EmailService, capture.service)
       ))
     )
   })
 
   it.effect("fails if user not found", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const result = yield* createAddress({
         nickname: "unknown-user",
         ...testAddressData
@@ -163,15 +169,16 @@ describe("createAddress", () => {
       Effect.provide(Layer.mergeAll(
         InMemoryUserEventStore,
         InMemoryAddressEventStore,
+        InMemoryUnitOfWork,
         makeInMemoryRegistryLayer(),
         TestIdGeneratorLive,
+        TestRevertTokenServiceLive,
         Layer.succeed(EmailService, makeCaptureEmailService().service)
       ))
-    )
-  )
+    ))
 
   it.effect("fails if label already exists for user", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       // Setup: create user and first address
       yield* createUser({
         email: testEmail,
@@ -197,10 +204,11 @@ describe("createAddress", () => {
       Effect.provide(Layer.mergeAll(
         InMemoryUserEventStore,
         InMemoryAddressEventStore,
+        InMemoryUnitOfWork,
         makeInMemoryRegistryLayer(),
         TestIdGeneratorLive,
+        TestRevertTokenServiceLive,
         Layer.succeed(EmailService, makeCaptureEmailService().service)
       ))
-    )
-  )
+    ))
 })
@@ -13,12 +13,12 @@
 //
 import { describe, expect, it } from "@effect/vitest"
 import { Effect, Layer, Option } from "effect"
-import { Email } from "../../src/shared/Email.js"
-import type { FirstName, LastName } from "../../src/domain/user/State.js"
-import { Registry } from "../../src/Registry.js"
-import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { InMemoryUserEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
 import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { InMemoryUserEventStore } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { Registry } from "../../src/Registry.js"
+import { Email } from "../../src/shared/Email.js"
 
 // Will fail until we implement — that's TDD!
 import { createUser } from "../../src/usecases/CreateUser.js"
@@ -45,7 +45,7 @@ const TestLayer = Layer.mergeAll(
 
 describe("createUser", () => {
   it.effect("creates user and returns with nickname", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const result = yield* createUser({
         email: testEmail,
         firstName: testFirstName,
@@ -58,11 +58,10 @@ describe("createUser", () => {
       expect(result.nickname).toBe("jean-dupont")
       // ID is generated — just verify it exists and is deterministic
       expect(result.id).toBe("test-1")
-    }).pipe(Effect.provide(TestLayer))
-  )
+    }).pipe(Effect.provide(TestLayer)))
 
   it.effect("projects UserCreated to Registry", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       yield* createUser({
         email: testEmail,
         firstName: testFirstName,
@@ -75,11 +74,10 @@ describe("createUser", () => {
 
       expect(Option.isSome(userId)).toBe(true)
       expect(Option.getOrNull(userId)).toBe("test-1")
-    }).pipe(Effect.provide(TestLayer))
-  )
+    }).pipe(Effect.provide(TestLayer)))
 
   it.effect("fails if user with same name already exists", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       // Create first user
       yield* createUser({
         email: testEmail,
@@ -98,6 +96,28 @@ describe("createUser", () => {
       if (result._tag === "Left") {
         expect(result.left).toMatchObject({ _tag: "NicknameAlreadyExists" })
       }
-    }).pipe(Effect.provide(TestLayer))
-  )
+    }).pipe(Effect.provide(TestLayer)))
+
+  it.effect("gets a suffixed nickname when the plain one belongs to a renamed user", () =>
+    Effect.gen(function*() {
+      yield* createUser({ email: testEmail, firstName: testFirstName, lastName: testLastName })
+      const registry = yield* Registry
+      yield* registry.projectUserEvent({
+        _tag: "LastNameChanged",
+        id: "test-1" as UserId,
+        oldValue: testLastName,
+        newValue: "Durand" as LastName
+      }, 2)
+
+      // Nobody is called Jean Dupont any more, but old links to jean-dupont
+      // must keep reaching the first user
+      const result = yield* createUser({
+        email: Email.make("other@example.com"),
+        firstName: testFirstName,
+        lastName: testLastName
+      })
+
+      expect(result.nickname).toBe("jean-dupont-2")
+      expect(yield* registry.getUserIdByNickname("jean-dupont")).toEqual(Option.some("test-1"))
+    }).pipe(Effect.provide(TestLayer)))
 })
@@ -4,32 +4,36 @@
 import { describe, expect, it } from "@effect/vitest"
 import { Effect, Layer } from "effect"
 
-import { deleteAddress } from "../../src/usecases/DeleteAddress.js"
-import { createUser } from "../../src/usecases/CreateUser.js"
-import { createAddress } from "../../src/usecases/CreateAddress.js"
-import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { EmailService } from "../../src/EmailService.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
 import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
 import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { makeTestIdGenerator, IdGenerator } from "../../src/IdGenerator.js"
-import { EmailService } from "../../src/EmailService.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { deleteAddress } from "../../src/usecases/DeleteAddress.js"
 
 describe("DeleteAddress use case", () => {
   const makeTestLayer = () => {
     const emailCapture = makeCaptureEmailService()
     const layer = Layer.mergeAll(
       InMemoryEventStores,
+      InMemoryUnitOfWork,
       Layer.succeed(EmailService, emailCapture.service),
       makeInMemoryRegistryLayer(),
-      Layer.succeed(IdGenerator, makeTestIdGenerator())
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
     )
     return { layer, emailCapture }
   }
 
   it.effect("deletes an existing address and triggers email", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup: create user and address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -65,14 +69,13 @@ describe("DeleteAddress use case", () => {
         const lastEmail = emails[emails.length - 1]
         expect(lastEmail.subject.toLowerCase()).toContain("deleted")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with UserNotFound for unknown nickname", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         const result = yield* deleteAddress({
           nickname: "nonexistent",
           label: "home"
@@ -83,14 +86,13 @@ describe("DeleteAddress use case", () => {
           expect(result.left._tag).toBe("UserNotFound")
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with AddressNotFound for unknown label", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup: create user only (no address)
         yield* createUser({
           email: "jean@example.com" as any,
@@ -108,6 +110,5 @@ describe("DeleteAddress use case", () => {
           expect(result.left._tag).toBe("AddressNotFound")
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 })
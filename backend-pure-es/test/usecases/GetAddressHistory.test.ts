@@ -0,0 +1,144 @@
+// =============================================================================
+// GetAddressHistory Use Case Tests
+// =============================================================================
+//
+// The timeline is the address's event stream, newest first: each user action
+// says whether its revert link still works and which correction undid it.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Layer, TestClock } from "effect"
+
+import type { AddressId } from "../../src/domain/address/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { RevertTokenService } from "../../src/RevertTokenService.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { getAddressHistory } from "../../src/usecases/GetAddressHistory.js"
+import { revertChange } from "../../src/usecases/RevertChange.js"
+import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
+
+// The signed token the use cases mint for IdGenerator id `tokenId` on the
+// first address (test-2), issued at TestClock's t = 0
+const revertTokenFor = (tokenId: string) =>
+  Effect.flatMap(
+    RevertTokenService,
+    (tokens) => tokens.mint({ addressId: "test-2" as AddressId, tokenId, issuedAt: new Date(0) })
+  )
+
+describe("GetAddressHistory use case", () => {
+  const makeTestLayer = () =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      Layer.succeed(EmailService, makeCaptureEmailService().service),
+      makeInMemoryRegistryLayer(),
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
+    )
+
+  // test-1 = userId, test-2 = addressId, test-3 = creation revertToken
+  const setup = Effect.gen(function*() {
+    yield* createUser({
+      email: "jean@example.com" as any,
+      firstName: "Jean" as any,
+      lastName: "Dupont" as any
+    })
+
+    yield* createAddress({
+      nickname: "jean-dupont",
+      label: "home" as any,
+      streetNumber: "42" as any,
+      streetName: "Rue de Rivoli" as any,
+      zipCode: "75001" as any,
+      city: "Paris" as any,
+      country: "France" as any
+    })
+  })
+
+  const history = (page: { limit?: number; before?: number } = {}) =>
+    getAddressHistory({ nickname: "jean-dupont", label: "home", limit: page.limit ?? 20, ...page })
+
+  it.effect("lists the changes newest first, linking a revert to the change it undid", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Lyon" })
+      yield* revertChange({ token: yield* revertTokenFor("test-4") })
+
+      const { entries, nextBefore, total } = yield* history()
+
+      expect(total).toBe(3)
+      expect(nextBefore).toBeNull()
+      expect(entries.map(({ change: __, recordedAt: _, ...rest }) => rest)).toEqual([
+        {
+          version: 3,
+          description: "City reverted from \"Lyon\" to \"Paris\"",
+          revertable: false,
+          revertedBy: null,
+          reverts: 2
+        },
+        {
+          version: 2,
+          description: "City changed from \"Paris\" to \"Lyon\"",
+          revertable: false,
+          revertedBy: 3,
+          reverts: null
+        },
+        {
+          version: 1,
+          description: "Address created: 42 Rue de Rivoli, 75001 Paris, France",
+          revertable: true,
+          revertedBy: null,
+          reverts: null
+        }
+      ])
+      expect(entries[1]!.change).toEqual({ _tag: "FieldChanged", field: "city", oldValue: "Paris", newValue: "Lyon" })
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("a change whose link has expired is no longer revertable", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* TestClock.adjust(Duration.days(7))
+
+      const { entries } = yield* history()
+
+      expect(entries[0]!.revertable).toBe(false)
+      expect(entries[0]!.revertedBy).toBeNull()
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("pages through older entries with `before`", () =>
+    Effect.gen(function*() {
+      yield* setup
+      for (const city of ["Lyon", "Nice", "Lille"]) {
+        yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: city })
+      }
+
+      const first = yield* history({ limit: 3 })
+      const second = yield* history({ limit: 3, before: first.nextBefore! })
+
+      expect(first.entries.map((e) => e.version)).toEqual([4, 3, 2])
+      expect(first.nextBefore).toBe(2)
+      expect(second.entries.map((e) => e.version)).toEqual([1])
+      expect(second.nextBefore).toBeNull()
+      expect(second.total).toBe(4)
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("fails with AddressNotFound for an unknown label", () =>
+    Effect.gen(function*() {
+      yield* setup
+
+      const result = yield* getAddressHistory({ nickname: "jean-dupont", label: "work", limit: 20 }).pipe(
+        Effect.either
+      )
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("AddressNotFound")
+      }
+    }).pipe(Effect.provide(makeTestLayer())))
+})
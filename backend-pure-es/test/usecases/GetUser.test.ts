@@ -7,37 +7,53 @@
 // REFACTOR: Clean up
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Effect, Layer } from "effect"
+import { Duration, Effect, Layer, TestClock } from "effect"
 
-import { getUser } from "../../src/usecases/GetUser.js"
-import { createUser } from "../../src/usecases/CreateUser.js"
-import { createAddress } from "../../src/usecases/CreateAddress.js"
-import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
-import { revertChange } from "../../src/usecases/RevertChange.js"
-import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import type { AddressId } from "../../src/domain/address/State.js"
+import type { LastName } from "../../src/domain/user/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
 import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
 import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { makeTestIdGenerator, IdGenerator } from "../../src/IdGenerator.js"
-import { EmailService } from "../../src/EmailService.js"
-import type { RevertToken } from "../../src/domain/address/State.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { RevertTokenService } from "../../src/RevertTokenService.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { deleteAddress } from "../../src/usecases/DeleteAddress.js"
+import { getUser } from "../../src/usecases/GetUser.js"
+import { revertChange } from "../../src/usecases/RevertChange.js"
+import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
+import { updateUserName } from "../../src/usecases/UpdateUserName.js"
+
+// The signed token the use cases mint for IdGenerator id `tokenId` on the
+// first address (test-2), issued at TestClock's t = 0
+const revertTokenFor = (tokenId: string) =>
+  Effect.flatMap(
+    RevertTokenService,
+    (tokens) => tokens.mint({ addressId: "test-2" as AddressId, tokenId, issuedAt: new Date(0) })
+  )
 
 describe("GetUser use case", () => {
   const makeTestLayer = () => {
     const emailCapture = makeCaptureEmailService()
     const layer = Layer.mergeAll(
       InMemoryEventStores,
+      InMemoryUnitOfWork,
       Layer.succeed(EmailService, emailCapture.service),
       makeInMemoryRegistryLayer(),
-      Layer.succeed(IdGenerator, makeTestIdGenerator())
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
     )
     return { layer, emailCapture }
   }
 
   it.effect("returns user with no addresses when user has none", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Create user
         yield* createUser({
           email: "jean@example.com" as any,
@@ -53,14 +69,13 @@ describe("GetUser use case", () => {
         expect(result.user.email).toBe("jean@example.com")
         expect(result.addresses).toHaveLength(0)
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("returns user with addresses", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Create user
         yield* createUser({
           email: "jean@example.com" as any,
@@ -95,18 +110,17 @@ describe("GetUser use case", () => {
         expect(result.user.firstName).toBe("Jean")
         expect(result.addresses).toHaveLength(2)
 
-        const labels = result.addresses.map(a => a.label)
+        const labels = result.addresses.map((a) => a.label)
         expect(labels).toContain("home")
         expect(labels).toContain("work")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("reflects address updates", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Create user and address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -137,14 +151,13 @@ describe("GetUser use case", () => {
 
         expect(result.addresses[0].city).toBe("Lyon")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("reflects reverted changes", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Create user and address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -170,22 +183,21 @@ describe("GetUser use case", () => {
           value: "Lyon"
         })
 
-        // Revert the change (token test-4: test-1=userId, test-2=addressId, test-3=createRevert, test-4=updateRevert)
-        yield* revertChange({ token: "test-4" as RevertToken })
+        // Revert the change (token id test-4: test-1=userId, test-2=addressId, test-3=createRevert, test-4=updateRevert)
+        yield* revertChange({ token: yield* revertTokenFor("test-4") })
 
         // Get user — should see original city
         const result = yield* getUser({ nickname: "jean-dupont" })
 
         expect(result.addresses[0].city).toBe("Paris")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with UserNotFound for unknown nickname", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         const result = yield* getUser({ nickname: "nonexistent" }).pipe(Effect.either)
 
         expect(result._tag).toBe("Left")
@@ -193,6 +205,150 @@ describe("GetUser use case", () => {
           expect(result.left._tag).toBe("UserNotFound")
         }
       }).pipe(Effect.provide(layer))
+    }))
+
+  // ---------------------------------------------------------------------------
+  // Time travel (asOf / atPosition / atVersion)
+  // ---------------------------------------------------------------------------
+  //
+  // Timeline (TestClock; log positions in brackets):
+  //   t=0   user created [1], home address created in Paris [2]
+  //   t=1h  city → Lyon [3]
+  //   t=2h  address deleted [4]
+  //   t=3h  last name → Durand [5]
+  //
+  describe("time travel", () => {
+    const timeline = Effect.gen(function*() {
+      yield* createUser({
+        email: "jean@example.com" as any,
+        firstName: "Jean" as any,
+        lastName: "Dupont" as any
+      })
+      yield* createAddress({
+        nickname: "jean-dupont",
+        label: "home" as any,
+        streetNumber: "42" as any,
+        streetName: "Rue de Rivoli" as any,
+        zipCode: "75001" as any,
+        city: "Paris" as any,
+        country: "France" as any
+      })
+      yield* TestClock.adjust(Duration.hours(1))
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Lyon" })
+      yield* TestClock.adjust(Duration.hours(1))
+      yield* deleteAddress({ nickname: "jean-dupont", label: "home" })
+      yield* TestClock.adjust(Duration.hours(1))
+      yield* updateUserName({ nickname: "jean-dupont", field: "lastName", value: "Durand" as LastName })
     })
-  )
+
+    const asOf = (duration: Duration.DurationInput) =>
+      ({ _tag: "AsOf", timestamp: new Date(Duration.toMillis(duration)) }) as const
+
+    it.effect("asOf returns the profile as it was, deleted address included", () =>
+      Effect.gen(function*() {
+        const { layer } = makeTestLayer()
+
+        yield* Effect.gen(function*() {
+          yield* timeline
+
+          const beforeUpdate = yield* getUser({ nickname: "jean-dupont", at: asOf(Duration.minutes(30)) })
+          const beforeDelete = yield* getUser({ nickname: "jean-dupont", at: asOf(Duration.minutes(90)) })
+          const beforeRename = yield* getUser({ nickname: "jean-durand", at: asOf(Duration.minutes(150)) })
+          const now = yield* getUser({ nickname: "jean-durand" })
+
+          expect(beforeUpdate.addresses.map((a) => a.city)).toEqual(["Paris"])
+          expect(beforeDelete.addresses.map((a) => a.city)).toEqual(["Lyon"])
+          expect(beforeRename.addresses).toEqual([])
+          expect(beforeRename.user.lastName).toBe("Dupont")
+          expect(now.user.lastName).toBe("Durand")
+        }).pipe(Effect.provide(layer))
+      }))
+
+    it.effect("atPosition stops at a position in the event log", () =>
+      Effect.gen(function*() {
+        const { layer } = makeTestLayer()
+
+        yield* Effect.gen(function*() {
+          yield* timeline
+
+          const result = yield* getUser({ nickname: "jean-dupont", at: { _tag: "AtPosition", position: 3 } })
+
+          expect(result.addresses.map((a) => a.city)).toEqual(["Lyon"])
+        }).pipe(Effect.provide(layer))
+      }))
+
+    it.effect("atVersion stops right after the user's Nth event, addresses included", () =>
+      Effect.gen(function*() {
+        const { layer } = makeTestLayer()
+
+        yield* Effect.gen(function*() {
+          yield* timeline
+          const atVersion = (version: number) => ({ _tag: "AtVersion", version }) as const
+
+          // User version 1 = creation [1]: the address [2] came after it
+          const created = yield* getUser({ nickname: "jean-dupont", at: atVersion(1) })
+          expect(created.user.lastName).toBe("Dupont")
+          expect(created.addresses).toEqual([])
+
+          // User version 2 = the rename [5]
+          const renamed = yield* getUser({ nickname: "jean-dupont", at: atVersion(2) })
+          expect(renamed.user.lastName).toBe("Durand")
+
+          // Never reached (nor 0, before the creation)
+          for (const version of [0, 3]) {
+            const result = yield* getUser({ nickname: "jean-dupont", at: atVersion(version) }).pipe(Effect.flip)
+            expect(result._tag).toBe("UserNotFound")
+          }
+        }).pipe(Effect.provide(layer))
+      }))
+
+    it.effect("shows an address whose creation was later reverted", () =>
+      Effect.gen(function*() {
+        const { layer } = makeTestLayer()
+
+        yield* Effect.gen(function*() {
+          yield* createUser({
+            email: "jean@example.com" as any,
+            firstName: "Jean" as any,
+            lastName: "Dupont" as any
+          })
+          yield* createAddress({
+            nickname: "jean-dupont",
+            label: "home" as any,
+            streetNumber: "42" as any,
+            streetName: "Rue de Rivoli" as any,
+            zipCode: "75001" as any,
+            city: "Paris" as any,
+            country: "France" as any
+          })
+          yield* TestClock.adjust(Duration.hours(1))
+          // test-3 = creation revertToken
+          yield* revertChange({ token: yield* revertTokenFor("test-3") })
+
+          const before = yield* getUser({ nickname: "jean-dupont", at: asOf(Duration.minutes(30)) })
+          const now = yield* getUser({ nickname: "jean-dupont" })
+
+          expect(before.addresses.map((a) => a.label)).toEqual(["home"])
+          expect(now.addresses).toEqual([])
+        }).pipe(Effect.provide(layer))
+      }))
+
+    it.effect("fails with UserNotFound before the user was created", () =>
+      Effect.gen(function*() {
+        const { layer } = makeTestLayer()
+
+        yield* Effect.gen(function*() {
+          yield* timeline
+
+          const result = yield* getUser({ nickname: "jean-dupont", at: { _tag: "AtPosition", position: 0 } }).pipe(
+            Effect.either
+          )
+
+          expect(result._tag).toBe("Left")
+          if (result._tag === "Left") {
+            expect(result.left._tag).toBe("UserNotFound")
+          }
+        }).pipe(Effect.provide(layer))
+      }))
+  })
 })
@@ -0,0 +1,133 @@
+// =============================================================================
+// LogIn Use Case Tests
+// =============================================================================
+//
+// Exchanging the emailed token for a session token. The link works once, and
+// only within LoginLinkTtl (15 minutes by default) — TestClock time here.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Either, Layer, Option, TestClock } from "effect"
+
+import { loadAggregate } from "../../src/application/AggregateLoader.js"
+import { AuthTokenService } from "../../src/AuthTokenService.js"
+import { evolve } from "../../src/domain/user/evolve.js"
+import { UserStateSnapshot } from "../../src/domain/user/Snapshot.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { StreamId, UserEventStore } from "../../src/EventStore.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestAuthTokenServiceLive } from "../../src/infrastructure/HmacAuthTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { Email } from "../../src/shared/Email.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { logIn } from "../../src/usecases/LogIn.js"
+import { requestLoginLink } from "../../src/usecases/RequestLoginLink.js"
+
+describe("LogIn use case", () => {
+  const makeTestLayer = (capture = makeCaptureEmailService()) =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      makeInMemoryRegistryLayer(),
+      TestIdGeneratorLive,
+      TestAuthTokenServiceLive,
+      Layer.succeed(EmailService, capture.service)
+    )
+
+  // test-1 = userId, test-2 = login token id; the token itself comes from the email
+  const setup = (capture: ReturnType<typeof makeCaptureEmailService>) =>
+    Effect.gen(function*() {
+      yield* createUser({
+        email: Email.make("jean@example.com"),
+        firstName: "Jean" as FirstName,
+        lastName: "Dupont" as LastName
+      })
+      yield* requestLoginLink({ nickname: "jean-dupont" })
+      return capture.getSentEmails()[0]?.body.match(/\/login\/([\w.-]+)/)?.[1] ?? ""
+    })
+
+  it.effect("exchanges the link for a session token", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const token = yield* setup(capture)
+
+      const result = yield* logIn({ token })
+
+      expect(result.nickname).toBe("jean-dupont")
+      expect(result.expiresAt).toEqual(new Date(Duration.toMillis(Duration.days(7))))
+      const tokens = yield* AuthTokenService
+      expect(yield* tokens.verify("Session", result.sessionToken)).toEqual(
+        expect.objectContaining({ userId: "test-1", tokenId: "test-3" })
+      )
+      const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+      expect(events.map((e) => e._tag)).toEqual(["UserCreated", "LoginLinkRequested", "LoggedIn"])
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("logging in again drops the sessions that expired meanwhile", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      yield* logIn({ token: yield* setup(capture) }) // session test-3, 7 days
+
+      yield* TestClock.adjust(Duration.days(8))
+      yield* requestLoginLink({ nickname: "jean-dupont" })
+      const secondLink = capture.getSentEmails()[1]?.body.match(/\/login\/([\w.-]+)/)?.[1] ?? ""
+      yield* logIn({ token: secondLink }) // session test-5
+
+      const { state } = yield* Effect.flatMap(
+        UserEventStore,
+        (store) =>
+          loadAggregate(store, StreamId("test-1" as UserId), {
+            initialState: Option.none(),
+            evolve,
+            snapshots: { codec: UserStateSnapshot }
+          })
+      )
+      expect(Option.map(state, (user) => user.sessions.map((session) => session.sessionId))).toEqual(
+        Option.some(["test-5"])
+      )
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("the link works only once", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const token = yield* setup(capture)
+      yield* logIn({ token })
+
+      const result = yield* logIn({ token }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "LoginLinkInvalid", tokenId: "test-2" }))
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("fails with LoginLinkExpired once the TTL has passed", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const token = yield* setup(capture)
+      yield* TestClock.adjust(Duration.minutes(15))
+
+      const result = yield* logIn({ token }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({
+        _tag: "LoginLinkExpired",
+        tokenId: "test-2",
+        expiredAt: new Date(Duration.toMillis(Duration.minutes(15)))
+      }))
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("a session token is not a login link", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      const { sessionToken } = yield* Effect.flatMap(setup(capture), (token) => logIn({ token }))
+
+      const result = yield* logIn({ token: sessionToken }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "AuthTokenUnverified", reason: "WrongKind" }))
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+})
@@ -0,0 +1,184 @@
+// =============================================================================
+// PreviewRevert Use Case Tests
+// =============================================================================
+//
+// The preview describes what a revert link would undo — and must NOT use it up:
+// after any number of previews, the POST still works.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Layer, TestClock } from "effect"
+
+import type { AddressId, City, ZipCode } from "../../src/domain/address/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { RevertTokenService } from "../../src/RevertTokenService.js"
+import { RevertTokenTtl } from "../../src/RevertTokenTtl.js"
+import { changeAddress } from "../../src/usecases/ChangeAddress.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { deleteAddress } from "../../src/usecases/DeleteAddress.js"
+import { previewRevert } from "../../src/usecases/PreviewRevert.js"
+import { revertChange } from "../../src/usecases/RevertChange.js"
+import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
+
+// The signed token the use cases mint for IdGenerator id `tokenId` on the
+// first address (test-2), issued at TestClock's t = 0
+const revertTokenFor = (tokenId: string) =>
+  Effect.flatMap(
+    RevertTokenService,
+    (tokens) => tokens.mint({ addressId: "test-2" as AddressId, tokenId, issuedAt: new Date(0) })
+  )
+
+describe("PreviewRevert use case", () => {
+  const makeTestLayer = () =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      Layer.succeed(EmailService, makeCaptureEmailService().service),
+      makeInMemoryRegistryLayer(),
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
+    )
+
+  // test-1 = userId, test-2 = addressId, test-3 = creation revertToken
+  const setup = Effect.gen(function*() {
+    yield* createUser({
+      email: "jean@example.com" as any,
+      firstName: "Jean" as any,
+      lastName: "Dupont" as any
+    })
+
+    yield* createAddress({
+      nickname: "jean-dupont",
+      label: "home" as any,
+      streetNumber: "42" as any,
+      streetName: "Rue de Rivoli" as any,
+      zipCode: "75001" as any,
+      city: "Paris" as any,
+      country: "France" as any
+    })
+  })
+
+  const home = {
+    label: "home",
+    streetNumber: "42",
+    streetName: "Rue de Rivoli",
+    zipCode: "75001",
+    city: "Paris",
+    country: "France"
+  }
+
+  it.effect("describes a field change without consuming the token", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Lyon" })
+      const token = yield* revertTokenFor("test-4")
+
+      const first = yield* previewRevert({ token })
+      const second = yield* previewRevert({ token })
+
+      expect(first).toEqual({
+        change: { _tag: "FieldChange", field: "city", oldValue: "Paris", newValue: "Lyon", currentValue: "Lyon" },
+        expiresAt: new Date(Duration.toMillis(Duration.days(7)))
+      })
+      expect(second).toEqual(first)
+
+      // Still usable
+      const result = yield* revertChange({ token })
+      expect(result.reverted).toBe(true)
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("shows the current value when the field changed since", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Lyon" })
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Nice" })
+
+      const { change } = yield* previewRevert({ token: yield* revertTokenFor("test-4") })
+
+      expect(change).toEqual({
+        _tag: "FieldChange",
+        field: "city",
+        oldValue: "Paris",
+        newValue: "Lyon",
+        currentValue: "Nice"
+      })
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("describes a multi-field change field by field, with their current values", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* changeAddress({
+        nickname: "jean-dupont",
+        label: "home",
+        fields: { zipCode: "69002" as ZipCode, city: "Lyon" as City }
+      })
+      yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Nice" })
+
+      const { change } = yield* previewRevert({ token: yield* revertTokenFor("test-4") })
+
+      expect(change).toEqual({
+        _tag: "AddressChange",
+        changes: [
+          { field: "zipCode", oldValue: "75001", newValue: "69002", currentValue: "69002" },
+          { field: "city", oldValue: "Paris", newValue: "Lyon", currentValue: "Nice" }
+        ]
+      })
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("describes a creation with the created address", () =>
+    Effect.gen(function*() {
+      yield* setup
+
+      const { change } = yield* previewRevert({ token: yield* revertTokenFor("test-3") })
+
+      expect(change).toEqual({ _tag: "Creation", address: home })
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("describes a deletion with the address it would restore", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* deleteAddress({ nickname: "jean-dupont", label: "home" })
+
+      // test-4 = deletion revertToken
+      const { change } = yield* previewRevert({ token: yield* revertTokenFor("test-4") })
+
+      expect(change).toEqual({ _tag: "Deletion", address: home })
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("fails with TokenNotFound for unknown token", () =>
+    Effect.gen(function*() {
+      const result = yield* previewRevert({ token: yield* revertTokenFor("nonexistent-token") }).pipe(Effect.either)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("TokenNotFound")
+      }
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("fails with RevertTokenExpired once the TTL has passed", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* TestClock.adjust(Duration.hours(1))
+
+      const token = yield* revertTokenFor("test-3")
+      const result = yield* previewRevert({ token }).pipe(Effect.either)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left).toEqual({
+          _tag: "RevertTokenExpired",
+          token,
+          expiredAt: new Date(Duration.toMillis(Duration.hours(1)))
+        })
+      }
+    }).pipe(
+      Effect.provide(makeTestLayer()),
+      Effect.provideService(RevertTokenTtl, Duration.hours(1))
+    ))
+})
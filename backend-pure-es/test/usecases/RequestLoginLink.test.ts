@@ -0,0 +1,92 @@
+// =============================================================================
+// RequestLoginLink Use Case Tests
+// =============================================================================
+//
+// The link goes by email, never in the response; the request is recorded on
+// the User stream (LoginLinkRequested) so that LogIn can check it later —
+// by the token's id: the token itself is never stored.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Either, Layer, TestClock } from "effect"
+
+import { AuthTokenService } from "../../src/AuthTokenService.js"
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { StreamId, UserEventStore } from "../../src/EventStore.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestAuthTokenServiceLive } from "../../src/infrastructure/HmacAuthTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { Email } from "../../src/shared/Email.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { requestLoginLink } from "../../src/usecases/RequestLoginLink.js"
+
+describe("RequestLoginLink use case", () => {
+  const makeTestLayer = (capture = makeCaptureEmailService()) =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      makeInMemoryRegistryLayer(),
+      TestIdGeneratorLive,
+      TestAuthTokenServiceLive,
+      Layer.succeed(EmailService, capture.service)
+    )
+
+  // test-1 = userId
+  const setup = createUser({
+    email: Email.make("jean@example.com"),
+    firstName: "Jean" as FirstName,
+    lastName: "Dupont" as LastName
+  })
+
+  it.effect("emails a signed login link to the address on file", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      yield* setup
+      yield* TestClock.adjust(Duration.minutes(5))
+
+      const result = yield* requestLoginLink({ nickname: "jean-dupont" })
+
+      expect(result.expiresAt).toEqual(new Date(Duration.toMillis(Duration.minutes(20))))
+      const [email] = capture.getSentEmails()
+      expect(email?.to).toBe("jean@example.com")
+      expect(email?.subject).toBe("Your Login Link")
+      const token = email?.body.match(/\/login\/([\w.-]+)/)?.[1] ?? ""
+      const tokens = yield* AuthTokenService
+      expect(yield* tokens.verify("Login", token)).toEqual({
+        kind: "Login",
+        userId: "test-1",
+        tokenId: "test-2",
+        issuedAt: new Date(Duration.toMillis(Duration.minutes(5)))
+      })
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("records LoginLinkRequested with the emailed token's id, not the token", () => {
+    const capture = makeCaptureEmailService()
+    return Effect.gen(function*() {
+      yield* setup
+
+      yield* requestLoginLink({ nickname: "jean-dupont" })
+
+      const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+      expect(events[events.length - 1]).toEqual({
+        _tag: "LoginLinkRequested",
+        id: "test-1",
+        tokenId: "test-2",
+        issuedAt: new Date(0)
+      })
+      const token = capture.getSentEmails()[0]?.body.match(/\/login\/([\w.-]+)/)?.[1] ?? ""
+      expect(JSON.stringify(events)).not.toContain(token)
+    }).pipe(Effect.provide(makeTestLayer(capture)))
+  })
+
+  it.effect("fails with UserNotFound for an unknown nickname", () =>
+    Effect.gen(function*() {
+      const result = yield* requestLoginLink({ nickname: "nobody" }).pipe(Effect.either)
+
+      expect(result).toEqual(Either.left({ _tag: "UserNotFound" }))
+    }).pipe(Effect.provide(makeTestLayer())))
+})
@@ -3,39 +3,58 @@
 // =============================================================================
 //
 // THE CLIMAX TEST: Revert a change, verify NO email is sent.
+// Plus expiry: past the token TTL (driven by TestClock), the revert is refused.
+// Plus staleness: a token whose field was changed again conflicts unless forced.
+// Plus labels: a revert never takes back a label another address holds now.
+// Plus legacy links: unsigned tokens from before signing, until they expire.
 //
 import { describe, expect, it } from "@effect/vitest"
-import { Effect, Layer } from "effect"
+import { Duration, Effect, Layer, Option, TestClock } from "effect"
 
-import { revertChange } from "../../src/usecases/RevertChange.js"
-import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
-import { createUser } from "../../src/usecases/CreateUser.js"
-import { createAddress } from "../../src/usecases/CreateAddress.js"
-import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import type { AddressId, RevertToken } from "../../src/domain/address/State.js"
+import { EmailService } from "../../src/EmailService.js"
+import { AddressEventStore, StreamId } from "../../src/EventStore.js"
+import { IdGenerator, type IdGeneratorService, makeTestIdGenerator } from "../../src/IdGenerator.js"
 import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
 import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { makeTestIdGenerator } from "../../src/IdGenerator.js"
-import { IdGenerator } from "../../src/IdGenerator.js"
-import { EmailService } from "../../src/EmailService.js"
-import type { RevertToken } from "../../src/domain/address/State.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { Registry } from "../../src/Registry.js"
+import { RevertTokenService } from "../../src/RevertTokenService.js"
+import { RevertTokenTtl } from "../../src/RevertTokenTtl.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { revertChange } from "../../src/usecases/RevertChange.js"
+import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
+
+// The signed token the use cases mint for IdGenerator id `tokenId` on the
+// first address (test-2), issued at TestClock's t = 0
+const revertTokenFor = (tokenId: string) =>
+  Effect.flatMap(
+    RevertTokenService,
+    (tokens) => tokens.mint({ addressId: "test-2" as AddressId, tokenId, issuedAt: new Date(0) })
+  )
 
 describe("RevertChange use case", () => {
   const makeTestLayer = () => {
     const emailCapture = makeCaptureEmailService()
     const layer = Layer.mergeAll(
       InMemoryEventStores,
+      InMemoryUnitOfWork,
       Layer.succeed(EmailService, emailCapture.service),
       makeInMemoryRegistryLayer(),
-      Layer.succeed(IdGenerator, makeTestIdGenerator())
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
     )
     return { layer, emailCapture }
   }
 
   it.effect("reverts a city change and sends NO email", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup: create user and address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -65,7 +84,7 @@ describe("RevertChange use case", () => {
         // The token was generated by IdGenerator — with test generator it's predictable
         // test-1 = userId, test-2 = addressId, test-3 = createAddress revertToken
         // test-4 = updateAddressField revertToken
-        const revertToken = "test-4" as RevertToken
+        const revertToken = yield* revertTokenFor("test-4")
 
         // Clear emails to isolate the revert
         emailCapture.clear()
@@ -81,16 +100,16 @@ describe("RevertChange use case", () => {
         const emails = emailCapture.getSentEmails()
         expect(emails).toHaveLength(0)
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with TokenNotFound for unknown token", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
+        // Correctly signed, but never issued
         const result = yield* revertChange({
-          token: "nonexistent-token" as RevertToken
+          token: yield* revertTokenFor("nonexistent-token")
         }).pipe(Effect.either)
 
         expect(result._tag).toBe("Left")
@@ -98,14 +117,27 @@ describe("RevertChange use case", () => {
           expect(result.left._tag).toBe("TokenNotFound")
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
+
+  it.effect("fails with RevertTokenUnverified for a token we didn't sign", () =>
+    Effect.gen(function*() {
+      const { layer } = makeTestLayer()
+
+      yield* Effect.gen(function*() {
+        const result = yield* revertChange({ token: "test-4" as RevertToken }).pipe(Effect.either)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left).toEqual({ _tag: "RevertTokenUnverified", token: "test-4", reason: "Malformed" })
+        }
+      }).pipe(Effect.provide(layer))
+    }))
 
   it.effect("token can only be used once", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup
         yield* createUser({
           email: "jean@example.com" as any,
@@ -130,7 +162,7 @@ describe("RevertChange use case", () => {
           value: "Lyon"
         })
 
-        const revertToken = "test-4" as RevertToken
+        const revertToken = yield* revertTokenFor("test-4")
 
         // First revert: should succeed
         const firstResult = yield* revertChange({ token: revertToken })
@@ -144,14 +176,13 @@ describe("RevertChange use case", () => {
           expect(["TokenNotFound", "RevertTokenInvalid"]).toContain(secondResult.left._tag)
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("can revert address creation (CreationReverted)", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup
         yield* createUser({
           email: "jean@example.com" as any,
@@ -170,7 +201,7 @@ describe("RevertChange use case", () => {
         })
 
         // The creation revert token is test-3 (test-1=userId, test-2=addressId, test-3=revertToken)
-        const creationRevertToken = "test-3" as RevertToken
+        const creationRevertToken = yield* revertTokenFor("test-3")
 
         emailCapture.clear()
 
@@ -183,6 +214,213 @@ describe("RevertChange use case", () => {
         // No email for correction
         expect(emailCapture.getSentEmails()).toHaveLength(0)
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
+
+  it.effect("fails with RevertTokenExpired once the TTL has passed", () =>
+    Effect.gen(function*() {
+      const { layer } = makeTestLayer()
+
+      yield* Effect.gen(function*() {
+        // Setup at t = 0 (TestClock): the creation token test-3 is issued now
+        yield* createUser({
+          email: "jean@example.com" as any,
+          firstName: "Jean" as any,
+          lastName: "Dupont" as any
+        })
+
+        yield* createAddress({
+          nickname: "jean-dupont",
+          label: "home" as any,
+          streetNumber: "42" as any,
+          streetName: "Rue de Rivoli" as any,
+          zipCode: "75001" as any,
+          city: "Paris" as any,
+          country: "France" as any
+        })
+
+        yield* TestClock.adjust(Duration.hours(1))
+
+        const token = yield* revertTokenFor("test-3")
+        const result = yield* revertChange({ token }).pipe(Effect.either)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left).toEqual({
+            _tag: "RevertTokenExpired",
+            token,
+            expiredAt: new Date(Duration.toMillis(Duration.hours(1)))
+          })
+        }
+      }).pipe(
+        Effect.provide(layer),
+        Effect.provideService(RevertTokenTtl, Duration.hours(1))
+      )
+    }))
+
+  it.effect("stale token → RevertConflict, then force reverts from the current value", () =>
+    Effect.gen(function*() {
+      const { layer } = makeTestLayer()
+
+      yield* Effect.gen(function*() {
+        yield* createUser({
+          email: "jean@example.com" as any,
+          firstName: "Jean" as any,
+          lastName: "Dupont" as any
+        })
+
+        yield* createAddress({
+          nickname: "jean-dupont",
+          label: "home" as any,
+          streetNumber: "42" as any,
+          streetName: "Rue de Rivoli" as any,
+          zipCode: "75001" as any,
+          city: "Paris" as any,
+          country: "France" as any
+        })
+
+        // Paris → Lyon (token test-4), then Lyon → Nice (token test-5)
+        yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Lyon" })
+        yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "city", value: "Nice" })
+
+        const staleToken = yield* revertTokenFor("test-4")
+        const conflict = yield* revertChange({ token: staleToken }).pipe(Effect.either)
+
+        expect(conflict._tag).toBe("Left")
+        if (conflict._tag === "Left") {
+          expect(conflict.left).toEqual({
+            _tag: "RevertConflict",
+            token: staleToken,
+            field: "city",
+            expectedValue: "Lyon",
+            currentValue: "Nice"
+          })
+        }
+
+        // The conflict didn't consume the token — forcing it still works
+        const forced = yield* revertChange({ token: staleToken, force: true })
+        expect(forced.reverted).toBe(true)
+
+        const events = yield* Effect.flatMap(AddressEventStore, (store) => store.load(StreamId("test-2")))
+        expect(events.at(-1)).toEqual({
+          _tag: "CityReverted",
+          id: "test-2",
+          revertToken: staleToken,
+          oldValue: "Nice",
+          newValue: "Paris"
+        })
+      }).pipe(Effect.provide(layer))
+    }))
+
+  it.effect("a label revert whose label another address took since → LabelAlreadyExists", () =>
+    Effect.gen(function*() {
+      const { layer } = makeTestLayer()
+
+      yield* Effect.gen(function*() {
+        yield* createUser({
+          email: "jean@example.com" as any,
+          firstName: "Jean" as any,
+          lastName: "Dupont" as any
+        })
+        const address = {
+          nickname: "jean-dupont",
+          streetNumber: "42" as any,
+          streetName: "Rue de Rivoli" as any,
+          zipCode: "75001" as any,
+          city: "Paris" as any,
+          country: "France" as any
+        }
+
+        // home → office (token test-4), then a second address (test-5) takes home
+        yield* createAddress({ ...address, label: "home" as any })
+        yield* updateAddressField({ nickname: "jean-dupont", label: "home", field: "label", value: "office" })
+        yield* createAddress({ ...address, label: "home" as any })
+
+        const result = yield* revertChange({ token: yield* revertTokenFor("test-4"), force: true }).pipe(Effect.either)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left).toEqual({ _tag: "LabelAlreadyExists" })
+        }
+        const registry = yield* Registry
+        expect(yield* registry.getAddressIdByLabel("test-1" as any, "home")).toEqual(Option.some("test-5"))
+        expect(yield* registry.getAddressIdByLabel("test-1" as any, "office")).toEqual(Option.some("test-2"))
+      }).pipe(Effect.provide(layer))
+    }))
+})
+
+// =============================================================================
+// Legacy unsigned tokens
+// =============================================================================
+//
+// Links sent before signing carry a bare UUID — the IdGenerator's id, minted
+// as is. They're set up here with that old minting, then reverted through
+// the real verifier.
+
+describe("RevertChange with a legacy unsigned token", () => {
+  // UUID-shaped ids in sequence: ...0001 = userId, ...0002 = addressId,
+  // ...0003 = the creation's revert token
+  const makeUuidIdGenerator = (): IdGeneratorService => {
+    let counter = 0
+    return {
+      generate: () => Effect.sync(() => `00000000-0000-4000-8000-${String(++counter).padStart(12, "0")}`)
+    }
+  }
+  const legacyToken = "00000000-0000-4000-8000-000000000003" as RevertToken
+
+  const issueLegacyCreationToken = Effect.gen(function*() {
+    const signed = yield* RevertTokenService
+    yield* Effect.gen(function*() {
+      yield* createUser({
+        email: "jean@example.com" as any,
+        firstName: "Jean" as any,
+        lastName: "Dupont" as any
+      })
+      yield* createAddress({
+        nickname: "jean-dupont",
+        label: "home" as any,
+        streetNumber: "42" as any,
+        streetName: "Rue de Rivoli" as any,
+        zipCode: "75001" as any,
+        city: "Paris" as any,
+        country: "France" as any
+      })
+    }).pipe(
+      Effect.provideService(RevertTokenService, {
+        ...signed,
+        mint: (claims) => Effect.succeed(claims.tokenId as RevertToken)
+      })
+    )
+  })
+
+  const makeTestLayer = () =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      Layer.succeed(EmailService, makeCaptureEmailService().service),
+      makeInMemoryRegistryLayer(),
+      Layer.succeed(IdGenerator, makeUuidIdGenerator()),
+      TestRevertTokenServiceLive
+    )
+
+  it.effect("is still honoured within its TTL", () =>
+    Effect.gen(function*() {
+      yield* issueLegacyCreationToken
+
+      const result = yield* revertChange({ token: legacyToken })
+
+      expect(result.reverted).toBe(true)
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("expires like any other token", () =>
+    Effect.gen(function*() {
+      yield* issueLegacyCreationToken
+      yield* TestClock.adjust(Duration.hours(1))
+
+      const result = yield* revertChange({ token: legacyToken }).pipe(Effect.flip)
+
+      expect(result._tag).toBe("RevertTokenExpired")
+    }).pipe(
+      Effect.provide(makeTestLayer()),
+      Effect.provideService(RevertTokenTtl, Duration.hours(1))
+    ))
 })
@@ -9,15 +9,16 @@
 import { describe, expect, it } from "@effect/vitest"
 import { Effect, Layer } from "effect"
 
-import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
-import { createUser } from "../../src/usecases/CreateUser.js"
-import { createAddress } from "../../src/usecases/CreateAddress.js"
-import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { EmailService } from "../../src/EmailService.js"
+import { IdGenerator, makeTestIdGenerator } from "../../src/IdGenerator.js"
 import { makeCaptureEmailService } from "../../src/infrastructure/ConsoleEmailService.js"
+import { TestRevertTokenServiceLive } from "../../src/infrastructure/HmacRevertTokenService.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
 import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
-import { makeTestIdGenerator } from "../../src/IdGenerator.js"
-import { IdGenerator } from "../../src/IdGenerator.js"
-import { EmailService } from "../../src/EmailService.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { createAddress } from "../../src/usecases/CreateAddress.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { updateAddressField } from "../../src/usecases/UpdateAddressField.js"
 
 describe("UpdateAddressField use case", () => {
   // Helper to build test layer with email capture
@@ -25,18 +26,20 @@ describe("UpdateAddressField use case", () => {
     const emailCapture = makeCaptureEmailService()
     const layer = Layer.mergeAll(
       InMemoryEventStores,
+      InMemoryUnitOfWork,
       Layer.succeed(EmailService, emailCapture.service),
       makeInMemoryRegistryLayer(),
-      Layer.succeed(IdGenerator, makeTestIdGenerator())
+      Layer.succeed(IdGenerator, makeTestIdGenerator()),
+      TestRevertTokenServiceLive
     )
     return { layer, emailCapture }
   }
 
   it.effect("updates city and sends field-specific email", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup: create user and address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -78,14 +81,13 @@ describe("UpdateAddressField use case", () => {
         expect(emails[0].body).toContain("Lyon")
         expect(emails[0].body).toContain("/revert/")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("updates street number and sends different email", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup
         yield* createUser({
           email: "jean@example.com" as any,
@@ -122,14 +124,13 @@ describe("UpdateAddressField use case", () => {
         expect(emails).toHaveLength(1)
         expect(emails[0].subject).toContain("Street Number Changed")
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("no-op when value unchanged (no email)", () =>
-    Effect.gen(function* () {
-      const { layer, emailCapture } = makeTestLayer()
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup
         yield* createUser({
           email: "jean@example.com" as any,
@@ -164,14 +165,13 @@ describe("UpdateAddressField use case", () => {
         const emails = emailCapture.getSentEmails()
         expect(emails).toHaveLength(0)
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with UserNotFound for unknown nickname", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         const result = yield* updateAddressField({
           nickname: "nobody",
           label: "home",
@@ -184,14 +184,13 @@ describe("UpdateAddressField use case", () => {
           expect(result.left._tag).toBe("UserNotFound")
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
 
   it.effect("fails with AddressNotFound for unknown label", () =>
-    Effect.gen(function* () {
+    Effect.gen(function*() {
       const { layer } = makeTestLayer()
 
-      yield* Effect.gen(function* () {
+      yield* Effect.gen(function*() {
         // Setup: create user but no address
         yield* createUser({
           email: "jean@example.com" as any,
@@ -211,6 +210,52 @@ describe("UpdateAddressField use case", () => {
           expect(result.left._tag).toBe("AddressNotFound")
         }
       }).pipe(Effect.provide(layer))
-    })
-  )
+    }))
+
+  it.effect("fails with LabelAlreadyExists when renaming to another address's label", () =>
+    Effect.gen(function*() {
+      const { emailCapture, layer } = makeTestLayer()
+
+      yield* Effect.gen(function*() {
+        yield* createUser({
+          email: "jean@example.com" as any,
+          firstName: "Jean" as any,
+          lastName: "Dupont" as any
+        })
+        for (const label of ["home", "work"]) {
+          yield* createAddress({
+            nickname: "jean-dupont",
+            label: label as any,
+            streetNumber: "42" as any,
+            streetName: "Rue de Rivoli" as any,
+            zipCode: "75001" as any,
+            city: "Paris" as any,
+            country: "France" as any
+          })
+        }
+        emailCapture.clear()
+
+        const result = yield* updateAddressField({
+          nickname: "jean-dupont",
+          label: "work",
+          field: "label",
+          value: "home"
+        }).pipe(Effect.either)
+
+        expect(result._tag).toBe("Left")
+        if (result._tag === "Left") {
+          expect(result.left._tag).toBe("LabelAlreadyExists")
+        }
+        expect(emailCapture.getSentEmails()).toHaveLength(0)
+
+        // Renaming to a free label still works
+        const renamed = yield* updateAddressField({
+          nickname: "jean-dupont",
+          label: "work",
+          field: "label",
+          value: "office"
+        })
+        expect(renamed).toEqual({ field: "label", oldValue: "work", newValue: "office" })
+      }).pipe(Effect.provide(layer))
+    }))
 })
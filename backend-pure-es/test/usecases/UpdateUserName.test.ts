@@ -0,0 +1,99 @@
+// =============================================================================
+// UpdateUserName Use Case Tests
+// =============================================================================
+//
+// A rename goes through the User aggregate (ChangeFirstName / ChangeLastName)
+// and sends no email.
+//
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer } from "effect"
+
+import type { FirstName, LastName, UserId } from "../../src/domain/user/State.js"
+import { StreamId, UserEventStore } from "../../src/EventStore.js"
+import { TestIdGeneratorLive } from "../../src/IdGenerator.js"
+import { InMemoryEventStores } from "../../src/infrastructure/InMemoryEventStore.js"
+import { makeInMemoryRegistryLayer } from "../../src/infrastructure/InMemoryRegistry.js"
+import { InMemoryUnitOfWork } from "../../src/infrastructure/InMemoryUnitOfWork.js"
+import { createUser } from "../../src/usecases/CreateUser.js"
+import { getUser } from "../../src/usecases/GetUser.js"
+import { updateUserName } from "../../src/usecases/UpdateUserName.js"
+
+describe("UpdateUserName use case", () => {
+  const makeTestLayer = () =>
+    Layer.mergeAll(
+      InMemoryEventStores,
+      InMemoryUnitOfWork,
+      makeInMemoryRegistryLayer(),
+      TestIdGeneratorLive
+    )
+
+  // test-1 = userId
+  const setup = createUser({
+    email: "jean@example.com" as any,
+    firstName: "Jean" as FirstName,
+    lastName: "Dupont" as LastName
+  })
+
+  it.effect("changes the first name", () =>
+    Effect.gen(function*() {
+      yield* setup
+
+      const result = yield* updateUserName({
+        nickname: "jean-dupont",
+        field: "firstName",
+        value: "Jeanne" as FirstName
+      })
+
+      expect(result).toEqual({ field: "firstName", oldValue: "Jean", newValue: "Jeanne", nickname: "jeanne-dupont" })
+      const { user } = yield* getUser({ nickname: "jeanne-dupont" })
+      expect(user.firstName).toBe("Jeanne")
+      expect(user.lastName).toBe("Dupont")
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("changes the last name", () =>
+    Effect.gen(function*() {
+      yield* setup
+
+      const result = yield* updateUserName({ nickname: "jean-dupont", field: "lastName", value: "Durand" as LastName })
+
+      expect(result).toEqual({ field: "lastName", oldValue: "Dupont", newValue: "Durand", nickname: "jean-durand" })
+      const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+      expect(events.map((e) => e._tag)).toEqual(["UserCreated", "LastNameChanged"])
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("the old nickname keeps resolving, to the new one", () =>
+    Effect.gen(function*() {
+      yield* setup
+      yield* updateUserName({ nickname: "jean-dupont", field: "lastName", value: "Durand" as LastName })
+
+      const result = yield* getUser({ nickname: "jean-dupont" })
+
+      expect(result.nickname).toBe("jean-durand")
+      expect(result.user.lastName).toBe("Durand")
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("records nothing when the name is unchanged", () =>
+    Effect.gen(function*() {
+      yield* setup
+
+      const result = yield* updateUserName({ nickname: "jean-dupont", field: "firstName", value: "Jean" as FirstName })
+
+      expect(result).toEqual({ field: "firstName", oldValue: "Jean", newValue: "Jean", nickname: "jean-dupont" })
+      const events = yield* Effect.flatMap(UserEventStore, (store) => store.load(StreamId("test-1" as UserId)))
+      expect(events).toHaveLength(1)
+    }).pipe(Effect.provide(makeTestLayer())))
+
+  it.effect("fails with UserNotFound for unknown nickname", () =>
+    Effect.gen(function*() {
+      const result = yield* updateUserName({
+        nickname: "nobody",
+        field: "firstName",
+        value: "Jean" as FirstName
+      }).pipe(Effect.either)
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("UserNotFound")
+      }
+    }).pipe(Effect.provide(makeTestLayer())))
+})
@@ -1,5 +1,29 @@
+import { readdir, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { defineConfig } from "cypress";
 
+// Where the backend's maildrop adapter writes emails — start it with
+// EMAIL_ADAPTER=maildrop (same MAILDROP_DIR, if you set one)
+const MAILDROP_DIR = process.env.MAILDROP_DIR || join(tmpdir(), "event-triggers-maildrop");
+
+type DroppedEmail = { to: string; subject: string; body: string };
+
+// The token of the newest login link sent to `to`, or null. The outbox
+// dispatcher sends on its next poll, so wait for it a little.
+const loginTokenFor = async (to: string): Promise<string | null> => {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const files = (await readdir(MAILDROP_DIR).catch(() => [])).sort().reverse();
+    for (const file of files) {
+      const email: DroppedEmail = JSON.parse(await readFile(join(MAILDROP_DIR, file), "utf8"));
+      const token = email.to === to ? email.body.match(/\/login\/([\w.-]+)/)?.[1] : undefined;
+      if (token !== undefined) return token;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  return null;
+};
+
 export default defineConfig({
   e2e: {
     // Base URL for the frontend dev server
@@ -24,5 +48,10 @@ export default defineConfig({
     // Timeouts
     defaultCommandTimeout: 10000,
     requestTimeout: 10000,
+
+    // Node-side helpers for the specs (cy.task)
+    setupNodeEvents(on) {
+      on("task", { loginTokenFor });
+    },
   },
 });
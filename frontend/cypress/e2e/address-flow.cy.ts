@@ -3,16 +3,22 @@
 // =============================================================================
 //
 // WHAT WE TEST:
-// The critical path through the PoC — create user, add address, update field.
+// The critical path through the PoC — create user, see address changes
+// refused until logged in, log in through the emailed link, add an address,
+// update a field, rename the address, delete it.
 // This proves frontend ↔ backend integration works end-to-end.
 //
+// LOGGING IN:
+// The link only exists in an email. The backend's maildrop adapter writes
+// emails to files, and cy.logIn (support/e2e.ts) reads the newest login link
+// from there — then uses it through the login page, as the user would.
+//
 // WHAT WE DON'T TEST:
-// The revert flow via email link. Why? The revert token is logged to console,
-// which Cypress can't easily access. The revert mechanism is thoroughly tested
-// in backend unit tests — no need to duplicate that coverage here.
+// The revert flow via email link — thoroughly tested in the backend's HTTP
+// tests (test/http/Api.test.ts), no need to duplicate that coverage here.
 //
 // REQUIREMENTS:
-// - Backend running on localhost:3000
+// - Backend running on localhost:3000, with EMAIL_ADAPTER=maildrop (just serve-backend-e2e)
 // - Frontend running on localhost:5173
 //
 
@@ -50,12 +56,59 @@ describe("Address Change Flow", () => {
     // Should redirect to /users/:nickname
     cy.url().should("include", `/users/${user.expectedNickname}`)
 
-    // Should show the user's name
-    cy.contains("h1", `${user.firstName} ${user.lastName}`)
+    // Should show the user's name (each part has its own edit button)
+    cy.contains("h1 .name-part", user.firstName)
+    cy.contains("h1 .name-part", user.lastName)
+  })
+
+  // ---------------------------------------------------------------------------
+  // Test 2: Address Changes Need a Login
+  // ---------------------------------------------------------------------------
+  it("refuses address changes until logged in", () => {
+    const user = makeTestUser()
+
+    cy.get('input[type="email"]').clear().type(user.email)
+    cy.get('input[type="text"]').eq(0).clear().type(user.firstName)
+    cy.get('input[type="text"]').eq(1).clear().type(user.lastName)
+    cy.contains("button", "Create User").click()
+    cy.url().should("include", `/users/${user.expectedNickname}`)
+
+    // Creating a user doesn't log you in — that takes the emailed link
+    cy.contains(`Log in as ${user.expectedNickname} to change these addresses`).should("exist")
+
+    cy.contains("button", "+ Add Address").click()
+    cy.contains("button", "Add Address").click()
+
+    // The server says 401; nothing was recorded
+    cy.contains(".error", "Log in to do this").should("exist")
+    cy.reload()
+    cy.get(".address-card").should("not.exist")
+  })
+
+  // ---------------------------------------------------------------------------
+  // Test 3: Login Link
+  // ---------------------------------------------------------------------------
+  it("emails a login link, and refuses a bad one", () => {
+    const user = makeTestUser()
+
+    cy.get('input[type="email"]').clear().type(user.email)
+    cy.get('input[type="text"]').eq(0).clear().type(user.firstName)
+    cy.get('input[type="text"]').eq(1).clear().type(user.lastName)
+    cy.contains("button", "Create User").click()
+    cy.url().should("include", `/users/${user.expectedNickname}`)
+
+    cy.contains("button", "Log In").click()
+    cy.contains("Login link sent — check console for email!").should("exist")
+
+    // Opening a link does nothing until confirmed; a forged one is refused
+    cy.visit("/login/not-a-real-token")
+    cy.contains("h1", "Log in?").should("exist")
+    cy.contains("button", "Log In").click()
+    cy.contains("h1", "Login Failed").should("exist")
   })
 
   // ---------------------------------------------------------------------------
-  // Test 2: Full Flow — Create User → Add Address → Update Field
+  // Test 4: Full Flow — Create User → Log In → Add Address → Update Field
   // ---------------------------------------------------------------------------
   it("completes the full address change flow", () => {
     const user = makeTestUser()
@@ -69,7 +122,10 @@ describe("Address Change Flow", () => {
     // Wait for redirect
     cy.url().should("include", `/users/${user.expectedNickname}`)
 
-    // --- Step 2: Add Address ---
+    // --- Step 2: Log In (the emailed link, read from the maildrop) ---
+    cy.logIn(user.expectedNickname, user.email)
+
+    // --- Step 3: Add Address ---
     cy.contains("button", "+ Add Address").click()
 
     // Fill in address form (using default values from the form)
@@ -84,7 +140,7 @@ describe("Address Change Flow", () => {
     // Should see a toast about email
     cy.contains("check console for email").should("exist")
 
-    // --- Step 3: Update City Field ---
+    // --- Step 4: Update City Field ---
     // Find the city row and click edit
     cy.contains(".field-label", "City")
       .parent()
@@ -109,7 +165,61 @@ describe("Address Change Flow", () => {
   })
 
   // ---------------------------------------------------------------------------
-  // Test 3: Quick Access by Nickname
+  // Test 5: Rename an Address's Label, then Delete It
+  // ---------------------------------------------------------------------------
+  it("renames an address label and deletes the address", () => {
+    const user = makeTestUser()
+
+    cy.get('input[type="email"]').clear().type(user.email)
+    cy.get('input[type="text"]').eq(0).clear().type(user.firstName)
+    cy.get('input[type="text"]').eq(1).clear().type(user.lastName)
+    cy.contains("button", "Create User").click()
+    cy.url().should("include", `/users/${user.expectedNickname}`)
+    cy.logIn(user.expectedNickname, user.email)
+
+    cy.contains("button", "+ Add Address").click()
+    cy.contains("button", "Add Address").click()
+    cy.contains(".address-label", "home").should("exist")
+
+    // --- Rename: the card now goes by its new label ---
+    cy.get('button[title="Rename address"]').click()
+    cy.get('input[aria-label="Label"]').clear().type("office")
+    cy.get(".address-label .btn-save").click()
+
+    cy.contains("label updated").should("exist")
+    cy.contains(".address-label .label-text", "office").should("exist")
+    cy.contains(".address-label .label-text", "home").should("not.exist")
+
+    // The renamed card is still editable under its new label
+    cy.contains(".field-label", "City")
+      .parent()
+      .find("button.btn-edit")
+      .click()
+    cy.get(".field-edit input").clear().type("Lyon")
+    cy.get(".field-edit .btn-save").click()
+    cy.contains(".field-label", "City").parent().contains("Lyon").should("exist")
+
+    // --- Delete: asks first, cancelling keeps the address ---
+    cy.get('button[title="Delete office"]').click()
+    cy.contains(".modal", 'Delete "office"?').should("exist")
+    cy.contains(".modal button", "Cancel").click()
+    cy.contains(".address-label", "office").should("exist")
+
+    cy.get('button[title="Delete office"]').click()
+    cy.contains(".modal button", "Delete").click()
+
+    cy.contains('Address "office" deleted').should("exist")
+    cy.contains("check console for email").should("exist")
+    cy.get(".address-card").should("not.exist")
+    cy.contains("No addresses yet").should("exist")
+
+    // Gone on the server too
+    cy.reload()
+    cy.get(".address-card").should("not.exist")
+  })
+
+  // ---------------------------------------------------------------------------
+  // Test 6: Quick Access by Nickname
   // ---------------------------------------------------------------------------
   it("can access existing user by nickname", () => {
     const user = makeTestUser()
@@ -130,11 +240,12 @@ describe("Address Change Flow", () => {
 
     // Should be on the profile page
     cy.url().should("include", `/users/${user.expectedNickname}`)
-    cy.contains("h1", `${user.firstName} ${user.lastName}`)
+    cy.contains("h1 .name-part", user.firstName)
+    cy.contains("h1 .name-part", user.lastName)
   })
 
   // ---------------------------------------------------------------------------
-  // Test 4: Unknown User Shows Error
+  // Test 7: Unknown User Shows Error
   // ---------------------------------------------------------------------------
   it("shows error for unknown user", () => {
     // Navigate directly to a non-existent user
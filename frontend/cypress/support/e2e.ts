@@ -9,9 +9,6 @@
 // - Before/after hooks that apply to all tests
 //
 
-// Import Cypress commands (if we add custom ones later)
-// import './commands'
-
 // -----------------------------------------------------------------------------
 // Global Before Each
 // -----------------------------------------------------------------------------
@@ -22,20 +19,29 @@ beforeEach(() => {
 })
 
 // -----------------------------------------------------------------------------
-// Custom Commands (examples for future use)
+// Custom Commands
 // -----------------------------------------------------------------------------
 
-// Example: cy.createUser({ email, firstName, lastName })
-// Cypress.Commands.add('createUser', (user) => {
-//   cy.request('POST', 'http://localhost:3000/users', user)
-// })
+// cy.logIn(nickname, email): ask for a login link, read it from the backend's
+// maildrop (the loginTokenFor task, see cypress.config.ts) and use it, as the
+// user would — so the backend must run with EMAIL_ADAPTER=maildrop.
+Cypress.Commands.add("logIn", (nickname: string, email: string) => {
+  cy.request("POST", "/api/auth/login", { nickname })
+  cy.task<string | null>("loginTokenFor", email).then((token) => {
+    expect(token, `login link emailed to ${email} — is the backend on EMAIL_ADAPTER=maildrop?`).to.be.a("string")
+    cy.visit(`/login/${token}`)
+  })
+  cy.contains("button", "Log In").click()
+  cy.url().should("include", `/users/${nickname}`)
+})
 
 // Declare types for custom commands
 declare global {
+  // Cypress's own typings are a global namespace — augmenting it is the only way
+  // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace Cypress {
     interface Chainable {
-      // Add custom command types here
-      // createUser(user: { email: string; firstName: string; lastName: string }): Chainable<void>
+      logIn(nickname: string, email: string): Chainable<void>
     }
   }
 }
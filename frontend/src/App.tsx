@@ -3,6 +3,7 @@ import { Home } from './pages/Home'
 import { DemoFunnel } from './pages/DemoFunnel'
 import { Profile } from './pages/Profile'
 import { Revert } from './pages/Revert'
+import { Login } from './pages/Login'
 
 function App() {
   return (
@@ -11,6 +12,7 @@ function App() {
       <Route path="/users/:nickname" element={<Profile />} />
       <Route path="/demo" element={<DemoFunnel />} />
       <Route path="/revert/:token" element={<Revert />} />
+      <Route path="/login/:token" element={<Login />} />
     </Routes>
   )
 }
@@ -1,138 +1,186 @@
 // =============================================================================
-// API Client — Simple fetch wrappers for backend calls
+// API Client — derived from the backend's HttpApi definition
 // =============================================================================
+//
+// Nothing here is hand-copied: paths, payloads, responses and each endpoint's
+// error union come from `Api` (backend-pure-es/src/http/Api.ts) through
+// HttpApiClient. Change a schema there and this file — and every page using
+// it — stops compiling until the change is handled.
+//
+// Every call resolves to an Either instead of throwing. The Left is the
+// endpoint's typed error union (UserNotFoundError, RevertConflictError, ...)
+// plus the client's own failures: the request didn't go through
+// (RequestError / ResponseError), or the input or the response didn't match
+// its schema (ParseError, HttpApiDecodeError). All of them carry a `message`.
+//
+// Once logged in, every request carries the session token as a bearer
+// credential — the server decides which endpoints need it (see Authorization
+// in Api.ts). It lives in localStorage so a reload doesn't log you out.
+//
+
+import { FetchHttpClient, HttpApiClient, HttpClient, HttpClientRequest } from '@effect/platform'
+import { Effect, Either, Schema } from 'effect'
+import * as Contract from '../../backend-pure-es/src/http/Api'
 
 const API_BASE = '/api'
 
 // -----------------------------------------------------------------------------
-// Types (mirror backend schemas)
+// Client
 // -----------------------------------------------------------------------------
 
-export interface CreateUserRequest {
-  email: string
-  firstName: string
-  lastName: string
-}
+// Read at request time, not at startup: logging in or out takes effect on the next call
+const withSession = HttpClient.mapRequest((request) => {
+  const session = getSession()
+  return session ? HttpClientRequest.bearerToken(request, session.sessionToken) : request
+})
 
-export interface CreateUserResponse {
-  nickname: string
-  email: string
-  firstName: string
-  lastName: string
-}
+const client = HttpApiClient.make(Contract.Api, { baseUrl: API_BASE, transformClient: withSession })
 
-export interface CreateAddressRequest {
-  label: string
-  streetNumber: string
-  streetName: string
-  zipCode: string
-  city: string
-  country: string
-}
+type Client = Effect.Effect.Success<typeof client>
 
-export interface CreateAddressResponse {
-  label: string
-  streetNumber: string
-  streetName: string
-  zipCode: string
-  city: string
-  country: string
-}
+const call = <A, E>(f: (client: Client) => Effect.Effect<A, E>): Promise<Either.Either<A, E>> =>
+  client.pipe(
+    Effect.flatMap(f),
+    Effect.either,
+    Effect.provide(FetchHttpClient.layer),
+    Effect.runPromise
+  )
 
-export interface UpdateAddressFieldRequest {
-  field: 'label' | 'streetNumber' | 'streetName' | 'zipCode' | 'city' | 'country'
-  value: string
-}
+// Forms hold plain strings; the payloads are branded (Email, Label, ...). The
+// same schema the server validates with decodes them here first — invalid
+// input fails with a ParseError before any request is sent.
+const decode = <A, I>(schema: Schema.Schema<A, I>) => Schema.decode(schema)
 
-export interface UpdateAddressFieldResponse {
-  field: string
-  oldValue: string
-  newValue: string
-}
+// -----------------------------------------------------------------------------
+// Session
+// -----------------------------------------------------------------------------
+
+const SESSION_KEY = 'session'
 
-export interface RevertChangeResponse {
-  reverted: boolean
-  message: string
-  nickname: string
+export interface Session {
+  readonly sessionToken: string
+  readonly nickname: string
+  readonly expiresAt: string
 }
 
-export interface GetUserResponse {
-  user: {
-    email: string
-    firstName: string
-    lastName: string
+// The server has the last word (logout elsewhere, expiry): a stored session
+// is only a guess that we're logged in, dropped once its expiresAt is past
+export const getSession = (): Session | null => {
+  const stored = localStorage.getItem(SESSION_KEY)
+  if (stored === null) return null
+  const session = JSON.parse(stored) as Session
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    localStorage.removeItem(SESSION_KEY)
+    return null
   }
-  addresses: Array<{
-    label: string
-    streetNumber: string
-    streetName: string
-    zipCode: string
-    city: string
-    country: string
-  }>
+  return session
 }
 
-export interface ApiError {
-  _tag: string
-  message: string
-}
+const saveSession = (session: Session | null) =>
+  session === null
+    ? localStorage.removeItem(SESSION_KEY)
+    : localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+
+// -----------------------------------------------------------------------------
+// Types (derived — see above)
+// -----------------------------------------------------------------------------
+
+type Call = (...args: never) => Promise<Either.Either<unknown, unknown>>
+type Success<F extends Call> = Either.Either.Right<Awaited<ReturnType<F>>>
+type Failure<F extends Call> = Either.Either.Left<Awaited<ReturnType<F>>>
+
+export type CreateUserRequest = typeof Contract.CreateUserRequest.Encoded
+export type UpdateUserNameRequest = typeof Contract.UpdateUserNameRequest.Encoded
+export type CreateAddressRequest = typeof Contract.CreateAddressRequest.Encoded
+export type UpdateAddressFieldRequest = typeof Contract.UpdateAddressFieldRequest.Encoded
+export type ChangeAddressRequest = typeof Contract.ChangeAddressRequest.Encoded
+
+export type CreateUserResponse = Success<typeof createUser>
+export type GetUserResponse = Success<typeof getUser>
+export type RevertPreviewResponse = Success<typeof previewRevert>
+export type RevertPreviewAddress = Extract<RevertPreviewResponse['change'], { _tag: 'Creation' }>['address']
+export type AddressHistoryEntry = Success<typeof getAddressHistory>['entries'][number]
+
+export type LogInResponse = Success<typeof logIn>
+
+export type RevertChangeError = Failure<typeof revertChange>
+export type { RevertConflictError } from '../../backend-pure-es/src/http/Api'
 
 // -----------------------------------------------------------------------------
 // API Functions
 // -----------------------------------------------------------------------------
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const error = await response.json() as ApiError
-    throw error
+export const createUser = (data: CreateUserRequest) =>
+  call((client) => Effect.flatMap(decode(Contract.CreateUserRequest)(data), (payload) => client.users.createUser({ payload })))
+
+// The payload is a union (firstName | lastName), so the client's request type
+// is a union of requests — narrow to one before building it.
+// A rename changes the nickname: the stored session follows it.
+export const updateUserName = async (nickname: string, data: UpdateUserNameRequest) => {
+  const response = await call((client) =>
+    Effect.flatMap(decode(Contract.UpdateUserNameRequest)(data), (payload) =>
+      payload.field === 'firstName'
+        ? client.users.updateUserName({ path: { nickname }, payload })
+        : client.users.updateUserName({ path: { nickname }, payload })))
+  const session = getSession()
+  if (Either.isRight(response) && session?.nickname === nickname) {
+    saveSession({ ...session, nickname: response.right.nickname })
   }
-  return response.json() as Promise<T>
+  return response
 }
 
-export async function createUser(data: CreateUserRequest): Promise<CreateUserResponse> {
-  const response = await fetch(`${API_BASE}/users`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data)
-  })
-  return handleResponse<CreateUserResponse>(response)
-}
+export const getUser = (nickname: string) =>
+  call((client) => client.users.getUser({ path: { nickname }, urlParams: {} }))
 
-export async function createAddress(
-  nickname: string,
-  data: CreateAddressRequest
-): Promise<CreateAddressResponse> {
-  const response = await fetch(`${API_BASE}/users/${nickname}/addresses`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data)
-  })
-  return handleResponse<CreateAddressResponse>(response)
-}
+export const createAddress = (nickname: string, data: CreateAddressRequest) =>
+  call((client) =>
+    Effect.flatMap(decode(Contract.CreateAddressRequest)(data), (payload) =>
+      client.addresses.createAddress({ path: { nickname }, payload })))
 
-export async function updateAddressField(
+export const updateAddressField = (nickname: string, label: string, payload: UpdateAddressFieldRequest) =>
+  call((client) => client.addresses.updateAddressField({ path: { nickname, label }, payload }))
+
+export const changeAddress = (nickname: string, label: string, data: ChangeAddressRequest) =>
+  call((client) =>
+    Effect.flatMap(decode(Contract.ChangeAddressRequest)(data), (payload) =>
+      client.addresses.changeAddress({ path: { nickname, label }, payload })))
+
+export const deleteAddress = (nickname: string, label: string) =>
+  call((client) => client.addresses.deleteAddress({ path: { nickname, label } }))
+
+// Newest first; pass nextBefore back as `before` for the next (older) page
+export const getAddressHistory = (
   nickname: string,
   label: string,
-  data: UpdateAddressFieldRequest
-): Promise<UpdateAddressFieldResponse> {
-  const response = await fetch(`${API_BASE}/users/${nickname}/addresses/${label}`, {
-    method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data)
-  })
-  return handleResponse<UpdateAddressFieldResponse>(response)
-}
-
-export async function revertChange(token: string): Promise<RevertChangeResponse> {
-  const response = await fetch(`${API_BASE}/revert/${token}`, {
-    method: 'POST'
-  })
-  return handleResponse<RevertChangeResponse>(response)
+  options: { before?: number; limit?: number } = {}
+) =>
+  call((client) => client.addresses.getAddressHistory({ path: { nickname, label }, urlParams: options }))
+
+// What revertChange would undo — read-only, doesn't use up the token
+export const previewRevert = (token: string) =>
+  call((client) => client.addresses.previewRevert({ path: { token } }))
+
+export const revertChange = (token: string, options: { force?: boolean } = {}) =>
+  call((client) => client.addresses.revertChange({ path: { token }, urlParams: options }))
+
+// Emails a login link; the response only says when it stops working
+export const requestLoginLink = (nickname: string) =>
+  call((client) => client.auth.requestLoginLink({ payload: { nickname } }))
+
+// Exchanges the emailed token for a session, and keeps it for later calls
+export const logIn = async (token: string) => {
+  const response = await call((client) => client.auth.logIn({ path: { token } }))
+  if (Either.isRight(response)) {
+    const { sessionToken, nickname, expiresAt } = response.right
+    saveSession({ sessionToken, nickname, expiresAt: expiresAt.toISOString() })
+  }
+  return response
 }
 
-export async function getUser(nickname: string): Promise<GetUserResponse> {
-  const response = await fetch(`${API_BASE}/users/${nickname}`, {
-    method: 'GET'
-  })
-  return handleResponse<GetUserResponse>(response)
+// Forgets the session even if the server call fails: an unreachable or
+// already-closed session is no reason to stay "logged in" here
+export const logOut = async () => {
+  const response = await call((client) => client.auth.logOut())
+  saveSession(null)
+  return response
 }
@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { Link } from 'react-router-dom'
+import { Either } from 'effect'
 import * as api from '../api'
 import './DemoFunnel.css'
 
@@ -23,7 +24,7 @@ interface Address {
   country: string
 }
 
-type Step = 'create-user' | 'create-address' | 'update-address' | 'revert'
+type Step = 'create-user' | 'log-in' | 'create-address' | 'update-address' | 'revert'
 
 // =============================================================================
 // DemoFunnel Component
@@ -55,13 +56,58 @@ export function DemoFunnel() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.createUser(userForm)
+      const response = await api.createUser(userForm)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to create user')
+        return
+      }
+      const result = response.right
       setUser(result)
       setMessage(`User created: ${result.nickname}`)
+      setStep('log-in')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // -----------------------------------------------------------------------------
+  // Log In (magic link: request it, then paste the token from the console)
+  // -----------------------------------------------------------------------------
+  const [linkRequested, setLinkRequested] = useState(false)
+  const [loginToken, setLoginToken] = useState('')
+
+  const handleRequestLoginLink = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.requestLoginLink(user.nickname)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to send login link')
+        return
+      }
+      setLinkRequested(true)
+      setMessage(`Login link sent, valid until ${response.right.expiresAt.toLocaleTimeString()} - Check console for email!`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLogIn = async () => {
+    if (!loginToken) {
+      setError('Please enter the login token from the console email')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.logIn(loginToken)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to log in')
+        return
+      }
+      setMessage(`Logged in as ${response.right.nickname} - LoggedIn recorded on the User stream`)
       setStep('create-address')
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to create user')
     } finally {
       setLoading(false)
     }
@@ -84,13 +130,15 @@ export function DemoFunnel() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.createAddress(user.nickname, addressForm)
+      const response = await api.createAddress(user.nickname, addressForm)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to create address')
+        return
+      }
+      const result = response.right
       setAddress(result)
       setMessage(`Address created: ${result.label} - Check console for email!`)
       setStep('update-address')
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to create address')
     } finally {
       setLoading(false)
     }
@@ -107,16 +155,18 @@ export function DemoFunnel() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.updateAddressField(user.nickname, address.label, {
+      const response = await api.updateAddressField(user.nickname, address.label, {
         field: updateField,
         value: updateValue
       })
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to update address')
+        return
+      }
+      const result = response.right
       setMessage(`Field updated: ${result.field} changed from "${result.oldValue}" to "${result.newValue}" - Check console for FIELD-SPECIFIC email!`)
       setAddress(prev => prev ? { ...prev, [updateField]: updateValue } : null)
       setStep('revert')
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to update address')
     } finally {
       setLoading(false)
     }
@@ -135,11 +185,13 @@ export function DemoFunnel() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.revertChange(revertToken)
+      const response = await api.revertChange(revertToken)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to revert change')
+        return
+      }
+      const result = response.right
       setMessage(`${result.message} - Check console: NO EMAIL SENT! (corrections are silent)`)
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to revert change')
     } finally {
       setLoading(false)
     }
@@ -162,9 +214,10 @@ export function DemoFunnel() {
       {/* Progress Indicator */}
       <div className="progress">
         <span className={step === 'create-user' ? 'active' : user ? 'done' : ''}>1. Create User</span>
-        <span className={step === 'create-address' ? 'active' : address ? 'done' : ''}>2. Create Address</span>
-        <span className={step === 'update-address' ? 'active' : step === 'revert' ? 'done' : ''}>3. Update Field</span>
-        <span className={step === 'revert' ? 'active' : ''}>4. Revert</span>
+        <span className={step === 'log-in' ? 'active' : user && step !== 'create-user' ? 'done' : ''}>2. Log In</span>
+        <span className={step === 'create-address' ? 'active' : address ? 'done' : ''}>3. Create Address</span>
+        <span className={step === 'update-address' ? 'active' : step === 'revert' ? 'done' : ''}>4. Update Field</span>
+        <span className={step === 'revert' ? 'active' : ''}>5. Revert</span>
       </div>
 
       {/* Step 1: Create User */}
@@ -203,10 +256,40 @@ export function DemoFunnel() {
         </div>
       )}
 
-      {/* Step 2: Create Address */}
+      {/* Step 2: Log In */}
+      {step === 'log-in' && user && (
+        <div className="card">
+          <h2>Step 2: Log In as {user.nickname}</h2>
+          <p className="hint">No password: a one-time login link is emailed (check console).</p>
+          <p className="hint">Address changes need the session — only {user.nickname} can touch their addresses.</p>
+          <div className="form">
+            <button onClick={handleRequestLoginLink} disabled={loading}>
+              {loading && !linkRequested ? 'Sending...' : linkRequested ? 'Send Another Link' : 'Email Me a Login Link'}
+            </button>
+            {linkRequested && (
+              <>
+                <label>
+                  Login Token:
+                  <input
+                    type="text"
+                    value={loginToken}
+                    onChange={e => setLoginToken(e.target.value)}
+                    placeholder="Paste token from console email"
+                  />
+                </label>
+                <button onClick={handleLogIn} disabled={loading || !loginToken}>
+                  {loading ? 'Logging in...' : 'Log In'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: Create Address */}
       {step === 'create-address' && user && (
         <div className="card">
-          <h2>Step 2: Create Address for {user.nickname}</h2>
+          <h2>Step 3: Create Address for {user.nickname}</h2>
           <p className="hint">This will trigger an email (check console)</p>
           <div className="form">
             <label>
@@ -264,10 +347,10 @@ export function DemoFunnel() {
         </div>
       )}
 
-      {/* Step 3: Update Address Field */}
+      {/* Step 4: Update Address Field */}
       {step === 'update-address' && user && address && (
         <div className="card">
-          <h2>Step 3: Update Address Field</h2>
+          <h2>Step 4: Update Address Field</h2>
           <p className="hint">This will trigger a FIELD-SPECIFIC email (check console)</p>
           <div className="current-address">
             <strong>Current Address ({address.label}):</strong>
@@ -303,10 +386,10 @@ export function DemoFunnel() {
         </div>
       )}
 
-      {/* Step 4: Revert Change */}
+      {/* Step 5: Revert Change */}
       {step === 'revert' && (
         <div className="card">
-          <h2>Step 4: Revert Change</h2>
+          <h2>Step 5: Revert Change</h2>
           <p className="hint">Copy the revert token from the console email and paste it here.</p>
           <p className="hint"><strong>THE KEY INSIGHT:</strong> After reverting, NO email will be sent!</p>
           <div className="form">
@@ -337,6 +420,8 @@ export function DemoFunnel() {
             setMessage(null)
             setError(null)
             setRevertToken('')
+            setLinkRequested(false)
+            setLoginToken('')
           }}
         >
           Reset Demo
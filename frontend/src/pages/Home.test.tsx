@@ -17,6 +17,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen } from '../test/utils'
 import userEvent from '@testing-library/user-event'
+import { Either } from 'effect'
+import { UserAlreadyExistsError } from '../../../backend-pure-es/src/http/Api'
 import { Home } from './Home'
 
 // Mock the API module
@@ -56,12 +58,12 @@ describe('Home', () => {
     const user = userEvent.setup()
 
     // Mock successful API response
-    vi.mocked(api.createUser).mockResolvedValueOnce({
+    vi.mocked(api.createUser).mockResolvedValueOnce(Either.right({
       nickname: 'jean-dupont',
       email: 'jean.dupont@example.com',
       firstName: 'Jean',
       lastName: 'Dupont'
-    })
+    } as api.CreateUserResponse))
 
     render(<Home />)
 
@@ -82,11 +84,10 @@ describe('Home', () => {
   it('displays error message when API fails', async () => {
     const user = userEvent.setup()
 
-    // Mock API failure
-    vi.mocked(api.createUser).mockRejectedValueOnce({
-      _tag: 'UserAlreadyExists',
-      message: 'User already exists'
-    })
+    // Mock API failure — the endpoint's typed error, as the client returns it
+    vi.mocked(api.createUser).mockResolvedValueOnce(
+      Either.left(new UserAlreadyExistsError({ message: 'User already exists' }))
+    )
 
     render(<Home />)
 
@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Either } from 'effect'
 import * as api from '../api'
 import './Home.css'
 
@@ -23,11 +24,13 @@ export function Home() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.createUser(userForm)
+      const response = await api.createUser(userForm)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to create user')
+        return
+      }
+      const result = response.right
       navigate(`/users/${result.nickname}`)
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to create user')
     } finally {
       setLoading(false)
     }
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { Either } from 'effect'
+import * as api from '../api'
+import './Revert.css' // Same card as the revert page
+
+type Status = 'confirm' | 'logging-in' | 'error'
+
+// Landing page of the emailed login link. Like a revert link, opening it
+// does nothing by itself — the token is used up by the button's POST, not
+// by whatever (a mail scanner, a preview) fetched the page.
+export function Login() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const [status, setStatus] = useState<Status>(token ? 'confirm' : 'error')
+  const [message, setMessage] = useState(token ? '' : 'No login token provided')
+
+  const logIn = (token: string) => {
+    setStatus('logging-in')
+    api.logIn(token)
+      .then((response) => {
+        if (Either.isRight(response)) {
+          navigate(`/users/${response.right.nickname}`, { replace: true })
+          return
+        }
+        setStatus('error')
+        setMessage(response.left.message || 'Failed to log in')
+      })
+  }
+
+  return (
+    <div className="revert-container">
+      <div className="revert-card">
+        {status === 'logging-in' && (
+          <>
+            <div className="spinner" />
+            <h1>Logging in...</h1>
+            <p>Please wait</p>
+          </>
+        )}
+
+        {status === 'confirm' && token && (
+          <>
+            <div className="icon warning-icon">?</div>
+            <h1>Log in?</h1>
+            <p>This link logs you in once, on this browser.</p>
+            <button type="button" className="btn" onClick={() => logIn(token)}>
+              Log In
+            </button>
+            <Link to="/" className="btn btn-secondary">Cancel</Link>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <div className="icon error-icon">&#10007;</div>
+            <h1>Login Failed</h1>
+            <p>{message}</p>
+            <p className="note">The link may have already been used or expired — ask for a new one.</p>
+            <Link to="/" className="btn">Go to Home</Link>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { Link, useParams, useNavigate } from 'react-router-dom'
+import { Either } from 'effect'
 import * as api from '../api'
 import './Profile.css'
 
@@ -23,7 +24,10 @@ interface Address {
   country: string
 }
 
-type AddressField = 'streetNumber' | 'streetName' | 'zipCode' | 'city' | 'country'
+type AddressField = 'label' | 'streetNumber' | 'streetName' | 'zipCode' | 'city' | 'country'
+
+// The card's rows — the label is edited in the card's header instead
+const rowFields: AddressField[] = ['streetNumber', 'streetName', 'zipCode', 'city', 'country']
 
 interface EditingState {
   addressLabel: string
@@ -31,6 +35,21 @@ interface EditingState {
   value: string
 }
 
+type NameField = 'firstName' | 'lastName'
+
+interface EditingNameState {
+  field: NameField
+  value: string
+}
+
+// The history drawer: one address's timeline, loaded a page at a time
+interface HistoryState {
+  addressLabel: string
+  entries: ReadonlyArray<api.AddressHistoryEntry>
+  total: number
+  nextBefore: number | null
+}
+
 // =============================================================================
 // Profile Component
 // =============================================================================
@@ -49,9 +68,14 @@ export function Profile() {
   const [error, setError] = useState<string | null>(null)
   const [toast, setToast] = useState<string | null>(null)
   const [editing, setEditing] = useState<EditingState | null>(null)
+  const [editingName, setEditingName] = useState<EditingNameState | null>(null)
   const [showAddAddress, setShowAddAddress] = useState(false)
   const [revertToken, setRevertToken] = useState('')
   const [showRevertModal, setShowRevertModal] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null) // label of the address to delete
+  const [history, setHistory] = useState<HistoryState | null>(null)
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [session, setSession] = useState(api.getSession())
 
   // ---------------------------------------------------------------------------
   // Load user on mount from URL nickname param
@@ -63,17 +87,23 @@ export function Profile() {
     }
 
     api.getUser(nickname)
-      .then(result => {
+      .then(response => {
+        if (Either.isLeft(response)) {
+          setError(`User "${nickname}" not found`)
+          return
+        }
+        const result = response.right
+        // An old nickname (from before a rename) still works — move the URL to the current one
+        if (result.nickname !== nickname) {
+          navigate(`/users/${result.nickname}`, { replace: true })
+        }
         setUser({
-          nickname: nickname,
+          nickname: result.nickname,
           email: result.user.email,
           firstName: result.user.firstName,
           lastName: result.user.lastName
         })
-        setAddresses(result.addresses)
-      })
-      .catch(() => {
-        setError(`User "${nickname}" not found`)
+        setAddresses([...result.addresses])
       })
       .finally(() => {
         setInitialLoading(false)
@@ -106,15 +136,17 @@ export function Profile() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.createAddress(user.nickname, addressForm)
+      const response = await api.createAddress(user.nickname, addressForm)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to add address')
+        return
+      }
+      const result = response.right
       setAddresses(prev => [...prev, result])
       setShowAddAddress(false)
       showToast(`Address "${result.label}" created — check console for email!`)
       // Reset form for next address
       setAddressForm(f => ({ ...f, label: `address-${addresses.length + 2}` }))
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to add address')
     } finally {
       setLoading(false)
     }
@@ -140,21 +172,105 @@ export function Profile() {
     setLoading(true)
     setError(null)
     try {
-      const result = await api.updateAddressField(user.nickname, editing.addressLabel, {
+      const response = await api.updateAddressField(user.nickname, editing.addressLabel, {
         field: editing.field,
         value: editing.value
       })
-      // Update local state
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to update field')
+        return
+      }
+      const result = response.right
+      // Update local state — a label change re-keys the card under its new label
       setAddresses(prev => prev.map(addr =>
         addr.label === editing.addressLabel
-          ? { ...addr, [editing.field]: editing.value }
+          ? { ...addr, [editing.field]: result.newValue }
           : addr
       ))
       setEditing(null)
       showToast(`${editing.field} updated: "${result.oldValue}" → "${result.newValue}" — check console!`)
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to update field')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // -----------------------------------------------------------------------------
+  // Delete Address (after confirmation — the email carries a restore link)
+  // -----------------------------------------------------------------------------
+  const handleDelete = async () => {
+    if (!user || !confirmDelete) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.deleteAddress(user.nickname, confirmDelete)
+      if (Either.isLeft(response)) {
+        setConfirmDelete(null)
+        setError(response.left.message || 'Failed to delete address')
+        return
+      }
+      const result = response.right
+      setAddresses(prev => prev.filter(addr => addr.label !== result.label))
+      setConfirmDelete(null)
+      showToast(`Address "${result.label}" deleted — check console for email (with a restore link)!`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // -----------------------------------------------------------------------------
+  // Edit Name (no email — just fixing a typo)
+  // -----------------------------------------------------------------------------
+  const saveName = async () => {
+    if (!user || !editingName) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.updateUserName(user.nickname, editingName)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to update name')
+        return
+      }
+      const result = response.right
+      setUser({ ...user, [editingName.field]: result.newValue, nickname: result.nickname })
+      setEditingName(null)
+      setSession(api.getSession()) // api.updateUserName moved it to the new nickname
+      // A rename changes the nickname — the old URL would keep working, but show the new one
+      if (result.nickname !== user.nickname) {
+        navigate(`/users/${result.nickname}`, { replace: true })
+      }
+      showToast(`Name updated: "${result.oldValue}" → "${result.newValue}"`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // -----------------------------------------------------------------------------
+  // Log In / Log Out
+  // -----------------------------------------------------------------------------
+  // Only the logged-in owner may change addresses; the server enforces it,
+  // the page just offers the login link (emailed to the address on file)
+  const handleRequestLogin = async () => {
+    if (!user) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.requestLoginLink(user.nickname)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to send login link')
+        return
+      }
+      showToast('Login link sent — check console for email!')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLogOut = async () => {
+    setLoading(true)
+    try {
+      await api.logOut()
+      setSession(null)
+      showToast('Logged out')
     } finally {
       setLoading(false)
     }
@@ -168,22 +284,61 @@ export function Profile() {
     setLoading(true)
     setError(null)
     try {
-      await api.revertChange(revertToken)
+      const response = await api.revertChange(revertToken)
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to revert')
+        return
+      }
       setShowRevertModal(false)
       setRevertToken('')
       showToast('Change reverted — NO email sent! (corrections are silent)')
-    } catch (e: unknown) {
-      const err = e as api.ApiError
-      setError(err.message || 'Failed to revert')
     } finally {
       setLoading(false)
     }
   }
 
+  // -----------------------------------------------------------------------------
+  // Address History (newest first — "Load older" fetches the next page)
+  // -----------------------------------------------------------------------------
+  const openHistory = async (label: string) => {
+    if (!user) return
+    setHistory({ addressLabel: label, entries: [], total: 0, nextBefore: null })
+    setHistoryLoading(true)
+    try {
+      const response = await api.getAddressHistory(user.nickname, label)
+      if (Either.isLeft(response)) {
+        setHistory(null)
+        setError(response.left.message || 'Failed to load history')
+        return
+      }
+      const page = response.right
+      setHistory({ addressLabel: label, ...page })
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const loadOlderHistory = async () => {
+    if (!user || !history || history.nextBefore === null) return
+    setHistoryLoading(true)
+    try {
+      const response = await api.getAddressHistory(user.nickname, history.addressLabel, { before: history.nextBefore })
+      if (Either.isLeft(response)) {
+        setError(response.left.message || 'Failed to load history')
+        return
+      }
+      const page = response.right
+      setHistory({ ...history, entries: [...history.entries, ...page.entries], nextBefore: page.nextBefore })
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
   // -----------------------------------------------------------------------------
   // Field label helper
   // -----------------------------------------------------------------------------
   const fieldLabels: Record<AddressField, string> = {
+    label: 'Label',
     streetNumber: 'Street #',
     streetName: 'Street',
     zipCode: 'Zip',
@@ -233,13 +388,52 @@ export function Profile() {
       <div className="profile-header">
         <div className="avatar">{user.firstName[0]}{user.lastName[0]}</div>
         <div className="user-info">
-          <h1>{user.firstName} {user.lastName}</h1>
+          {editingName ? (
+            <div className="field-edit name-edit">
+              <input
+                type="text"
+                value={editingName.value}
+                onChange={e => setEditingName({ ...editingName, value: e.target.value })}
+                aria-label={editingName.field === 'firstName' ? 'First name' : 'Last name'}
+                autoFocus
+              />
+              <button className="btn-save" onClick={saveName} disabled={loading || !editingName.value.trim()}>
+                {loading ? '...' : '✓'}
+              </button>
+              <button className="btn-cancel" onClick={() => setEditingName(null)}>✕</button>
+            </div>
+          ) : (
+            <h1>
+              {(['firstName', 'lastName'] as NameField[]).map(field => (
+                <span key={field} className="name-part">
+                  {user[field]}
+                  <button
+                    className="btn-edit"
+                    onClick={() => setEditingName({ field, value: user[field] })}
+                    title={field === 'firstName' ? 'Edit first name' : 'Edit last name'}
+                  >
+                    ✏️
+                  </button>
+                </span>
+              ))}
+            </h1>
+          )}
           <p className="email">{user.email}</p>
         </div>
-        <Link to="/" className="switch-link">Home</Link>
+        <div className="session-controls">
+          {session?.nickname === user.nickname ? (
+            <button className="btn-secondary" onClick={handleLogOut} disabled={loading}>Log Out</button>
+          ) : (
+            <button className="btn-secondary" onClick={handleRequestLogin} disabled={loading}>Log In</button>
+          )}
+          <Link to="/" className="switch-link">Home</Link>
+        </div>
       </div>
 
       {error && <div className="error">{error}</div>}
+      {session?.nickname !== user.nickname && (
+        <p className="login-hint">Log in as {user.nickname} to change these addresses.</p>
+      )}
 
       {/* Addresses Section */}
       <section className="addresses-section">
@@ -258,10 +452,49 @@ export function Profile() {
           <div key={address.label} className="address-card">
             <div className="address-label">
               <span className="label-icon">📍</span>
-              {address.label}
+              {editing?.addressLabel === address.label && editing.field === 'label' ? (
+                <div className="field-edit">
+                  <input
+                    type="text"
+                    value={editing.value}
+                    onChange={e => setEditing({ ...editing, value: e.target.value })}
+                    aria-label="Label"
+                    autoFocus
+                  />
+                  <button className="btn-save" onClick={saveEdit} disabled={loading || !editing.value.trim()}>
+                    {loading ? '...' : '✓'}
+                  </button>
+                  <button className="btn-cancel" onClick={cancelEditing}>✕</button>
+                </div>
+              ) : (
+                <>
+                  <span className="label-text">{address.label}</span>
+                  <button
+                    className="btn-edit"
+                    onClick={() => startEditing(address, 'label')}
+                    title="Rename address"
+                  >
+                    ✏️
+                  </button>
+                </>
+              )}
+              <button
+                className="btn-history"
+                onClick={() => openHistory(address.label)}
+                title={`History of ${address.label}`}
+              >
+                🕘 History
+              </button>
+              <button
+                className="btn-delete"
+                onClick={() => setConfirmDelete(address.label)}
+                title={`Delete ${address.label}`}
+              >
+                🗑️
+              </button>
             </div>
             <div className="address-fields">
-              {(['streetNumber', 'streetName', 'zipCode', 'city', 'country'] as AddressField[]).map(field => (
+              {rowFields.map(field => (
                 <div key={field} className="field-row">
                   <span className="field-label">{fieldLabels[field]}</span>
                   {editing?.addressLabel === address.label && editing.field === field ? (
@@ -369,6 +602,61 @@ export function Profile() {
         )}
       </section>
 
+      {/* History Drawer */}
+      {history && (
+        <div className="drawer-overlay" onClick={() => setHistory(null)}>
+          <aside className="drawer" onClick={e => e.stopPropagation()} aria-label="Address history">
+            <div className="drawer-header">
+              <h3>History — {history.addressLabel}</h3>
+              <button className="btn-cancel" onClick={() => setHistory(null)}>✕</button>
+            </div>
+            {history.entries.length === 0 && !historyLoading && (
+              <p className="empty-state">No changes recorded.</p>
+            )}
+            <ol className="timeline">
+              {history.entries.map(entry => (
+                <li key={entry.version} className="timeline-entry">
+                  <time dateTime={entry.recordedAt.toISOString()}>{entry.recordedAt.toLocaleString()}</time>
+                  <p>{entry.description}</p>
+                  <div className="timeline-badges">
+                    {entry.revertable && <span className="badge badge-revertable">Revertable</span>}
+                    {entry.revertedBy !== null && (
+                      <span className="badge">Reverted by #{entry.revertedBy}</span>
+                    )}
+                    {entry.reverts !== null && <span className="badge">Reverts #{entry.reverts}</span>}
+                    <span className="badge badge-version">#{entry.version}</span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {historyLoading && <p className="empty-state">Loading...</p>}
+            {history.nextBefore !== null && !historyLoading && (
+              <button className="btn-secondary" onClick={loadOlderHistory}>
+                Load older ({history.total - history.entries.length} more)
+              </button>
+            )}
+          </aside>
+        </div>
+      )}
+
+      {/* Delete Confirmation */}
+      {confirmDelete && (
+        <div className="modal-overlay" onClick={() => setConfirmDelete(null)}>
+          <div className="modal" onClick={e => e.stopPropagation()}>
+            <h3>Delete "{confirmDelete}"?</h3>
+            <p>You'll get an email with a link to restore it.</p>
+            <div className="modal-actions">
+              <button className="btn-danger" onClick={handleDelete} disabled={loading}>
+                {loading ? 'Deleting...' : 'Delete'}
+              </button>
+              <button className="btn-secondary" onClick={() => setConfirmDelete(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Revert Modal */}
       {showRevertModal && (
         <div className="modal-overlay" onClick={() => setShowRevertModal(false)}>
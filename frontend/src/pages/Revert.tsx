@@ -1,53 +1,142 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect } from 'react'
 import { useParams, Link } from 'react-router-dom'
+import { Either } from 'effect'
 import * as api from '../api'
 import './Revert.css'
 
+type Status = 'loading' | 'confirm' | 'reverting' | 'success' | 'conflict' | 'error'
+
+const formatAddress = (a: api.RevertPreviewAddress) =>
+  `${a.streetNumber} ${a.streetName}, ${a.zipCode} ${a.city}, ${a.country}`
+
+function ChangeDescription({ change }: { change: api.RevertPreviewResponse['change'] }) {
+  switch (change._tag) {
+    case 'FieldChange':
+      return (
+        <>
+          <p>
+            This will change <strong>{change.field}</strong> back
+            from <strong>{change.newValue}</strong> to <strong>{change.oldValue}</strong>.
+          </p>
+          {change.currentValue !== change.newValue && (
+            <p className="note">
+              {change.currentValue === null
+                ? 'The address has since been deleted.'
+                : `It has since been changed to ${change.currentValue}.`}
+            </p>
+          )}
+        </>
+      )
+    case 'AddressChange':
+      return (
+        <>
+          <p>This will change back, all together:</p>
+          <ul>
+            {change.changes.map((c) => (
+              <li key={c.field}>
+                <strong>{c.field}</strong> from <strong>{c.newValue}</strong> to <strong>{c.oldValue}</strong>
+                {c.currentValue !== c.newValue && (
+                  <span className="note">
+                    {' '}
+                    ({c.currentValue === null ? 'the address has since been deleted' : `since changed to ${c.currentValue}`})
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )
+    case 'Creation':
+      return (
+        <p>
+          This will remove the address <strong>{change.address.label}</strong> ({formatAddress(change.address)}).
+        </p>
+      )
+    case 'Deletion':
+      return (
+        <p>
+          This will restore the address <strong>{change.address.label}</strong> ({formatAddress(change.address)}).
+        </p>
+      )
+  }
+}
+
 export function Revert() {
   const { token } = useParams<{ token: string }>()
-  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading')
-  const [message, setMessage] = useState('')
+  const [status, setStatus] = useState<Status>(token ? 'loading' : 'error')
+  const [message, setMessage] = useState(token ? '' : 'No revert token provided')
   const [nickname, setNickname] = useState<string | null>(null)
+  const [preview, setPreview] = useState<api.RevertPreviewResponse | null>(null)
+  const [conflict, setConflict] = useState<api.RevertConflictError | null>(null)
 
-  // Guard against double-execution in React StrictMode
-  const hasCalledRef = useRef(false)
-
+  // Opening the link only PREVIEWS the revert (GET, side-effect free):
+  // mail-client link scanners and stray clicks must not use up the token.
   useEffect(() => {
-    if (!token) {
-      setStatus('error')
-      setMessage('No revert token provided')
-      return
-    }
+    if (!token) return // The initial state already says so
 
-    // Prevent double-execution (React StrictMode runs effects twice)
-    if (hasCalledRef.current) {
-      return
+    let cancelled = false
+    api.previewRevert(token)
+      .then((response) => {
+        if (cancelled) return
+        if (Either.isLeft(response)) {
+          setStatus('error')
+          setMessage(response.left.message || 'Failed to load change')
+          return
+        }
+        setPreview(response.right)
+        setStatus('confirm')
+      })
+    return () => {
+      cancelled = true
     }
-    hasCalledRef.current = true
+  }, [token])
 
-    api.revertChange(token)
-      .then((result) => {
-        setStatus('success')
-        setMessage(result.message)
-        setNickname(result.nickname)
-      })
-      .catch((err: api.ApiError) => {
+  const revert = (token: string, force: boolean) => {
+    setStatus('reverting')
+    api.revertChange(token, { force })
+      .then((response) => {
+        if (Either.isRight(response)) {
+          setStatus('success')
+          setMessage(response.right.message)
+          setNickname(response.right.nickname)
+          return
+        }
+        const err = response.left
+        // The field was changed again since the email: let the user decide
+        if (err._tag === 'RevertConflictError') {
+          setStatus('conflict')
+          setConflict(err)
+          return
+        }
         setStatus('error')
         setMessage(err.message || 'Failed to revert change')
       })
-  }, [token])
+  }
 
   return (
     <div className="revert-container">
       <div className="revert-card">
-        {status === 'loading' && (
+        {(status === 'loading' || status === 'reverting') && (
           <>
             <div className="spinner" />
-            <h1>Reverting change...</h1>
+            <h1>{status === 'loading' ? 'Loading change...' : 'Reverting change...'}</h1>
             <p>Please wait</p>
           </>
         )}
 
+        {status === 'confirm' && preview && token && (
+          <>
+            <div className="icon warning-icon">?</div>
+            <h1>Revert this change?</h1>
+            <ChangeDescription change={preview.change} />
+            <p className="note">Link valid until {new Date(preview.expiresAt).toLocaleString()}.</p>
+            <button type="button" className="btn" onClick={() => revert(token, false)}>
+              Revert
+            </button>
+            <Link to="/" className="btn btn-secondary">Cancel</Link>
+          </>
+        )}
+
         {status === 'success' && (
           <>
             <div className="icon success-icon">&#10003;</div>
@@ -60,6 +149,26 @@ export function Revert() {
           </>
         )}
 
+        {status === 'conflict' && conflict && (
+          <>
+            <div className="icon warning-icon">!</div>
+            <h1>Changed Since</h1>
+            <p>{conflict.message}</p>
+            <dl className="conflict-values">
+              <dt>This email set {conflict.field} to</dt>
+              <dd>{conflict.expectedValue}</dd>
+              <dt>It is now</dt>
+              <dd>{conflict.currentValue ?? '(address deleted)'}</dd>
+            </dl>
+            {conflict.currentValue !== null && token && (
+              <button type="button" className="btn" onClick={() => revert(token, true)}>
+                Revert anyway
+              </button>
+            )}
+            <Link to="/" className="btn btn-secondary">Leave it</Link>
+          </>
+        )}
+
         {status === 'error' && (
           <>
             <div className="icon error-icon">&#10007;</div>